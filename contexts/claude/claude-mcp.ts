@@ -10,13 +10,15 @@ import {
 
 export { WordCategory, DifficultyLevel, GrammarCategory };
 
-import Anthropic from '@anthropic-ai/sdk';
+import { LlmProvider } from '../../lib/llm-provider.js';
+import { AnthropicProvider } from '../../lib/anthropic-provider.js';
 
 interface ClaudeMcpConfig {
   apiKey: string;
   model: string;
   maxTokens: number;
   temperature: number;
+  llmProvider?: LlmProvider;
 }
 
 export enum ContextType {
@@ -38,14 +40,12 @@ export interface ContextOptions {
 }
 
 export class ClaudeMcp {
-  private anthropic: Anthropic;
+  private llm: LlmProvider;
   private config: ClaudeMcpConfig;
   
   constructor(config: ClaudeMcpConfig) {
     this.config = config;
-    this.anthropic = new Anthropic({
-      apiKey: config.apiKey
-    });
+    this.llm = config.llmProvider || new AnthropicProvider(config.apiKey, 1);
   }
   
   async getContext(options: ContextOptions): Promise<string> {
@@ -267,9 +267,9 @@ export class ClaudeMcp {
     const systemPrompt = `You are a helpful Spanish language tutor. Use the following Spanish language reference materials to help answer the user's question:\n\n${context}`;
     
     try {
-      const response = await this.anthropic.messages.create({
+      const completion = await this.llm.complete({
         model: this.config.model,
-        max_tokens: this.config.maxTokens,
+        maxTokens: this.config.maxTokens,
         temperature: this.config.temperature,
         system: systemPrompt,
         messages: [
@@ -277,11 +277,7 @@ export class ClaudeMcp {
         ]
       });
       
-      if (response.content[0].type === 'text') {
-        return response.content[0].text;
-      } else {
-        return "No text response received from Claude";
-      }
+      return completion.text;
     } catch (error) {
       console.error('Error querying Claude:', error);
       throw new Error('Failed to get response from Claude');
@@ -289,12 +285,13 @@ export class ClaudeMcp {
   }
 }
 
-export function createClaudeMcp(apiKey: string): ClaudeMcp {
+export function createClaudeMcp(apiKey: string, llmProvider?: LlmProvider): ClaudeMcp {
   const config: ClaudeMcpConfig = {
     apiKey,
     model: 'claude-3-opus-20240229',
     maxTokens: 1000,
-    temperature: 0.7
+    temperature: 0.7,
+    llmProvider
   };
   
   return new ClaudeMcp(config);
@@ -15,7 +15,7 @@ const rl = readline.createInterface({
 });
 
 const API_URL = 'http://localhost:3000';
-const GLOBAL_API_KEY = process.env.GLOBAL_API_KEY || 'default-api-key';
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
 const APPWRITE_ENDPOINT = process.env.NEXT_PUBLIC_APPWRITE_ENDPOINT || 'https://cloud.appwrite.io/v1';
 const APPWRITE_PROJECT_ID = process.env.NEXT_PUBLIC_APPWRITE_PROJECT_ID;
 
@@ -42,14 +42,20 @@ async function makeSessionRequest(endpoint, method = 'GET', data = null) {
   }
 }
 
-async function makeApiKeyRequest(endpoint, method = 'GET', data = null, userId) {
+async function makeApiKeyRequest(endpoint, method = 'GET', data = null, apiKey = null, adminKey = false) {
   try {
     const headers = {
-      'Content-Type': 'application/json',
-      'x-api-key': GLOBAL_API_KEY,
-      'x-user-id': userId
+      'Content-Type': 'application/json'
     };
     
+    if (apiKey) {
+      headers['x-api-key'] = apiKey;
+    }
+    
+    if (adminKey) {
+      headers['x-admin-key'] = ADMIN_API_KEY;
+    }
+    
     const response = await axios({
       method,
       url: `${API_URL}${endpoint}`,
@@ -79,10 +85,11 @@ async function createAppwriteUser(email, password, name, tier = 'free') {
       userId: user.$id,
       name,
       tier
-    }, user.$id);
+    }, null, true);
     
     if (result) {
-      console.log(`Set user tier to ${tier}`);
+      console.log(`Set user tier to ${tier} (API key ${result.keyPrefix})`);
+      user.apiKey = result.apiKey;
     }
     
     return user;
@@ -131,14 +138,14 @@ async function testWithSession() {
   }
 }
 
-async function testWithApiKey(userId) {
+async function testWithApiKey(apiKey) {
   console.log('\nTesting with API key authentication:');
   console.log('\n1. Making MCP query with API key:');
   const queryResult = await makeApiKeyRequest('/api/mcp/query', 'POST', {
     query: 'How do I say goodbye in Spanish?',
     contextType: 'vocabulary',
     categories: ['greeting']
-  }, userId);
+  }, apiKey);
   
   if (queryResult) {
     console.log('Query successful!');
@@ -241,11 +248,11 @@ async function main() {
       }
       
       case '3': {
-        const userId = await new Promise(resolve => {
-          rl.question('User ID: ', resolve);
+        const apiKey = await new Promise(resolve => {
+          rl.question('API key: ', resolve);
         });
         
-        await testWithApiKey(userId);
+        await testWithApiKey(apiKey);
         break;
       }
       
@@ -1,8 +1,8 @@
 /**
- * Single API Key Demo for Spanish Learning MCP
+ * API Key Demo for Spanish Learning MCP
  * 
- * This example demonstrates how to use the single API key approach
- * with different user tiers.
+ * This example demonstrates how to register users with different tiers
+ * and use the API key issued to each of them.
  */
 
 // Import required modules
@@ -17,26 +17,25 @@ const rl = readline.createInterface({
 
 // Configuration
 const API_URL = 'http://localhost:3000';
-const GLOBAL_API_KEY = process.env.GLOBAL_API_KEY || 'default-api-key';
 const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
 
-// Available users with different tiers
+// Available users with different tiers; API keys are filled in when the users are
+// registered, or can be given as environment variables
 const users = {
-  'free-user': { id: 'free-user', tier: 'free' },
-  'basic-user': { id: 'basic-user', tier: 'basic' },
-  'premium-user': { id: 'premium-user', tier: 'premium' }
+  'free-user': { id: 'free-user', tier: 'free', apiKey: process.env.FREE_USER_API_KEY },
+  'basic-user': { id: 'basic-user', tier: 'basic', apiKey: process.env.BASIC_USER_API_KEY },
+  'premium-user': { id: 'premium-user', tier: 'premium', apiKey: process.env.PREMIUM_USER_API_KEY }
 };
 
 // Helper function to make API requests
-async function makeRequest(endpoint, method = 'GET', data = null, userId = null, adminKey = false) {
+async function makeRequest(endpoint, method = 'GET', data = null, apiKey = null, adminKey = false) {
   try {
     const headers = {
       'Content-Type': 'application/json'
     };
     
-    if (userId) {
-      headers['x-api-key'] = GLOBAL_API_KEY;
-      headers['x-user-id'] = userId;
+    if (apiKey) {
+      headers['x-api-key'] = apiKey;
     }
     
     if (adminKey) {
@@ -74,7 +73,8 @@ async function registerUsers() {
     }, null, true);
     
     if (result) {
-      console.log(`Registered ${id} with ${user.tier} tier`);
+      user.apiKey = result.apiKey;
+      console.log(`Registered ${id} with ${user.tier} tier (API key ${result.keyPrefix})`);
     }
   }
   
@@ -89,6 +89,11 @@ async function testWithUser(userId) {
     return;
   }
   
+  if (!user.apiKey) {
+    console.error(`No API key for ${userId}; register the test users first`);
+    return;
+  }
+  
   console.log(`\nTesting with ${userId} (${user.tier} tier):`);
   
   // Test basic vocabulary query
@@ -98,7 +103,7 @@ async function testWithUser(userId) {
     contextType: 'vocabulary',
     categories: ['greeting'],
     maxItems: 50 // Will be limited based on tier
-  }, userId);
+  }, user.apiKey);
   
   if (vocabResult) {
     console.log('Response received!');
@@ -114,7 +119,7 @@ async function testWithUser(userId) {
       contextType: 'conversation',
       temperature: 0.7,
       maxTokens: 2000
-    }, userId);
+    }, user.apiKey);
     
     if (premiumResult) {
       console.log('Access granted (unexpected for non-premium user)');
@@ -128,7 +133,7 @@ async function testWithUser(userId) {
       contextType: 'conversation',
       temperature: 0.7,
       maxTokens: 2000
-    }, userId);
+    }, user.apiKey);
     
     if (premiumResult) {
       console.log('Premium feature access granted!');
@@ -139,7 +144,7 @@ async function testWithUser(userId) {
 
 // Main function
 async function main() {
-  console.log('Spanish Learning MCP - Single API Key Demo\n');
+  console.log('Spanish Learning MCP - API Key Demo\n');
   
   // Check server health
   const health = await makeRequest('/health');
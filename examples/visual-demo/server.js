@@ -23,6 +23,13 @@ const USERS = {
   'premium-user-789': { id: 'premium-user-789', name: 'Premium User', tier: 'premium' }
 };
 
+// API keys issued by POST /api/users when the sample users were registered
+const API_KEYS = {
+  'free-user-123': process.env.FREE_USER_API_KEY,
+  'basic-user-456': process.env.BASIC_USER_API_KEY,
+  'premium-user-789': process.env.PREMIUM_USER_API_KEY
+};
+
 // MCP server URL
 const MCP_SERVER_URL = process.env.MCP_SERVER_URL || 'http://localhost:3000';
 
@@ -39,11 +46,10 @@ app.use('/api', createProxyMiddleware({
     '^/api': '/api' // No rewrite needed if paths match
   },
   onProxyReq: (proxyReq, req, res) => {
-    // Add the global API key and user ID to the request
-    const userId = req.headers['x-user-id'];
-    if (userId) {
-      proxyReq.setHeader('x-api-key', process.env.GLOBAL_API_KEY || 'default-api-key');
-      proxyReq.setHeader('x-user-id', userId);
+    // Add the selected user's API key to the request
+    const apiKey = API_KEYS[req.headers['x-user-id']];
+    if (apiKey) {
+      proxyReq.setHeader('x-api-key', apiKey);
     }
   }
 }));
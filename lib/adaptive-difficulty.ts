@@ -0,0 +1,329 @@
+/**
+ * Adaptive difficulty for the Spanish Learning MCP Server
+ *
+ * Estimates a learner's level per skill on the CEFR scale (A1 to C2) from their
+ * exercise answers and conversation corrections, and picks the difficulty level for new
+ * exercises and conversations when the client doesn't ask for one.
+ *
+ * Each piece of evidence implies a level: its difficulty's center on the scale, moved up
+ * when the learner did better than TARGET_ACCURACY and down when they did worse. The
+ * estimate is the recency-weighted average of the implied levels. All functions are pure
+ * so they can be tested against a fixed clock.
+ */
+import { ExerciseAttempt } from './exercise-attempt-repository.js';
+import { Conversation } from './conversation-repository.js';
+import { CorrectionSeverity } from './conversation-corrections.js';
+import { HALF_LIFE_DAYS } from './learner-profile.js';
+import { CEFR_LEVELS, Difficulty } from './cefr.js';
+import { CefrLevel } from './appwrite.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SKILLS = ['vocabulary', 'grammar', 'conversation'] as const;
+
+export type Skill = typeof SKILLS[number];
+
+/**
+ * Position of each difficulty level on the scale, where A1 starts at 0 and C2 at 5
+ */
+const DIFFICULTY_CENTERS: Record<Difficulty, number> = {
+  beginner: 1,
+  intermediate: 3,
+  advanced: 5
+};
+
+/**
+ * Accuracy at which the evidence implies exactly its difficulty's center
+ */
+const TARGET_ACCURACY = 0.7;
+
+/**
+ * Levels gained or lost per 30 points of accuracy above or below the target
+ */
+const ACCURACY_SPREAD = 1 / 0.3;
+
+/**
+ * Share of a conversation message's accuracy lost to each correction
+ */
+const SEVERITY_PENALTIES: Record<CorrectionSeverity, number> = {
+  minor: 0.1,
+  moderate: 0.25,
+  major: 0.5
+};
+
+/**
+ * Answers or messages needed before a level is estimated
+ */
+const MIN_EVIDENCE = 5;
+
+/**
+ * Difficulty used when there isn't enough history to estimate a level
+ */
+export const DEFAULT_DIFFICULTY: Difficulty = 'intermediate';
+
+/**
+ * Mistake categories practiced as vocabulary or conversation; the others are grammar
+ */
+const CATEGORY_SKILLS: Record<string, Skill> = {
+  vocabulary: 'vocabulary',
+  conversation: 'conversation',
+  listening: 'conversation'
+};
+
+export interface LevelEstimate {
+  level: CefrLevel;
+  /**
+   * Position on the scale, from 0 (start of A1) to 6 (end of C2)
+   */
+  score: number;
+  difficultyLevel: Difficulty;
+  /**
+   * Number of answers or conversation messages the estimate is based on
+   */
+  evidence: number;
+  /**
+   * Recency-weighted accuracy of that evidence, as a percentage
+   */
+  accuracy: number;
+}
+
+export interface LearnerLevels {
+  overall: LevelEstimate | null;
+  skills: Record<Skill, LevelEstimate | null>;
+  /**
+   * Estimates for individual grammar categories with enough evidence
+   */
+  grammarCategories: Record<string, LevelEstimate>;
+}
+
+export interface DifficultyChoice {
+  difficultyLevel: Difficulty;
+  level: CefrLevel | null;
+  skill: Skill;
+  /**
+   * Which estimate the choice is based on
+   */
+  basis: 'category' | 'skill' | 'overall' | 'default';
+  rationale: string;
+}
+
+export interface DifficultyChoiceOptions {
+  /**
+   * Grammar category the exercise focuses on, used when it has its own estimate
+   */
+  category?: string;
+  /**
+   * Highest difficulty the learner's tier allows
+   */
+  maxDifficulty?: Difficulty;
+  tier?: string;
+}
+
+interface Evidence {
+  skill: Skill;
+  category?: string;
+  accuracy: number;
+  difficultyLevel: Difficulty;
+  at: Date;
+}
+
+const isDifficulty = (level: string): level is Difficulty => level in DIFFICULTY_CENTERS;
+
+const toDifficulty = (score: number): Difficulty => {
+  return score < 2 ? 'beginner' : score < 4 ? 'intermediate' : 'advanced';
+};
+
+/**
+ * The skill an exercise mistake category belongs to
+ */
+export const categorySkill = (category: string): Skill => CATEGORY_SKILLS[category] || 'grammar';
+
+const collectEvidence = (attempts: ExerciseAttempt[], conversations: Conversation[]): Evidence[] => {
+  const evidence: Evidence[] = [];
+
+  attempts.forEach(attempt => {
+    if (!isDifficulty(attempt.difficultyLevel)) {
+      return;
+    }
+
+    (attempt.results || []).forEach(result => {
+      evidence.push({
+        skill: categorySkill(result.category),
+        category: result.category,
+        accuracy: result.isCorrect ? 1 : 0,
+        difficultyLevel: attempt.difficultyLevel as Difficulty,
+        at: attempt.completedAt
+      });
+    });
+  });
+
+  conversations.forEach(conversation => {
+    if (!isDifficulty(conversation.difficultyLevel)) {
+      return;
+    }
+
+    // Only messages that were checked for corrections say anything about accuracy
+    conversation.messages
+      .filter(message => message.role === 'user' && message.corrections)
+      .forEach(message => {
+        const at = new Date(message.timestamp);
+        const penalty = message.corrections!.reduce(
+          (sum, correction) => sum + (SEVERITY_PENALTIES[correction.severity] ?? 0.25),
+          0
+        );
+
+        evidence.push({
+          skill: 'conversation',
+          accuracy: Math.max(1 - penalty, 0),
+          difficultyLevel: conversation.difficultyLevel as Difficulty,
+          at
+        });
+
+        // A correction is also a wrong answer in its grammar category
+        message.corrections!
+          .filter(correction => categorySkill(correction.category) === 'grammar')
+          .forEach(correction => {
+            evidence.push({
+              skill: 'grammar',
+              category: correction.category,
+              accuracy: 0,
+              difficultyLevel: conversation.difficultyLevel as Difficulty,
+              at
+            });
+          });
+      });
+  });
+
+  return evidence;
+};
+
+/**
+ * Estimate a level from evidence, or null if there isn't enough
+ */
+const estimate = (evidence: Evidence[], now: Date): LevelEstimate | null => {
+  if (evidence.length < MIN_EVIDENCE) {
+    return null;
+  }
+
+  let totalWeight = 0;
+  let weightedScore = 0;
+  let weightedAccuracy = 0;
+
+  evidence.forEach(item => {
+    const ageDays = Math.max(now.getTime() - item.at.getTime(), 0) / DAY_MS;
+    const weight = Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+    const implied = DIFFICULTY_CENTERS[item.difficultyLevel] + (item.accuracy - TARGET_ACCURACY) * ACCURACY_SPREAD;
+
+    totalWeight += weight;
+    weightedScore += weight * implied;
+    weightedAccuracy += weight * item.accuracy;
+  });
+
+  const score = Math.min(Math.max(weightedScore / totalWeight, 0), 6);
+
+  return {
+    level: CEFR_LEVELS[Math.min(Math.floor(score), CEFR_LEVELS.length - 1)],
+    score: Math.round(score * 10) / 10,
+    difficultyLevel: toDifficulty(score),
+    evidence: evidence.length,
+    accuracy: Math.round((weightedAccuracy / totalWeight) * 100)
+  };
+};
+
+/**
+ * Estimate a learner's level overall, per skill and per grammar category
+ */
+export const estimateLearnerLevels = (
+  attempts: ExerciseAttempt[],
+  conversations: Conversation[],
+  now: Date = new Date()
+): LearnerLevels => {
+  const evidence = collectEvidence(attempts, conversations);
+
+  const skills = Object.fromEntries(
+    SKILLS.map(skill => [skill, estimate(evidence.filter(item => item.skill === skill), now)])
+  ) as Record<Skill, LevelEstimate | null>;
+
+  const grammarCategories: Record<string, LevelEstimate> = {};
+  const categories = new Set(evidence.filter(item => item.skill === 'grammar' && item.category).map(item => item.category!));
+
+  categories.forEach(category => {
+    const categoryEstimate = estimate(evidence.filter(item => item.category === category), now);
+
+    if (categoryEstimate) {
+      grammarCategories[category] = categoryEstimate;
+    }
+  });
+
+  return {
+    overall: estimate(evidence, now),
+    skills,
+    grammarCategories
+  };
+};
+
+const describeEstimate = (estimate: LevelEstimate, subject: string): string => {
+  return `Estimated ${estimate.level} in ${subject} from ${estimate.evidence} answers and messages (${estimate.accuracy}% weighted accuracy).`;
+};
+
+/**
+ * Pick a difficulty level for a skill
+ *
+ * Uses the estimate for the grammar category when there is one, then the skill, then the
+ * learner's overall level, and the default difficulty without enough history. The result
+ * is lowered to the tier's maximum difficulty.
+ */
+export const chooseDifficulty = (
+  levels: LearnerLevels,
+  skill: Skill,
+  options: DifficultyChoiceOptions = {}
+): DifficultyChoice => {
+  const { category, maxDifficulty, tier } = options;
+  const categoryEstimate = category && skill === 'grammar' ? levels.grammarCategories[category] : undefined;
+
+  let choice: DifficultyChoice;
+
+  if (categoryEstimate) {
+    choice = {
+      difficultyLevel: categoryEstimate.difficultyLevel,
+      level: categoryEstimate.level,
+      skill,
+      basis: 'category',
+      rationale: describeEstimate(categoryEstimate, category!)
+    };
+  } else if (levels.skills[skill]) {
+    choice = {
+      difficultyLevel: levels.skills[skill]!.difficultyLevel,
+      level: levels.skills[skill]!.level,
+      skill,
+      basis: 'skill',
+      rationale: describeEstimate(levels.skills[skill]!, skill)
+    };
+  } else if (levels.overall) {
+    choice = {
+      difficultyLevel: levels.overall.difficultyLevel,
+      level: levels.overall.level,
+      skill,
+      basis: 'overall',
+      rationale: `Not enough ${skill} history yet. ${describeEstimate(levels.overall, 'all skills')}`
+    };
+  } else {
+    choice = {
+      difficultyLevel: DEFAULT_DIFFICULTY,
+      level: null,
+      skill,
+      basis: 'default',
+      rationale: `Not enough history to estimate a level yet, so the default ${DEFAULT_DIFFICULTY} level was used.`
+    };
+  }
+
+  if (maxDifficulty && DIFFICULTY_CENTERS[choice.difficultyLevel] > DIFFICULTY_CENTERS[maxDifficulty]) {
+    return {
+      ...choice,
+      difficultyLevel: maxDifficulty,
+      rationale: `${choice.rationale} Lowered to ${maxDifficulty}, the highest level for the ${tier || 'current'} tier.`
+    };
+  }
+
+  return choice;
+};
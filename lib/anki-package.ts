@@ -0,0 +1,296 @@
+/**
+ * Anki deck packages (.apkg)
+ *
+ * An .apkg file is a ZIP archive holding a SQLite collection (schema version 11, the
+ * format every Anki version can import) and a media index. Notes are read with the
+ * field names of their note type, and decks are written with a single note type whose
+ * single card template shows the first field on the front.
+ *
+ * Anki fields are HTML; htmlToText and textToHtml convert them from and to plain text.
+ */
+import { createHash } from 'crypto';
+import { readZip, writeZip } from './zip-archive.js';
+import { SqliteValue, readSqliteTable, writeSqliteDatabase } from './sqlite-file.js';
+
+// Separates the fields of a note in the notes table
+const FIELD_SEPARATOR = '\x1f';
+
+const DEFAULT_DECK_ID = 1;
+const DEFAULT_CONF_ID = 1;
+
+export interface AnkiNote {
+  /**
+   * Field values as plain text, by field name in the note type's order
+   */
+  fields: Record<string, string>;
+  tags: string[];
+}
+
+export interface AnkiNoteType {
+  name: string;
+  fields: string[];
+  /**
+   * Card templates, using Anki's {{Field}} syntax
+   */
+  front: string;
+  back: string;
+  css?: string;
+}
+
+export interface AnkiDeck {
+  name: string;
+  noteType: AnkiNoteType;
+  notes: {
+    /**
+     * Plain-text values in the order of the note type's fields
+     */
+    fields: string[];
+    tags: string[];
+    /**
+     * Stable identifier, so Anki updates the note when the deck is imported again
+     */
+    guid: string;
+  }[];
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' '
+};
+
+/**
+ * Convert an Anki field to plain text: line breaks become newlines and other markup is dropped
+ */
+export const htmlToText = (html: string): string => {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return String.fromCodePoint(code);
+      }
+
+      return ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .replace(/\n+$/, '');
+};
+
+/**
+ * Convert plain text to an Anki field
+ */
+export const textToHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r?\n/g, '<br>');
+};
+
+const fieldChecksum = (text: string): number => {
+  return parseInt(createHash('sha1').update(text).digest('hex').slice(0, 8), 16);
+};
+
+/**
+ * Read the notes of an Anki package
+ *
+ * @throws {Error} If the data isn't an Anki package Anki 2.1.49 or older can read
+ */
+export const readAnkiPackage = (data: Buffer): AnkiNote[] => {
+  const files = readZip(data);
+  // Newer exports keep a placeholder collection.anki2 next to the real one
+  const collection = files.get('collection.anki21') || files.get('collection.anki2');
+
+  if (!collection) {
+    throw new Error(files.has('collection.anki21b')
+      ? 'This package uses the newest Anki format; export it again with "Support older Anki versions" checked'
+      : 'Not an Anki package: collection.anki2 is missing');
+  }
+
+  const [col] = readSqliteTable(collection, 'col');
+  const models: Record<string, { flds: { name: string; ord: number }[] }> = JSON.parse(String(col?.models || '{}'));
+
+  const fieldNames = new Map(Object.entries(models).map(([id, model]) => [
+    id,
+    [...model.flds].sort((a, b) => a.ord - b.ord).map(field => field.name)
+  ]));
+
+  return readSqliteTable(collection, 'notes').map(note => {
+    const values = String(note.flds).split(FIELD_SEPARATOR);
+    const names = fieldNames.get(String(note.mid)) || values.map((_, index) => `Field ${index + 1}`);
+
+    return {
+      fields: Object.fromEntries(names.map((name, index) => [name, htmlToText(values[index] || '')])),
+      tags: String(note.tags).trim().split(/\s+/).filter(tag => tag.length > 0)
+    };
+  });
+};
+
+const SCHEMA: Record<string, string> = {
+  col: 'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)',
+  notes: 'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)',
+  cards: 'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)',
+  revlog: 'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)',
+  graves: 'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)'
+};
+
+const deckJson = (id: number, name: string, modified: number) => ({
+  id,
+  name,
+  desc: '',
+  mod: modified,
+  usn: -1,
+  collapsed: false,
+  browserCollapsed: false,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+  dyn: 0,
+  conf: DEFAULT_CONF_ID,
+  extendNew: 0,
+  extendRev: 0
+});
+
+const DEFAULT_DECK_CONF = {
+  id: DEFAULT_CONF_ID,
+  name: 'Default',
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: { bury: false, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 0], order: 1, perDay: 20 },
+  rev: { bury: false, ease4: 1.3, ivlFct: 1, maxIvl: 36500, perDay: 200, hardFactor: 1.2 },
+  lapse: { delays: [10], leechAction: 1, leechFails: 8, minInt: 1, mult: 0 }
+};
+
+/**
+ * Write a deck to an Anki package
+ *
+ * Every note gets one new card. Ids are derived from `now`, so packages written at
+ * different times don't collide.
+ */
+export const writeAnkiPackage = (deck: AnkiDeck, now: Date = new Date()): Buffer => {
+  const nowMs = now.getTime();
+  const nowSeconds = Math.floor(nowMs / 1000);
+  const modelId = nowMs;
+  const deckId = nowMs + 1;
+
+  const model = {
+    id: modelId,
+    name: deck.noteType.name,
+    type: 0,
+    mod: nowSeconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [{
+      name: 'Card 1',
+      ord: 0,
+      qfmt: deck.noteType.front,
+      afmt: deck.noteType.back,
+      bqfmt: '',
+      bafmt: '',
+      did: null,
+      bfont: '',
+      bsize: 0
+    }],
+    flds: deck.noteType.fields.map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: 'Arial',
+      size: 20,
+      media: []
+    })),
+    css: deck.noteType.css || '.card { font-family: arial; font-size: 20px; text-align: center; }',
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: []
+  };
+
+  const conf = {
+    nextPos: deck.notes.length + 1,
+    estTimes: true,
+    activeDecks: [DEFAULT_DECK_ID],
+    sortType: 'noteFld',
+    timeLim: 0,
+    sortBackwards: false,
+    addToCur: true,
+    curDeck: DEFAULT_DECK_ID,
+    newBust: true,
+    curModel: modelId,
+    dueCounts: true,
+    collapseTime: 1200
+  };
+
+  const col: SqliteValue[] = [
+    1,
+    nowSeconds,
+    nowMs,
+    nowMs,
+    11,
+    0,
+    0,
+    0,
+    JSON.stringify(conf),
+    JSON.stringify({ [modelId]: model }),
+    JSON.stringify({
+      [DEFAULT_DECK_ID]: deckJson(DEFAULT_DECK_ID, 'Default', nowSeconds),
+      [deckId]: deckJson(deckId, deck.name, nowSeconds)
+    }),
+    JSON.stringify({ [DEFAULT_CONF_ID]: DEFAULT_DECK_CONF }),
+    '{}'
+  ];
+
+  const notes: SqliteValue[][] = [];
+  const cards: SqliteValue[][] = [];
+
+  deck.notes.forEach((note, index) => {
+    const noteId = nowMs + index;
+    const sortField = note.fields[0] || '';
+    const tags = note.tags.length > 0 ? ` ${note.tags.join(' ')} ` : '';
+
+    notes.push([
+      noteId,
+      note.guid,
+      modelId,
+      nowSeconds,
+      -1,
+      tags,
+      note.fields.map(textToHtml).join(FIELD_SEPARATOR),
+      sortField,
+      fieldChecksum(sortField),
+      0,
+      ''
+    ]);
+
+    // New card: type 0, queue 0, due is its position in the new queue
+    cards.push([noteId, noteId, deckId, 0, nowSeconds, -1, 0, 0, index + 1, 0, 0, 0, 0, 0, 0, 0, 0, '']);
+  });
+
+  const collection = writeSqliteDatabase([
+    { name: 'col', sql: SCHEMA.col, rows: [col], rowidColumn: 0 },
+    { name: 'notes', sql: SCHEMA.notes, rows: notes, rowidColumn: 0 },
+    { name: 'cards', sql: SCHEMA.cards, rows: cards, rowidColumn: 0 },
+    { name: 'revlog', sql: SCHEMA.revlog, rows: [], rowidColumn: 0 },
+    { name: 'graves', sql: SCHEMA.graves, rows: [] }
+  ]);
+
+  return writeZip([
+    { name: 'collection.anki2', data: collection },
+    { name: 'media', data: Buffer.from('{}') }
+  ]);
+};
@@ -0,0 +1,233 @@
+/**
+ * Anthropic (Claude) LLM provider
+ *
+ * Requests go through a pool of Anthropic clients when the pool size is greater than
+ * one, and through a single shared client otherwise.
+ */
+import Anthropic from '@anthropic-ai/sdk';
+import GenericPool from 'generic-pool';
+import pino from 'pino';
+import {
+  LlmCompletion,
+  LlmProvider,
+  LlmRequest,
+  LlmRequestOptions,
+  LlmStreamEvent
+} from './llm-provider.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'anthropic-provider'
+});
+
+class AnthropicConnectionPool {
+  private pool!: GenericPool.Pool<Anthropic>;
+
+  constructor(apiKey: string, poolSize: number = 10) {
+    this.createPool(apiKey, poolSize);
+  }
+
+  private createPool(apiKey: string, size: number): void {
+    const factory = {
+      create: async (): Promise<Anthropic> => {
+        return new Anthropic({ apiKey });
+      },
+      destroy: async (_client: Anthropic): Promise<void> => {
+        return;
+      }
+    };
+
+    const opts = {
+      max: size,
+      min: 2,
+      testOnBorrow: true,
+      acquireTimeoutMillis: 30000
+    };
+
+    this.pool = GenericPool.createPool(factory, opts);
+    logger.info(`Created Anthropic connection pool with size ${size}`);
+  }
+
+  async acquire(): Promise<Anthropic> {
+    try {
+      return await this.pool.acquire();
+    } catch (error) {
+      logger.error({ error }, 'Error acquiring Anthropic client from pool');
+      throw new Error('Failed to acquire Anthropic client: ' + (error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  async release(client: Anthropic): Promise<void> {
+    try {
+      await this.pool.release(client);
+    } catch (error) {
+      logger.warn({ error }, 'Error releasing Anthropic client back to pool');
+    }
+  }
+
+  async destroy(): Promise<void> {
+    try {
+      await this.pool.drain();
+      await this.pool.clear();
+      logger.info('Anthropic connection pool drained and destroyed');
+    } catch (error) {
+      logger.error({ error }, 'Error destroying Anthropic connection pool');
+    }
+  }
+}
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic';
+  private anthropic: Anthropic;
+  private connectionPool?: AnthropicConnectionPool;
+
+  constructor(apiKey: string, connectionPoolSize: number = 10) {
+    this.anthropic = new Anthropic({ apiKey });
+
+    if (connectionPoolSize > 1) {
+      this.connectionPool = new AnthropicConnectionPool(apiKey, connectionPoolSize);
+    }
+  }
+
+  private toMessageParams(request: LlmRequest) {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.system ? { system: request.system } : {}),
+      messages: request.messages,
+      ...this.toToolParams(request)
+    };
+  }
+
+  /**
+   * A response format is sent as a single tool the model is required to call, so the
+   * tool input is the structured response
+   */
+  private toToolParams(request: LlmRequest) {
+    const format = request.responseFormat;
+
+    if (!format) {
+      return {};
+    }
+
+    return {
+      tools: [{
+        name: format.name,
+        ...(format.description ? { description: format.description } : {}),
+        input_schema: format.schema as Anthropic.Tool.InputSchema
+      }],
+      tool_choice: { type: 'tool' as const, name: format.name }
+    };
+  }
+
+  private async acquireClient(): Promise<{ client: Anthropic; fromPool: boolean }> {
+    if (this.connectionPool) {
+      return { client: await this.connectionPool.acquire(), fromPool: true };
+    }
+
+    return { client: this.anthropic, fromPool: false };
+  }
+
+  private async releaseClient(client: Anthropic, fromPool: boolean): Promise<void> {
+    if (fromPool && this.connectionPool) {
+      await this.connectionPool.release(client);
+    }
+  }
+
+  async complete(request: LlmRequest, options: LlmRequestOptions = {}): Promise<LlmCompletion> {
+    const { client, fromPool } = await this.acquireClient();
+
+    try {
+      const response = await client.messages.create(
+        this.toMessageParams(request),
+        { signal: options.signal }
+      );
+
+      const text = response.content
+        .map(block => {
+          if (block.type === 'text') {
+            return block.text;
+          }
+          return block.type === 'tool_use' ? JSON.stringify(block.input) : '';
+        })
+        .join('');
+
+      return {
+        text: text || 'No text response received from Claude',
+        usage: {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens
+        },
+        model: response.model
+      };
+    } finally {
+      await this.releaseClient(client, fromPool);
+    }
+  }
+
+  async *stream(request: LlmRequest, options: LlmRequestOptions = {}): AsyncGenerator<LlmStreamEvent> {
+    const { client, fromPool } = await this.acquireClient();
+
+    try {
+      const stream = client.messages.stream(
+        this.toMessageParams(request),
+        { signal: options.signal }
+      );
+
+      let text = '';
+
+      for await (const event of stream) {
+        if (event.type !== 'content_block_delta') {
+          continue;
+        }
+
+        const delta = event.delta.type === 'text_delta' ? event.delta.text
+          : event.delta.type === 'input_json_delta' ? event.delta.partial_json
+          : '';
+
+        if (delta) {
+          text += delta;
+          yield { type: 'delta', text: delta };
+        }
+      }
+
+      const finalMessage = await stream.finalMessage();
+
+      yield {
+        type: 'done',
+        completion: {
+          text,
+          usage: {
+            inputTokens: finalMessage.usage.input_tokens,
+            outputTokens: finalMessage.usage.output_tokens
+          },
+          model: finalMessage.model
+        }
+      };
+    } finally {
+      await this.releaseClient(client, fromPool);
+    }
+  }
+
+  async countTokens(request: LlmRequest): Promise<number> {
+    const { client, fromPool } = await this.acquireClient();
+
+    try {
+      const { input_tokens } = await client.messages.countTokens({
+        model: request.model,
+        ...(request.system ? { system: request.system } : {}),
+        messages: request.messages,
+        ...this.toToolParams(request)
+      });
+
+      return input_tokens;
+    } finally {
+      await this.releaseClient(client, fromPool);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.connectionPool?.destroy();
+  }
+}
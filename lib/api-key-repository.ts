@@ -0,0 +1,94 @@
+/**
+ * API key persistence for the Spanish Learning MCP Server
+ *
+ * Stores the hash of every issued API key with its owner, identified by the key's
+ * prefix. The keys themselves are never stored. The storage backend is chosen by
+ * configuration:
+ * - memory: keys live in process memory and stop working on restart
+ * - file: keys are kept in memory and persisted to a JSON file on every change
+ */
+import {
+  FileRecordRepository,
+  InMemoryRecordRepository,
+  RecordRepository,
+  selectRecordRepository
+} from './record-repository.js';
+
+export interface ApiKeyRecord {
+  /**
+   * The key's prefix, which is part of the key and identifies it in listings and logs
+   */
+  id: string;
+  userId: string;
+  /**
+   * SHA-256 hash of the whole key, as hex
+   */
+  hash: string;
+  name?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+export interface ApiKeyRepository extends RecordRepository<ApiKeyRecord> {
+  listByUser(userId: string): Promise<ApiKeyRecord[]>;
+}
+
+export type ApiKeyStoreType = 'memory' | 'file';
+
+export interface ApiKeyRepositoryOptions {
+  type?: ApiKeyStoreType;
+  filePath?: string;
+}
+
+export const DEFAULT_API_KEY_STORE_PATH = './data/api-keys.json';
+
+export class InMemoryApiKeyRepository
+  extends InMemoryRecordRepository<ApiKeyRecord>
+  implements ApiKeyRepository {
+  constructor() {
+    super({ name: 'API keys' });
+  }
+
+  listByUser(userId: string): Promise<ApiKeyRecord[]> {
+    return this.listWhere(key => key.userId === userId);
+  }
+}
+
+const reviveApiKey = (raw: any): ApiKeyRecord => ({
+  ...raw,
+  createdAt: new Date(raw.createdAt),
+  lastUsedAt: raw.lastUsedAt ? new Date(raw.lastUsedAt) : undefined,
+  revokedAt: raw.revokedAt ? new Date(raw.revokedAt) : undefined
+});
+
+export class FileApiKeyRepository
+  extends FileRecordRepository<ApiKeyRecord>
+  implements ApiKeyRepository {
+  constructor(filePath: string = DEFAULT_API_KEY_STORE_PATH) {
+    super({ name: 'API keys', filePath, revive: reviveApiKey });
+  }
+
+  listByUser(userId: string): Promise<ApiKeyRecord[]> {
+    return this.listWhere(key => key.userId === userId);
+  }
+}
+
+/**
+ * Create the API key repository selected by configuration
+ *
+ * Falls back to the API_KEY_STORE and API_KEY_STORE_PATH environment variables,
+ * and to the in-memory store when neither is set.
+ */
+export const createApiKeyRepository = (
+  options: ApiKeyRepositoryOptions = {}
+): ApiKeyRepository => selectRecordRepository<ApiKeyRepository>(
+  'API key store',
+  options.type || process.env.API_KEY_STORE || 'memory',
+  {
+    memory: () => new InMemoryApiKeyRepository(),
+    file: () => new FileApiKeyRepository(
+      options.filePath || process.env.API_KEY_STORE_PATH || DEFAULT_API_KEY_STORE_PATH
+    )
+  }
+);
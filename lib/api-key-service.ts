@@ -0,0 +1,148 @@
+/**
+ * API key service for the Spanish Learning MCP Server
+ *
+ * Issues per-user API keys, and authenticates requests by them. A key looks like
+ * `slm_<prefix>_<secret>`: the prefix identifies the key (it is shown in listings and
+ * logs), and only a SHA-256 hash of the whole key is stored, so a key is shown once, when
+ * it is issued. Keys are long random strings, so a fast hash is enough to protect them.
+ *
+ * Revoked keys are kept, marked with the time they were revoked, so listings show what
+ * happened to every key a user was given.
+ */
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import pino from 'pino';
+import { ApiKeyRecord, ApiKeyRepository, createApiKeyRepository } from './api-key-repository.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'api-key-service'
+});
+
+const KEY_PATTERN = /^slm_([0-9a-f]{12})_[A-Za-z0-9_-]{32}$/;
+
+// Recording every use would write the store on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * An API key as shown to admins: everything but the hash
+ */
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'id' | 'hash'> & { prefix: string };
+
+export interface IssuedApiKey {
+  /**
+   * The key itself, which can't be retrieved again
+   */
+  apiKey: string;
+  key: ApiKeyInfo;
+}
+
+// Storage backend is selected by configuration (see createApiKeyRepository)
+let apiKeyRepository: ApiKeyRepository = createApiKeyRepository();
+
+export const getApiKeyRepository = (): ApiKeyRepository => apiKeyRepository;
+
+export const setApiKeyRepository = (repository: ApiKeyRepository): void => {
+  apiKeyRepository = repository;
+};
+
+const hashApiKey = (apiKey: string): string => {
+  return createHash('sha256').update(apiKey).digest('hex');
+};
+
+const toApiKeyInfo = ({ id, hash, ...key }: ApiKeyRecord): ApiKeyInfo => ({ prefix: id, ...key });
+
+/**
+ * Create a new API key for a user
+ */
+export const issueApiKey = async (userId: string, name?: string): Promise<IssuedApiKey> => {
+  const prefix = randomBytes(6).toString('hex');
+  const apiKey = `slm_${prefix}_${randomBytes(24).toString('base64url')}`;
+
+  const record: ApiKeyRecord = {
+    id: prefix,
+    userId,
+    hash: hashApiKey(apiKey),
+    name,
+    createdAt: new Date()
+  };
+
+  await apiKeyRepository.save(record);
+  logger.info({ userId, prefix }, 'Issued API key');
+
+  return { apiKey, key: toApiKeyInfo(record) };
+};
+
+/**
+ * Every key issued to a user, newest first
+ */
+export const listApiKeys = async (userId: string): Promise<ApiKeyInfo[]> => {
+  const keys = await apiKeyRepository.listByUser(userId);
+
+  // Keys are listed in the order they were issued, so reversing first keeps keys issued
+  // within the same millisecond newest first
+  return keys
+    .reverse()
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .map(toApiKeyInfo);
+};
+
+/**
+ * Revoke one of a user's keys, or all of them when no prefix is given
+ *
+ * @returns The number of keys revoked
+ */
+export const revokeApiKeys = async (userId: string, prefix?: string): Promise<number> => {
+  const keys = (await apiKeyRepository.listByUser(userId))
+    .filter(key => !key.revokedAt && (!prefix || key.id === prefix));
+  const revokedAt = new Date();
+
+  for (const key of keys) {
+    await apiKeyRepository.save({ ...key, revokedAt });
+  }
+
+  if (keys.length > 0) {
+    logger.info({ userId, prefixes: keys.map(key => key.id) }, 'Revoked API keys');
+  }
+
+  return keys.length;
+};
+
+/**
+ * The prefix that identifies an API key, or null when it isn't one of ours
+ */
+export const apiKeyPrefix = (apiKey: string): string | null => {
+  return KEY_PATTERN.exec(apiKey)?.[1] || null;
+};
+
+/**
+ * Find the active key matching an API key, recording that it was used
+ *
+ * @returns The key, or null when the API key is malformed, unknown or revoked
+ */
+export const authenticateApiKey = async (apiKey: string): Promise<ApiKeyInfo | null> => {
+  const prefix = apiKeyPrefix(apiKey);
+
+  if (!prefix) {
+    return null;
+  }
+
+  const key = await apiKeyRepository.get(prefix);
+
+  if (!key || key.revokedAt) {
+    return null;
+  }
+
+  if (!timingSafeEqual(Buffer.from(key.hash, 'hex'), Buffer.from(hashApiKey(apiKey), 'hex'))) {
+    return null;
+  }
+
+  const now = new Date();
+
+  if (!key.lastUsedAt || now.getTime() - key.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    const used = { ...key, lastUsedAt: now };
+    await apiKeyRepository.save(used);
+    return toApiKeyInfo(used);
+  }
+
+  return toApiKeyInfo(key);
+};
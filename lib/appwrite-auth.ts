@@ -1,6 +1,7 @@
 import { Client, Account, ID, Models, Teams, Databases, Query } from 'appwrite';
 import { initAppwrite } from './appwrite.js';
 import { DATABASE_ID } from './appwrite.js';
+import { Role, Scope } from './permissions.js';
 
 const USER_TIERS_COLLECTION_ID = process.env.NEXT_PUBLIC_APPWRITE_USER_TIERS_COLLECTION_ID || 'user_tiers';
 
@@ -17,6 +18,14 @@ export interface AuthenticatedUser {
   name?: string;
   email?: string;
   tier: UserTier;
+  /**
+   * Users without roles are learners (see lib/permissions.ts)
+   */
+  roles?: Role[];
+  /**
+   * Everything the user may do: the scopes of their roles, and any granted by their token
+   */
+  scopes?: Scope[];
 }
 
 let account: Account;
@@ -148,6 +157,85 @@ export const getUserTier = async (userId: string): Promise<UserTier> => {
   }
 };
 
+const requireUserTiersCollection = () => {
+  const { databases } = initAppwriteAuth();
+  
+  if (!databases || !DATABASE_ID || !USER_TIERS_COLLECTION_ID) {
+    throw new Error('Appwrite databases or collection ID not configured');
+  }
+  
+  return { databases, databaseId: DATABASE_ID, collectionId: USER_TIERS_COLLECTION_ID };
+};
+
+/**
+ * The tier document of a user, or null when the user has none. Unlike getUserTier,
+ * Appwrite errors are thrown rather than treated as the free tier.
+ */
+export const findUserTierDocument = async (userId: string): Promise<UserTierModel | null> => {
+  const { databases, databaseId, collectionId } = requireUserTiersCollection();
+  
+  const tierDocs = await databases.listDocuments<UserTierModel>(
+    databaseId,
+    collectionId,
+    [Query.equal('userId', userId), Query.limit(1)]
+  );
+  
+  return tierDocs.documents[0] || null;
+};
+
+/**
+ * Every tier document, read 100 at a time
+ */
+export const listUserTierDocuments = async (): Promise<UserTierModel[]> => {
+  const { databases, databaseId, collectionId } = requireUserTiersCollection();
+  const pageSize = 100;
+  const documents: UserTierModel[] = [];
+  let total = Infinity;
+  
+  while (documents.length < total) {
+    const response = await databases.listDocuments<UserTierModel>(
+      databaseId,
+      collectionId,
+      [Query.limit(pageSize), Query.offset(documents.length)]
+    );
+    
+    documents.push(...response.documents);
+    total = response.documents.length < pageSize ? documents.length : response.total;
+  }
+  
+  return documents;
+};
+
+/**
+ * Create or update the tier document of a user
+ */
+export const saveUserTierDocument = async (userId: string, tier: UserTier): Promise<UserTierModel> => {
+  const { databases, databaseId, collectionId } = requireUserTiersCollection();
+  const existing = await findUserTierDocument(userId);
+  const data = { userId, tier, updatedAt: Date.now() };
+  
+  return existing
+    ? databases.updateDocument<UserTierModel>(databaseId, collectionId, existing.$id, data)
+    : databases.createDocument<UserTierModel>(databaseId, collectionId, ID.unique(), data);
+};
+
+/**
+ * Delete the tier document of a user
+ *
+ * @returns false when the user has no tier document
+ */
+export const deleteUserTierDocument = async (userId: string): Promise<boolean> => {
+  const { databases, databaseId, collectionId } = requireUserTiersCollection();
+  const existing = await findUserTierDocument(userId);
+  
+  if (!existing) {
+    return false;
+  }
+  
+  await databases.deleteDocument(databaseId, collectionId, existing.$id);
+  return true;
+};
+
 export const getCurrentUser = async (): Promise<AuthenticatedUser | null> => {
   try {
     const { account } = initAppwriteAuth();
@@ -2,7 +2,7 @@
  * Appwrite client configuration and database helpers
  * Optimized for Spanish Learning MCP core functionality
  */
-import { Client, Databases, Query, Models } from 'appwrite';
+import { Client, Databases, ID, Query, Models } from 'appwrite';
 
 let client: Client;
 let databases: Databases;
@@ -11,6 +11,8 @@ export const DATABASE_ID = process.env.NEXT_PUBLIC_APPWRITE_DATABASE_ID;
 export const COLLECTIONS = {
   VOCABULARY: process.env.NEXT_PUBLIC_APPWRITE_VOCABULARY_COLLECTION_ID,
   GRAMMAR: process.env.NEXT_PUBLIC_APPWRITE_GRAMMAR_COLLECTION_ID,
+  CONVERSATION_TEMPLATES: process.env.NEXT_PUBLIC_APPWRITE_CONVERSATION_TEMPLATES_COLLECTION_ID,
+  EXERCISE_BANK: process.env.NEXT_PUBLIC_APPWRITE_EXERCISE_BANK_COLLECTION_ID,
 };
 
 export enum WordCategory {
@@ -32,6 +34,19 @@ export enum DifficultyLevel {
   ADVANCED = 'advanced'
 }
 
+/**
+ * Common European Framework of Reference levels. Each difficulty level spans two CEFR
+ * levels (see lib/cefr.ts).
+ */
+export enum CefrLevel {
+  A1 = 'A1',
+  A2 = 'A2',
+  B1 = 'B1',
+  B2 = 'B2',
+  C1 = 'C1',
+  C2 = 'C2'
+}
+
 export enum GrammarCategory {
   VERB_TENSE = 'verb_tense',
   VERB_CONJUGATION = 'verb_conjugation',
@@ -58,6 +73,7 @@ export interface VocabularyModel extends Models.Document {
   usageExamples: UsageExample[];
   category: WordCategory;
   difficultyLevel: DifficultyLevel;
+  cefrLevel?: CefrLevel;
   notes?: string;
 }
 
@@ -67,14 +83,54 @@ export interface Example {
   explanation?: string;
 }
 
+export interface ExerciseTemplate {
+  title: string;
+  instructions: string;
+  examples?: string[];
+  difficulty: string;
+  cefrLevel?: CefrLevel;
+  type?: string;
+  category?: string;
+}
+
 export interface GrammarModel extends Models.Document {
   title: string;
   category: GrammarCategory;
   explanation: string;
   examples: Example[];
   difficultyLevel: DifficultyLevel;
+  cefrLevel?: CefrLevel;
   relatedVocabulary: string[]; // Array of vocabulary document IDs because we can't store full objects in Appwrite
   tags: string[];
+  exerciseTemplates?: ExerciseTemplate[];
+}
+
+export interface ExerciseTemplateModel extends Models.Document {
+  title: string;
+  instructions: string;
+  examples: string[];
+  difficulty: DifficultyLevel;
+  cefrLevel?: CefrLevel;
+  type?: string;
+  category?: string;
+}
+
+export interface ConversationTurn {
+  speaker: string;
+  text: string;
+  translation?: string;
+  notes?: string;
+}
+
+export interface ConversationTemplateModel extends Models.Document {
+  topicId: string;
+  title: string;
+  context: string;
+  participants: string[];
+  turns: ConversationTurn[];
+  difficultyLevel: DifficultyLevel;
+  cefrLevel?: CefrLevel;
+  focusAreas: string[];
 }
 
 /**
@@ -92,6 +148,28 @@ export const parseUsageExamples = (exampleStrings: string[]): UsageExample[] =>
   });
 };
 
+export const parseConversationTurns = (turnStrings: string[]): ConversationTurn[] => {
+  return turnStrings.map(str => {
+    try {
+      return JSON.parse(str) as ConversationTurn;
+    } catch (e) {
+      console.error('Error parsing conversation turn:', e);
+      return { speaker: 'Unknown', text: 'Error parsing turn' };
+    }
+  });
+};
+
+export const parseExerciseTemplates = (templateStrings: string[]): ExerciseTemplate[] => {
+  return templateStrings.flatMap(str => {
+    try {
+      return [JSON.parse(str) as ExerciseTemplate];
+    } catch (e) {
+      console.error('Error parsing exercise template:', e);
+      return [];
+    }
+  });
+};
+
 /**
  * Initialize the Appwrite client
  */
@@ -126,6 +204,7 @@ export const getVocabularyItems = async (
     category?: WordCategory; 
     difficultyLevel?: DifficultyLevel; 
     searchTerm?: string; 
+    words?: string[];
   } = {},
   pagination: { limit?: number; offset?: number } = {}
 ) => {
@@ -151,6 +230,10 @@ export const getVocabularyItems = async (
     queries.push(Query.search('translation', filters.searchTerm));
   }
   
+  if (filters.words?.length) {
+    queries.push(Query.equal('word', filters.words));
+  }
+  
   const limit = pagination.limit || 10;
   const offset = pagination.offset || 0;
   queries.push(Query.limit(limit));
@@ -230,8 +313,13 @@ export const getGrammarRules = async (
       queries
     );
     
+    const rulesWithParsedTemplates = response.documents.map(doc => ({
+      ...doc,
+      exerciseTemplates: parseExerciseTemplates((doc.exerciseTemplates || []) as unknown as string[])
+    }));
+
     return {
-      items: response.documents,
+      items: rulesWithParsedTemplates,
       meta: {
         total: response.total,
         limit,
@@ -244,3 +332,268 @@ export const getGrammarRules = async (
     return { items: [], meta: { total: 0, limit, offset, hasMoreItems: false } };
   }
 };
+
+export const getConversationTemplates = async (
+  filters: {
+    topicId?: string;
+    difficultyLevel?: DifficultyLevel;
+  } = {},
+  pagination: { limit?: number; offset?: number } = {}
+) => {
+  const { databases } = initAppwrite();
+
+  if (!databases || !DATABASE_ID || !COLLECTIONS.CONVERSATION_TEMPLATES) {
+    console.warn('Appwrite not properly configured');
+    return { items: [], meta: { total: 0, limit: 0, offset: 0, hasMoreItems: false } };
+  }
+
+  const queries: string[] = [];
+
+  if (filters.topicId) {
+    queries.push(Query.equal('topicId', filters.topicId));
+  }
+
+  if (filters.difficultyLevel) {
+    queries.push(Query.equal('difficultyLevel', filters.difficultyLevel));
+  }
+
+  const limit = pagination.limit || 25;
+  const offset = pagination.offset || 0;
+  queries.push(Query.limit(limit));
+  queries.push(Query.offset(offset));
+
+  try {
+    const response = await databases.listDocuments<ConversationTemplateModel>(
+      DATABASE_ID,
+      COLLECTIONS.CONVERSATION_TEMPLATES,
+      queries
+    );
+
+    const templates = response.documents.map(doc => ({
+      id: doc.topicId,
+      title: doc.title,
+      context: doc.context,
+      participants: doc.participants,
+      turns: parseConversationTurns(doc.turns as unknown as string[]),
+      difficultyLevel: doc.difficultyLevel,
+      cefrLevel: doc.cefrLevel || undefined,
+      focusAreas: doc.focusAreas || []
+    }));
+
+    return {
+      items: templates,
+      meta: {
+        total: response.total,
+        limit,
+        offset,
+        hasMoreItems: offset + limit < response.total
+      }
+    };
+  } catch (error) {
+    console.error('Error fetching conversation templates:', error);
+    return { items: [], meta: { total: 0, limit, offset, hasMoreItems: false } };
+  }
+};
+
+export const getExerciseTemplates = async (
+  filters: {
+    difficulty?: DifficultyLevel;
+    type?: string;
+    category?: string;
+  } = {},
+  pagination: { limit?: number; offset?: number } = {}
+) => {
+  const { databases } = initAppwrite();
+
+  if (!databases || !DATABASE_ID || !COLLECTIONS.EXERCISE_BANK) {
+    console.warn('Appwrite not properly configured');
+    return { items: [], meta: { total: 0, limit: 0, offset: 0, hasMoreItems: false } };
+  }
+
+  const queries: string[] = [];
+
+  if (filters.difficulty) {
+    queries.push(Query.equal('difficulty', filters.difficulty));
+  }
+
+  if (filters.type) {
+    queries.push(Query.equal('type', filters.type));
+  }
+
+  if (filters.category) {
+    queries.push(Query.equal('category', filters.category));
+  }
+
+  const limit = pagination.limit || 25;
+  const offset = pagination.offset || 0;
+  queries.push(Query.limit(limit));
+  queries.push(Query.offset(offset));
+
+  try {
+    const response = await databases.listDocuments<ExerciseTemplateModel>(
+      DATABASE_ID,
+      COLLECTIONS.EXERCISE_BANK,
+      queries
+    );
+
+    const templates: ExerciseTemplate[] = response.documents.map(doc => ({
+      title: doc.title,
+      instructions: doc.instructions,
+      examples: doc.examples || [],
+      difficulty: doc.difficulty,
+      cefrLevel: doc.cefrLevel || undefined,
+      type: doc.type || undefined,
+      category: doc.category || undefined
+    }));
+
+    return {
+      items: templates,
+      meta: {
+        total: response.total,
+        limit,
+        offset,
+        hasMoreItems: offset + limit < response.total
+      }
+    };
+  } catch (error) {
+    console.error('Error fetching exercise templates:', error);
+    return { items: [], meta: { total: 0, limit, offset, hasMoreItems: false } };
+  }
+};
+
+/**
+ * Content administration functions
+ *
+ * Unlike the retrieval functions above, these throw when Appwrite isn't configured or a
+ * request fails, since callers need to know their changes weren't saved.
+ */
+
+export interface VocabularyInput {
+  word: string;
+  translation: string;
+  category: string;
+  difficultyLevel: string;
+  cefrLevel?: CefrLevel;
+  notes?: string;
+  usageExamples: UsageExample[];
+}
+
+export interface GrammarInput {
+  title: string;
+  category: string;
+  explanation: string;
+  difficultyLevel: string;
+  cefrLevel?: CefrLevel;
+  examples: Example[];
+  tags: string[];
+  relatedVocabulary?: string[];
+  exerciseTemplates?: ExerciseTemplate[];
+}
+
+const requireCollection = (collectionId: string | undefined) => {
+  const { databases } = initAppwrite();
+
+  if (!databases || !DATABASE_ID || !collectionId) {
+    throw new Error('Appwrite not properly configured');
+  }
+
+  return { databases, databaseId: DATABASE_ID, collectionId };
+};
+
+/**
+ * Every document in a collection, fetched a page at a time
+ */
+const listAllDocuments = async <T extends Models.Document>(collectionId: string | undefined): Promise<T[]> => {
+  const { databases, databaseId } = requireCollection(collectionId);
+  const pageSize = 100;
+  const documents: T[] = [];
+  let total = Infinity;
+
+  while (documents.length < total) {
+    const response = await databases.listDocuments<T>(
+      databaseId,
+      collectionId!,
+      [Query.limit(pageSize), Query.offset(documents.length)]
+    );
+
+    documents.push(...response.documents);
+    total = response.documents.length < pageSize ? documents.length : response.total;
+  }
+
+  return documents;
+};
+
+const vocabularyDocument = (item: VocabularyInput) => ({
+  word: item.word,
+  translation: item.translation,
+  category: item.category,
+  difficultyLevel: item.difficultyLevel,
+  cefrLevel: item.cefrLevel || null,
+  notes: item.notes || null,
+  usageExamples: item.usageExamples.map(example => JSON.stringify(example))
+});
+
+const grammarDocument = (rule: GrammarInput) => ({
+  title: rule.title,
+  category: rule.category,
+  explanation: rule.explanation,
+  difficultyLevel: rule.difficultyLevel,
+  cefrLevel: rule.cefrLevel || null,
+  examples: rule.examples.map(example => JSON.stringify(example)),
+  tags: rule.tags,
+  relatedVocabulary: rule.relatedVocabulary || [],
+  exerciseTemplates: (rule.exerciseTemplates || []).map(template => JSON.stringify(template))
+});
+
+export const listAllVocabularyItems = async () => {
+  const documents = await listAllDocuments<VocabularyModel>(COLLECTIONS.VOCABULARY);
+
+  return documents.map(doc => ({
+    ...doc,
+    usageExamples: parseUsageExamples((doc.usageExamples || []) as unknown as string[])
+  }));
+};
+
+export const listAllGrammarRules = async () => {
+  const documents = await listAllDocuments<GrammarModel>(COLLECTIONS.GRAMMAR);
+
+  return documents.map(doc => ({
+    ...doc,
+    examples: parseUsageExamples((doc.examples || []) as unknown as string[]),
+    exerciseTemplates: parseExerciseTemplates((doc.exerciseTemplates || []) as unknown as string[])
+  }));
+};
+
+/**
+ * Create a vocabulary item, or update the document with the given ID
+ */
+export const saveVocabularyItem = async (item: VocabularyInput, documentId?: string) => {
+  const { databases, databaseId, collectionId } = requireCollection(COLLECTIONS.VOCABULARY);
+  const data = vocabularyDocument(item);
+
+  return documentId
+    ? databases.updateDocument(databaseId, collectionId, documentId, data)
+    : databases.createDocument(databaseId, collectionId, ID.unique(), data);
+};
+
+/**
+ * Create a grammar rule, or update the document with the given ID
+ */
+export const saveGrammarRule = async (rule: GrammarInput, documentId?: string) => {
+  const { databases, databaseId, collectionId } = requireCollection(COLLECTIONS.GRAMMAR);
+  const data = grammarDocument(rule);
+
+  return documentId
+    ? databases.updateDocument(databaseId, collectionId, documentId, data)
+    : databases.createDocument(databaseId, collectionId, ID.unique(), data);
+};
+
+export const deleteVocabularyItem = async (documentId: string) => {
+  const { databases, databaseId, collectionId } = requireCollection(COLLECTIONS.VOCABULARY);
+  await databases.deleteDocument(databaseId, collectionId, documentId);
+};
+
+export const deleteGrammarRule = async (documentId: string) => {
+  const { databases, databaseId, collectionId } = requireCollection(COLLECTIONS.GRAMMAR);
+  await databases.deleteDocument(databaseId, collectionId, documentId);
+};
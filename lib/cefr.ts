@@ -0,0 +1,86 @@
+/**
+ * CEFR levels for the Spanish Learning MCP Server
+ *
+ * Content and learners are described with CEFR levels (A1 to C2), which map onto the
+ * three difficulty levels used before CEFR was introduced: each difficulty spans two
+ * CEFR levels. Content that only has a difficulty level counts as both CEFR levels of
+ * its difficulty, so existing data keeps matching CEFR filters.
+ */
+import { CefrLevel } from './appwrite.js';
+import { getTierPolicy } from './tier-policy.js';
+
+export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export const CEFR_LEVELS: CefrLevel[] = Object.values(CefrLevel);
+
+export const DIFFICULTIES: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+const CEFR_DIFFICULTIES: Record<CefrLevel, Difficulty> = {
+  [CefrLevel.A1]: 'beginner',
+  [CefrLevel.A2]: 'beginner',
+  [CefrLevel.B1]: 'intermediate',
+  [CefrLevel.B2]: 'intermediate',
+  [CefrLevel.C1]: 'advanced',
+  [CefrLevel.C2]: 'advanced'
+};
+
+export const isCefrLevel = (level: string): level is CefrLevel => {
+  return (CEFR_LEVELS as string[]).includes(level);
+};
+
+/**
+ * The difficulty level a CEFR level belongs to
+ */
+export const cefrToDifficulty = (level: CefrLevel): Difficulty => CEFR_DIFFICULTIES[level];
+
+/**
+ * The CEFR levels a difficulty level spans
+ */
+export const difficultyToCefrLevels = (difficulty: string): CefrLevel[] => {
+  return CEFR_LEVELS.filter(level => CEFR_DIFFICULTIES[level] === difficulty);
+};
+
+/**
+ * Compare two CEFR levels, negative when `a` is the lower level
+ */
+export const compareCefrLevels = (a: CefrLevel, b: CefrLevel): number => {
+  return CEFR_LEVELS.indexOf(a) - CEFR_LEVELS.indexOf(b);
+};
+
+/**
+ * The CEFR levels of a piece of content: its own level, or every level of its difficulty
+ */
+export const contentCefrLevels = (content: { cefrLevel?: CefrLevel; difficulty?: string; difficultyLevel?: string }): CefrLevel[] => {
+  if (content.cefrLevel) {
+    return [content.cefrLevel];
+  }
+
+  return difficultyToCefrLevels(content.difficultyLevel || content.difficulty || '');
+};
+
+/**
+ * Whether content is at a CEFR level
+ */
+export const matchesCefrLevel = (
+  content: { cefrLevel?: CefrLevel; difficulty?: string; difficultyLevel?: string },
+  level: CefrLevel
+): boolean => {
+  return contentCefrLevels(content).includes(level);
+};
+
+/**
+ * CEFR levels the tier can practice: those up to the highest level of its tier policy
+ */
+export const cefrLevelsForTier = (tier: 'free' | 'basic' | 'premium'): CefrLevel[] => {
+  const maxLevel = getTierPolicy(tier).conversation.maxCefrLevel;
+  return CEFR_LEVELS.filter(level => compareCefrLevels(level, maxLevel) <= 0);
+};
+
+/**
+ * Difficulty levels the tier can practice; a difficulty is available when all of its
+ * CEFR levels are
+ */
+export const difficultiesForTier = (tier: 'free' | 'basic' | 'premium'): Difficulty[] => {
+  const levels = cefrLevelsForTier(tier);
+  return DIFFICULTIES.filter(difficulty => difficultyToCefrLevels(difficulty).every(level => levels.includes(level)));
+};
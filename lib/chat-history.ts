@@ -0,0 +1,74 @@
+/**
+ * Multi-turn message history helpers
+ *
+ * The model expects the history to start with a user turn and to alternate between
+ * user and assistant turns. Long histories are trimmed from the oldest turn until they
+ * fit a token budget, so the window adapts to message length rather than count.
+ */
+import { LlmMessage } from './llm-provider.js';
+import { estimateTokenCount } from './token-count.js';
+
+/**
+ * Merge consecutive turns from the same role and drop empty turns
+ */
+export const mergeConsecutiveTurns = (messages: LlmMessage[]): LlmMessage[] => {
+  return messages.reduce<LlmMessage[]>((turns, message) => {
+    if (!message.content.trim()) {
+      return turns;
+    }
+
+    const previous = turns[turns.length - 1];
+
+    if (previous?.role === message.role) {
+      turns[turns.length - 1] = { role: message.role, content: `${previous.content}\n\n${message.content}` };
+    } else {
+      turns.push({ ...message });
+    }
+
+    return turns;
+  }, []);
+};
+
+/**
+ * Keep the most recent turns that fit in the token budget
+ *
+ * The latest turn is always kept, even when it exceeds the budget on its own. The
+ * window never starts with an assistant turn.
+ *
+ * @param messages - The history, oldest first
+ * @param maxTokens - Token budget for the whole history; omit to keep every turn
+ * @param countTokens - Token estimate for a turn's text
+ */
+export const fitHistoryToTokenBudget = (
+  messages: LlmMessage[],
+  maxTokens?: number,
+  countTokens: (text: string) => number = estimateTokenCount
+): LlmMessage[] => {
+  const turns = mergeConsecutiveTurns(messages);
+  let start = turns.length - 1;
+
+  if (maxTokens !== undefined && turns.length > 0) {
+    let used = countTokens(turns[start].content);
+
+    while (start > 0) {
+      const cost = countTokens(turns[start - 1].content);
+
+      if (used + cost > maxTokens) {
+        break;
+      }
+
+      used += cost;
+      start -= 1;
+    }
+  } else {
+    start = 0;
+  }
+
+  const window = turns.slice(start);
+
+  while (window.length > 1 && window[0].role === 'assistant') {
+    window.shift();
+  }
+
+  return window;
+};
@@ -0,0 +1,164 @@
+/**
+ * Conjugation drills for the Spanish Learning MCP Server
+ *
+ * Builds fill_in_blank exercises from the conjugation engine, so verb practice can be
+ * generated without calling the model. Each exercise records the verb, tense and person
+ * it drills, which is also how model-generated verb exercises are checked.
+ */
+import {
+  Mood,
+  PERSONS,
+  PERSON_PRONOUNS,
+  Person,
+  Tense,
+  TenseId,
+  conjugate,
+  parseTenseId,
+  tenseLabel
+} from './conjugation.js';
+import { FillInBlankExercise } from './exercise-schemas.js';
+
+export interface ConjugationExerciseOptions {
+  /**
+   * Infinitives to drill. Defaults to common verbs for the difficulty level.
+   */
+  verbs?: string[];
+  /**
+   * Tenses to drill as `mood.tense`. Defaults to the tenses for the difficulty level.
+   */
+  tenses?: TenseId[];
+  difficultyLevel?: string;
+  count: number;
+  /**
+   * Source of randomness, for repeatable drills in tests
+   */
+  random?: () => number;
+}
+
+const PRACTICE_VERBS: Record<string, string[]> = {
+  beginner: [
+    'hablar', 'comer', 'vivir', 'trabajar', 'estudiar', 'beber', 'escribir',
+    'ser', 'estar', 'tener', 'ir'
+  ],
+  intermediate: [
+    'hacer', 'poder', 'querer', 'decir', 'venir', 'pensar', 'dormir', 'pedir',
+    'jugar', 'salir', 'poner', 'conocer', 'empezar', 'buscar', 'ver', 'dar'
+  ],
+  advanced: [
+    'saber', 'traer', 'conducir', 'caber', 'construir', 'leer', 'sentir', 'seguir',
+    'elegir', 'volver', 'morir', 'oír', 'valer', 'andar', 'mantener', 'reír'
+  ]
+};
+
+const PRACTICE_TENSES: Record<string, TenseId[]> = {
+  beginner: ['indicative.present'],
+  intermediate: [
+    'indicative.present', 'indicative.preterite', 'indicative.imperfect', 'indicative.future',
+    'indicative.present_perfect', 'imperative.affirmative'
+  ],
+  advanced: [
+    'indicative.preterite', 'indicative.imperfect', 'indicative.conditional', 'indicative.pluperfect',
+    'subjunctive.present', 'subjunctive.imperfect', 'subjunctive.present_perfect',
+    'imperative.affirmative', 'imperative.negative'
+  ]
+};
+
+const SUBJECTS: Record<Person, string[]> = {
+  yo: ['yo'],
+  tu: ['tú'],
+  el: ['él', 'ella', 'usted'],
+  nosotros: ['nosotros', 'nosotras'],
+  vosotros: ['vosotros', 'vosotras'],
+  ellos: ['ellos', 'ellas', 'ustedes']
+};
+
+/**
+ * Main clauses that call for the subjunctive tense in the drill sentence
+ */
+const SUBJUNCTIVE_TRIGGERS: Record<string, string> = {
+  present: 'Espero que',
+  present_perfect: 'Espero que',
+  imperfect: 'Esperaba que',
+  imperfect_se: 'Esperaba que',
+  pluperfect: 'Esperaba que',
+  future: 'Si',
+  future_perfect: 'Si'
+};
+
+/**
+ * Verbs available at a difficulty level, including those of the easier levels
+ */
+const practiceVerbsFor = (difficultyLevel: string): string[] => {
+  const levels = Object.keys(PRACTICE_VERBS);
+  const index = Math.max(levels.indexOf(difficultyLevel), 0);
+  return levels.slice(0, index + 1).flatMap(level => PRACTICE_VERBS[level]);
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const buildSentence = (mood: Mood, tense: Tense, subject: string, verb: string, negative: boolean): string => {
+  if (mood === 'imperative') {
+    return `(${subject}) ${negative ? 'No ___' : '¡___'} (${verb})${negative ? '.' : '!'}`;
+  }
+
+  if (mood === 'subjunctive') {
+    return `${SUBJUNCTIVE_TRIGGERS[tense]} ${subject} ___ (${verb}).`;
+  }
+
+  return `${capitalize(subject)} ___ (${verb}).`;
+};
+
+/**
+ * Generate fill_in_blank conjugation exercises
+ *
+ * Verbs that can't be conjugated are skipped. The same verb, tense and person is not
+ * drilled twice in a set, so fewer than `count` exercises are returned when there aren't
+ * enough combinations.
+ */
+export const generateConjugationExercises = (options: ConjugationExerciseOptions): FillInBlankExercise[] => {
+  const { difficultyLevel = 'beginner', count, random = Math.random } = options;
+  const verbs = options.verbs?.length ? options.verbs : practiceVerbsFor(difficultyLevel);
+  const tenseIds = options.tenses?.length ? options.tenses : PRACTICE_TENSES[difficultyLevel] || PRACTICE_TENSES.beginner;
+
+  const conjugations = verbs.map(conjugate).filter(conjugation => conjugation !== null);
+  const tenses = tenseIds.map(parseTenseId).filter(tense => tense !== null);
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+
+  const exercises: FillInBlankExercise[] = [];
+  const drilled = new Set<string>();
+  const maxAttempts = count * 20;
+
+  if (conjugations.length === 0 || tenses.length === 0) {
+    return exercises;
+  }
+
+  for (let attempt = 0; attempt < maxAttempts && exercises.length < count; attempt++) {
+    const conjugation = pick(conjugations);
+    const { mood, tense } = pick(tenses);
+    const person = pick(mood === 'imperative' ? PERSONS.slice(1) : PERSONS);
+    const key = `${conjugation.infinitive}:${mood}.${tense}:${person}`;
+    const form = (conjugation[mood] as Record<string, Record<Person, string | null>>)[tense][person];
+
+    if (!form || drilled.has(key)) {
+      continue;
+    }
+
+    drilled.add(key);
+
+    const negative = form.startsWith('no ');
+    const answer = negative ? form.slice(3) : form;
+    const label = tenseLabel(mood, tense);
+
+    exercises.push({
+      id: `ex${exercises.length + 1}`,
+      type: 'fill_in_blank',
+      instruction: `Complete the sentence with the ${label} of the verb in brackets.`,
+      sentence: buildSentence(mood, tense, pick(SUBJECTS[person]), conjugation.infinitive, negative),
+      blanks: [answer],
+      explanation: `"${answer}" is the ${label} of "${conjugation.infinitive}" for ${PERSON_PRONOUNS[person]}.`,
+      conjugation: { verb: conjugation.infinitive, mood, tense, person }
+    });
+  }
+
+  return exercises;
+};
@@ -0,0 +1,860 @@
+/**
+ * Spanish verb conjugation for the Spanish Learning MCP Server
+ *
+ * Conjugates infinitives in every indicative, subjunctive and imperative tense without
+ * calling the model, so conjugation drills can be generated offline and verb answers
+ * produced by the model can be checked. Forms are derived from the regular endings with:
+ * - stem changes (pensar → pienso, dormir → duermo/durmió, pedir → pido, oler → huelo)
+ * - a written accent on the stressed i or u of the stem (enviar → envío, continuar →
+ *   continúo, prohibir → prohíbo)
+ * - spelling changes that keep the consonant sound (buscar → busqué, conocer → conozco,
+ *   coger → cojo, seguir → sigo, construir → construyo, leer → leyó)
+ * - a table of irregular verbs, which also covers their prefixed forms (mantener,
+ *   componer, deshacer, sonreír)
+ *
+ * Reflexive infinitives (levantarse) are conjugated like the plain verb, with the pronoun
+ * in front of finite forms (me levanto, no te levantes) and attached to the affirmative
+ * imperative and the gerund (levántate, levantándose).
+ */
+
+export const PERSONS = ['yo', 'tu', 'el', 'nosotros', 'vosotros', 'ellos'] as const;
+
+export type Person = typeof PERSONS[number];
+
+export const PERSON_PRONOUNS: Record<Person, string> = {
+  yo: 'yo',
+  tu: 'tú',
+  el: 'él/ella/usted',
+  nosotros: 'nosotros/as',
+  vosotros: 'vosotros/as',
+  ellos: 'ellos/ellas/ustedes'
+};
+
+export const MOOD_TENSES = {
+  indicative: [
+    'present', 'preterite', 'imperfect', 'future', 'conditional',
+    'present_perfect', 'pluperfect', 'preterite_anterior', 'future_perfect', 'conditional_perfect'
+  ],
+  subjunctive: [
+    'present', 'imperfect', 'imperfect_se', 'future',
+    'present_perfect', 'pluperfect', 'future_perfect'
+  ],
+  imperative: ['affirmative', 'negative']
+} as const;
+
+export type Mood = keyof typeof MOOD_TENSES;
+export type IndicativeTense = typeof MOOD_TENSES.indicative[number];
+export type SubjunctiveTense = typeof MOOD_TENSES.subjunctive[number];
+export type ImperativeTense = typeof MOOD_TENSES.imperative[number];
+export type Tense = IndicativeTense | SubjunctiveTense | ImperativeTense;
+
+export const MOODS = Object.keys(MOOD_TENSES) as Mood[];
+
+/**
+ * Every tense name used by any mood
+ */
+export const TENSES = Array.from(new Set(Object.values(MOOD_TENSES).flat())) as Tense[];
+
+/**
+ * A tense identified as `mood.tense`, e.g. `indicative.present`
+ */
+export type TenseId = `${Mood}.${Tense}`;
+
+export const TENSE_IDS = MOODS.flatMap(mood =>
+  MOOD_TENSES[mood].map(tense => `${mood}.${tense}` as TenseId)
+);
+
+const TENSE_LABELS: Record<Mood, Record<string, string>> = {
+  indicative: {
+    present: 'present indicative',
+    preterite: 'preterite',
+    imperfect: 'imperfect indicative',
+    future: 'future',
+    conditional: 'conditional',
+    present_perfect: 'present perfect',
+    pluperfect: 'pluperfect',
+    preterite_anterior: 'preterite anterior',
+    future_perfect: 'future perfect',
+    conditional_perfect: 'conditional perfect'
+  },
+  subjunctive: {
+    present: 'present subjunctive',
+    imperfect: 'imperfect subjunctive',
+    imperfect_se: 'imperfect subjunctive (-se form)',
+    future: 'future subjunctive',
+    present_perfect: 'present perfect subjunctive',
+    pluperfect: 'pluperfect subjunctive',
+    future_perfect: 'future perfect subjunctive'
+  },
+  imperative: {
+    affirmative: 'affirmative imperative',
+    negative: 'negative imperative'
+  }
+};
+
+export const tenseLabel = (mood: Mood, tense: Tense): string => {
+  return TENSE_LABELS[mood][tense] || `${tense.replace(/_/g, ' ')} ${mood}`;
+};
+
+/**
+ * Forms by person. The imperative has no `yo` form, so it is null there.
+ */
+export type ConjugationTable = Record<Person, string | null>;
+
+export type StemChange = 'e>ie' | 'o>ue' | 'e>i' | 'u>ue' | 'i>ie';
+
+export interface VerbConjugation {
+  infinitive: string;
+  /**
+   * False for irregular and stem-changing verbs. Spelling changes and written accents
+   * (envío) don't count.
+   */
+  regular: boolean;
+  stemChange?: StemChange;
+  gerund: string;
+  pastParticiple: string;
+  indicative: Record<IndicativeTense, ConjugationTable>;
+  subjunctive: Record<SubjunctiveTense, ConjugationTable>;
+  imperative: Record<ImperativeTense, ConjugationTable>;
+}
+
+type Ending = 'ar' | 'er' | 'ir';
+
+type Forms = [string, string, string, string, string, string];
+
+interface IrregularVerb {
+  stemChange?: StemChange;
+  /**
+   * Irregular first person present; the present subjunctive is built on it
+   */
+  presentYo?: string;
+  /**
+   * Present subjunctive stem when it isn't the `yo` form without its -o
+   */
+  subjunctiveStem?: string;
+  /**
+   * Stem of a strong preterite (tuv-e, tuv-o), which takes unstressed endings
+   */
+  preteriteStem?: string;
+  futureStem?: string;
+  gerund?: string;
+  participle?: string;
+  imperativeTu?: string;
+  imperativeNosotros?: string;
+  /**
+   * Complete tables that replace the derived forms
+   */
+  forms?: {
+    present?: Forms;
+    preterite?: Forms;
+    imperfect?: Forms;
+    subjunctive?: Forms;
+  };
+  /**
+   * Prefixed verbs (mantener, componer, sonreír) conjugate like this one
+   */
+  prefixable?: boolean;
+}
+
+const IRREGULAR_VERBS: Record<string, IrregularVerb> = {
+  ser: {
+    imperativeTu: 'sé',
+    forms: {
+      present: ['soy', 'eres', 'es', 'somos', 'sois', 'son'],
+      preterite: ['fui', 'fuiste', 'fue', 'fuimos', 'fuisteis', 'fueron'],
+      imperfect: ['era', 'eras', 'era', 'éramos', 'erais', 'eran'],
+      subjunctive: ['sea', 'seas', 'sea', 'seamos', 'seáis', 'sean']
+    }
+  },
+  estar: {
+    preteriteStem: 'estuv',
+    forms: {
+      present: ['estoy', 'estás', 'está', 'estamos', 'estáis', 'están'],
+      subjunctive: ['esté', 'estés', 'esté', 'estemos', 'estéis', 'estén']
+    }
+  },
+  ir: {
+    gerund: 'yendo',
+    imperativeTu: 've',
+    imperativeNosotros: 'vamos',
+    forms: {
+      present: ['voy', 'vas', 'va', 'vamos', 'vais', 'van'],
+      preterite: ['fui', 'fuiste', 'fue', 'fuimos', 'fuisteis', 'fueron'],
+      imperfect: ['iba', 'ibas', 'iba', 'íbamos', 'ibais', 'iban'],
+      subjunctive: ['vaya', 'vayas', 'vaya', 'vayamos', 'vayáis', 'vayan']
+    }
+  },
+  haber: {
+    subjunctiveStem: 'hay',
+    preteriteStem: 'hub',
+    futureStem: 'habr',
+    imperativeTu: 'he',
+    forms: {
+      present: ['he', 'has', 'ha', 'hemos', 'habéis', 'han']
+    }
+  },
+  dar: {
+    forms: {
+      present: ['doy', 'das', 'da', 'damos', 'dais', 'dan'],
+      preterite: ['di', 'diste', 'dio', 'dimos', 'disteis', 'dieron'],
+      subjunctive: ['dé', 'des', 'dé', 'demos', 'deis', 'den']
+    }
+  },
+  ver: {
+    presentYo: 'veo',
+    participle: 'visto',
+    forms: {
+      present: ['veo', 'ves', 've', 'vemos', 'veis', 'ven'],
+      preterite: ['vi', 'viste', 'vio', 'vimos', 'visteis', 'vieron'],
+      imperfect: ['veía', 'veías', 'veía', 'veíamos', 'veíais', 'veían']
+    }
+  },
+  tener: {
+    stemChange: 'e>ie',
+    presentYo: 'tengo',
+    preteriteStem: 'tuv',
+    futureStem: 'tendr',
+    imperativeTu: 'ten',
+    prefixable: true
+  },
+  venir: {
+    stemChange: 'e>ie',
+    presentYo: 'vengo',
+    preteriteStem: 'vin',
+    futureStem: 'vendr',
+    imperativeTu: 'ven',
+    prefixable: true
+  },
+  poner: {
+    presentYo: 'pongo',
+    preteriteStem: 'pus',
+    futureStem: 'pondr',
+    participle: 'puesto',
+    imperativeTu: 'pon',
+    prefixable: true
+  },
+  hacer: {
+    presentYo: 'hago',
+    futureStem: 'har',
+    participle: 'hecho',
+    imperativeTu: 'haz',
+    forms: {
+      preterite: ['hice', 'hiciste', 'hizo', 'hicimos', 'hicisteis', 'hicieron']
+    },
+    prefixable: true
+  },
+  decir: {
+    stemChange: 'e>i',
+    presentYo: 'digo',
+    preteriteStem: 'dij',
+    futureStem: 'dir',
+    participle: 'dicho',
+    imperativeTu: 'di'
+  },
+  poder: {
+    stemChange: 'o>ue',
+    preteriteStem: 'pud',
+    futureStem: 'podr',
+    gerund: 'pudiendo'
+  },
+  querer: {
+    stemChange: 'e>ie',
+    preteriteStem: 'quis',
+    futureStem: 'querr'
+  },
+  saber: {
+    presentYo: 'sé',
+    subjunctiveStem: 'sep',
+    preteriteStem: 'sup',
+    futureStem: 'sabr'
+  },
+  caber: {
+    presentYo: 'quepo',
+    preteriteStem: 'cup',
+    futureStem: 'cabr'
+  },
+  salir: {
+    presentYo: 'salgo',
+    futureStem: 'saldr',
+    imperativeTu: 'sal',
+    prefixable: true
+  },
+  valer: {
+    presentYo: 'valgo',
+    futureStem: 'valdr',
+    prefixable: true
+  },
+  traer: {
+    presentYo: 'traigo',
+    preteriteStem: 'traj',
+    prefixable: true
+  },
+  caer: {
+    presentYo: 'caigo',
+    prefixable: true
+  },
+  oír: {
+    presentYo: 'oigo',
+    forms: {
+      present: ['oigo', 'oyes', 'oye', 'oímos', 'oís', 'oyen']
+    }
+  },
+  andar: {
+    preteriteStem: 'anduv'
+  },
+  reír: {
+    stemChange: 'e>i',
+    gerund: 'riendo',
+    forms: {
+      present: ['río', 'ríes', 'ríe', 'reímos', 'reís', 'ríen'],
+      preterite: ['reí', 'reíste', 'rio', 'reímos', 'reísteis', 'rieron'],
+      subjunctive: ['ría', 'rías', 'ría', 'riamos', 'riáis', 'rían']
+    },
+    prefixable: true
+  }
+};
+
+const STEM_CHANGING_VERBS: Record<string, StemChange> = {
+  pensar: 'e>ie', cerrar: 'e>ie', empezar: 'e>ie', comenzar: 'e>ie', despertar: 'e>ie',
+  sentar: 'e>ie', nevar: 'e>ie', recomendar: 'e>ie', entender: 'e>ie', perder: 'e>ie',
+  encender: 'e>ie', defender: 'e>ie', preferir: 'e>ie', sentir: 'e>ie', mentir: 'e>ie',
+  divertir: 'e>ie', convertir: 'e>ie', advertir: 'e>ie',
+  contar: 'o>ue', encontrar: 'o>ue', mostrar: 'o>ue', recordar: 'o>ue', costar: 'o>ue',
+  volar: 'o>ue', soñar: 'o>ue', probar: 'o>ue', almorzar: 'o>ue', acostar: 'o>ue',
+  volver: 'o>ue', devolver: 'o>ue', envolver: 'o>ue', resolver: 'o>ue', mover: 'o>ue',
+  llover: 'o>ue', doler: 'o>ue', cocer: 'o>ue', dormir: 'o>ue', morir: 'o>ue',
+  pedir: 'e>i', servir: 'e>i', repetir: 'e>i', seguir: 'e>i', conseguir: 'e>i',
+  vestir: 'e>i', medir: 'e>i', elegir: 'e>i', corregir: 'e>i', competir: 'e>i',
+  oler: 'o>ue', errar: 'e>ie',
+  jugar: 'u>ue',
+  adquirir: 'i>ie'
+};
+
+/**
+ * -iar verbs whose i is stressed in the present (envío), unlike most (cambio, estudio).
+ * -uar verbs (continúo) and -ohibir verbs (prohíbo) always stress it, except -cuar and
+ * -guar (averiguo).
+ */
+const ACCENTED_STEM_VERBS = new Set([
+  'enviar', 'reenviar', 'desviar', 'confiar', 'desconfiar', 'fiar', 'desafiar', 'guiar',
+  'variar', 'enfriar', 'resfriar', 'esquiar', 'vaciar', 'ampliar', 'criar', 'espiar',
+  'liar', 'fotografiar', 'telegrafiar', 'averiar', 'contrariar', 'rociar', 'chirriar',
+  'reunir', 'aislar', 'rehusar', 'ahumar', 'aullar', 'maullar'
+]);
+
+const hasAccentedStem = (infinitive: string): boolean => {
+  return ACCENTED_STEM_VERBS.has(infinitive) || /[^cg]uar$/.test(infinitive) || infinitive.endsWith('ohibir');
+};
+
+const IRREGULAR_PARTICIPLES: Record<string, string> = {
+  abrir: 'abierto',
+  cubrir: 'cubierto',
+  descubrir: 'descubierto',
+  escribir: 'escrito',
+  describir: 'descrito',
+  inscribir: 'inscrito',
+  romper: 'roto',
+  volver: 'vuelto',
+  devolver: 'devuelto',
+  envolver: 'envuelto',
+  resolver: 'resuelto',
+  morir: 'muerto',
+  imprimir: 'impreso',
+  freír: 'frito'
+};
+
+/**
+ * -cer verbs whose stem keeps a plain z (cuezo), not zc (conozco)
+ */
+const Z_VERBS = new Set(['cocer', 'escocer', 'recocer', 'mecer']);
+
+/**
+ * Short forms that need a written accent once a prefix is added (mantén, sonrió)
+ */
+const PREFIXED_ACCENTS: Record<string, string> = {
+  ten: 'tén',
+  pon: 'pón',
+  ven: 'vén',
+  rio: 'rió'
+};
+
+const PRESENT_ENDINGS: Record<Ending, Forms> = {
+  ar: ['o', 'as', 'a', 'amos', 'áis', 'an'],
+  er: ['o', 'es', 'e', 'emos', 'éis', 'en'],
+  ir: ['o', 'es', 'e', 'imos', 'ís', 'en']
+};
+
+const PRETERITE_ENDINGS: Record<Ending, Forms> = {
+  ar: ['é', 'aste', 'ó', 'amos', 'asteis', 'aron'],
+  er: ['í', 'iste', 'ió', 'imos', 'isteis', 'ieron'],
+  ir: ['í', 'iste', 'ió', 'imos', 'isteis', 'ieron']
+};
+
+const STRONG_PRETERITE_ENDINGS: Forms = ['e', 'iste', 'o', 'imos', 'isteis', 'ieron'];
+
+const IMPERFECT_ENDINGS: Record<Ending, Forms> = {
+  ar: ['aba', 'abas', 'aba', 'ábamos', 'abais', 'aban'],
+  er: ['ía', 'ías', 'ía', 'íamos', 'íais', 'ían'],
+  ir: ['ía', 'ías', 'ía', 'íamos', 'íais', 'ían']
+};
+
+const FUTURE_ENDINGS: Forms = ['é', 'ás', 'á', 'emos', 'éis', 'án'];
+const CONDITIONAL_ENDINGS: Forms = ['ía', 'ías', 'ía', 'íamos', 'íais', 'ían'];
+
+const SUBJUNCTIVE_ENDINGS: Record<Ending, Forms> = {
+  ar: ['e', 'es', 'e', 'emos', 'éis', 'en'],
+  er: ['a', 'as', 'a', 'amos', 'áis', 'an'],
+  ir: ['a', 'as', 'a', 'amos', 'áis', 'an']
+};
+
+/**
+ * Persons whose stem is stressed in the present, and so takes the stem change
+ */
+const STRESSED_STEM = new Set([0, 1, 2, 5]);
+
+const ACCENTED_VOWELS: Record<string, string> = { a: 'á', e: 'é', i: 'í', o: 'ó', u: 'ú' };
+
+const PLAIN_VOWELS: Record<string, string> = { á: 'a', é: 'e', í: 'i', ó: 'o', ú: 'u' };
+
+/**
+ * Consonants that can open a Spanish syllable, clusters first
+ */
+const ONSET = '(?:ch|ll|rr|qu|gu|ps|[bcfgkpt][lr]|dr|[bcdfghjklmnñprstvwxyz])';
+const NUCLEUS = '[aeiouáéíóúü]+';
+const CODA = '(?:[bdlnr]s|[bcdfgjklmnprstxz])?';
+
+/**
+ * A word spelled as Spanish syllables (in-ter-pre-tar), which rules out invented letter
+ * sequences (xyzar). Every syllable after the first needs an onset, so the vowels
+ * between two consonants always belong to one syllable.
+ */
+const SPANISH_WORD = new RegExp(`^${ONSET}?${NUCLEUS}${CODA}(?:${ONSET}${NUCLEUS}${CODA})*$`);
+
+export const isInfinitive = (verb: string): boolean => {
+  return verb === 'ir' || (/^[a-zñáéíóúü]+(ar|er|ir|ír)$/.test(verb) && SPANISH_WORD.test(verb));
+};
+
+const replaceLast = (stem: string, from: string, to: string): string => {
+  const index = stem.lastIndexOf(from);
+  return index < 0 ? stem : stem.slice(0, index) + to + stem.slice(index + from.length);
+};
+
+/**
+ * Change the stressed stem vowel (pens → piens). A diphthong can't start a word, so it
+ * is spelled hue- and ye- there (ol → huel, err → yerr).
+ */
+const applyStemChange = (stem: string, change: StemChange): string => {
+  const [from, to] = change.split('>');
+  return replaceLast(stem, from, to).replace(/^ue/, 'hue').replace(/^ie/, 'ye');
+};
+
+/**
+ * Accent the last i or u of the stem, so it doesn't form a diphthong (envi → enví)
+ */
+const accentWeakVowel = (stem: string): string => {
+  const index = Math.max(stem.lastIndexOf('i'), stem.lastIndexOf('u'));
+  return index < 0 ? stem : stem.slice(0, index) + ACCENTED_VOWELS[stem[index]] + stem.slice(index + 1);
+};
+
+/**
+ * The vowel change -ir stem-changing verbs take in unstressed stems (sintió, durmiendo)
+ */
+const applyWeakStemChange = (stem: string, change: StemChange): string => {
+  if (change === 'e>ie' || change === 'e>i') {
+    return replaceLast(stem, 'e', 'i');
+  }
+  return change === 'o>ue' ? replaceLast(stem, 'o', 'u') : stem;
+};
+
+const accentLastVowel = (stem: string): string => {
+  for (let i = stem.length - 1; i >= 0; i--) {
+    if (ACCENTED_VOWELS[stem[i]]) {
+      return stem.slice(0, i) + ACCENTED_VOWELS[stem[i]] + stem.slice(i + 1);
+    }
+  }
+  return stem;
+};
+
+const toTable = (forms: (string | null)[]): ConjugationTable => ({
+  yo: forms[0],
+  tu: forms[1],
+  el: forms[2],
+  nosotros: forms[3],
+  vosotros: forms[4],
+  ellos: forms[5]
+});
+
+interface SimpleTenses {
+  ending: Ending;
+  stemChange?: StemChange;
+  gerund: string;
+  participle: string;
+  present: Forms;
+  preterite: Forms;
+  imperfect: Forms;
+  future: Forms;
+  conditional: Forms;
+  subjunctive: Forms;
+  subjunctiveImperfect: Forms;
+  subjunctiveImperfectSe: Forms;
+  subjunctiveFuture: Forms;
+  imperative: (string | null)[];
+  negativeImperative: (string | null)[];
+}
+
+/**
+ * Conjugate the simple (one-word) tenses of an unprefixed infinitive
+ */
+const conjugateSimpleTenses = (infinitive: string, irregular: IrregularVerb = {}): SimpleTenses => {
+  const ending = infinitive.slice(-2).replace('í', 'i') as Ending;
+  const stem = infinitive.slice(0, -2);
+  const stemChange = irregular.stemChange || STEM_CHANGING_VERBS[infinitive];
+  const stressedStem = stemChange
+    ? applyStemChange(stem, stemChange)
+    : hasAccentedStem(infinitive) ? accentWeakVowel(stem) : stem;
+  const weakStem = stemChange && ending === 'ir' ? applyWeakStemChange(stem, stemChange) : stem;
+  const isUirVerb = /[^gq]uir$/.test(infinitive);
+
+  /**
+   * Add an ending to a regular or stem-changed stem, adjusting the spelling so the stem
+   * keeps its sound
+   */
+  const attach = (base: string, suffix: string): string => {
+    let result = base;
+    const first = suffix.charAt(0);
+
+    if (ending === 'ar' && 'eé'.includes(first)) {
+      if (result.endsWith('c')) {
+        result = result.slice(0, -1) + 'qu';
+      } else if (result.endsWith('gu')) {
+        result = result.slice(0, -2) + 'gü';
+      } else if (result.endsWith('g')) {
+        result += 'u';
+      } else if (result.endsWith('z')) {
+        result = result.slice(0, -1) + 'c';
+      }
+    }
+
+    if (ending !== 'ar' && 'aoáó'.includes(first)) {
+      if (result.endsWith('gu') && /guir$/.test(infinitive)) {
+        result = result.slice(0, -2) + 'g';
+      } else if (result.endsWith('g')) {
+        result = result.slice(0, -1) + 'j';
+      } else if (result.endsWith('c')) {
+        const afterVowel = /[aeiou]c$/.test(result) && !Z_VERBS.has(infinitive);
+        result = result.slice(0, -1) + (afterVowel ? 'zc' : 'z');
+      }
+    }
+
+    if (isUirVerb && 'aeoáéó'.includes(first)) {
+      result += 'y';
+    }
+
+    // Vowel stems (le-er, ca-er, constru-ir): unstressed i becomes y, stressed i takes an accent
+    if (ending !== 'ar' && /[aeiou]$/.test(result) && !/[gq]u$/.test(result)) {
+      if (/^i[eó]/.test(suffix)) {
+        return result + 'y' + suffix.slice(1);
+      }
+      if (/[aeo]$/.test(result) && first === 'i') {
+        return result + 'í' + suffix.slice(1);
+      }
+    }
+
+    return result + suffix;
+  };
+
+  const forms = irregular.forms || {};
+
+  const present = forms.present || PRESENT_ENDINGS[ending].map((suffix, i) =>
+    i === 0 && irregular.presentYo ? irregular.presentYo : attach(STRESSED_STEM.has(i) ? stressedStem : stem, suffix)
+  ) as Forms;
+
+  let preterite: Forms;
+  const strongStem = irregular.preteriteStem;
+
+  if (forms.preterite) {
+    preterite = forms.preterite;
+  } else if (strongStem) {
+    preterite = STRONG_PRETERITE_ENDINGS.map(suffix =>
+      strongStem + (strongStem.endsWith('j') && suffix === 'ieron' ? 'eron' : suffix)
+    ) as Forms;
+  } else {
+    preterite = PRETERITE_ENDINGS[ending].map((suffix, i) =>
+      attach(i === 2 || i === 5 ? weakStem : stem, suffix)
+    ) as Forms;
+  }
+
+  const imperfect = forms.imperfect || IMPERFECT_ENDINGS[ending].map(suffix => attach(stem, suffix)) as Forms;
+
+  const futureStem = irregular.futureStem || stem + ending;
+  const future = FUTURE_ENDINGS.map(suffix => futureStem + suffix) as Forms;
+  const conditional = CONDITIONAL_ENDINGS.map(suffix => futureStem + suffix) as Forms;
+
+  let subjunctive: Forms;
+  const subjunctiveStem = irregular.subjunctiveStem || irregular.presentYo?.replace(/o$/, '');
+
+  if (forms.subjunctive) {
+    subjunctive = forms.subjunctive;
+  } else if (subjunctiveStem) {
+    subjunctive = SUBJUNCTIVE_ENDINGS[ending].map(suffix => subjunctiveStem + suffix) as Forms;
+  } else {
+    subjunctive = SUBJUNCTIVE_ENDINGS[ending].map((suffix, i) =>
+      attach(STRESSED_STEM.has(i) ? stressedStem : weakStem, suffix)
+    ) as Forms;
+  }
+
+  // The imperfect and future subjunctive are built on the third person plural preterite
+  const pastStem = preterite[5].slice(0, -3);
+  const fromPastStem = (suffixes: Forms) => suffixes.map((suffix, i) =>
+    (i === 3 ? accentLastVowel(pastStem) : pastStem) + suffix
+  ) as Forms;
+
+  const imperative = [
+    null,
+    irregular.imperativeTu || present[2],
+    subjunctive[2],
+    irregular.imperativeNosotros || subjunctive[3],
+    infinitive.slice(0, -1) + 'd',
+    subjunctive[5]
+  ];
+
+  return {
+    ending,
+    stemChange,
+    gerund: irregular.gerund || attach(ending === 'ar' ? stem : weakStem, ending === 'ar' ? 'ando' : 'iendo'),
+    participle: irregular.participle || IRREGULAR_PARTICIPLES[infinitive] || attach(stem, ending === 'ar' ? 'ado' : 'ido'),
+    present,
+    preterite,
+    imperfect,
+    future,
+    conditional,
+    subjunctive,
+    subjunctiveImperfect: fromPastStem(['ra', 'ras', 'ra', 'ramos', 'rais', 'ran']),
+    subjunctiveImperfectSe: fromPastStem(['se', 'ses', 'se', 'semos', 'seis', 'sen']),
+    subjunctiveFuture: fromPastStem(['re', 'res', 're', 'remos', 'reis', 'ren']),
+    imperative,
+    negativeImperative: [null, ...subjunctive.slice(1).map(form => `no ${form}`)]
+  };
+};
+
+/**
+ * Find the irregular verb an infinitive conjugates like, and the prefix in front of it
+ */
+const resolveIrregularVerb = (infinitive: string): { irregular?: IrregularVerb; base: string; prefix: string } => {
+  if (IRREGULAR_VERBS[infinitive]) {
+    return { irregular: IRREGULAR_VERBS[infinitive], base: infinitive, prefix: '' };
+  }
+
+  const base = Object.keys(IRREGULAR_VERBS).find(verb =>
+    IRREGULAR_VERBS[verb].prefixable && infinitive.length > verb.length && infinitive.endsWith(verb)
+  );
+
+  if (base) {
+    return { irregular: IRREGULAR_VERBS[base], base, prefix: infinitive.slice(0, -base.length) };
+  }
+
+  // -ducir verbs (conducir, producir, traducir) have a strong preterite in -duj-
+  if (infinitive.endsWith('ducir')) {
+    return { irregular: { preteriteStem: infinitive.slice(0, -2).replace(/c$/, 'j') }, base: infinitive, prefix: '' };
+  }
+
+  return { base: infinitive, prefix: '' };
+};
+
+/**
+ * Add a prefix to the verb in a form (the last word, so "no tengas" becomes "no mantengas")
+ */
+const addPrefix = (form: string | null, prefix: string): string | null => {
+  if (form === null || !prefix) {
+    return form;
+  }
+
+  const words = form.split(' ');
+  const verb = words.pop()!;
+  // A prefix without a vowel (f-reír) adds no syllable, so the stress doesn't move
+  const accented = /[aeiou]/.test(prefix) ? PREFIXED_ACCENTS[verb] : undefined;
+  return [...words, prefix + (accented || verb)].join(' ');
+};
+
+const REFLEXIVE_PRONOUNS: Forms = ['me', 'te', 'se', 'nos', 'os', 'se'];
+
+/**
+ * The vowels of each syllable in a word. Two strong vowels (le-er) or an accented i or
+ * u (le-í) split syllables; other vowel groups are diphthongs (sien-te).
+ */
+const syllableVowels = (word: string): { start: number; end: number }[] => {
+  const syllables: { start: number; end: number }[] = [];
+
+  for (let i = 0; i < word.length; i++) {
+    if (!/[aeiouáéíóúü]/.test(word[i])) {
+      continue;
+    }
+
+    const previous = syllables[syllables.length - 1];
+    const hiatus = /[aeoáéíóú]/.test(word[i]) && /[aeoáéíóú]/.test(word[i - 1]);
+
+    if (previous && previous.end === i && !hiatus) {
+      previous.end = i + 1;
+    } else {
+      syllables.push({ start: i, end: i + 1 });
+    }
+  }
+
+  return syllables;
+};
+
+/**
+ * Attach a pronoun to the end of a verb form, keeping its stress with a written accent
+ * where needed (levanta → levántate, pon → ponte, levantemos → levantémonos,
+ * levantad → levantaos, vestid → vestíos)
+ */
+const attachPronoun = (form: string, pronoun: string): string => {
+  let verb = form;
+
+  if (pronoun === 'nos' && verb.endsWith('s')) {
+    verb = verb.slice(0, -1);
+  }
+
+  // The vosotros imperative drops its -d (except idos) and isn't stressed on the pronoun
+  if (pronoun === 'os') {
+    verb = verb === 'id' ? verb : verb.replace(/d$/, '');
+    return verb.replace(/i$/, 'í') + pronoun;
+  }
+
+  const syllables = syllableVowels(verb);
+  const accented = syllables.findIndex(({ start, end }) => /[áéíóú]/.test(verb.slice(start, end)));
+  const stressed = accented >= 0 ? accented : Math.max(syllables.length - (/[aeiouns]$/.test(verb) ? 2 : 1), 0);
+
+  if (stressed === syllables.length - 1) {
+    // Stress on the last syllable now falls on the second to last, which needs no accent
+    return verb.replace(/[áéíóú]/, vowel => PLAIN_VOWELS[vowel]) + pronoun;
+  }
+
+  if (accented >= 0) {
+    return verb + pronoun;
+  }
+
+  // Stress on the third to last syllable is always written, on its strong vowel if any
+  const { start, end } = syllables[stressed];
+  const vowels = verb.slice(start, end);
+  const strong = vowels.search(/[aeo]/);
+  const index = start + (strong >= 0 ? strong : vowels.length - 1);
+
+  return verb.slice(0, index) + ACCENTED_VOWELS[verb[index]] + verb.slice(index + 1) + pronoun;
+};
+
+/**
+ * Add the reflexive pronouns to a conjugation: in front of finite forms (me levanto,
+ * no te levantes), and attached to the affirmative imperative and the gerund
+ */
+const toReflexive = (conjugation: VerbConjugation): VerbConjugation => {
+  const withPronouns = (table: ConjugationTable): ConjugationTable => toTable(PERSONS.map((person, i) => {
+    const form = table[person];
+
+    if (form === null) {
+      return null;
+    }
+
+    return form.startsWith('no ')
+      ? `no ${REFLEXIVE_PRONOUNS[i]} ${form.slice(3)}`
+      : `${REFLEXIVE_PRONOUNS[i]} ${form}`;
+  }));
+
+  const withPronounsInTenses = <T extends string>(tables: Record<T, ConjugationTable>) => Object.fromEntries(
+    Object.entries<ConjugationTable>(tables).map(([tense, table]) => [tense, withPronouns(table)])
+  ) as Record<T, ConjugationTable>;
+
+  const affirmative = conjugation.imperative.affirmative;
+
+  return {
+    ...conjugation,
+    infinitive: `${conjugation.infinitive}se`,
+    gerund: attachPronoun(conjugation.gerund, 'se'),
+    indicative: withPronounsInTenses(conjugation.indicative),
+    subjunctive: withPronounsInTenses(conjugation.subjunctive),
+    imperative: {
+      affirmative: toTable(PERSONS.map((person, i) => {
+        const form = affirmative[person];
+        return form === null ? null : attachPronoun(form, REFLEXIVE_PRONOUNS[i]);
+      })),
+      negative: withPronouns(conjugation.imperative.negative)
+    }
+  };
+};
+
+/**
+ * Conjugate a Spanish infinitive in every tense
+ *
+ * @returns The conjugation, or null if the verb is not an infinitive
+ */
+export const conjugate = (verb: string): VerbConjugation | null => {
+  const infinitive = verb.trim().toLowerCase();
+  const reflexiveBase = infinitive.endsWith('se') ? infinitive.slice(0, -2) : '';
+
+  if (reflexiveBase && isInfinitive(reflexiveBase)) {
+    return toReflexive(conjugate(reflexiveBase)!);
+  }
+
+  if (!isInfinitive(infinitive)) {
+    return null;
+  }
+
+  const { irregular, base, prefix } = resolveIrregularVerb(infinitive);
+  const simple = conjugateSimpleTenses(base, irregular);
+  const haber = conjugateSimpleTenses('haber', IRREGULAR_VERBS.haber);
+
+  const participle = IRREGULAR_PARTICIPLES[infinitive] || addPrefix(simple.participle, prefix)!;
+  const table = (forms: (string | null)[]) => toTable(forms.map(form => addPrefix(form, prefix)));
+  const compound = (auxiliary: Forms) => toTable(auxiliary.map(form => `${form} ${participle}`));
+
+  return {
+    infinitive,
+    regular: !irregular && !simple.stemChange && !IRREGULAR_PARTICIPLES[infinitive],
+    ...(simple.stemChange ? { stemChange: simple.stemChange } : {}),
+    gerund: addPrefix(simple.gerund, prefix)!,
+    pastParticiple: participle,
+    indicative: {
+      present: table(simple.present),
+      preterite: table(simple.preterite),
+      imperfect: table(simple.imperfect),
+      future: table(simple.future),
+      conditional: table(simple.conditional),
+      present_perfect: compound(haber.present),
+      pluperfect: compound(haber.imperfect),
+      preterite_anterior: compound(haber.preterite),
+      future_perfect: compound(haber.future),
+      conditional_perfect: compound(haber.conditional)
+    },
+    subjunctive: {
+      present: table(simple.subjunctive),
+      imperfect: table(simple.subjunctiveImperfect),
+      imperfect_se: table(simple.subjunctiveImperfectSe),
+      future: table(simple.subjunctiveFuture),
+      present_perfect: compound(haber.subjunctive),
+      pluperfect: compound(haber.subjunctiveImperfect),
+      future_perfect: compound(haber.subjunctiveFuture)
+    },
+    imperative: {
+      affirmative: table(simple.imperative),
+      negative: table(simple.negativeImperative)
+    }
+  };
+};
+
+export const parseTenseId = (id: string): { mood: Mood; tense: Tense } | null => {
+  const [mood, tense] = id.split('.') as [Mood, Tense];
+  return (TENSE_IDS as string[]).includes(id) ? { mood, tense } : null;
+};
+
+/**
+ * Look up one form of a verb
+ *
+ * @returns The form, or null if the verb is not an infinitive, the tense doesn't belong
+ *   to the mood, or the person has no form in it (imperative `yo`)
+ */
+export const getConjugatedForm = (verb: string, mood: Mood, tense: Tense, person: Person): string | null => {
+  const conjugation = conjugate(verb);
+  const tables = conjugation?.[mood] as Record<string, ConjugationTable> | undefined;
+
+  return tables?.[tense]?.[person] ?? null;
+};
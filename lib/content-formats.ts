@@ -0,0 +1,541 @@
+/**
+ * File formats for vocabulary and grammar content
+ *
+ * Content is read from and written to:
+ * - JSON: an array of items, as used for `customData`
+ * - CSV: one item per row with a header row, as saved by spreadsheets. Commas,
+ *   semicolons and tabs are detected as the delimiter, and common column names such as
+ *   "Spanish" and "English" are accepted
+ * - Anki decks: .apkg packages and Anki's tab-separated text export. The category,
+ *   difficulty level and CEFR level travel as `category::noun`-style tags
+ *
+ * Examples are written one per line as `spanish | english | explanation`, and tag and
+ * related vocabulary lists are separated by semicolons. Parsing returns the raw values
+ * of each row with its row number; validation is left to the import.
+ */
+import { ContentItem, ContentKind } from './content-schemas.js';
+import { AnkiDeck, htmlToText, readAnkiPackage, textToHtml, writeAnkiPackage } from './anki-package.js';
+import { UsageExample } from './appwrite.js';
+import { GrammarRule } from './mcp-module.js';
+
+export const CONTENT_FORMATS = ['json', 'csv', 'tsv', 'apkg'] as const;
+
+export type ContentFormat = typeof CONTENT_FORMATS[number];
+
+export const CONTENT_TYPES: Record<ContentFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+  apkg: 'application/zip'
+};
+
+export interface ContentRecord {
+  /**
+   * Row in the file: the line number for CSV and TSV, the position for JSON and Anki
+   */
+  row: number;
+  value: unknown;
+}
+
+const EXAMPLE_SEPARATOR = ' | ';
+
+const LIST_FIELDS = ['tags', 'relatedVocabulary'];
+
+const EXAMPLE_FIELDS = ['usageExamples', 'examples'];
+
+/**
+ * CSV columns in export order
+ */
+const CSV_COLUMNS: Record<ContentKind, string[]> = {
+  vocabulary: ['word', 'translation', 'category', 'difficultyLevel', 'cefrLevel', 'notes', 'usageExamples'],
+  grammar: ['title', 'category', 'difficultyLevel', 'cefrLevel', 'explanation', 'examples', 'tags', 'relatedVocabulary']
+};
+
+/**
+ * Accepted column and Anki field names, lowercased without spaces or punctuation
+ */
+const COLUMN_ALIASES: Record<ContentKind, Record<string, string>> = {
+  vocabulary: {
+    word: 'word',
+    spanish: 'word',
+    front: 'word',
+    translation: 'translation',
+    english: 'translation',
+    back: 'translation',
+    category: 'category',
+    partofspeech: 'category',
+    difficulty: 'difficultyLevel',
+    difficultylevel: 'difficultyLevel',
+    cefr: 'cefrLevel',
+    cefrlevel: 'cefrLevel',
+    notes: 'notes',
+    examples: 'usageExamples',
+    usageexamples: 'usageExamples'
+  },
+  grammar: {
+    title: 'title',
+    rule: 'title',
+    front: 'title',
+    category: 'category',
+    explanation: 'explanation',
+    back: 'explanation',
+    difficulty: 'difficultyLevel',
+    difficultylevel: 'difficultyLevel',
+    cefr: 'cefrLevel',
+    cefrlevel: 'cefrLevel',
+    examples: 'examples',
+    tags: 'tags',
+    relatedvocabulary: 'relatedVocabulary'
+  }
+};
+
+/**
+ * Fields of the Anki note types, in order; the first is the front of the card
+ */
+const ANKI_FIELDS: Record<ContentKind, { name: string; field: string }[]> = {
+  vocabulary: [
+    { name: 'Spanish', field: 'word' },
+    { name: 'English', field: 'translation' },
+    { name: 'Examples', field: 'usageExamples' },
+    { name: 'Notes', field: 'notes' }
+  ],
+  grammar: [
+    { name: 'Title', field: 'title' },
+    { name: 'Explanation', field: 'explanation' },
+    { name: 'Examples', field: 'examples' }
+  ]
+};
+
+/**
+ * Tags carrying item fields in Anki decks, such as `difficulty::beginner`
+ */
+const ANKI_TAG_FIELDS: Record<string, string> = {
+  category: 'category',
+  difficulty: 'difficultyLevel',
+  cefr: 'cefrLevel'
+};
+
+const ANKI_DECK_NAMES: Record<ContentKind, string> = {
+  vocabulary: 'Spanish Vocabulary',
+  grammar: 'Spanish Grammar'
+};
+
+const ANKI_SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+  space: ' ',
+  colon: ':'
+};
+
+const columnName = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Pick the format from the file name, or from the content when there is no name
+ */
+export const detectContentFormat = (data: Buffer, filename?: string): ContentFormat => {
+  const extension = filename?.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+
+  if (extension === 'json' || extension === 'csv' || extension === 'tsv' || extension === 'apkg') {
+    return extension;
+  }
+
+  if (extension === 'txt') {
+    return 'tsv';
+  }
+
+  if (data.length >= 4 && data.readUInt32LE(0) === 0x04034b50) {
+    return 'apkg';
+  }
+
+  const text = data.toString('utf8').replace(/^\uFEFF/, '').trimStart();
+
+  if (text.startsWith('[') || text.startsWith('{')) {
+    return 'json';
+  }
+
+  return text.startsWith('#separator') || text.startsWith('#html') ? 'tsv' : 'csv';
+};
+
+interface DelimitedRecord {
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Split delimited text into records, following RFC 4180 quoting. Blank lines are skipped.
+ *
+ * @throws {Error} If a quoted field isn't closed
+ */
+const parseDelimited = (text: string, delimiter: string, firstLine = 1): DelimitedRecord[] => {
+  const records: DelimitedRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = firstLine;
+  let recordLine = firstLine;
+  let quoteLine = firstLine;
+
+  const endRecord = () => {
+    cells.push(cell);
+
+    if (cells.length > 1 || cells[0] !== '') {
+      records.push({ line: recordLine, cells });
+    }
+
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+      quoteLine = line;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Quoted field starting on line ${quoteLine} is never closed`);
+  }
+
+  if (cell !== '' || cells.length > 0) {
+    endRecord();
+  }
+
+  return records;
+};
+
+const detectDelimiter = (headerLine: string): string => {
+  const counts = [',', ';', '\t'].map(delimiter => ({
+    delimiter,
+    count: headerLine.split(delimiter).length - 1
+  }));
+
+  return counts.reduce((best, current) => current.count > best.count ? current : best).delimiter;
+};
+
+const parseExamples = (text: string): Partial<UsageExample>[] => {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const [spanish, english, ...explanation] = line.split('|').map(part => part.trim());
+
+      return {
+        spanish,
+        ...(english ? { english } : {}),
+        ...(explanation.length > 0 && explanation.join(' | ') ? { explanation: explanation.join(' | ') } : {})
+      };
+    });
+};
+
+const formatExamples = (examples: UsageExample[] = []): string => {
+  return examples
+    .map(example => [example.spanish, example.english, example.explanation].filter(Boolean).join(EXAMPLE_SEPARATOR))
+    .join('\n');
+};
+
+/**
+ * Set a text cell on an item, converting example and list fields from their text form
+ */
+const setField = (value: Record<string, unknown>, field: string, text: string) => {
+  const trimmed = text.trim();
+
+  if (trimmed === '') {
+    return;
+  }
+
+  if (EXAMPLE_FIELDS.includes(field)) {
+    value[field] = parseExamples(trimmed);
+  } else if (LIST_FIELDS.includes(field)) {
+    value[field] = trimmed.split(/[;,]/).map(entry => entry.trim()).filter(entry => entry.length > 0);
+  } else {
+    value[field] = trimmed;
+  }
+};
+
+const fieldText = (item: ContentItem, field: string): string => {
+  const value = (item as unknown as Record<string, unknown>)[field];
+
+  if (EXAMPLE_FIELDS.includes(field)) {
+    return formatExamples(value as UsageExample[]);
+  }
+
+  if (Array.isArray(value)) {
+    return value.join('; ');
+  }
+
+  return value === undefined || value === null ? '' : String(value);
+};
+
+const parseJson = (kind: ContentKind, text: string): ContentRecord[] => {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${(error as Error).message}`);
+  }
+
+  // Accept a bare array, or an object holding one such as { "vocabulary": [...] }
+  const items = Array.isArray(parsed)
+    ? parsed
+    : (parsed as Record<string, unknown>)?.[kind] ?? (parsed as Record<string, unknown>)?.items;
+
+  if (!Array.isArray(items)) {
+    throw new Error(`JSON content must be an array of items or an object with a "${kind}" array`);
+  }
+
+  return items.map((value, index) => ({ row: index + 1, value }));
+};
+
+const parseCsv = (kind: ContentKind, text: string): ContentRecord[] => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const [header, ...rows] = parseDelimited(text, detectDelimiter(firstLine));
+
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.cells.map(cell => COLUMN_ALIASES[kind][columnName(cell)]);
+
+  if (!columns.some(Boolean)) {
+    throw new Error(`The header row has no ${kind} columns (expected ${CSV_COLUMNS[kind].join(', ')})`);
+  }
+
+  return rows.map(record => {
+    const value: Record<string, unknown> = {};
+
+    record.cells.forEach((cell, index) => {
+      if (columns[index]) {
+        setField(value, columns[index], cell);
+      }
+    });
+
+    return { row: record.line, value };
+  });
+};
+
+/**
+ * Convert an Anki note to item values, mapping fields by name and falling back to
+ * their position when none of the names are known
+ */
+const ankiNoteValue = (kind: ContentKind, fields: [string, string][], tags: string[]): Record<string, unknown> => {
+  const value: Record<string, unknown> = {};
+  const named = fields.map(([name, text]) => [COLUMN_ALIASES[kind][columnName(name)], text] as const);
+
+  const mapped = named.some(([field]) => field)
+    ? named
+    : fields.map(([, text], index) => [ANKI_FIELDS[kind][index]?.field, text] as const);
+
+  mapped.forEach(([field, text]) => {
+    if (field) {
+      setField(value, field, text);
+    }
+  });
+
+  const otherTags: string[] = [];
+
+  tags.forEach(tag => {
+    const [prefix, tagValue] = tag.split('::');
+    const field = tagValue ? ANKI_TAG_FIELDS[prefix.toLowerCase()] : undefined;
+
+    if (field) {
+      value[field] = tagValue;
+    } else {
+      otherTags.push(tag);
+    }
+  });
+
+  if (kind === 'grammar' && otherTags.length > 0 && !value.tags) {
+    value.tags = otherTags;
+  }
+
+  return value;
+};
+
+const parseApkg = (kind: ContentKind, data: Buffer): ContentRecord[] => {
+  return readAnkiPackage(data).map((note, index) => ({
+    row: index + 1,
+    value: ankiNoteValue(kind, Object.entries(note.fields), note.tags)
+  }));
+};
+
+/**
+ * Parse Anki's text export, honoring its `#key:value` header lines
+ */
+const parseAnkiText = (kind: ContentKind, text: string): ContentRecord[] => {
+  const lines = text.split(/\r?\n/);
+  const headers: Record<string, string> = {};
+  let headerLines = 0;
+
+  while (headerLines < lines.length && lines[headerLines].startsWith('#')) {
+    const match = lines[headerLines].match(/^#([^:]+):(.*)$/);
+
+    if (match) {
+      headers[match[1].trim().toLowerCase()] = match[2];
+    }
+
+    headerLines++;
+  }
+
+  const separatorSetting = headers.separator?.trim() || 'tab';
+  const separator = ANKI_SEPARATORS[separatorSetting.toLowerCase()] ?? separatorSetting;
+  const html = headers.html?.trim().toLowerCase() !== 'false';
+
+  // Columns that hold note metadata rather than fields, numbered from 1
+  const columnOf = (key: string) => headers[key] ? parseInt(headers[key], 10) - 1 : -1;
+  const tagsColumn = columnOf('tags column');
+  const metadataColumns = [columnOf('guid column'), columnOf('notetype column'), columnOf('deck column'), tagsColumn];
+  const columnNames = headers.columns?.split(separator);
+
+  const records = parseDelimited(lines.slice(headerLines).join('\n'), separator, headerLines + 1);
+
+  return records.map(record => {
+    const fields: [string, string][] = [];
+
+    record.cells.forEach((cell, index) => {
+      if (!metadataColumns.includes(index)) {
+        fields.push([columnNames?.[index] || `Field ${fields.length + 1}`, html ? htmlToText(cell) : cell]);
+      }
+    });
+
+    const tags = tagsColumn >= 0 ? (record.cells[tagsColumn] || '').trim().split(/\s+/).filter(Boolean) : [];
+
+    return { row: record.line, value: ankiNoteValue(kind, fields, tags) };
+  });
+};
+
+/**
+ * Parse content in a format, returning each item's raw values with its row number
+ *
+ * @throws {Error} If the file can't be read in that format at all
+ */
+export const parseContent = (kind: ContentKind, format: ContentFormat, data: Buffer): ContentRecord[] => {
+  if (format === 'apkg') {
+    return parseApkg(kind, data);
+  }
+
+  const text = data.toString('utf8').replace(/^\uFEFF/, '');
+
+  switch (format) {
+    case 'json':
+      return parseJson(kind, text);
+    case 'csv':
+      return parseCsv(kind, text);
+    case 'tsv':
+      return parseAnkiText(kind, text);
+  }
+};
+
+const quoteCell = (text: string, delimiter: string): string => {
+  return text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+};
+
+const ankiTags = (kind: ContentKind, item: ContentItem): string[] => {
+  const tags = [`category::${item.category}`, `difficulty::${item.difficultyLevel}`];
+
+  if (item.cefrLevel) {
+    tags.push(`cefr::${item.cefrLevel}`);
+  }
+
+  // Anki tags can't contain spaces
+  if (kind === 'grammar') {
+    tags.push(...(item as GrammarRule).tags.map(tag => tag.replace(/\s+/g, '_')));
+  }
+
+  return tags;
+};
+
+const ankiDeck = (kind: ContentKind, items: ContentItem[], keyOf: (item: ContentItem) => string): AnkiDeck => {
+  const fields = ANKI_FIELDS[kind];
+  const [front, back, ...rest] = fields.map(field => field.name);
+
+  return {
+    name: ANKI_DECK_NAMES[kind],
+    noteType: {
+      name: ANKI_DECK_NAMES[kind],
+      fields: fields.map(field => field.name),
+      front: `{{${front}}}`,
+      back: `{{FrontSide}}<hr id=answer>{{${back}}}${rest.map(name => `{{#${name}}}<br><br>{{${name}}}{{/${name}}}`).join('')}`
+    },
+    notes: items.map(item => ({
+      fields: fields.map(field => fieldText(item, field.field)),
+      tags: ankiTags(kind, item),
+      guid: keyOf(item)
+    }))
+  };
+};
+
+/**
+ * Write content in a format
+ *
+ * @param keyOf Stable key of an item, used as the Anki note id so re-imports update notes
+ */
+export const serializeContent = (
+  kind: ContentKind,
+  format: ContentFormat,
+  items: ContentItem[],
+  keyOf: (item: ContentItem) => string
+): Buffer => {
+  switch (format) {
+    case 'json':
+      return Buffer.from(JSON.stringify(items, null, 2));
+    case 'csv': {
+      const rows = [CSV_COLUMNS[kind], ...items.map(item => CSV_COLUMNS[kind].map(column => fieldText(item, column)))];
+      // The byte order mark makes spreadsheets read the accents as UTF-8
+      return Buffer.from('\uFEFF' + rows.map(row => row.map(cell => quoteCell(cell, ',')).join(',')).join('\r\n') + '\r\n');
+    }
+    case 'tsv': {
+      const deck = ankiDeck(kind, items, keyOf);
+      const columns = [...deck.noteType.fields, 'Tags'];
+      const lines = [
+        '#separator:tab',
+        '#html:true',
+        `#columns:${columns.join('\t')}`,
+        `#tags column:${columns.length}`,
+        ...deck.notes.map(note => [...note.fields.map(textToHtml), note.tags.join(' ')]
+          .map(cell => quoteCell(cell, '\t'))
+          .join('\t'))
+      ];
+      return Buffer.from(lines.join('\n') + '\n');
+    }
+    case 'apkg':
+      return writeAnkiPackage(ankiDeck(kind, items, keyOf));
+  }
+};
+
+/**
+ * File name for an export, such as vocabulary.csv
+ */
+export const contentFilename = (kind: ContentKind, format: ContentFormat): string => `${kind}.${format}`;
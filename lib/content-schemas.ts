@@ -0,0 +1,141 @@
+/**
+ * Validation schemas for vocabulary and grammar content
+ *
+ * Imported and administered content is validated against the same enums as the Appwrite
+ * collections. An item may give only a CEFR level, in which case its difficulty level is
+ * derived from it; when it gives both, they must agree.
+ *
+ * Items are identified by their content key: the normalized word and category for
+ * vocabulary (the same word can be a noun and a verb), the normalized title for grammar.
+ */
+import Joi from 'joi';
+import { CefrLevel, DifficultyLevel, GrammarCategory, WordCategory } from './appwrite.js';
+import { CEFR_LEVELS, cefrToDifficulty } from './cefr.js';
+import { GrammarRule, VocabularyItem } from './mcp-module.js';
+
+export const CONTENT_KINDS = ['vocabulary', 'grammar'] as const;
+
+export type ContentKind = typeof CONTENT_KINDS[number];
+
+export type ContentItem = VocabularyItem | GrammarRule;
+
+/**
+ * A stored content item with its ID: the Appwrite document ID, or the content key for
+ * custom data
+ */
+export interface ContentEntry {
+  id: string;
+  item: ContentItem;
+}
+
+export interface ContentValidationError {
+  field?: string;
+  message: string;
+}
+
+const usageExampleSchema = Joi.object({
+  spanish: Joi.string().trim().required().max(500),
+  english: Joi.string().trim().required().max(500),
+  explanation: Joi.string().trim().max(1000)
+});
+
+const levelFields = {
+  difficultyLevel: Joi.string().valid(...Object.values(DifficultyLevel)),
+  cefrLevel: Joi.string().valid(...CEFR_LEVELS)
+};
+
+export const vocabularyItemSchema = Joi.object({
+  word: Joi.string().trim().required().max(255),
+  translation: Joi.string().trim().required().max(255),
+  category: Joi.string().valid(...Object.values(WordCategory)).required(),
+  ...levelFields,
+  notes: Joi.string().trim().max(2000),
+  usageExamples: Joi.array().items(usageExampleSchema).default([])
+}).or('difficultyLevel', 'cefrLevel');
+
+const exerciseTemplateSchema = Joi.object({
+  title: Joi.string().required(),
+  instructions: Joi.string().required(),
+  examples: Joi.array().items(Joi.string()),
+  difficulty: Joi.string().valid(...Object.values(DifficultyLevel)).required(),
+  cefrLevel: Joi.string().valid(...CEFR_LEVELS),
+  type: Joi.string(),
+  category: Joi.string()
+});
+
+export const grammarRuleSchema = Joi.object({
+  title: Joi.string().trim().required().max(255),
+  category: Joi.string().valid(...Object.values(GrammarCategory)).required(),
+  explanation: Joi.string().trim().required().max(5000),
+  ...levelFields,
+  examples: Joi.array().items(usageExampleSchema).default([]),
+  tags: Joi.array().items(Joi.string().trim().max(255)).default([]),
+  relatedVocabulary: Joi.array().items(Joi.string().trim().max(255)),
+  exerciseTemplates: Joi.array().items(exerciseTemplateSchema)
+}).or('difficultyLevel', 'cefrLevel');
+
+const SCHEMAS: Record<ContentKind, Joi.ObjectSchema> = {
+  vocabulary: vocabularyItemSchema,
+  grammar: grammarRuleSchema
+};
+
+export const isContentKind = (kind: string): kind is ContentKind => {
+  return (CONTENT_KINDS as readonly string[]).includes(kind);
+};
+
+/**
+ * Validate a content item, filling in its difficulty level from its CEFR level
+ */
+export const validateContentItem = <T extends ContentItem = ContentItem>(
+  kind: ContentKind,
+  value: unknown
+): { item?: T; errors: ContentValidationError[] } => {
+  const { error, value: validated } = SCHEMAS[kind].validate(value, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    return {
+      errors: error.details.map(detail => ({
+        field: detail.path.length > 0 ? detail.path.join('.') : undefined,
+        message: detail.message
+      }))
+    };
+  }
+
+  const cefrLevel = validated.cefrLevel as CefrLevel | undefined;
+
+  if (cefrLevel) {
+    const difficulty = cefrToDifficulty(cefrLevel);
+
+    if (validated.difficultyLevel && validated.difficultyLevel !== difficulty) {
+      return {
+        errors: [{
+          field: 'cefrLevel',
+          message: `CEFR level ${cefrLevel} is not a ${validated.difficultyLevel} level`
+        }]
+      };
+    }
+
+    validated.difficultyLevel = difficulty;
+  }
+
+  return { item: validated as T, errors: [] };
+};
+
+const normalize = (text: string): string => {
+  return text.normalize('NFC').trim().toLowerCase().replace(/\s+/g, ' ');
+};
+
+/**
+ * Key that identifies a content item, used to deduplicate and to match existing items
+ */
+export const contentKey = (kind: ContentKind, item: ContentItem): string => {
+  if (kind === 'vocabulary') {
+    const vocabularyItem = item as VocabularyItem;
+    return `${normalize(vocabularyItem.word)}:${vocabularyItem.category}`;
+  }
+
+  return normalize((item as GrammarRule).title);
+};
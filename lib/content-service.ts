@@ -0,0 +1,436 @@
+/**
+ * Content import and export service for the Spanish Learning MCP Server
+ *
+ * Imports vocabulary and grammar from JSON, CSV and Anki files (see content-formats.ts)
+ * into the MCP's content source, and exports it in the same formats. Every row is
+ * validated on its own: invalid rows are reported with their row number and field while
+ * the valid ones are imported. Rows repeating an earlier row's content key are reported
+ * as duplicates and left out, and rows matching existing content update it unless the
+ * import is told to skip them.
+ *
+ * Single items are listed, created, replaced and deleted by ID for the admin API. Items
+ * are validated the same way as imported rows, and two items can't share a content key.
+ */
+import pino from 'pino';
+import { GrammarRule, SpanishMcp, VocabularyItem } from './mcp-module.js';
+import {
+  ContentEntry,
+  ContentItem,
+  ContentKind,
+  ContentValidationError,
+  contentKey,
+  validateContentItem
+} from './content-schemas.js';
+import {
+  CONTENT_TYPES,
+  ContentFormat,
+  ContentRecord,
+  contentFilename,
+  detectContentFormat,
+  parseContent,
+  serializeContent
+} from './content-formats.js';
+import { AppError } from '../middleware/error.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'content-service'
+});
+
+export interface ContentDefaults {
+  category?: string;
+  difficultyLevel?: string;
+  cefrLevel?: string;
+}
+
+export interface ImportOptions {
+  /**
+   * Detected from the file name or the content when omitted
+   */
+  format?: ContentFormat;
+  filename?: string;
+  /**
+   * Validate and report without saving anything
+   */
+  dryRun?: boolean;
+  /**
+   * What to do with rows matching existing content: update it (default) or keep it
+   */
+  onConflict?: 'update' | 'skip';
+  /**
+   * Values for rows that leave these fields empty, e.g. the category of a word list
+   */
+  defaults?: ContentDefaults;
+}
+
+export interface ImportRowError extends ContentValidationError {
+  row: number;
+}
+
+export interface ImportDuplicate {
+  row: number;
+  duplicateOf: number;
+  key: string;
+}
+
+export interface ImportReport {
+  kind: ContentKind;
+  format: ContentFormat;
+  dryRun: boolean;
+  /**
+   * Rows read from the file
+   */
+  received: number;
+  valid: number;
+  created: number;
+  updated: number;
+  /**
+   * Rows identical to existing content
+   */
+  unchanged: number;
+  /**
+   * Rows matching existing content that were kept because of `onConflict: 'skip'`
+   */
+  skipped: number;
+  duplicates: ImportDuplicate[];
+  errors: ImportRowError[];
+}
+
+export interface ValidatedContent {
+  items: { row: number; item: ContentItem }[];
+  duplicates: ImportDuplicate[];
+  errors: ImportRowError[];
+}
+
+export interface ContentListFilters {
+  category?: string;
+  difficultyLevel?: string;
+  cefrLevel?: string;
+  /**
+   * Matched against the word and translation, or the grammar title and explanation
+   */
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ContentList {
+  items: ContentEntry[];
+  meta: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMoreItems: boolean;
+  };
+}
+
+export interface ContentExport {
+  data: Buffer;
+  contentType: string;
+  filename: string;
+  count: number;
+}
+
+/**
+ * The content already stored, as a 502 error when the content source can't be reached
+ */
+const listStoredEntries = async (mcp: SpanishMcp, kind: ContentKind): Promise<ContentEntry[]> => {
+  try {
+    return await mcp.listContentEntries(kind);
+  } catch (error) {
+    logger.error({ error, kind }, 'Failed to list content');
+    throw new AppError(`Failed to load existing ${kind}: ${(error as Error).message}`, 502);
+  }
+};
+
+const listStoredContent = async (mcp: SpanishMcp, kind: ContentKind): Promise<ContentItem[]> => {
+  return (await listStoredEntries(mcp, kind)).map(({ item }) => item);
+};
+
+/**
+ * Parse a file, turning format errors into a 400 error
+ */
+export const readContentFile = (
+  kind: ContentKind,
+  data: Buffer,
+  options: { format?: ContentFormat; filename?: string } = {}
+): { format: ContentFormat; records: ContentRecord[] } => {
+  const format = options.format || detectContentFormat(data, options.filename);
+
+  try {
+    return { format, records: parseContent(kind, format, data) };
+  } catch (error) {
+    throw new AppError(`Could not read the ${format} file: ${(error as Error).message}`, 400);
+  }
+};
+
+/**
+ * Validate parsed rows and drop duplicates within the file
+ */
+export const validateContent = (
+  kind: ContentKind,
+  records: ContentRecord[],
+  defaults: ContentDefaults = {}
+): ValidatedContent => {
+  const result: ValidatedContent = { items: [], duplicates: [], errors: [] };
+  const seen = new Map<string, number>();
+
+  records.forEach(({ row, value }) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      result.errors.push({ row, message: 'Row must be an object' });
+      return;
+    }
+
+    const { item, errors } = validateContentItem(kind, { ...defaults, ...value });
+
+    if (!item) {
+      result.errors.push(...errors.map(error => ({ row, ...error })));
+      return;
+    }
+
+    const key = contentKey(kind, item);
+
+    if (seen.has(key)) {
+      result.duplicates.push({ row, duplicateOf: seen.get(key)!, key });
+      return;
+    }
+
+    seen.set(key, row);
+    result.items.push({ row, item });
+  });
+
+  return result;
+};
+
+/**
+ * JSON with sorted keys, so items compare equal regardless of property order
+ */
+const canonicalJson = (value: unknown): string => {
+  return JSON.stringify(value, (_, nested) => {
+    if (!nested || typeof nested !== 'object' || Array.isArray(nested)) {
+      return nested;
+    }
+
+    return Object.fromEntries(Object.keys(nested).sort().map(key => [key, nested[key]]));
+  });
+};
+
+/**
+ * Import a vocabulary or grammar file
+ */
+export const importContent = async (
+  mcp: SpanishMcp,
+  kind: ContentKind,
+  data: Buffer,
+  options: ImportOptions = {}
+): Promise<ImportReport> => {
+  const { format, records } = readContentFile(kind, data, options);
+  const { items, duplicates, errors } = validateContent(kind, records, options.defaults);
+
+  const existing = new Map((await listStoredContent(mcp, kind)).map(item => [contentKey(kind, item), item]));
+  const toSave: ContentItem[] = [];
+
+  const report: ImportReport = {
+    kind,
+    format,
+    dryRun: options.dryRun || false,
+    received: records.length,
+    valid: items.length,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    skipped: 0,
+    duplicates,
+    errors
+  };
+
+  items.forEach(({ item }) => {
+    const current = existing.get(contentKey(kind, item));
+
+    if (!current) {
+      report.created++;
+      toSave.push(item);
+    } else if (canonicalJson(current) === canonicalJson(item)) {
+      report.unchanged++;
+    } else if (options.onConflict === 'skip') {
+      report.skipped++;
+    } else {
+      report.updated++;
+      toSave.push(item);
+    }
+  });
+
+  if (!report.dryRun) {
+    try {
+      await mcp.saveContent(kind, toSave);
+    } catch (error) {
+      logger.error({ error, kind }, 'Failed to save imported content');
+      throw new AppError(`Failed to save imported ${kind}: ${(error as Error).message}`, 502);
+    }
+  }
+
+  logger.info({
+    kind,
+    format,
+    dryRun: report.dryRun,
+    created: report.created,
+    updated: report.updated,
+    errors: errors.length,
+    duplicates: duplicates.length
+  }, 'Imported content');
+
+  return report;
+};
+
+/**
+ * Export all vocabulary or grammar content in a format
+ */
+export const exportContent = async (
+  mcp: SpanishMcp,
+  kind: ContentKind,
+  format: ContentFormat
+): Promise<ContentExport> => {
+  const items = await listStoredContent(mcp, kind);
+
+  return {
+    data: serializeContent(kind, format, items, item => contentKey(kind, item)),
+    contentType: CONTENT_TYPES[format],
+    filename: contentFilename(kind, format),
+    count: items.length
+  };
+};
+
+const searchableText = (kind: ContentKind, item: ContentItem): string => {
+  const fields = kind === 'vocabulary'
+    ? [(item as VocabularyItem).word, (item as VocabularyItem).translation]
+    : [(item as GrammarRule).title, (item as GrammarRule).explanation];
+
+  return fields.join(' ').toLowerCase();
+};
+
+/**
+ * List stored vocabulary or grammar, filtered and paginated
+ */
+export const listContentItems = async (
+  mcp: SpanishMcp,
+  kind: ContentKind,
+  filters: ContentListFilters = {}
+): Promise<ContentList> => {
+  const limit = filters.limit ?? 50;
+  const offset = filters.offset ?? 0;
+  const search = filters.search?.toLowerCase();
+
+  const matching = (await listStoredEntries(mcp, kind)).filter(({ item }) =>
+    (!filters.category || item.category === filters.category) &&
+    (!filters.difficultyLevel || item.difficultyLevel === filters.difficultyLevel) &&
+    (!filters.cefrLevel || item.cefrLevel === filters.cefrLevel) &&
+    (!search || searchableText(kind, item).includes(search))
+  );
+
+  return {
+    items: matching.slice(offset, offset + limit),
+    meta: {
+      total: matching.length,
+      limit,
+      offset,
+      hasMoreItems: offset + limit < matching.length
+    }
+  };
+};
+
+/**
+ * A stored item by ID, as a 404 error when there is none
+ */
+export const getContentItem = async (mcp: SpanishMcp, kind: ContentKind, id: string): Promise<ContentEntry> => {
+  const entry = (await listStoredEntries(mcp, kind)).find(stored => stored.id === id);
+
+  if (!entry) {
+    throw new AppError(`No ${kind} item with ID ${id}`, 404);
+  }
+
+  return entry;
+};
+
+/**
+ * Validate an item, as a 400 error listing the invalid fields
+ */
+const requireValidItem = (kind: ContentKind, value: unknown): ContentItem => {
+  const { item, errors } = validateContentItem(kind, value);
+
+  if (!item) {
+    throw new AppError(`Invalid ${kind} item`, 400, true, errors.map(error =>
+      error.field ? `${error.field}: ${error.message}` : error.message
+    ));
+  }
+
+  return item;
+};
+
+/**
+ * Reject an item whose content key belongs to another stored item
+ */
+const assertUniqueKey = (kind: ContentKind, entries: ContentEntry[], item: ContentItem, id?: string) => {
+  const key = contentKey(kind, item);
+  const conflict = entries.find(entry => entry.id !== id && contentKey(kind, entry.item) === key);
+
+  if (conflict) {
+    throw new AppError(`A ${kind} item with the key "${key}" already exists (ID ${conflict.id})`, 409);
+  }
+};
+
+const saveFailure = (kind: ContentKind, action: string, error: unknown): AppError => {
+  logger.error({ error, kind }, `Failed to ${action} content`);
+  return new AppError(`Failed to ${action} ${kind}: ${(error as Error).message}`, 502);
+};
+
+/**
+ * Validate and store a new vocabulary item or grammar rule
+ */
+export const createContentItem = async (mcp: SpanishMcp, kind: ContentKind, value: unknown): Promise<ContentEntry> => {
+  const item = requireValidItem(kind, value);
+  assertUniqueKey(kind, await listStoredEntries(mcp, kind), item);
+
+  try {
+    return await mcp.createContent(kind, item);
+  } catch (error) {
+    throw saveFailure(kind, 'create', error);
+  }
+};
+
+/**
+ * Validate and replace the stored item with the given ID
+ */
+export const updateContentItem = async (
+  mcp: SpanishMcp,
+  kind: ContentKind,
+  id: string,
+  value: unknown
+): Promise<ContentEntry> => {
+  const item = requireValidItem(kind, value);
+  const entries = await listStoredEntries(mcp, kind);
+
+  if (!entries.some(entry => entry.id === id)) {
+    throw new AppError(`No ${kind} item with ID ${id}`, 404);
+  }
+
+  assertUniqueKey(kind, entries, item, id);
+
+  try {
+    return await mcp.updateContent(kind, id, item);
+  } catch (error) {
+    throw saveFailure(kind, 'update', error);
+  }
+};
+
+/**
+ * Delete the stored item with the given ID
+ */
+export const deleteContentItem = async (mcp: SpanishMcp, kind: ContentKind, id: string): Promise<void> => {
+  await getContentItem(mcp, kind, id);
+
+  try {
+    await mcp.deleteContent(kind, id);
+  } catch (error) {
+    throw saveFailure(kind, 'delete', error);
+  }
+};
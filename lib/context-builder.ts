@@ -0,0 +1,511 @@
+/**
+ * Token budget aware context builder
+ *
+ * Formats vocabulary, grammar, conversation and exercise reference material for the
+ * system prompt and keeps it within a token budget. Items are expected in priority order (most important
+ * first). When the context is too large, usage examples are dropped from the
+ * lowest-priority items first, and only then are whole items dropped, again starting
+ * with the lowest priority. Items from different sections are interleaved by rank so a
+ * mixed context doesn't lose one section entirely before the other. For conversation
+ * templates, the translations and notes on each turn count as the examples.
+ */
+import { ConversationTemplate, ExerciseTemplate, GrammarRule, VocabularyItem } from './mcp-module.js';
+import { estimateTokenCount } from './token-count.js';
+
+export interface ContextSources {
+  /**
+   * Vocabulary items in priority order; omit when the context has no vocabulary section
+   */
+  vocabulary?: VocabularyItem[];
+  /**
+   * Grammar rules in priority order; omit when the context has no grammar section
+   */
+  grammar?: GrammarRule[];
+  /**
+   * Conversation templates in priority order; omit when the context has no conversation section
+   */
+  conversations?: ConversationTemplate[];
+  /**
+   * Exercise templates in priority order; omit when the context has no exercise section
+   */
+  exercises?: ExerciseTemplate[];
+  includeExamples: boolean;
+  includeExercises: boolean;
+  /**
+   * Sections that are always included as-is (they still count against the budget)
+   */
+  fixedParts?: string[];
+}
+
+export interface ContextItemLists {
+  vocabulary: string[];
+  grammar: string[];
+  conversations: string[];
+  exercises: string[];
+}
+
+/**
+ * What went into a context, with vocabulary items identified by word, grammar rules
+ * and exercise templates by title, and conversation templates by topic id
+ */
+export interface ContextReport {
+  tokenBudget: number | null;
+  estimatedTokens: number;
+  included: ContextItemLists;
+  omitted: ContextItemLists;
+  /**
+   * Included items whose usage examples were dropped to fit the budget
+   */
+  examplesOmitted: ContextItemLists;
+}
+
+export interface BuiltContext {
+  context: string;
+  report: ContextReport;
+}
+
+type ContextEntry =
+  | { kind: 'vocabulary'; item: VocabularyItem; withExamples: boolean }
+  | { kind: 'grammar'; item: GrammarRule; withExamples: boolean }
+  | { kind: 'conversation'; item: ConversationTemplate; withExamples: boolean }
+  | { kind: 'exercise'; item: ExerciseTemplate; withExamples: boolean };
+
+const capitalizeFirstLetter = (str: string): string => {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+};
+
+const formatCategory = (category: string): string => {
+  return category
+    .split('_')
+    .map(word => capitalizeFirstLetter(word))
+    .join(' ');
+};
+
+const groupByCategory = <T extends { category: string }>(items: T[]): Record<string, T[]> => {
+  const categorizedItems: Record<string, T[]> = {};
+
+  items.forEach(item => {
+    if (!categorizedItems[item.category]) {
+      categorizedItems[item.category] = [];
+    }
+    categorizedItems[item.category].push(item);
+  });
+
+  return categorizedItems;
+};
+
+const formatLevel = (difficulty: string, cefrLevel?: string): string => {
+  return cefrLevel ? `${difficulty} (${cefrLevel})` : difficulty;
+};
+
+export const formatVocabularyItem = (item: VocabularyItem, includeExamples: boolean = true): string => {
+  let context = `### ${item.word}\n`;
+  context += `- **Translation:** ${item.translation}\n`;
+  context += `- **Difficulty:** ${formatLevel(item.difficultyLevel, item.cefrLevel)}\n`;
+
+  if (item.notes) {
+    context += `- **Notes:** ${item.notes}\n`;
+  }
+
+  if (includeExamples && item.usageExamples && item.usageExamples.length > 0) {
+    context += "\n**Examples:**\n";
+
+    item.usageExamples.forEach(example => {
+      context += `- Spanish: ${example.spanish}\n`;
+      context += `  English: ${example.english}\n`;
+
+      if (example.explanation) {
+        context += `  Explanation: ${example.explanation}\n`;
+      }
+
+      context += "\n";
+    });
+  }
+
+  return context + "\n";
+};
+
+export const formatGrammarItem = (
+  item: GrammarRule,
+  includeExamples: boolean = true,
+  includeExercises: boolean = false
+): string => {
+  let context = `### ${item.title}\n`;
+  context += `- **Difficulty:** ${formatLevel(item.difficultyLevel, item.cefrLevel)}\n\n`;
+  context += `${item.explanation}\n\n`;
+
+  if (includeExamples && item.examples && item.examples.length > 0) {
+    context += "**Examples:**\n";
+    item.examples.forEach(example => {
+      context += `- Spanish: ${example.spanish}\n`;
+      context += `  English: ${example.english}\n`;
+
+      if (example.explanation) {
+        context += `  Explanation: ${example.explanation}\n`;
+      }
+      context += "\n";
+    });
+  }
+
+  if (includeExercises && item.exerciseTemplates && item.exerciseTemplates.length > 0) {
+    context += "**Exercises:**\n";
+
+    item.exerciseTemplates.forEach(exercise => {
+      context += `- ${exercise.title}: ${exercise.instructions}\n`;
+    });
+
+    context += "\n";
+  }
+
+  if (item.tags && item.tags.length > 0) {
+    context += `**Tags:** ${item.tags.join(', ')}\n\n`;
+  }
+
+  return context;
+};
+
+export const formatConversationTemplate = (
+  template: ConversationTemplate,
+  includeTranslations: boolean = true
+): string => {
+  let context = `### ${template.title}\n`;
+  context += `- **Difficulty:** ${formatLevel(template.difficultyLevel, template.cefrLevel)}\n`;
+  context += `- **Situation:** ${template.context}\n`;
+  context += `- **Participants:** ${template.participants.join(', ')}\n`;
+
+  if (template.focusAreas && template.focusAreas.length > 0) {
+    context += `- **Focus Areas:** ${template.focusAreas.join(', ')}\n`;
+  }
+
+  context += "\n**Dialogue:**\n";
+
+  template.turns.forEach(turn => {
+    context += `- ${turn.speaker}: ${turn.text}\n`;
+
+    if (includeTranslations && turn.translation) {
+      context += `  English: ${turn.translation}\n`;
+    }
+
+    if (includeTranslations && turn.notes) {
+      context += `  Note: ${turn.notes}\n`;
+    }
+  });
+
+  return context + "\n";
+};
+
+export const formatExerciseTemplate = (template: ExerciseTemplate, includeExamples: boolean = true): string => {
+  let context = `### ${template.title}\n`;
+
+  if (template.type) {
+    context += `- **Type:** ${template.type}\n`;
+  }
+
+  context += `- **Difficulty:** ${formatLevel(template.difficulty, template.cefrLevel)}\n`;
+
+  if (template.category) {
+    context += `- **Category:** ${template.category}\n`;
+  }
+
+  if (template.grammarRule) {
+    context += `- **Grammar Rule:** ${template.grammarRule}\n`;
+  }
+
+  context += `\n${template.instructions}\n\n`;
+
+  if (includeExamples && template.examples && template.examples.length > 0) {
+    context += "**Examples:**\n";
+
+    template.examples.forEach(example => {
+      context += `- ${example}\n`;
+    });
+
+    context += "\n";
+  }
+
+  return context;
+};
+
+/**
+ * Format vocabulary items as a markdown reference, grouped by category
+ *
+ * @param withoutExamples - Items to format without their usage examples
+ */
+export const formatVocabularyForContext = (
+  items: VocabularyItem[],
+  includeExamples: boolean = true,
+  withoutExamples: Set<VocabularyItem> = new Set()
+): string => {
+  if (items.length === 0) {
+    return "No vocabulary items found.";
+  }
+
+  let context = "# Spanish Vocabulary Reference\n\n";
+
+  Object.entries(groupByCategory(items)).forEach(([category, categoryItems]) => {
+    context += `## ${capitalizeFirstLetter(category)}\n\n`;
+
+    categoryItems.forEach(item => {
+      context += formatVocabularyItem(item, includeExamples && !withoutExamples.has(item));
+    });
+  });
+
+  return context;
+};
+
+/**
+ * Format grammar rules as a markdown reference, grouped by category
+ *
+ * @param withoutExamples - Rules to format without their examples
+ */
+export const formatGrammarForContext = (
+  items: GrammarRule[],
+  includeExamples: boolean = true,
+  includeExercises: boolean = false,
+  withoutExamples: Set<GrammarRule> = new Set()
+): string => {
+  if (items.length === 0) {
+    return "No grammar rules found.";
+  }
+
+  let context = "# Spanish Grammar Reference\n\n";
+
+  Object.entries(groupByCategory(items)).forEach(([category, categoryItems]) => {
+    context += `## ${formatCategory(category)}\n\n`;
+
+    categoryItems.forEach(item => {
+      context += formatGrammarItem(item, includeExamples && !withoutExamples.has(item), includeExercises);
+    });
+  });
+
+  return context;
+};
+
+/**
+ * Format conversation templates as a markdown reference
+ *
+ * @param withoutTranslations - Templates to format without turn translations and notes
+ */
+export const formatConversationsForContext = (
+  templates: ConversationTemplate[],
+  includeTranslations: boolean = true,
+  withoutTranslations: Set<ConversationTemplate> = new Set()
+): string => {
+  if (templates.length === 0) {
+    return "No conversation templates found.";
+  }
+
+  let context = "# Spanish Conversation Templates\n\n";
+
+  templates.forEach(template => {
+    context += formatConversationTemplate(template, includeTranslations && !withoutTranslations.has(template));
+  });
+
+  return context;
+};
+
+/**
+ * Format exercise templates as a markdown reference
+ *
+ * @param withoutExamples - Templates to format without their examples
+ */
+export const formatExercisesForContext = (
+  templates: ExerciseTemplate[],
+  includeExamples: boolean = true,
+  withoutExamples: Set<ExerciseTemplate> = new Set()
+): string => {
+  if (templates.length === 0) {
+    return "No exercise templates found.";
+  }
+
+  let context = "# Spanish Exercise Templates\n\n";
+
+  templates.forEach(template => {
+    context += formatExerciseTemplate(template, includeExamples && !withoutExamples.has(template));
+  });
+
+  return context;
+};
+
+const hasExamples = (entry: ContextEntry): boolean => {
+  switch (entry.kind) {
+    case 'vocabulary':
+      return entry.item.usageExamples?.length > 0;
+    case 'grammar':
+      return entry.item.examples?.length > 0;
+    case 'conversation':
+      return entry.item.turns.some(turn => turn.translation || turn.notes);
+    case 'exercise':
+      return (entry.item.examples?.length || 0) > 0;
+  }
+};
+
+const entryName = (entry: ContextEntry): string => {
+  switch (entry.kind) {
+    case 'vocabulary':
+      return entry.item.word;
+    case 'grammar':
+      return entry.item.title;
+    case 'conversation':
+      return entry.item.id;
+    case 'exercise':
+      return entry.item.title;
+  }
+};
+
+/**
+ * Interleave the sections by rank: vocabulary #1, grammar #1, conversation #1,
+ * exercise #1, vocabulary #2, ...
+ */
+const interleave = (sources: ContextSources): ContextEntry[] => {
+  const vocabulary = sources.vocabulary || [];
+  const grammar = sources.grammar || [];
+  const conversations = sources.conversations || [];
+  const exercises = sources.exercises || [];
+  const entries: ContextEntry[] = [];
+  const length = Math.max(vocabulary.length, grammar.length, conversations.length, exercises.length);
+
+  for (let i = 0; i < length; i++) {
+    if (i < vocabulary.length) {
+      entries.push({ kind: 'vocabulary', item: vocabulary[i], withExamples: sources.includeExamples });
+    }
+
+    if (i < grammar.length) {
+      entries.push({ kind: 'grammar', item: grammar[i], withExamples: sources.includeExamples });
+    }
+
+    if (i < conversations.length) {
+      entries.push({ kind: 'conversation', item: conversations[i], withExamples: sources.includeExamples });
+    }
+
+    if (i < exercises.length) {
+      entries.push({ kind: 'exercise', item: exercises[i], withExamples: sources.includeExamples });
+    }
+  }
+
+  return entries;
+};
+
+const listNames = (entries: ContextEntry[]): ContextItemLists => ({
+  vocabulary: entries.filter(entry => entry.kind === 'vocabulary').map(entryName),
+  grammar: entries.filter(entry => entry.kind === 'grammar').map(entryName),
+  conversations: entries.filter(entry => entry.kind === 'conversation').map(entryName),
+  exercises: entries.filter(entry => entry.kind === 'exercise').map(entryName)
+});
+
+const formatEntry = (entry: ContextEntry, includeExercises: boolean): string => {
+  switch (entry.kind) {
+    case 'vocabulary':
+      return formatVocabularyItem(entry.item, entry.withExamples);
+    case 'grammar':
+      return formatGrammarItem(entry.item, entry.withExamples, includeExercises);
+    case 'conversation':
+      return formatConversationTemplate(entry.item, entry.withExamples);
+    case 'exercise':
+      return formatExerciseTemplate(entry.item, entry.withExamples);
+  }
+};
+
+/**
+ * Format the context sources, trimming them to fit the token budget
+ *
+ * @param sources - The items to include, in priority order
+ * @param tokenBudget - Maximum estimated tokens for the whole context; null for no limit
+ */
+export const buildBudgetedContext = (
+  sources: ContextSources,
+  tokenBudget: number | null
+): BuiltContext => {
+  const entries = interleave(sources);
+  const omitted: ContextEntry[] = [];
+
+  const render = (): string => {
+    const parts: string[] = [];
+    const withoutExamples = new Set<VocabularyItem | GrammarRule | ConversationTemplate | ExerciseTemplate>(
+      entries.filter(entry => !entry.withExamples).map(entry => entry.item)
+    );
+
+    if (sources.vocabulary) {
+      parts.push(formatVocabularyForContext(
+        entries.filter(entry => entry.kind === 'vocabulary').map(entry => entry.item as VocabularyItem),
+        sources.includeExamples,
+        withoutExamples as Set<VocabularyItem>
+      ));
+    }
+
+    if (sources.grammar) {
+      parts.push(formatGrammarForContext(
+        entries.filter(entry => entry.kind === 'grammar').map(entry => entry.item as GrammarRule),
+        sources.includeExamples,
+        sources.includeExercises,
+        withoutExamples as Set<GrammarRule>
+      ));
+    }
+
+    if (sources.conversations) {
+      parts.push(formatConversationsForContext(
+        entries.filter(entry => entry.kind === 'conversation').map(entry => entry.item as ConversationTemplate),
+        sources.includeExamples,
+        withoutExamples as Set<ConversationTemplate>
+      ));
+    }
+
+    if (sources.exercises) {
+      parts.push(formatExercisesForContext(
+        entries.filter(entry => entry.kind === 'exercise').map(entry => entry.item as ExerciseTemplate),
+        sources.includeExamples,
+        withoutExamples as Set<ExerciseTemplate>
+      ));
+    }
+
+    return [...parts, ...(sources.fixedParts || [])].join('\n\n');
+  };
+
+  const cost = (entry: ContextEntry): number => estimateTokenCount(
+    formatEntry(entry, sources.includeExercises)
+  );
+
+  let context = render();
+  let total = estimateTokenCount(context);
+
+  if (tokenBudget !== null && total > tokenBudget) {
+    // Drop examples first, starting with the lowest-priority items
+    for (let i = entries.length - 1; i >= 0 && total > tokenBudget; i--) {
+      const entry = entries[i];
+
+      if (entry.withExamples && hasExamples(entry)) {
+        const before = cost(entry);
+        entry.withExamples = false;
+        total -= before - cost(entry);
+      }
+    }
+
+    // Then drop whole items, lowest priority first
+    while (total > tokenBudget && entries.length > 0) {
+      const entry = entries.pop()!;
+      total -= cost(entry);
+      omitted.unshift(entry);
+    }
+
+    // Per-item estimates leave out section headings, so check the rendered text
+    context = render();
+    total = estimateTokenCount(context);
+
+    while (total > tokenBudget && entries.length > 0) {
+      omitted.unshift(entries.pop()!);
+      context = render();
+      total = estimateTokenCount(context);
+    }
+  }
+
+  return {
+    context,
+    report: {
+      tokenBudget,
+      estimatedTokens: total,
+      included: listNames(entries),
+      omitted: listNames(omitted),
+      examplesOmitted: listNames(entries.filter(entry => sources.includeExamples && !entry.withExamples && hasExamples(entry)))
+    }
+  };
+};
@@ -0,0 +1,205 @@
+/**
+ * Structured corrections for conversation turns
+ *
+ * After each learner message the model is asked, with a required response format, for
+ * the errors in that message: the original span, the corrected text, an error category,
+ * an explanation and a severity. Premium learners also get alternative phrasings.
+ * Corrections are located in the learner's message on the server, so clients can
+ * highlight them, and corrections whose span can't be found are dropped.
+ */
+import Joi from 'joi';
+import { joiToJsonSchema } from './json-schema.js';
+import { LlmResponseFormat } from './llm-provider.js';
+import { extractJson } from './exercise-schemas.js';
+
+export const CORRECTION_CATEGORIES = [
+  'gender_agreement',
+  'number_agreement',
+  'ser_estar',
+  'por_para',
+  'verb_conjugation',
+  'verb_tense',
+  'subjunctive',
+  'preterite_imperfect',
+  'prepositions',
+  'articles',
+  'pronouns',
+  'word_order',
+  'vocabulary',
+  'spelling_accents',
+  'other'
+] as const;
+
+export type CorrectionCategory = typeof CORRECTION_CATEGORIES[number];
+
+export const CORRECTION_SEVERITIES = ['minor', 'moderate', 'major'] as const;
+
+export type CorrectionSeverity = typeof CORRECTION_SEVERITIES[number];
+
+export interface Correction {
+  /**
+   * The incorrect span, exactly as written in the learner's message
+   */
+  original: string;
+  corrected: string;
+  category: CorrectionCategory;
+  explanation: string;
+  severity: CorrectionSeverity;
+  /**
+   * Character offsets of the span in the learner's message (end is exclusive)
+   */
+  start: number;
+  end: number;
+}
+
+export interface Alternative {
+  text: string;
+  explanation?: string;
+}
+
+export interface MessageAnalysis {
+  corrections: Correction[];
+  alternatives?: Alternative[];
+}
+
+const text = () => Joi.string().trim().min(1);
+
+const correctionSchema = Joi.object({
+  original: text().required().description('The incorrect words, copied exactly from the learner\'s message'),
+  corrected: text().required().description('The corrected words'),
+  category: Joi.string().valid(...CORRECTION_CATEGORIES).required(),
+  explanation: text().required().description('A short explanation of the rule, in English'),
+  severity: Joi.string().valid(...CORRECTION_SEVERITIES).required()
+    .description('major: changes or obscures the meaning; moderate: clearly wrong; minor: accents, style')
+});
+
+const alternativeSchema = Joi.object({
+  text: text().required().description('Another natural way to say the whole message in Spanish'),
+  explanation: text().description('How this phrasing differs')
+});
+
+const analysisSchema = (includeAlternatives: boolean): Joi.ObjectSchema => {
+  return Joi.object({
+    corrections: Joi.array().items(correctionSchema).max(10).required(),
+    ...(includeAlternatives ? { alternatives: Joi.array().items(alternativeSchema).max(3).required() } : {})
+  });
+};
+
+/**
+ * Response format asking the model for the corrections (and alternatives) of a message
+ */
+export const messageAnalysisResponseFormat = (includeAlternatives: boolean): LlmResponseFormat => ({
+  name: 'message_corrections',
+  description: includeAlternatives
+    ? 'The errors in the learner\'s Spanish message, and alternative phrasings'
+    : 'The errors in the learner\'s Spanish message',
+  schema: joiToJsonSchema(analysisSchema(includeAlternatives))
+});
+
+/**
+ * Index of a span in the message at or after `from`, matching whole words only, or -1
+ */
+const findSpan = (message: string, span: string, from: number, flags: string): number => {
+  const escaped = span.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, `${flags}gu`);
+
+  pattern.lastIndex = from;
+  return pattern.exec(message)?.index ?? -1;
+};
+
+/**
+ * Find each correction's span in the learner's message
+ *
+ * Repeated spans are matched left to right, so two corrections of the same word point at
+ * its successive occurrences. Matching ignores case when the exact text isn't found.
+ */
+const locateCorrections = (message: string, corrections: Omit<Correction, 'start' | 'end'>[]): Correction[] => {
+  const located: Correction[] = [];
+  const searchFrom = new Map<string, number>();
+
+  for (const correction of corrections) {
+    const key = correction.original.toLowerCase();
+    const from = searchFrom.get(key) ?? 0;
+    let start = findSpan(message, correction.original, from, '');
+
+    if (start === -1) {
+      start = findSpan(message, correction.original, from, 'i');
+    }
+
+    if (start === -1) {
+      continue;
+    }
+
+    const end = start + correction.original.length;
+    searchFrom.set(key, end);
+    located.push({ ...correction, original: message.slice(start, end), start, end });
+  }
+
+  return located.sort((a, b) => a.start - b.start);
+};
+
+export type MessageAnalysisResult =
+  | { valid: true; analysis: MessageAnalysis }
+  | { valid: false; errors: string[] };
+
+/**
+ * Validate a model response against the corrections format and locate the corrections in
+ * the learner's message
+ *
+ * Corrections that don't change anything, or whose span isn't in the message, are dropped.
+ */
+export const parseMessageAnalysis = (
+  message: string,
+  response: string,
+  includeAlternatives: boolean
+): MessageAnalysisResult => {
+  let parsed: unknown;
+
+  try {
+    parsed = extractJson(response);
+  } catch (error) {
+    return { valid: false, errors: [(error as Error).message] };
+  }
+
+  const { value, error } = analysisSchema(includeAlternatives).validate(parsed, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    return { valid: false, errors: error.details.map(detail => detail.message) };
+  }
+
+  const corrections = locateCorrections(
+    message,
+    value.corrections.filter((correction: Correction) => correction.original !== correction.corrected)
+  );
+
+  return {
+    valid: true,
+    analysis: includeAlternatives ? { corrections, alternatives: value.alternatives } : { corrections }
+  };
+};
+
+/**
+ * Instructions for the correction request
+ */
+export const messageAnalysisPrompt = (
+  message: string,
+  topic: string,
+  difficultyLevel: string,
+  includeAlternatives: boolean
+): string => `
+A ${difficultyLevel} Spanish learner wrote this message in a conversation about "${topic}":
+
+"""
+${message}
+"""
+
+List the grammar, vocabulary and spelling errors in the message. For each error, copy the
+incorrect words exactly as written, give the corrected words, pick the closest category and
+explain the rule briefly in English. Don't correct words that are already right, and return
+an empty list if the message has no errors.
+${includeAlternatives ? 'Also suggest up to three natural alternative ways to express the whole message in Spanish.' : ''}
+Respond only with JSON in the required format.
+`;
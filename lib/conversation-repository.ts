@@ -0,0 +1,110 @@
+/**
+ * Conversation persistence for the Spanish Learning MCP Server
+ *
+ * Conversations are accessed through the ConversationRepository interface so the
+ * storage backend can be chosen by configuration:
+ * - memory: conversations live in process memory and are lost on restart
+ * - file: conversations are kept in memory and persisted to a JSON file on every change
+ */
+import {
+  FileRecordRepository,
+  InMemoryRecordRepository,
+  RecordRepository,
+  selectRecordRepository
+} from './record-repository.js';
+import { Alternative, Correction } from './conversation-corrections.js';
+import { CefrLevel } from './appwrite.js';
+
+export type ConversationRole = 'user' | 'system';
+
+export interface ConversationMessage {
+  role: ConversationRole;
+  content: string;
+  timestamp: Date;
+  /**
+   * Errors found in a user message, when the tier includes corrections
+   */
+  corrections?: Correction[];
+  /**
+   * Other ways to phrase a user message (premium)
+   */
+  alternatives?: Alternative[];
+}
+
+export interface Conversation {
+  id: string;
+  topic: string;
+  difficultyLevel: string;
+  cefrLevel?: CefrLevel;
+  participantCount: number;
+  includeSlang: boolean;
+  focusAreas: string[];
+  userId?: string;
+  createdAt: Date;
+  messages: ConversationMessage[];
+  context?: string;
+}
+
+export interface ConversationRepository extends RecordRepository<Conversation> {
+  listByUser(userId: string): Promise<Conversation[]>;
+}
+
+export type ConversationStoreType = 'memory' | 'file';
+
+export interface ConversationRepositoryOptions {
+  type?: ConversationStoreType;
+  filePath?: string;
+}
+
+export const DEFAULT_CONVERSATION_STORE_PATH = './data/conversations.json';
+
+export class InMemoryConversationRepository
+  extends InMemoryRecordRepository<Conversation>
+  implements ConversationRepository {
+  constructor() {
+    super({ name: 'conversations' });
+  }
+
+  listByUser(userId: string): Promise<Conversation[]> {
+    return this.listWhere(conversation => conversation.userId === userId);
+  }
+}
+
+const reviveConversation = (raw: any): Conversation => ({
+  ...raw,
+  createdAt: new Date(raw.createdAt),
+  messages: Array.isArray(raw.messages)
+    ? raw.messages.map((message: any) => ({ ...message, timestamp: new Date(message.timestamp) }))
+    : []
+});
+
+export class FileConversationRepository
+  extends FileRecordRepository<Conversation>
+  implements ConversationRepository {
+  constructor(filePath: string = DEFAULT_CONVERSATION_STORE_PATH) {
+    super({ name: 'conversations', filePath, revive: reviveConversation });
+  }
+
+  listByUser(userId: string): Promise<Conversation[]> {
+    return this.listWhere(conversation => conversation.userId === userId);
+  }
+}
+
+/**
+ * Create the conversation repository selected by configuration
+ *
+ * Falls back to the CONVERSATION_STORE and CONVERSATION_STORE_PATH environment
+ * variables, and to the in-memory store when neither is set.
+ */
+export const createConversationRepository = (
+  options: ConversationRepositoryOptions = {}
+): ConversationRepository => selectRecordRepository<ConversationRepository>(
+  'conversation store',
+  options.type || process.env.CONVERSATION_STORE || 'memory',
+  {
+    memory: () => new InMemoryConversationRepository(),
+    file: () => new FileConversationRepository(
+      options.filePath || process.env.CONVERSATION_STORE_PATH || DEFAULT_CONVERSATION_STORE_PATH
+    )
+  }
+);
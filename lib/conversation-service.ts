@@ -0,0 +1,625 @@
+/**
+ * Conversation practice service for the Spanish Learning MCP Server
+ *
+ * Holds the conversation logic shared by the REST routes and the MCP protocol server,
+ * so both transports apply the same tier limits and ownership rules.
+ */
+import {
+  SpanishMcp,
+  ContextType,
+  ContextOptions,
+  McpChatMessage,
+  McpChatOptions,
+  McpTokenUsage,
+  QueryRateLimitError,
+  toAccessTier
+} from './mcp-module.js';
+import { AuthenticatedUser } from './appwrite-auth.js';
+import {
+  Conversation,
+  ConversationMessage,
+  ConversationRepository,
+  createConversationRepository
+} from './conversation-repository.js';
+import {
+  MessageAnalysis,
+  messageAnalysisPrompt,
+  messageAnalysisResponseFormat,
+  parseMessageAnalysis
+} from './conversation-corrections.js';
+import { ConversationTopic, groupConversationTopics } from './conversation-templates.js';
+import { DifficultyChoice } from './adaptive-difficulty.js';
+import { CefrLevel } from './appwrite.js';
+import {
+  compareCefrLevels,
+  cefrToDifficulty,
+  difficultiesForTier,
+  difficultyToCefrLevels
+} from './cefr.js';
+import { chooseLearnerDifficulty } from './learner-service.js';
+import { getTierPolicy } from './tier-policy.js';
+import { AppError } from '../middleware/error.js';
+import pino from 'pino';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'conversation-service'
+});
+
+export interface StartConversationParams {
+  topic: string;
+  difficultyLevel?: string;
+  /**
+   * CEFR level of the conversation; sets the difficulty level when that is omitted
+   */
+  cefrLevel?: CefrLevel;
+  participantCount?: number;
+  includeSlang?: boolean;
+  focusAreas?: string[];
+  contextSize?: number;
+}
+
+export interface ContinueConversationParams {
+  conversationId: string;
+  userMessage: string;
+  includeCorrections?: boolean;
+  includeAlternatives?: boolean;
+}
+
+// Storage backend is selected by configuration (see createConversationRepository)
+let conversationRepository: ConversationRepository = createConversationRepository();
+
+export const getConversationRepository = (): ConversationRepository => conversationRepository;
+
+export const setConversationRepository = (repository: ConversationRepository): void => {
+  conversationRepository = repository;
+};
+
+/**
+ * A conversation's level for prompts, e.g. "B1 (intermediate)"
+ */
+const levelDescription = (difficultyLevel: string, cefrLevel?: CefrLevel): string => {
+  return cefrLevel ? `${cefrLevel} (${difficultyLevel})` : difficultyLevel;
+};
+
+/**
+ * Conversation topics offered to a user, grouped by the difficulty levels their tier
+ * can access
+ */
+export const getConversationTopics = async (
+  mcp: SpanishMcp,
+  user?: AuthenticatedUser
+): Promise<{ topics: Record<string, ConversationTopic[]>; tier?: string }> => {
+  const templates = await mcp.findConversationTemplates();
+
+  return {
+    topics: groupConversationTopics(templates, difficultiesForTier(user?.tier || 'free')),
+    tier: user?.tier
+  };
+};
+
+/**
+ * Look up a conversation and verify the user owns it
+ *
+ * @throws {AppError} 404 if the conversation is not found, 403 if the user doesn't own it
+ */
+export const getOwnedConversation = async (
+  conversationId: string,
+  user?: AuthenticatedUser
+): Promise<Conversation> => {
+  const conversation = await conversationRepository.get(conversationId);
+
+  // Check if conversation exists
+  if (!conversation) {
+    throw new AppError('Conversation not found', 404);
+  }
+
+  // Check ownership
+  if (conversation.userId !== user?.id) {
+    throw new AppError('You do not have access to this conversation', 403);
+  }
+
+  return conversation;
+};
+
+/**
+ * Start a new conversation, applying the user's tier limits
+ *
+ * A CEFR level sets the difficulty level. Without either, the level is chosen from the
+ * user's estimated conversation level (up to the highest level of their tier) and
+ * reported in the metadata.
+ *
+ * @throws {AppError} 400 if the CEFR level doesn't belong to the difficulty level
+ * @throws {AppError} 403 if the tier doesn't permit the requested level
+ * @throws {QueryRateLimitError} if the user is over their tier's query rate limit
+ * @throws {AppError} 500 if conversation generation fails
+ */
+export const startConversation = async (
+  mcp: SpanishMcp,
+  user: AuthenticatedUser | undefined,
+  params: StartConversationParams
+) => {
+  const {
+    topic,
+    participantCount = 2,
+    includeSlang = false,
+    focusAreas = [],
+    contextSize = 10
+  } = params;
+
+  // Check tier limitations
+  const userTier = user?.tier || 'free';
+  const policy = getTierPolicy(userTier);
+
+  const maxCefrLevel = policy.conversation.maxCefrLevel;
+  const { cefrLevel } = params;
+
+  if (cefrLevel && params.difficultyLevel && cefrToDifficulty(cefrLevel) !== params.difficultyLevel) {
+    throw new AppError(`CEFR level ${cefrLevel} is not a ${params.difficultyLevel} level`, 400);
+  }
+
+  let adaptiveDifficulty: DifficultyChoice | undefined;
+
+  if (!params.difficultyLevel && !cefrLevel) {
+    adaptiveDifficulty = await chooseLearnerDifficulty(user, 'conversation', {
+      maxDifficulty: cefrToDifficulty(maxCefrLevel)
+    });
+  }
+
+  const difficultyLevel = cefrLevel
+    ? cefrToDifficulty(cefrLevel)
+    : params.difficultyLevel || adaptiveDifficulty!.difficultyLevel;
+
+  // Each tier can start conversations up to the highest CEFR level of its policy
+  const requestedLevels = cefrLevel ? [cefrLevel] : difficultyToCefrLevels(difficultyLevel);
+
+  if (requestedLevels.some(level => compareCefrLevels(level, maxCefrLevel) > 0)) {
+    const tierName = userTier.charAt(0).toUpperCase() + userTier.slice(1);
+    throw new AppError(
+      `${tierName} tier users can only access conversations up to CEFR level ${maxCefrLevel} (${difficultiesForTier(userTier).join(' and ')})`,
+      403
+    );
+  }
+
+  // Limit participants and context size based on tier
+  const actualParticipants = Math.min(participantCount, policy.conversation.maxParticipants);
+  const actualContextSize = Math.min(contextSize, policy.context.maxItems);
+
+  // Create context options for conversation
+  const options = new ContextOptions({
+    contextType: ContextType.CONVERSATION,
+    maxItems: actualContextSize,
+    includeExamples: true,
+    accessTier: toAccessTier(userTier),
+    userId: user?.id,
+    categories: focusAreas,
+    difficultyLevel: difficultyLevel,
+    cefrLevel,
+    topic
+  });
+
+  try {
+    // Generate the conversation context, reused for the opening request
+    const builtContext = await mcp.buildContext(options);
+    const { context } = builtContext;
+
+    // Generate the initial conversation prompt
+    const prompt = `
+You are having a Spanish conversation ${actualParticipants > 1 ? 'with multiple people' : ''} about "${topic}" at a ${levelDescription(difficultyLevel, cefrLevel)} level.
+${includeSlang && policy.conversation.slang ? 'Include some common Spanish slang and colloquial expressions.' : ''}
+${focusAreas.length > 0 ? `Try to incorporate these language aspects: ${focusAreas.join(', ')}.` : ''}
+
+Start the conversation with a greeting and a question or statement about the topic.
+If there are multiple participants, include their contributions too.
+
+Return only the conversation itself, making it natural and educational.
+`;
+
+    // Get the initial conversation from the MCP
+    const { response: initialConversation } = await mcp.queryWithContext(prompt, options, { context: builtContext });
+
+    // Generate a conversation ID
+    const conversationId = `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    // Store the conversation
+    await conversationRepository.save({
+      id: conversationId,
+      topic,
+      difficultyLevel,
+      ...(cefrLevel ? { cefrLevel } : {}),
+      participantCount: actualParticipants,
+      includeSlang,
+      focusAreas,
+      userId: user?.id,
+      createdAt: new Date(),
+      messages: [
+        {
+          role: 'system',
+          content: initialConversation,
+          timestamp: new Date()
+        }
+      ],
+      context
+    });
+
+    return {
+      conversationId,
+      conversation: {
+        topic,
+        difficultyLevel,
+        ...(cefrLevel ? { cefrLevel } : {}),
+        initialMessage: initialConversation,
+        participantCount: actualParticipants
+      },
+      metadata: {
+        tier: userTier,
+        focusAreas,
+        includeSlang,
+        maxContextSize: actualContextSize,
+        ...(adaptiveDifficulty ? { adaptiveDifficulty } : {})
+      }
+    };
+  } catch (error) {
+    if (error instanceof QueryRateLimitError) {
+      throw error;
+    }
+
+    logger.error({ error }, 'Error starting conversation');
+    throw new AppError('Failed to start conversation. Please try again later.', 500);
+  }
+};
+
+interface PreparedContinuation {
+  conversation: Conversation;
+  /**
+   * The user's message, added to the conversation with the tutor's reply
+   */
+  userMessage: ConversationMessage;
+  messages: McpChatMessage[];
+  /**
+   * Includes the context built for the turn, shared by the reply and the analysis
+   */
+  chatOptions: McpChatOptions;
+  options: ContextOptions;
+  metadata: {
+    tier: string;
+    includeCorrections: boolean;
+    includeAlternatives: boolean;
+  };
+}
+
+export type ConversationStreamEvent =
+  | { type: 'delta'; text: string }
+  | {
+      type: 'done';
+      conversationId: string;
+      message: string;
+      corrections?: MessageAnalysis['corrections'];
+      alternatives?: MessageAnalysis['alternatives'];
+      messageCount: number;
+      metadata: PreparedContinuation['metadata'] & {
+        processingTimeMs: number;
+        usage?: McpTokenUsage;
+        aborted?: boolean;
+      };
+    };
+
+/**
+ * Turn a stored conversation into chat turns for the model
+ *
+ * The tutor opened the conversation in reply to a start request that isn't stored, so
+ * a short user turn stands in for it and the history starts with the user.
+ */
+const toChatMessages = (conversation: Conversation): McpChatMessage[] => [
+  { role: 'user', content: `Start a Spanish conversation about "${conversation.topic}".` },
+  ...conversation.messages.map((msg): McpChatMessage => ({
+    role: msg.role === 'user' ? 'user' : 'assistant',
+    content: msg.content
+  }))
+];
+
+/**
+ * Build the tutor request for the reply to the user's message
+ *
+ * The message isn't added to the conversation yet, so a failed reply leaves no
+ * unanswered turn in the history (see appendTurn).
+ *
+ * @throws {AppError} 404 if the conversation is not found, 403 if the user doesn't own it
+ * @throws {QueryRateLimitError} if the user is over their tier's query rate limit
+ */
+const prepareContinuation = async (
+  mcp: SpanishMcp,
+  user: AuthenticatedUser | undefined,
+  params: ContinueConversationParams
+): Promise<PreparedContinuation> => {
+  const {
+    conversationId,
+    userMessage,
+    includeCorrections = true,
+    includeAlternatives = true
+  } = params;
+
+  const conversation = await getOwnedConversation(conversationId, user);
+
+  const message: ConversationMessage = {
+    role: 'user',
+    content: userMessage,
+    timestamp: new Date()
+  };
+
+  // Prepare the tutor instructions based on tier
+  const userTier = user?.tier || 'free';
+  const policy = getTierPolicy(userTier);
+
+  // Corrections and alternative phrasings depend on the tier policy
+  const withCorrections = policy.conversation.corrections && includeCorrections;
+  const withAlternatives = policy.conversation.alternatives && includeAlternatives;
+
+  const instructions = [
+    `You are continuing a Spanish conversation about "${conversation.topic}" at a ${levelDescription(conversation.difficultyLevel, conversation.cefrLevel)} level.`,
+    'Respond to the user\'s last message in a natural way.'
+  ];
+
+  // Corrections are returned separately (see analyzeUserMessage)
+  if (withCorrections || withAlternatives) {
+    instructions.push('Don\'t correct the user\'s message or suggest rephrasings in your reply; that feedback is given separately.');
+  }
+
+  if (conversation.includeSlang) {
+    instructions.push('Include some common Spanish slang or colloquial expressions if appropriate.');
+  }
+
+  if (conversation.focusAreas.length > 0) {
+    instructions.push(`Try to incorporate these language aspects: ${conversation.focusAreas.join(', ')}.`);
+  }
+
+  instructions.push('Return only the conversation continuation.');
+
+  // Create the context
+  const options = new ContextOptions({
+    contextType: ContextType.CONVERSATION,
+    maxItems: policy.conversation.replyContextItems,
+    includeExamples: true,
+    accessTier: toAccessTier(userTier),
+    userId: user?.id,
+    categories: conversation.focusAreas,
+    difficultyLevel: conversation.difficultyLevel,
+    cefrLevel: conversation.cefrLevel,
+    topic: conversation.topic
+  });
+
+  return {
+    conversation,
+    userMessage: message,
+    messages: [...toChatMessages(conversation), { role: 'user', content: userMessage }],
+    chatOptions: {
+      instructions: instructions.join(' '),
+      // History sent to the model, in estimated tokens
+      maxHistoryTokens: policy.conversation.maxHistoryTokens,
+      context: await mcp.buildContext(options)
+    },
+    options,
+    metadata: {
+      tier: userTier,
+      includeCorrections: withCorrections,
+      includeAlternatives: withAlternatives
+    }
+  };
+};
+
+/**
+ * Ask the model for structured corrections of the user's message, and store them on it
+ *
+ * Minor corrections are left out unless the tier policy allows them (by default only for
+ * premium users, who also get alternative phrasings). A failed or invalid analysis is logged and leaves the message
+ * without corrections, so the conversation can go on.
+ *
+ * @returns The analysis, or null if it was not requested or could not be produced
+ */
+const analyzeUserMessage = async (
+  mcp: SpanishMcp,
+  prepared: PreparedContinuation
+): Promise<MessageAnalysis | null> => {
+  const { conversation, userMessage, chatOptions, options, metadata } = prepared;
+
+  if (!metadata.includeCorrections && !metadata.includeAlternatives) {
+    return null;
+  }
+
+  try {
+    const prompt = messageAnalysisPrompt(
+      userMessage.content,
+      conversation.topic,
+      levelDescription(conversation.difficultyLevel, conversation.cefrLevel),
+      metadata.includeAlternatives
+    );
+
+    // The turn's context was already built and counted against the rate limit
+    const { response } = await mcp.chatWithContext([{ role: 'user', content: prompt }], options, {
+      responseFormat: messageAnalysisResponseFormat(metadata.includeAlternatives),
+      context: chatOptions.context
+    });
+
+    const result = parseMessageAnalysis(userMessage.content, response, metadata.includeAlternatives);
+
+    if (!result.valid) {
+      logger.warn({ conversationId: conversation.id, errors: result.errors }, 'Invalid message corrections');
+      return null;
+    }
+
+    const { alternatives } = result.analysis;
+    const corrections = getTierPolicy(metadata.tier).conversation.minorCorrections
+      ? result.analysis.corrections
+      : result.analysis.corrections.filter(correction => correction.severity !== 'minor');
+
+    if (metadata.includeCorrections) {
+      userMessage.corrections = corrections;
+    }
+
+    if (alternatives) {
+      userMessage.alternatives = alternatives;
+    }
+
+    return { corrections, alternatives };
+  } catch (error) {
+    logger.warn({ error, conversationId: conversation.id }, 'Error analyzing user message');
+    return null;
+  }
+};
+
+/**
+ * The corrections and alternatives to return with the tutor's reply
+ */
+const feedbackFields = (analysis: MessageAnalysis | null, metadata: PreparedContinuation['metadata']) => ({
+  ...(analysis && metadata.includeCorrections ? { corrections: analysis.corrections } : {}),
+  ...(analysis?.alternatives ? { alternatives: analysis.alternatives } : {})
+});
+
+/**
+ * Add the user's message and the tutor's reply to the conversation and save it
+ */
+const appendTurn = async (
+  conversation: Conversation,
+  userMessage: ConversationMessage,
+  content: string
+): Promise<void> => {
+  conversation.messages.push(userMessage, {
+    role: 'system',
+    content,
+    timestamp: new Date()
+  });
+
+  await conversationRepository.save(conversation);
+};
+
+/**
+ * Reply to an existing conversation
+ *
+ * @throws {AppError} 404 if the conversation is not found, 403 if the user doesn't own it
+ * @throws {QueryRateLimitError} if the user is over their tier's query rate limit
+ * @throws {AppError} 500 if the reply cannot be generated
+ */
+export const continueConversation = async (
+  mcp: SpanishMcp,
+  user: AuthenticatedUser | undefined,
+  params: ContinueConversationParams
+) => {
+  const prepared = await prepareContinuation(mcp, user, params);
+  const { conversation, userMessage, messages, chatOptions, options, metadata } = prepared;
+
+  try {
+    // Get the reply and the corrections of the user's message together
+    const [{ response: responseMessage }, analysis] = await Promise.all([
+      mcp.chatWithContext(messages, options, chatOptions),
+      analyzeUserMessage(mcp, prepared)
+    ]);
+
+    // Add the turn to the conversation history
+    await appendTurn(conversation, userMessage, responseMessage);
+
+    return {
+      conversationId: conversation.id,
+      message: responseMessage,
+      ...feedbackFields(analysis, metadata),
+      messageCount: conversation.messages.length,
+      metadata
+    };
+  } catch (error) {
+    if (error instanceof QueryRateLimitError) {
+      throw error;
+    }
+
+    logger.error({ error }, 'Error continuing conversation');
+    throw new AppError('Failed to continue conversation. Please try again later.', 500);
+  }
+};
+
+/**
+ * Streaming variant of continueConversation
+ *
+ * Ownership and the rate limit are checked before the stream is returned, so those
+ * errors can still be reported as regular HTTP errors. The stream yields the tutor's
+ * reply as text deltas and then a `done` event carrying the corrections of the user's
+ * message, which are requested while the reply streams. The turn is saved to the
+ * conversation when the stream completes, or with whatever was received when the signal
+ * is aborted.
+ *
+ * @throws {AppError} 404 if the conversation is not found, 403 if the user doesn't own it
+ * @throws {QueryRateLimitError} if the user is over their tier's query rate limit
+ */
+export const streamConversationContinuation = async (
+  mcp: SpanishMcp,
+  user: AuthenticatedUser | undefined,
+  params: ContinueConversationParams,
+  signal?: AbortSignal
+): Promise<AsyncGenerator<ConversationStreamEvent>> => {
+  const prepared = await prepareContinuation(mcp, user, params);
+  const { conversation, userMessage, messages, chatOptions, options, metadata } = prepared;
+
+  // Never rejects, so it can run unobserved while the reply streams
+  const pendingAnalysis = analyzeUserMessage(mcp, prepared);
+
+  return (async function* (): AsyncGenerator<ConversationStreamEvent> {
+    let assembled = '';
+    let saved = false;
+
+    try {
+      for await (const event of mcp.streamChatWithContext(messages, options, chatOptions, signal)) {
+        if (event.type === 'delta') {
+          assembled += event.text;
+          yield event;
+          continue;
+        }
+
+        const analysis = await pendingAnalysis;
+
+        await appendTurn(conversation, userMessage, event.response);
+        saved = true;
+
+        yield {
+          type: 'done',
+          conversationId: conversation.id,
+          message: event.response,
+          ...feedbackFields(analysis, metadata),
+          messageCount: conversation.messages.length,
+          metadata: {
+            ...metadata,
+            processingTimeMs: event.metadata.processingTimeMs,
+            usage: event.metadata.usage,
+            ...(event.metadata.aborted ? { aborted: true } : {})
+          }
+        };
+      }
+    } catch (error) {
+      logger.error({ error, conversationId: conversation.id }, 'Error streaming conversation reply');
+      throw new AppError('Failed to continue conversation. Please try again later.', 500);
+    } finally {
+      // The consumer stopped reading after an abort; keep the partial reply
+      if (!saved && signal?.aborted && assembled.length > 0) {
+        await appendTurn(conversation, userMessage, assembled);
+      }
+    }
+  })();
+};
+
+/**
+ * List the user's conversations, newest first
+ */
+export const listConversations = async (user?: AuthenticatedUser): Promise<Conversation[]> => {
+  if (!user?.id) {
+    return [];
+  }
+
+  return (await conversationRepository.listByUser(user.id))
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+};
+
+/**
+ * Delete a conversation the user owns
+ *
+ * @throws {AppError} 404 if the conversation is not found, 403 if the user doesn't own it
+ */
+export const deleteConversation = async (conversationId: string, user?: AuthenticatedUser): Promise<void> => {
+  await getOwnedConversation(conversationId, user);
+  await conversationRepository.delete(conversationId);
+};
@@ -0,0 +1,380 @@
+/**
+ * Conversation template catalog
+ *
+ * Model dialogues for conversation practice. Each template is a topic: the catalog
+ * drives the topic list offered to learners and supplies the example dialogues used
+ * as context when a conversation starts. Templates come from custom data or Appwrite;
+ * the built-in catalog below is used when neither provides any.
+ */
+import { ConversationTemplate } from './mcp-module.js';
+import { CefrLevel } from './appwrite.js';
+import { contentCefrLevels, matchesCefrLevel } from './cefr.js';
+
+export interface ConversationTemplateFilters {
+  /**
+   * Topic id or title, or a few words from it (e.g. `food` matches `ordering_food`)
+   */
+  topic?: string;
+  difficultyLevel?: string;
+  cefrLevel?: CefrLevel;
+  /**
+   * Keep templates that practise at least one of these language aspects
+   */
+  focusAreas?: string[];
+  limit?: number;
+}
+
+/**
+ * A conversation topic as offered to learners
+ */
+export interface ConversationTopic {
+  id: string;
+  name: string;
+  example: string;
+  /**
+   * CEFR levels the topic is practised at
+   */
+  cefrLevels: CefrLevel[];
+}
+
+const toWords = (text: string): string[] => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 0);
+};
+
+/**
+ * Whether a template belongs to the topic: every word of the topic must appear in the
+ * template's id or title
+ */
+export const matchesConversationTopic = (template: ConversationTemplate, topic: string): boolean => {
+  const topicWords = toWords(topic);
+
+  if (topicWords.length === 0) {
+    return false;
+  }
+
+  const templateWords = new Set([...toWords(template.id), ...toWords(template.title)]);
+  return topicWords.every(word => templateWords.has(word));
+};
+
+/**
+ * Filter templates by topic, difficulty, CEFR level and focus areas. Templates sharing more of
+ * the requested focus areas come first; otherwise catalog order is kept.
+ */
+export const filterConversationTemplates = (
+  templates: ConversationTemplate[],
+  filters: ConversationTemplateFilters = {}
+): ConversationTemplate[] => {
+  const focusAreas = (filters.focusAreas || []).map(area => area.toLowerCase());
+  const overlap = (template: ConversationTemplate) => {
+    return (template.focusAreas || []).filter(area => focusAreas.includes(area.toLowerCase())).length;
+  };
+
+  let result = templates;
+
+  if (filters.topic) {
+    result = result.filter(template => matchesConversationTopic(template, filters.topic!));
+  }
+
+  if (filters.difficultyLevel) {
+    result = result.filter(template => template.difficultyLevel === filters.difficultyLevel);
+  }
+
+  if (filters.cefrLevel) {
+    result = result.filter(template => matchesCefrLevel(template, filters.cefrLevel!));
+  }
+
+  if (focusAreas.length > 0) {
+    result = result
+      .filter(template => overlap(template) > 0)
+      .map((template, index) => ({ template, index }))
+      .sort((a, b) => overlap(b.template) - overlap(a.template) || a.index - b.index)
+      .map(({ template }) => template);
+  }
+
+  return filters.limit ? result.slice(0, filters.limit) : result;
+};
+
+export const toConversationTopic = (template: ConversationTemplate): ConversationTopic => ({
+  id: template.id,
+  name: template.title,
+  example: template.turns[0]?.text || '',
+  cefrLevels: contentCefrLevels(template)
+});
+
+/**
+ * Group templates into topic lists by difficulty level
+ *
+ * @param difficultyLevels - Levels to include; each is present in the result even when empty
+ */
+export const groupConversationTopics = (
+  templates: ConversationTemplate[],
+  difficultyLevels: string[]
+): Record<string, ConversationTopic[]> => {
+  const topics: Record<string, ConversationTopic[]> = {};
+
+  difficultyLevels.forEach(level => {
+    topics[level] = templates
+      .filter(template => template.difficultyLevel === level)
+      .map(toConversationTopic);
+  });
+
+  return topics;
+};
+
+export const sampleConversationTemplates: ConversationTemplate[] = [
+  {
+    id: 'meeting_new_people',
+    title: 'Meeting New People',
+    difficultyLevel: 'beginner',
+    cefrLevel: CefrLevel.A1,
+    focusAreas: ['greetings', 'questions', 'ser_vs_estar'],
+    context: 'Two students meet for the first time at a language exchange.',
+    participants: ['Ana', 'Tom'],
+    turns: [
+      { speaker: 'Ana', text: '¡Hola! ¿Cómo te llamas?', translation: 'Hi! What is your name?' },
+      {
+        speaker: 'Tom',
+        text: 'Me llamo Tom. Soy de Canadá. ¿Y tú?',
+        translation: 'My name is Tom. I am from Canada. And you?',
+        notes: '"Soy de" uses ser for origin.'
+      },
+      { speaker: 'Ana', text: 'Soy Ana, de Sevilla. ¡Mucho gusto!', translation: 'I am Ana, from Seville. Nice to meet you!' },
+      { speaker: 'Tom', text: 'Igualmente. ¿Estás aquí para practicar inglés?', translation: 'Likewise. Are you here to practise English?' }
+    ]
+  },
+  {
+    id: 'ordering_food',
+    title: 'Ordering Food',
+    difficultyLevel: 'beginner',
+    cefrLevel: CefrLevel.A1,
+    focusAreas: ['food', 'polite_requests', 'numbers'],
+    context: 'A customer orders breakfast at a café.',
+    participants: ['Cliente', 'Camarero'],
+    turns: [
+      {
+        speaker: 'Cliente',
+        text: 'Quisiera un café, por favor.',
+        translation: 'I would like a coffee, please.',
+        notes: '"Quisiera" is a polite way to order.'
+      },
+      { speaker: 'Camarero', text: '¿Con leche o solo?', translation: 'With milk or black?' },
+      { speaker: 'Cliente', text: 'Con leche. Y una tostada con tomate.', translation: 'With milk. And a piece of toast with tomato.' },
+      { speaker: 'Camarero', text: 'Muy bien. Son tres euros con cincuenta.', translation: 'Very good. That is three euros fifty.' }
+    ]
+  },
+  {
+    id: 'basic_directions',
+    title: 'Getting Directions',
+    difficultyLevel: 'beginner',
+    cefrLevel: CefrLevel.A2,
+    focusAreas: ['directions', 'questions', 'commands'],
+    context: 'A visitor asks a passer-by how to get to the library.',
+    participants: ['Visitante', 'Vecina'],
+    turns: [
+      { speaker: 'Visitante', text: '¿Dónde está la biblioteca?', translation: 'Where is the library?', notes: 'Estar is used for location.' },
+      {
+        speaker: 'Vecina',
+        text: 'Siga todo recto y gire a la izquierda.',
+        translation: 'Go straight ahead and turn left.',
+        notes: '"Siga" and "gire" are formal commands.'
+      },
+      { speaker: 'Visitante', text: '¿Está lejos?', translation: 'Is it far?' },
+      { speaker: 'Vecina', text: 'No, está a cinco minutos a pie.', translation: 'No, it is five minutes on foot.' }
+    ]
+  },
+  {
+    id: 'shopping_basics',
+    title: 'Shopping Basics',
+    difficultyLevel: 'beginner',
+    cefrLevel: CefrLevel.A2,
+    focusAreas: ['numbers', 'questions', 'demonstratives'],
+    context: 'A shopper asks about prices at a market stall.',
+    participants: ['Comprador', 'Vendedora'],
+    turns: [
+      { speaker: 'Comprador', text: '¿Cuánto cuesta esto?', translation: 'How much does this cost?' },
+      { speaker: 'Vendedora', text: 'Esa camiseta cuesta quince euros.', translation: 'That T-shirt costs fifteen euros.' },
+      {
+        speaker: 'Comprador',
+        text: '¿La tiene en azul?',
+        translation: 'Do you have it in blue?',
+        notes: '"La" replaces "la camiseta".'
+      },
+      { speaker: 'Vendedora', text: 'Sí, aquí está. ¿Qué talla usa?', translation: 'Yes, here it is. What size do you wear?' }
+    ]
+  },
+  {
+    id: 'talking_about_family',
+    title: 'Talking About Family',
+    difficultyLevel: 'beginner',
+    cefrLevel: CefrLevel.A1,
+    focusAreas: ['family', 'possessives', 'present_tense'],
+    context: 'Two friends show each other family photos.',
+    participants: ['Lucía', 'Marco'],
+    turns: [
+      { speaker: 'Lucía', text: 'Tengo dos hermanos.', translation: 'I have two brothers.' },
+      { speaker: 'Marco', text: '¿Cómo se llaman?', translation: 'What are their names?' },
+      { speaker: 'Lucía', text: 'Se llaman Pablo y Javier. Pablo es mayor que yo.', translation: 'Their names are Pablo and Javier. Pablo is older than me.' },
+      {
+        speaker: 'Marco',
+        text: 'Mi hermana es menor. Tiene diez años.',
+        translation: 'My sister is younger. She is ten years old.',
+        notes: 'Age uses tener, not ser.'
+      }
+    ]
+  },
+  {
+    id: 'making_plans',
+    title: 'Making Plans',
+    difficultyLevel: 'intermediate',
+    cefrLevel: CefrLevel.B1,
+    focusAreas: ['future', 'invitations', 'questions'],
+    context: 'Two friends arrange to go out at the weekend.',
+    participants: ['Carmen', 'Diego'],
+    turns: [
+      { speaker: 'Carmen', text: '¿Quieres ir al cine este fin de semana?', translation: 'Do you want to go to the cinema this weekend?' },
+      { speaker: 'Diego', text: 'Me encantaría. ¿Qué película vamos a ver?', translation: 'I would love to. Which film are we going to see?', notes: '"Ir a" + infinitive expresses the near future.' },
+      { speaker: 'Carmen', text: 'Hay una comedia nueva. Podemos quedar a las ocho.', translation: 'There is a new comedy. We can meet at eight.' },
+      { speaker: 'Diego', text: 'Perfecto. Te recogeré en tu casa.', translation: 'Perfect. I will pick you up at your house.' }
+    ]
+  },
+  {
+    id: 'discussing_hobbies',
+    title: 'Discussing Hobbies',
+    difficultyLevel: 'intermediate',
+    cefrLevel: CefrLevel.B1,
+    focusAreas: ['gustar', 'frequency', 'present_tense'],
+    context: 'Colleagues chat about what they do in their free time.',
+    participants: ['Raúl', 'Elena'],
+    turns: [
+      { speaker: 'Raúl', text: 'Me gusta jugar al fútbol.', translation: 'I like playing football.', notes: 'Gustar agrees with the thing liked, not the person.' },
+      { speaker: 'Elena', text: '¿Con qué frecuencia juegas?', translation: 'How often do you play?' },
+      { speaker: 'Raúl', text: 'Dos veces por semana. ¿Y a ti qué te gusta hacer?', translation: 'Twice a week. And what do you like doing?' },
+      { speaker: 'Elena', text: 'A mí me encantan la fotografía y el senderismo.', translation: 'I love photography and hiking.' }
+    ]
+  },
+  {
+    id: 'at_the_doctor',
+    title: 'At the Doctor',
+    difficultyLevel: 'intermediate',
+    cefrLevel: CefrLevel.B1,
+    focusAreas: ['health', 'doler', 'preterite'],
+    context: 'A patient describes their symptoms to a doctor.',
+    participants: ['Paciente', 'Doctora'],
+    turns: [
+      { speaker: 'Paciente', text: 'No me siento bien hoy.', translation: 'I do not feel well today.' },
+      { speaker: 'Doctora', text: '¿Qué le pasa? ¿Desde cuándo se siente así?', translation: 'What is wrong? Since when have you felt like this?', notes: 'The doctor uses the formal usted.' },
+      { speaker: 'Paciente', text: 'Me duele la cabeza desde ayer y anoche tuve fiebre.', translation: 'My head has hurt since yesterday and last night I had a fever.', notes: 'Doler works like gustar.' },
+      { speaker: 'Doctora', text: 'Voy a tomarle la temperatura.', translation: 'I am going to take your temperature.' }
+    ]
+  },
+  {
+    id: 'renting_an_apartment',
+    title: 'Renting an Apartment',
+    difficultyLevel: 'intermediate',
+    cefrLevel: CefrLevel.B2,
+    focusAreas: ['housing', 'questions', 'conditional'],
+    context: 'A tenant asks a landlord about a flat for rent.',
+    participants: ['Inquilino', 'Propietaria'],
+    turns: [
+      { speaker: 'Inquilino', text: '¿Cuánto es el alquiler mensual?', translation: 'How much is the monthly rent?' },
+      { speaker: 'Propietaria', text: 'Son ochocientos euros, con los gastos incluidos.', translation: 'It is eight hundred euros, bills included.' },
+      { speaker: 'Inquilino', text: '¿Podría verlo esta tarde?', translation: 'Could I see it this afternoon?', notes: 'The conditional "podría" softens a request.' },
+      { speaker: 'Propietaria', text: 'Claro, ¿le viene bien a las seis?', translation: 'Of course, does six suit you?' }
+    ]
+  },
+  {
+    id: 'describing_your_day',
+    title: 'Describing Your Day',
+    difficultyLevel: 'intermediate',
+    cefrLevel: CefrLevel.B1,
+    focusAreas: ['preterite', 'reflexive_verbs', 'time_expressions'],
+    context: 'Flatmates talk about their day over dinner.',
+    participants: ['Sara', 'Luis'],
+    turns: [
+      { speaker: 'Sara', text: 'Hoy tuve un día muy ocupado.', translation: 'Today I had a very busy day.' },
+      { speaker: 'Luis', text: '¿Qué hiciste?', translation: 'What did you do?' },
+      { speaker: 'Sara', text: 'Me levanté a las seis, trabajé todo el día y luego fui al gimnasio.', translation: 'I got up at six, worked all day and then went to the gym.', notes: 'Preterite for a sequence of completed actions.' },
+      { speaker: 'Luis', text: '¡Qué cansancio! Yo me quedé en casa.', translation: 'How tiring! I stayed at home.' }
+    ]
+  },
+  {
+    id: 'discussing_current_events',
+    title: 'Current Events',
+    difficultyLevel: 'advanced',
+    cefrLevel: CefrLevel.C1,
+    focusAreas: ['opinions', 'subjunctive', 'politics'],
+    context: 'Two friends discuss the news over coffee.',
+    participants: ['Marta', 'Andrés'],
+    turns: [
+      { speaker: 'Marta', text: '¿Qué opinas sobre las recientes elecciones?', translation: 'What do you think about the recent elections?' },
+      { speaker: 'Andrés', text: 'Me sorprendió que hubiera tanta participación.', translation: 'It surprised me that there was such a high turnout.', notes: 'Emotional reactions take the subjunctive.' },
+      { speaker: 'Marta', text: 'Es cierto. Ojalá los nuevos líderes cumplan sus promesas.', translation: 'That is true. Hopefully the new leaders keep their promises.' },
+      { speaker: 'Andrés', text: 'Dudo que lo hagan todo, pero veremos.', translation: 'I doubt they will do all of it, but we will see.', notes: 'Doubt triggers the subjunctive.' }
+    ]
+  },
+  {
+    id: 'environmental_issues',
+    title: 'Environmental Issues',
+    difficultyLevel: 'advanced',
+    cefrLevel: CefrLevel.C2,
+    focusAreas: ['opinions', 'subjunctive', 'environment'],
+    context: 'Students debate what can be done about climate change.',
+    participants: ['Irene', 'Óscar'],
+    turns: [
+      { speaker: 'Irene', text: 'El cambio climático es un problema grave.', translation: 'Climate change is a serious problem.' },
+      { speaker: 'Óscar', text: 'Es necesario que todos reduzcamos el consumo de plástico.', translation: 'It is necessary for all of us to reduce our plastic use.', notes: 'Impersonal expressions of necessity take the subjunctive.' },
+      { speaker: 'Irene', text: 'Sí, pero los gobiernos también deberían invertir en energías renovables.', translation: 'Yes, but governments should also invest in renewable energy.' },
+      { speaker: 'Óscar', text: 'Si lo hicieran, las emisiones bajarían mucho.', translation: 'If they did, emissions would fall a lot.', notes: 'Si + imperfect subjunctive, conditional.' }
+    ]
+  },
+  {
+    id: 'cultural_differences',
+    title: 'Cultural Differences',
+    difficultyLevel: 'advanced',
+    cefrLevel: CefrLevel.C1,
+    focusAreas: ['comparisons', 'imperfect', 'opinions'],
+    context: 'An exchange student compares customs at home and abroad.',
+    participants: ['Julia', 'Ken'],
+    turns: [
+      { speaker: 'Ken', text: 'En mi país las costumbres son diferentes.', translation: 'In my country the customs are different.' },
+      { speaker: 'Julia', text: '¿Por ejemplo? ¿Qué te llamó la atención al llegar?', translation: 'For example? What caught your attention when you arrived?' },
+      { speaker: 'Ken', text: 'Aquí se cena mucho más tarde. En Japón cenábamos a las siete.', translation: 'Here people have dinner much later. In Japan we used to have dinner at seven.', notes: 'Imperfect for habitual past actions.' },
+      { speaker: 'Julia', text: 'Es verdad, aquí es normal cenar a las diez.', translation: 'That is true, here it is normal to have dinner at ten.' }
+    ]
+  },
+  {
+    id: 'technology_and_innovation',
+    title: 'Technology & Innovation',
+    difficultyLevel: 'advanced',
+    cefrLevel: CefrLevel.C2,
+    focusAreas: ['opinions', 'future', 'subjunctive'],
+    context: 'Two engineers talk about how technology is changing work.',
+    participants: ['Nuria', 'Pedro'],
+    turns: [
+      { speaker: 'Nuria', text: 'La inteligencia artificial está cambiando nuestra sociedad.', translation: 'Artificial intelligence is changing our society.' },
+      { speaker: 'Pedro', text: 'Sin duda. Dentro de diez años, muchos trabajos habrán cambiado.', translation: 'No doubt. In ten years, many jobs will have changed.', notes: 'Future perfect for actions completed by a future time.' },
+      { speaker: 'Nuria', text: 'Me preocupa que no estemos preparados.', translation: 'It worries me that we are not prepared.' },
+      { speaker: 'Pedro', text: 'Por eso la formación continua es tan importante.', translation: 'That is why ongoing training is so important.' }
+    ]
+  },
+  {
+    id: 'career_development',
+    title: 'Career Development',
+    difficultyLevel: 'advanced',
+    cefrLevel: CefrLevel.C1,
+    focusAreas: ['professional_vocabulary', 'conditional', 'formal_address'],
+    context: 'An employee discusses their goals with a manager.',
+    participants: ['Empleado', 'Directora'],
+    turns: [
+      { speaker: 'Empleado', text: 'Quiero mejorar mis habilidades profesionales.', translation: 'I want to improve my professional skills.' },
+      { speaker: 'Directora', text: '¿En qué área le gustaría especializarse?', translation: 'Which area would you like to specialise in?', notes: 'Formal usted with the conditional.' },
+      { speaker: 'Empleado', text: 'Me interesaría la gestión de proyectos.', translation: 'I would be interested in project management.' },
+      { speaker: 'Directora', text: 'Podríamos buscarle un curso para el próximo trimestre.', translation: 'We could find you a course for next quarter.' }
+    ]
+  }
+];
@@ -0,0 +1,106 @@
+/**
+ * Exercise attempt persistence for the Spanish Learning MCP Server
+ *
+ * Every graded /check submission is recorded as an attempt, which the exercise
+ * history and progress analytics are computed from. Attempts use the same storage
+ * backend as exercise sets (EXERCISE_STORE):
+ * - memory: attempts live in process memory and are lost on restart
+ * - file: attempts are kept in memory and persisted to a JSON file on every change
+ */
+import {
+  FileRecordRepository,
+  InMemoryRecordRepository,
+  RecordRepository,
+  selectRecordRepository
+} from './record-repository.js';
+import { ExerciseStoreType } from './exercise-repository.js';
+
+export interface ExerciseScore {
+  correct: number;
+  total: number;
+  percentage: number;
+}
+
+/**
+ * The outcome of one answered exercise, with the mistake category it practices
+ */
+export interface ExerciseAttemptResult {
+  exerciseId: string;
+  category: string;
+  isCorrect: boolean;
+}
+
+export interface ExerciseAttempt {
+  id: string;
+  userId: string;
+  exerciseSetId: string;
+  type: string;
+  difficultyLevel: string;
+  focusArea?: string;
+  score: ExerciseScore;
+  timeTaken?: number;
+  completedAt: Date;
+  /**
+   * Per-exercise results, for the learner error profile
+   */
+  results?: ExerciseAttemptResult[];
+}
+
+export interface ExerciseAttemptRepository extends RecordRepository<ExerciseAttempt> {
+  listByUser(userId: string): Promise<ExerciseAttempt[]>;
+}
+
+export interface ExerciseAttemptRepositoryOptions {
+  type?: ExerciseStoreType;
+  filePath?: string;
+}
+
+export const DEFAULT_EXERCISE_ATTEMPT_STORE_PATH = './data/exercise-attempts.json';
+
+export class InMemoryExerciseAttemptRepository
+  extends InMemoryRecordRepository<ExerciseAttempt>
+  implements ExerciseAttemptRepository {
+  constructor() {
+    super({ name: 'exercise attempts' });
+  }
+
+  listByUser(userId: string): Promise<ExerciseAttempt[]> {
+    return this.listWhere(attempt => attempt.userId === userId);
+  }
+}
+
+const reviveExerciseAttempt = (raw: any): ExerciseAttempt => ({
+  ...raw,
+  completedAt: new Date(raw.completedAt)
+});
+
+export class FileExerciseAttemptRepository
+  extends FileRecordRepository<ExerciseAttempt>
+  implements ExerciseAttemptRepository {
+  constructor(filePath: string = DEFAULT_EXERCISE_ATTEMPT_STORE_PATH) {
+    super({ name: 'exercise attempts', filePath, revive: reviveExerciseAttempt });
+  }
+
+  listByUser(userId: string): Promise<ExerciseAttempt[]> {
+    return this.listWhere(attempt => attempt.userId === userId);
+  }
+}
+
+/**
+ * Create the exercise attempt repository selected by configuration
+ *
+ * Falls back to the EXERCISE_STORE and EXERCISE_ATTEMPT_STORE_PATH environment
+ * variables, and to the in-memory store when neither is set.
+ */
+export const createExerciseAttemptRepository = (
+  options: ExerciseAttemptRepositoryOptions = {}
+): ExerciseAttemptRepository => selectRecordRepository<ExerciseAttemptRepository>(
+  'exercise attempt store',
+  options.type || process.env.EXERCISE_STORE || 'memory',
+  {
+    memory: () => new InMemoryExerciseAttemptRepository(),
+    file: () => new FileExerciseAttemptRepository(
+      options.filePath || process.env.EXERCISE_ATTEMPT_STORE_PATH || DEFAULT_EXERCISE_ATTEMPT_STORE_PATH
+    )
+  }
+);
@@ -0,0 +1,137 @@
+/**
+ * Deterministic answer grading for generated exercise sets
+ *
+ * Each exercise type is graded with a matcher:
+ * - exact: same text, ignoring case and surrounding/repeated whitespace
+ * - accent_insensitive: Spanish-aware comparison that ignores punctuation and articles and
+ *   accepts missing accents with a warning (see spanish-answer-comparator)
+ * - ordered_array: the same items in the same order (strings are split into words); accents
+ *   are treated as for accent_insensitive, but every word, including articles, must be present
+ * - multiple_choice: the same option, given either as a zero-based index or as the option text
+ */
+import { ExerciseAnswerValue, StoredExercise } from './exercise-repository.js';
+import { AnswerComparison, AnswerVerdict, compareSpanishAnswers } from './spanish-answer-comparator.js';
+
+export type AnswerMatcher = 'exact' | 'accent_insensitive' | 'ordered_array' | 'multiple_choice';
+
+export const EXERCISE_TYPE_MATCHERS: Record<string, AnswerMatcher> = {
+  vocabulary_matching: 'ordered_array',
+  multiple_choice: 'multiple_choice',
+  fill_in_blank: 'accent_insensitive',
+  sentence_construction: 'ordered_array',
+  translation: 'accent_insensitive',
+  conversation_practice: 'accent_insensitive',
+  error_correction: 'accent_insensitive',
+  listening_comprehension: 'multiple_choice'
+};
+
+export interface GradeResult {
+  isCorrect: boolean;
+  matcher: AnswerMatcher;
+  verdict: AnswerVerdict;
+  /**
+   * Detailed comparison for free-text matchers (accent_insensitive and ordered_array)
+   */
+  comparison?: AnswerComparison;
+}
+
+const VERDICT_RANK: Record<AnswerVerdict, number> = {
+  correct: 0,
+  correct_with_accent_warning: 1,
+  near_miss: 2,
+  wrong: 3
+};
+
+export const getMatcherForType = (type: string): AnswerMatcher => {
+  return EXERCISE_TYPE_MATCHERS[type] || 'exact';
+};
+
+const normalizeExact = (value: string): string => {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+};
+
+const toText = (value: ExerciseAnswerValue): string => {
+  return Array.isArray(value) ? value.join(' ') : String(value);
+};
+
+/**
+ * Resolve a multiple choice answer to an option index, or -1 if it doesn't match an option
+ */
+const toOptionIndex = (value: ExerciseAnswerValue, options: string[]): number => {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 && value < options.length ? value : -1;
+  }
+
+  const text = normalizeExact(toText(value));
+  return options.findIndex(option => normalizeExact(option) === text);
+};
+
+const matches = (
+  matcher: AnswerMatcher,
+  answer: ExerciseAnswerValue,
+  expected: ExerciseAnswerValue,
+  options?: string[]
+): GradeResult => {
+  const fromBoolean = (isCorrect: boolean): GradeResult => ({
+    isCorrect,
+    matcher,
+    verdict: isCorrect ? 'correct' : 'wrong'
+  });
+
+  switch (matcher) {
+    case 'accent_insensitive':
+    case 'ordered_array': {
+      const comparison = compareSpanishAnswers(toText(answer), toText(expected), {
+        ignoreArticles: matcher === 'accent_insensitive'
+      });
+
+      return { isCorrect: comparison.isAcceptable, matcher, verdict: comparison.verdict, comparison };
+    }
+
+    case 'multiple_choice': {
+      if (options && options.length > 0) {
+        const answerIndex = toOptionIndex(answer, options);
+        return fromBoolean(answerIndex !== -1 && answerIndex === toOptionIndex(expected, options));
+      }
+
+      // Without options to resolve against, compare the answers as text
+      return fromBoolean(normalizeExact(toText(answer)) === normalizeExact(toText(expected)));
+    }
+
+    case 'exact':
+    default:
+      return fromBoolean(normalizeExact(toText(answer)) === normalizeExact(toText(expected)));
+  }
+};
+
+/**
+ * Grade a single answer against a stored exercise
+ *
+ * When the exercise has several acceptable answers, the closest one is reported.
+ *
+ * @param exercise - The stored exercise, including its correct and acceptable answers
+ * @param type - The exercise type of the set, which selects the matcher
+ * @param answer - The learner's answer
+ * @returns Whether the answer is correct, its verdict and which matcher graded it
+ */
+export const gradeAnswer = (
+  exercise: StoredExercise,
+  type: string,
+  answer: ExerciseAnswerValue
+): GradeResult => {
+  const matcher = getMatcherForType(type);
+  const expectedAnswers = [exercise.correctAnswer, ...(exercise.acceptableAnswers || [])];
+
+  return expectedAnswers
+    .map(expected => matches(matcher, answer, expected, exercise.options))
+    .reduce((best, result) => {
+      const rankDifference = VERDICT_RANK[result.verdict] - VERDICT_RANK[best.verdict];
+
+      if (rankDifference < 0) return result;
+      if (rankDifference === 0 && (result.comparison?.distance ?? 0) < (best.comparison?.distance ?? 0)) {
+        return result;
+      }
+
+      return best;
+    });
+};
@@ -0,0 +1,166 @@
+/**
+ * Exercise history analytics for the Spanish Learning MCP Server
+ *
+ * Turns recorded exercise attempts into the progress summaries shown by
+ * GET /api/exercise/history. All functions are pure so they can be tested
+ * against a fixed clock.
+ */
+import { ExerciseAttempt } from './exercise-attempt-repository.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export interface AreaScore {
+  area: string;
+  averageScore: number;
+  attempts: number;
+}
+
+export interface ExerciseHistorySummary {
+  totalExercises: number;
+  averageScore: number;
+  completedExerciseTypes: Record<string, number>;
+  strongestAreas: string[];
+  weakestAreas: string[];
+  /**
+   * Change in average score between the last 7 days and the 7 days before, e.g. "+12%"
+   * (null until both weeks have attempts)
+   */
+  lastWeekProgress: string | null;
+  /**
+   * Consecutive days, ending today or yesterday, with at least one attempt
+   */
+  streakDays: number;
+}
+
+const average = (values: number[]): number => {
+  return values.length > 0
+    ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+    : 0;
+};
+
+const formatChange = (change: number): string => `${change >= 0 ? '+' : ''}${change}%`;
+
+const toDayKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Average score per focus area (or exercise type when no focus area was chosen),
+ * best first
+ */
+export const scoreAreas = (attempts: ExerciseAttempt[]): AreaScore[] => {
+  const areas = new Map<string, number[]>();
+
+  attempts.forEach(attempt => {
+    const area = attempt.focusArea || attempt.type;
+    areas.set(area, [...(areas.get(area) || []), attempt.score.percentage]);
+  });
+
+  return Array.from(areas.entries())
+    .map(([area, scores]) => ({ area, averageScore: average(scores), attempts: scores.length }))
+    .sort((a, b) => b.averageScore - a.averageScore || b.attempts - a.attempts);
+};
+
+/**
+ * Count consecutive days with attempts, ending today (or yesterday, so a streak
+ * isn't broken before the learner has had a chance to practice today)
+ */
+export const calculateStreakDays = (attempts: ExerciseAttempt[], now: Date = new Date()): number => {
+  const days = new Set(attempts.map(attempt => toDayKey(attempt.completedAt)));
+
+  let cursor = days.has(toDayKey(now)) ? now.getTime() : now.getTime() - DAY_MS;
+  let streak = 0;
+
+  while (days.has(toDayKey(new Date(cursor)))) {
+    streak++;
+    cursor -= DAY_MS;
+  }
+
+  return streak;
+};
+
+/**
+ * Compare the average score of the last 7 days with the 7 days before
+ */
+export const calculateWeeklyProgress = (attempts: ExerciseAttempt[], now: Date = new Date()): string | null => {
+  const age = (attempt: ExerciseAttempt) => now.getTime() - attempt.completedAt.getTime();
+
+  const lastWeek = attempts.filter(attempt => age(attempt) >= 0 && age(attempt) < WEEK_MS);
+  const previousWeek = attempts.filter(attempt => age(attempt) >= WEEK_MS && age(attempt) < 2 * WEEK_MS);
+
+  if (lastWeek.length === 0 || previousWeek.length === 0) {
+    return null;
+  }
+
+  return formatChange(
+    average(lastWeek.map(attempt => attempt.score.percentage)) -
+    average(previousWeek.map(attempt => attempt.score.percentage))
+  );
+};
+
+/**
+ * Summarize a user's exercise attempts
+ *
+ * @param attempts - The attempts in the requested date range
+ * @param allAttempts - Every attempt by the user; streaks and weekly progress are always
+ *   measured up to now, regardless of the requested range
+ * @param now - Current time
+ */
+export const summarizeExerciseAttempts = (
+  attempts: ExerciseAttempt[],
+  allAttempts: ExerciseAttempt[] = attempts,
+  now: Date = new Date()
+): ExerciseHistorySummary => {
+  const completedExerciseTypes: Record<string, number> = {};
+
+  attempts.forEach(attempt => {
+    completedExerciseTypes[attempt.type] = (completedExerciseTypes[attempt.type] || 0) + 1;
+  });
+
+  const areas = scoreAreas(attempts);
+  const strongestAreas = areas.slice(0, 2).map(area => area.area);
+  const weakestAreas = areas
+    .slice(-2)
+    .reverse()
+    .map(area => area.area)
+    .filter(area => !strongestAreas.includes(area));
+
+  return {
+    totalExercises: attempts.length,
+    averageScore: average(attempts.map(attempt => attempt.score.percentage)),
+    completedExerciseTypes,
+    strongestAreas,
+    weakestAreas,
+    lastWeekProgress: calculateWeeklyProgress(allAttempts, now),
+    streakDays: calculateStreakDays(allAttempts, now)
+  };
+};
+
+/**
+ * Describe how an attempt went, compared with the previous attempt of the same type
+ *
+ * @param attempt - The attempt to describe
+ * @param previous - The user's previous attempt of the same exercise type, if any
+ */
+export const describePerformance = (attempt: ExerciseAttempt, previous?: ExerciseAttempt) => {
+  const { percentage, total } = attempt.score;
+
+  const accuracy = percentage >= 90 ? 'excellent'
+    : percentage >= 75 ? 'good'
+    : percentage >= 50 ? 'average'
+    : 'needs_improvement';
+
+  // Seconds spent per exercise
+  const pace = attempt.timeTaken !== undefined && total > 0 ? attempt.timeTaken / total : undefined;
+  const speed = pace === undefined ? undefined
+    : pace < 20 ? 'fast'
+    : pace <= 45 ? 'average'
+    : 'slow';
+
+  return {
+    accuracy,
+    speed,
+    improvement: previous
+      ? `${formatChange(percentage - previous.score.percentage)} from last attempt`
+      : undefined
+  };
+};
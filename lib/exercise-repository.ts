@@ -0,0 +1,107 @@
+/**
+ * Exercise set persistence for the Spanish Learning MCP Server
+ *
+ * Generated exercise sets, including their correct answers and explanations, are stored
+ * under the set ID so answers can be graded later. The storage backend is chosen by
+ * configuration:
+ * - memory: exercise sets live in process memory and are lost on restart
+ * - file: exercise sets are kept in memory and persisted to a JSON file on every change
+ */
+import {
+  FileRecordRepository,
+  InMemoryRecordRepository,
+  RecordRepository,
+  selectRecordRepository
+} from './record-repository.js';
+import { GeneratedExercise } from './exercise-schemas.js';
+import { CefrLevel } from './appwrite.js';
+
+export type ExerciseAnswerValue = string | number | string[];
+
+export interface StoredExercise {
+  id: string;
+  instruction: string;
+  content: string;
+  options?: string[];
+  correctAnswer: ExerciseAnswerValue;
+  acceptableAnswers?: ExerciseAnswerValue[];
+  explanation?: string;
+  /**
+   * The validated exercise as generated, with its type-specific fields
+   */
+  data?: GeneratedExercise;
+}
+
+export interface ExerciseSet {
+  id: string;
+  userId?: string;
+  type: string;
+  difficultyLevel: string;
+  cefrLevel?: CefrLevel;
+  focusArea?: string;
+  timeLimit?: number;
+  createdAt: Date;
+  exercises: StoredExercise[];
+}
+
+export interface ExerciseSetRepository extends RecordRepository<ExerciseSet> {
+  listByUser(userId: string): Promise<ExerciseSet[]>;
+}
+
+export type ExerciseStoreType = 'memory' | 'file';
+
+export interface ExerciseSetRepositoryOptions {
+  type?: ExerciseStoreType;
+  filePath?: string;
+}
+
+export const DEFAULT_EXERCISE_STORE_PATH = './data/exercise-sets.json';
+
+export class InMemoryExerciseSetRepository
+  extends InMemoryRecordRepository<ExerciseSet>
+  implements ExerciseSetRepository {
+  constructor() {
+    super({ name: 'exercise sets' });
+  }
+
+  listByUser(userId: string): Promise<ExerciseSet[]> {
+    return this.listWhere(exerciseSet => exerciseSet.userId === userId);
+  }
+}
+
+const reviveExerciseSet = (raw: any): ExerciseSet => ({
+  ...raw,
+  createdAt: new Date(raw.createdAt),
+  exercises: Array.isArray(raw.exercises) ? raw.exercises : []
+});
+
+export class FileExerciseSetRepository
+  extends FileRecordRepository<ExerciseSet>
+  implements ExerciseSetRepository {
+  constructor(filePath: string = DEFAULT_EXERCISE_STORE_PATH) {
+    super({ name: 'exercise sets', filePath, revive: reviveExerciseSet });
+  }
+
+  listByUser(userId: string): Promise<ExerciseSet[]> {
+    return this.listWhere(exerciseSet => exerciseSet.userId === userId);
+  }
+}
+
+/**
+ * Create the exercise set repository selected by configuration
+ *
+ * Falls back to the EXERCISE_STORE and EXERCISE_STORE_PATH environment variables,
+ * and to the in-memory store when neither is set.
+ */
+export const createExerciseSetRepository = (
+  options: ExerciseSetRepositoryOptions = {}
+): ExerciseSetRepository => selectRecordRepository<ExerciseSetRepository>(
+  'exercise store',
+  options.type || process.env.EXERCISE_STORE || 'memory',
+  {
+    memory: () => new InMemoryExerciseSetRepository(),
+    file: () => new FileExerciseSetRepository(
+      options.filePath || process.env.EXERCISE_STORE_PATH || DEFAULT_EXERCISE_STORE_PATH
+    )
+  }
+);
@@ -0,0 +1,481 @@
+/**
+ * Structured output schemas for generated exercises
+ *
+ * Each exercise type has a TypeScript type and a Joi schema for the JSON the model must
+ * produce. The Joi schema is also converted to JSON Schema and sent to the model as the
+ * required response format, so the model and the validator share one definition. Checks
+ * that JSON Schema can't express (answer indexes within the options, one blank marker
+ * per blank) are applied after schema validation.
+ *
+ * Validated exercises are converted into the stored shape used for grading, and into a
+ * public payload without answers or explanations for the learner.
+ */
+import Joi from 'joi';
+import { joiToJsonSchema } from './json-schema.js';
+import { LlmResponseFormat } from './llm-provider.js';
+import { StoredExercise } from './exercise-repository.js';
+import { MOODS, Mood, PERSONS, Person, TENSES, Tense, getConjugatedForm, tenseLabel } from './conjugation.js';
+
+export const EXERCISE_TYPES = [
+  'vocabulary_matching',
+  'multiple_choice',
+  'fill_in_blank',
+  'sentence_construction',
+  'translation',
+  'conversation_practice',
+  'error_correction',
+  'listening_comprehension'
+] as const;
+
+export type ExerciseType = typeof EXERCISE_TYPES[number];
+
+/**
+ * Marks a blank in fill_in_blank sentences
+ */
+export const BLANK_MARKER = '___';
+
+interface ExerciseBase {
+  id: string;
+  instruction: string;
+  explanation?: string;
+}
+
+export interface VocabularyMatchingExercise extends ExerciseBase {
+  type: 'vocabulary_matching';
+  pairs: { spanish: string; english: string }[];
+}
+
+export interface MultipleChoiceExercise extends ExerciseBase {
+  type: 'multiple_choice';
+  question: string;
+  options: string[];
+  /**
+   * Zero-based index of the correct option
+   */
+  answerIndex: number;
+}
+
+export interface FillInBlankExercise extends ExerciseBase {
+  type: 'fill_in_blank';
+  /**
+   * Sentence with one BLANK_MARKER per blank
+   */
+  sentence: string;
+  /**
+   * Answers for the blanks, in order
+   */
+  blanks: string[];
+  acceptableAnswers?: string[];
+  /**
+   * The verb form drilled by a single-blank conjugation exercise, checked against the
+   * conjugation engine
+   */
+  conjugation?: ConjugationTarget;
+}
+
+export interface ConjugationTarget {
+  verb: string;
+  mood: Mood;
+  tense: Tense;
+  person: Person;
+}
+
+export interface SentenceConstructionExercise extends ExerciseBase {
+  type: 'sentence_construction';
+  /**
+   * The words of the sentence, scrambled
+   */
+  words: string[];
+  answer: string;
+}
+
+export interface TranslationExercise extends ExerciseBase {
+  type: 'translation';
+  sourceText: string;
+  sourceLanguage: 'english' | 'spanish';
+  answer: string;
+  acceptableAnswers?: string[];
+}
+
+export interface ConversationPracticeExercise extends ExerciseBase {
+  type: 'conversation_practice';
+  /**
+   * The situation or line the learner responds to
+   */
+  prompt: string;
+  answer: string;
+  acceptableAnswers?: string[];
+}
+
+export interface ErrorCorrectionExercise extends ExerciseBase {
+  type: 'error_correction';
+  /**
+   * Sentence containing the error
+   */
+  sentence: string;
+  answer: string;
+  acceptableAnswers?: string[];
+}
+
+export interface ListeningComprehensionExercise extends ExerciseBase {
+  type: 'listening_comprehension';
+  /**
+   * Spanish passage to be read aloud to the learner
+   */
+  transcript: string;
+  question: string;
+  options: string[];
+  answerIndex: number;
+}
+
+export type GeneratedExercise =
+  | VocabularyMatchingExercise
+  | MultipleChoiceExercise
+  | FillInBlankExercise
+  | SentenceConstructionExercise
+  | TranslationExercise
+  | ConversationPracticeExercise
+  | ErrorCorrectionExercise
+  | ListeningComprehensionExercise;
+
+const text = () => Joi.string().min(1);
+
+const baseKeys = {
+  id: Joi.string().description('Unique exercise ID within the set'),
+  instruction: text().required().description('What the learner has to do'),
+  explanation: Joi.string().description('Why the answer is correct')
+};
+
+const acceptableAnswers = Joi.array().items(text()).description('Other answers that should be accepted');
+
+const optionKeys = {
+  options: Joi.array().items(text()).min(2).max(6).required(),
+  answerIndex: Joi.number().integer().min(0).required().description('Zero-based index of the correct option')
+};
+
+const exerciseSchemas: Record<ExerciseType, Joi.ObjectSchema> = {
+  vocabulary_matching: Joi.object({
+    ...baseKeys,
+    pairs: Joi.array().items(Joi.object({
+      spanish: text().required(),
+      english: text().required()
+    })).min(2).max(10).required().description('Spanish words with their English translations')
+  }),
+  multiple_choice: Joi.object({
+    ...baseKeys,
+    question: text().required(),
+    ...optionKeys
+  }),
+  fill_in_blank: Joi.object({
+    ...baseKeys,
+    sentence: text().required().description(`Sentence with ${BLANK_MARKER} marking each blank`),
+    blanks: Joi.array().items(text()).min(1).required().description('The answer for each blank, in order'),
+    acceptableAnswers,
+    conjugation: Joi.object({
+      verb: text().required().description('Infinitive'),
+      mood: Joi.string().valid(...MOODS).required(),
+      tense: Joi.string().valid(...TENSES).required(),
+      person: Joi.string().valid(...PERSONS).required()
+    }).description('For single-blank verb exercises: the verb form the blank drills')
+  }),
+  sentence_construction: Joi.object({
+    ...baseKeys,
+    words: Joi.array().items(text()).min(2).required().description('The words of the sentence, scrambled'),
+    answer: text().required().description('The correct sentence')
+  }),
+  translation: Joi.object({
+    ...baseKeys,
+    sourceText: text().required(),
+    sourceLanguage: Joi.string().valid('english', 'spanish').required(),
+    answer: text().required(),
+    acceptableAnswers
+  }),
+  conversation_practice: Joi.object({
+    ...baseKeys,
+    prompt: text().required().description('The situation or line the learner responds to'),
+    answer: text().required().description('A model reply'),
+    acceptableAnswers
+  }),
+  error_correction: Joi.object({
+    ...baseKeys,
+    sentence: text().required().description('A Spanish sentence containing one error'),
+    answer: text().required().description('The corrected sentence'),
+    acceptableAnswers
+  }),
+  listening_comprehension: Joi.object({
+    ...baseKeys,
+    transcript: text().required().description('Spanish passage read aloud to the learner'),
+    question: text().required(),
+    ...optionKeys
+  })
+};
+
+const exerciseSetSchema = (type: ExerciseType, count: number): Joi.ObjectSchema => {
+  return Joi.object({
+    exercises: Joi.array().items(exerciseSchemas[type]).min(1).max(count).required()
+  });
+};
+
+export const isExerciseType = (type: string): type is ExerciseType => {
+  return (EXERCISE_TYPES as readonly string[]).includes(type);
+};
+
+/**
+ * Response format asking the model for a set of exercises of one type
+ */
+export const exerciseResponseFormat = (type: ExerciseType, count: number): LlmResponseFormat => ({
+  name: 'exercise_set',
+  description: `A set of up to ${count} Spanish "${type}" exercises`,
+  schema: joiToJsonSchema(exerciseSetSchema(type, count))
+});
+
+/**
+ * Pull the JSON value out of a model response, allowing for a fenced code block or
+ * surrounding prose
+ *
+ * @throws {Error} If no JSON value can be found
+ */
+export const extractJson = (response: string): unknown => {
+  const candidates = [
+    response,
+    response.match(/```(?:json)?\s*\n([\s\S]*?)```/)?.[1],
+    response.match(/\{[\s\S]*\}/)?.[0]
+  ];
+
+  for (const candidate of candidates) {
+    if (candidate === undefined) {
+      continue;
+    }
+
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      // Try the next candidate
+    }
+  }
+
+  throw new Error('The response is not valid JSON');
+};
+
+const consistencyErrors = (type: ExerciseType, exercises: any[]): string[] => {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  exercises.forEach((exercise, index) => {
+    const path = `"exercises[${index}]`;
+
+    if (exercise.id !== undefined) {
+      if (ids.has(exercise.id)) {
+        errors.push(`${path}.id" must be unique within the set`);
+      }
+      ids.add(exercise.id);
+    }
+
+    if ((type === 'multiple_choice' || type === 'listening_comprehension') &&
+        exercise.answerIndex >= exercise.options.length) {
+      errors.push(`${path}.answerIndex" must be less than the number of options (${exercise.options.length})`);
+    }
+
+    if (type === 'fill_in_blank') {
+      const markers = exercise.sentence.split(BLANK_MARKER).length - 1;
+
+      if (markers !== exercise.blanks.length) {
+        errors.push(`${path}.sentence" must contain one ${BLANK_MARKER} per blank (found ${markers}, expected ${exercise.blanks.length})`);
+      }
+
+      if (exercise.conjugation) {
+        errors.push(...conjugationErrors(path, exercise));
+      }
+    }
+  });
+
+  return errors;
+};
+
+const withoutNegation = (form: string): string => form.trim().toLowerCase().replace(/^no\s+/, '');
+
+/**
+ * Check the blank of a conjugation exercise against the conjugation engine
+ */
+const conjugationErrors = (path: string, exercise: FillInBlankExercise): string[] => {
+  const { verb, mood, tense, person } = exercise.conjugation!;
+
+  if (exercise.blanks.length !== 1) {
+    return [`${path}.conjugation" requires exactly one blank`];
+  }
+
+  const expected = getConjugatedForm(verb, mood, tense, person);
+
+  if (expected === null) {
+    return [`${path}.conjugation" does not name a form of a Spanish verb (${verb}, ${mood} ${tense}, ${person})`];
+  }
+
+  if (withoutNegation(exercise.blanks[0]) !== withoutNegation(expected)) {
+    return [`${path}.blanks[0]" must be "${withoutNegation(expected)}", the ${tenseLabel(mood, tense)} of "${verb}" for ${person}`];
+  }
+
+  return [];
+};
+
+export type ExerciseValidationResult =
+  | { valid: true; exercises: GeneratedExercise[] }
+  | { valid: false; errors: string[] };
+
+/**
+ * Validate a model response against the schema for the exercise type
+ *
+ * Exercises without an ID are numbered `ex1`, `ex2`, ... by position. A bare array of
+ * exercises is accepted in place of the `{ exercises }` object.
+ *
+ * @param count - Maximum number of exercises in the set
+ */
+export const validateGeneratedExercises = (
+  type: ExerciseType,
+  response: string,
+  count: number
+): ExerciseValidationResult => {
+  let parsed: unknown;
+
+  try {
+    parsed = extractJson(response);
+  } catch (error) {
+    return { valid: false, errors: [(error as Error).message] };
+  }
+
+  const { value, error } = exerciseSetSchema(type, count).validate(
+    Array.isArray(parsed) ? { exercises: parsed } : parsed,
+    { abortEarly: false, stripUnknown: true }
+  );
+
+  if (error) {
+    return { valid: false, errors: error.details.map(detail => detail.message) };
+  }
+
+  const errors = consistencyErrors(type, value.exercises);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    exercises: value.exercises.map((exercise: any, index: number) => ({
+      ...exercise,
+      id: exercise.id ?? `ex${index + 1}`,
+      type
+    }))
+  };
+};
+
+/**
+ * The learner-facing text of an exercise, shown as its content
+ */
+const contentOf = (exercise: GeneratedExercise): string => {
+  switch (exercise.type) {
+    case 'vocabulary_matching':
+      return exercise.pairs.map(pair => pair.spanish).join(', ');
+    case 'multiple_choice':
+    case 'listening_comprehension':
+      return exercise.question;
+    case 'fill_in_blank':
+    case 'error_correction':
+      return exercise.sentence;
+    case 'sentence_construction':
+      return exercise.words.join(' / ');
+    case 'translation':
+      return exercise.sourceText;
+    case 'conversation_practice':
+      return exercise.prompt;
+  }
+};
+
+/**
+ * English translations for a matching exercise, in a fixed order unrelated to the answer
+ */
+const matchingOptions = (exercise: VocabularyMatchingExercise): string[] => {
+  return exercise.pairs.map(pair => pair.english).sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Convert a validated exercise into the stored shape used for grading
+ */
+export const toStoredExercise = (exercise: GeneratedExercise): StoredExercise => {
+  const stored: StoredExercise = {
+    id: exercise.id,
+    instruction: exercise.instruction,
+    content: contentOf(exercise),
+    correctAnswer: '',
+    explanation: exercise.explanation,
+    data: exercise
+  };
+
+  switch (exercise.type) {
+    case 'vocabulary_matching':
+      stored.options = matchingOptions(exercise);
+      stored.correctAnswer = exercise.pairs.map(pair => pair.english);
+      break;
+    case 'multiple_choice':
+    case 'listening_comprehension':
+      stored.options = exercise.options;
+      stored.correctAnswer = exercise.options[exercise.answerIndex];
+      break;
+    case 'fill_in_blank':
+      stored.correctAnswer = exercise.blanks.length === 1 ? exercise.blanks[0] : exercise.blanks;
+      stored.acceptableAnswers = exercise.acceptableAnswers;
+      break;
+    case 'sentence_construction':
+      stored.correctAnswer = exercise.answer;
+      break;
+    case 'translation':
+    case 'conversation_practice':
+    case 'error_correction':
+      stored.correctAnswer = exercise.answer;
+      stored.acceptableAnswers = exercise.acceptableAnswers;
+      break;
+  }
+
+  return stored;
+};
+
+/**
+ * The exercise as sent to the learner: its typed fields without answers or explanations.
+ * Exercise sets stored before typed output only have their generic fields.
+ */
+export const toPublicExercise = (stored: StoredExercise) => {
+  const exercise = stored.data as GeneratedExercise | undefined;
+
+  if (!exercise) {
+    return {
+      id: stored.id,
+      instruction: stored.instruction,
+      content: stored.content,
+      ...(stored.options ? { options: stored.options } : {})
+    };
+  }
+
+  const common = { id: exercise.id, type: exercise.type, instruction: exercise.instruction };
+
+  switch (exercise.type) {
+    case 'vocabulary_matching':
+      return { ...common, terms: exercise.pairs.map(pair => pair.spanish), options: matchingOptions(exercise) };
+    case 'multiple_choice':
+      return { ...common, question: exercise.question, options: exercise.options };
+    case 'listening_comprehension':
+      return { ...common, transcript: exercise.transcript, question: exercise.question, options: exercise.options };
+    case 'fill_in_blank':
+      return {
+        ...common,
+        sentence: exercise.sentence,
+        blankCount: exercise.blanks.length,
+        ...(exercise.conjugation ? { conjugation: exercise.conjugation } : {})
+      };
+    case 'sentence_construction':
+      return { ...common, words: exercise.words };
+    case 'translation':
+      return { ...common, sourceText: exercise.sourceText, sourceLanguage: exercise.sourceLanguage };
+    case 'conversation_practice':
+      return { ...common, prompt: exercise.prompt };
+    case 'error_correction':
+      return { ...common, sentence: exercise.sentence };
+  }
+};
@@ -0,0 +1,550 @@
+/**
+ * Exercise generation service for the Spanish Learning MCP Server
+ *
+ * Holds the exercise logic shared by the REST routes and the MCP protocol server,
+ * so both transports apply the same tier limits.
+ */
+import { SpanishMcp, ContextType, ContextOptions, McpChatMessage, QueryRateLimitError, toAccessTier } from './mcp-module.js';
+import { AuthenticatedUser } from './appwrite-auth.js';
+import { BuiltContext } from './context-builder.js';
+import {
+  ExerciseAnswerValue,
+  ExerciseSet,
+  ExerciseSetRepository,
+  StoredExercise,
+  createExerciseSetRepository
+} from './exercise-repository.js';
+import {
+  ExerciseType,
+  exerciseResponseFormat,
+  toPublicExercise,
+  toStoredExercise,
+  validateGeneratedExercises
+} from './exercise-schemas.js';
+import {
+  ExerciseAttempt,
+  ExerciseAttemptRepository,
+  createExerciseAttemptRepository
+} from './exercise-attempt-repository.js';
+import { gradeAnswer } from './exercise-grading.js';
+import { TenseId, conjugate } from './conjugation.js';
+import { generateConjugationExercises } from './conjugation-exercises.js';
+import { describePerformance, summarizeExerciseAttempts } from './exercise-history.js';
+import { exerciseCategory, focusAreaCategory } from './learner-profile.js';
+import { DifficultyChoice, categorySkill } from './adaptive-difficulty.js';
+import { chooseLearnerDifficulty, getLearnerProfile } from './learner-service.js';
+import { AnswerVerdict } from './spanish-answer-comparator.js';
+import { CefrLevel } from './appwrite.js';
+import { cefrToDifficulty } from './cefr.js';
+import { getTierPolicy } from './tier-policy.js';
+import { AppError } from '../middleware/error.js';
+import pino from 'pino';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'exercise-service'
+});
+
+export interface GenerateExercisesParams {
+  type: string;
+  difficultyLevel?: string;
+  /**
+   * CEFR level of the exercises; sets the difficulty level when that is omitted
+   */
+  cefrLevel?: CefrLevel;
+  focusArea?: string;
+  count?: number;
+  specificVocabulary?: string[];
+  specificGrammar?: string[];
+  timeLimit?: number;
+}
+
+export interface ConjugationExerciseParams {
+  verbs?: string[];
+  tenses?: TenseId[];
+  difficultyLevel?: string;
+  count?: number;
+  timeLimit?: number;
+}
+
+export interface ExerciseAnswer {
+  id: string;
+  answer: ExerciseAnswerValue;
+}
+
+export interface CheckExercisesParams {
+  exerciseId: string;
+  answers: ExerciseAnswer[];
+  timeTaken?: number;
+}
+
+export interface ExerciseHistoryParams {
+  page?: number;
+  limit?: number;
+  from?: Date;
+  to?: Date;
+  type?: string;
+}
+
+// Storage backend is selected by configuration (see createExerciseSetRepository)
+let exerciseSetRepository: ExerciseSetRepository = createExerciseSetRepository();
+
+export const getExerciseSetRepository = (): ExerciseSetRepository => exerciseSetRepository;
+
+export const setExerciseSetRepository = (repository: ExerciseSetRepository): void => {
+  exerciseSetRepository = repository;
+};
+
+let exerciseAttemptRepository: ExerciseAttemptRepository = createExerciseAttemptRepository();
+
+export const getExerciseAttemptRepository = (): ExerciseAttemptRepository => exerciseAttemptRepository;
+
+export const setExerciseAttemptRepository = (repository: ExerciseAttemptRepository): void => {
+  exerciseAttemptRepository = repository;
+};
+
+/**
+ * How many times the model is asked to fix a response that fails schema validation
+ */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const VERDICT_FEEDBACK: Record<AnswerVerdict, string> = {
+  correct: '¡Correcto! Well done.',
+  correct_with_accent_warning: '¡Correcto! Watch your accents - compare your spelling with the correct answer.',
+  near_miss: 'Almost! Check your spelling against the correct answer.',
+  wrong: 'Incorrect. The correct answer is shown above.'
+};
+
+/**
+ * Look up an exercise set and verify the user owns it
+ *
+ * @throws {AppError} 404 if the exercise set is not found, 403 if the user doesn't own it
+ */
+export const getOwnedExerciseSet = async (
+  exerciseSetId: string,
+  user?: AuthenticatedUser
+): Promise<ExerciseSet> => {
+  const exerciseSet = await exerciseSetRepository.get(exerciseSetId);
+
+  if (!exerciseSet) {
+    throw new AppError('Exercise set not found', 404);
+  }
+
+  if (exerciseSet.userId !== user?.id) {
+    throw new AppError('You do not have access to this exercise set', 403);
+  }
+
+  return exerciseSet;
+};
+
+/**
+ * Exercise types the tier can generate
+ */
+export const getAvailableExerciseTypes = (tier: 'free' | 'basic' | 'premium'): string[] => {
+  return getTierPolicy(tier).exercise.types;
+};
+
+/**
+ * Check the exercise type is available for the tier and cap the exercise count
+ *
+ * @throws {AppError} 403 if the exercise type is not available for the tier
+ * @returns The number of exercises to generate
+ */
+const applyTierLimits = (tier: 'free' | 'basic' | 'premium', type: string, count: number): number => {
+  const { types, maxCount } = getTierPolicy(tier).exercise;
+
+  if (!(types as string[]).includes(type)) {
+    throw new AppError(`The exercise type "${type}" is not available for your ${tier} subscription tier`, 403);
+  }
+
+  return Math.min(count, maxCount);
+};
+
+/**
+ * Store a validated exercise set with its answers so submissions can be graded later
+ */
+const saveExerciseSet = async (
+  user: AuthenticatedUser | undefined,
+  params: {
+    type: string;
+    difficultyLevel: string;
+    cefrLevel?: CefrLevel;
+    focusArea?: string;
+    timeLimit?: number;
+    maxCount: number;
+    adaptiveDifficulty?: DifficultyChoice;
+  },
+  exercises: StoredExercise[]
+) => {
+  const { type, difficultyLevel, cefrLevel, focusArea, timeLimit, maxCount, adaptiveDifficulty } = params;
+
+  const exerciseSet: ExerciseSet = {
+    id: `ex_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    userId: user?.id,
+    type,
+    difficultyLevel,
+    ...(cefrLevel ? { cefrLevel } : {}),
+    focusArea,
+    timeLimit,
+    createdAt: new Date(),
+    exercises
+  };
+
+  await exerciseSetRepository.save(exerciseSet);
+
+  return {
+    exerciseSetId: exerciseSet.id,
+    exercises: exercises.map(toPublicExercise),
+    metadata: {
+      type,
+      difficultyLevel,
+      ...(cefrLevel ? { cefrLevel } : {}),
+      count: maxCount,
+      timeLimit,
+      tier: user?.tier || 'free',
+      ...(adaptiveDifficulty ? { adaptiveDifficulty } : {})
+    }
+  };
+};
+
+/**
+ * Generate a set of exercises, applying the user's tier limits
+ *
+ * A CEFR level sets the difficulty level. Without either, the level is chosen from the
+ * user's estimated level in the skill the exercise type and focus area practice, and
+ * reported in the metadata.
+ *
+ * @throws {AppError} 400 if the CEFR level doesn't belong to the difficulty level
+ * @throws {AppError} 403 if the exercise type is not available for the user's tier
+ * @throws {AppError} 422 if the model's exercises still fail validation after the repair attempts
+ * @throws {AppError} 500 if the model cannot be reached
+ * @throws {QueryRateLimitError} 429 if the user has used up their queries for the minute
+ */
+export const generateExercises = async (
+  mcp: SpanishMcp,
+  user: AuthenticatedUser | undefined,
+  params: GenerateExercisesParams
+) => {
+  const {
+    type,
+    focusArea,
+    count = 5,
+    specificVocabulary,
+    specificGrammar,
+    timeLimit,
+    cefrLevel
+  } = params;
+
+  const userTier = user?.tier || 'free';
+  const maxCount = applyTierLimits(userTier, type, count);
+
+  if (cefrLevel && params.difficultyLevel && cefrToDifficulty(cefrLevel) !== params.difficultyLevel) {
+    throw new AppError(`CEFR level ${cefrLevel} is not a ${params.difficultyLevel} level`, 400);
+  }
+
+  const category = focusAreaCategory(type, focusArea);
+  const adaptiveDifficulty = params.difficultyLevel || cefrLevel
+    ? undefined
+    : await chooseLearnerDifficulty(user, categorySkill(category), { category });
+  const difficultyLevel = cefrLevel
+    ? cefrToDifficulty(cefrLevel)
+    : params.difficultyLevel || adaptiveDifficulty!.difficultyLevel;
+
+  // Create context options for exercises
+  const options = new ContextOptions({
+    contextType: ContextType.EXERCISE,
+    maxItems: maxCount,
+    includeExamples: true,
+    accessTier: toAccessTier(userTier),
+    userId: user?.id,
+    categories: focusArea ? [focusArea] : [],
+    difficultyLevel: difficultyLevel,
+    cefrLevel,
+    includeExercises: true,
+    exerciseType: type
+  });
+
+  const responseFormat = exerciseResponseFormat(type as ExerciseType, maxCount);
+
+  const prompt = `
+Generate ${maxCount} Spanish language exercises of type "${type}" with difficulty "${difficultyLevel}"${
+  cefrLevel ? ` at CEFR level ${cefrLevel}` : ''
+}${
+  focusArea ? ` focusing on "${focusArea}"` : ''
+}.
+Where the reference material includes exercise templates, base the exercises on them so they follow our curriculum.
+${specificVocabulary && specificVocabulary.length > 0
+  ? `Include these specific vocabulary words: ${specificVocabulary.join(', ')}`
+  : ''}
+${specificGrammar && specificGrammar.length > 0
+  ? `Include these specific grammar concepts: ${specificGrammar.join(', ')}`
+  : ''}
+
+Respond with a JSON object matching this JSON Schema:
+${JSON.stringify(responseFormat.schema, null, 2)}
+`;
+
+  const generationFailed = (error: unknown): AppError => {
+    if (error instanceof QueryRateLimitError) {
+      return error;
+    }
+
+    logger.error({ error }, 'Error generating exercises');
+    return new AppError('Failed to generate exercises. Please try again later.', 500);
+  };
+
+  // Built once and reused by every attempt, so repairs don't count as more queries
+  let context: BuiltContext;
+
+  try {
+    context = await mcp.buildContext(options);
+  } catch (error) {
+    throw generationFailed(error);
+  }
+
+  const messages: McpChatMessage[] = [{ role: 'user', content: prompt }];
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    let exerciseResponse: string;
+
+    try {
+      exerciseResponse = (await mcp.chatWithContext(messages, options, { responseFormat, context })).response;
+    } catch (error) {
+      throw generationFailed(error);
+    }
+
+    const result = validateGeneratedExercises(type as ExerciseType, exerciseResponse, maxCount);
+
+    if (result.valid) {
+      return saveExerciseSet(
+        user,
+        { type, difficultyLevel, cefrLevel, focusArea, timeLimit, maxCount, adaptiveDifficulty },
+        result.exercises.map(toStoredExercise)
+      );
+    }
+
+    errors = result.errors;
+    logger.warn({ type, attempt, errors }, 'Generated exercises failed validation');
+
+    // Ask the model to fix its own response
+    messages.push(
+      { role: 'assistant', content: exerciseResponse },
+      {
+        role: 'user',
+        content: `The exercises did not match the schema:\n${errors.map(error => `- ${error}`).join('\n')}\n\nRespond with the corrected JSON only.`
+      }
+    );
+  }
+
+  throw new AppError(`The model could not produce valid "${type}" exercises`, 422, true, errors);
+};
+
+/**
+ * Generate fill_in_blank conjugation exercises with the conjugation engine, without
+ * calling the model. The set is stored like any other, so it is checked with checkExercises.
+ *
+ * @throws {AppError} 403 if fill_in_blank exercises are not available for the user's tier
+ * @throws {AppError} 400 if a verb is not a Spanish infinitive
+ */
+export const generateConjugationExerciseSet = async (
+  user: AuthenticatedUser | undefined,
+  params: ConjugationExerciseParams
+) => {
+  const { verbs, tenses, difficultyLevel = 'beginner', count = 5, timeLimit } = params;
+  const maxCount = applyTierLimits(user?.tier || 'free', 'fill_in_blank', count);
+
+  const invalidVerbs = (verbs || []).filter(verb => conjugate(verb) === null);
+
+  if (invalidVerbs.length > 0) {
+    throw new AppError(`Not Spanish infinitives: ${invalidVerbs.join(', ')}`, 400);
+  }
+
+  const exercises = generateConjugationExercises({ verbs, tenses, difficultyLevel, count: maxCount });
+
+  return saveExerciseSet(
+    user,
+    { type: 'fill_in_blank', difficultyLevel, focusArea: 'conjugation', timeLimit, maxCount },
+    exercises.map(toStoredExercise)
+  );
+};
+
+/**
+ * Grade a user's answers against a stored exercise set
+ *
+ * Exercises without an answer count as incorrect in the score.
+ *
+ * @throws {AppError} 404 if the exercise set is not found, 403 if the user doesn't own it
+ * @throws {AppError} 400 if an answer refers to an exercise that isn't in the set, or an
+ * exercise is answered more than once
+ */
+export const checkExercises = async (
+  user: AuthenticatedUser | undefined,
+  params: CheckExercisesParams
+) => {
+  const { exerciseId, answers, timeTaken } = params;
+
+  const exerciseSet = await getOwnedExerciseSet(exerciseId, user);
+  const exercisesById = new Map(exerciseSet.exercises.map(exercise => [exercise.id, exercise]));
+  const answeredIds = new Set<string>();
+
+  const results = answers.map(answer => {
+    const exercise = exercisesById.get(answer.id);
+
+    if (!exercise) {
+      throw new AppError(`Exercise "${answer.id}" is not part of this exercise set`, 400);
+    }
+
+    // Each exercise counts once towards the score
+    if (answeredIds.has(answer.id)) {
+      throw new AppError(`Exercise "${answer.id}" is answered more than once`, 400);
+    }
+
+    answeredIds.add(answer.id);
+
+    const { isCorrect, verdict, comparison } = gradeAnswer(exercise, exerciseSet.type, answer.answer);
+
+    return {
+      id: answer.id,
+      isCorrect,
+      verdict,
+      correctAnswer: exercise.correctAnswer,
+      explanation: exercise.explanation,
+      feedback: VERDICT_FEEDBACK[verdict],
+      diff: comparison?.diff,
+      category: exerciseCategory(exercise, exerciseSet.type, exerciseSet.focusArea)
+    };
+  });
+
+  // Calculate overall score
+  const correct = results.filter(r => r.isCorrect).length;
+  const total = exerciseSet.exercises.length;
+  const score = {
+    correct,
+    total,
+    percentage: total > 0 ? Math.round((correct / total) * 100) : 0
+  };
+
+  // Record the attempt for the user's exercise history
+  if (user?.id) {
+    await exerciseAttemptRepository.save({
+      id: `att_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: user.id,
+      exerciseSetId: exerciseSet.id,
+      type: exerciseSet.type,
+      difficultyLevel: exerciseSet.difficultyLevel,
+      focusArea: exerciseSet.focusArea,
+      score,
+      timeTaken,
+      completedAt: new Date(),
+      results: results.map(result => ({
+        exerciseId: result.id,
+        category: result.category,
+        isCorrect: result.isCorrect
+      }))
+    });
+  }
+
+  // Tiers with detailed feedback get feedback from their error profile, including this attempt
+  let detailedFeedback;
+
+  if (getTierPolicy(user?.tier).exercise.detailedFeedback && user?.id) {
+    const profile = await getLearnerProfile(user);
+    const [recommendation] = profile.recommendations;
+
+    detailedFeedback = {
+      strengths: profile.strengths,
+      weaknesses: profile.weaknesses,
+      recommendedFocus: recommendation?.focusArea ?? null,
+      nextExerciseRecommendation: recommendation
+        ? { type: recommendation.type, difficulty: exerciseSet.difficultyLevel, focus: recommendation.focusArea }
+        : null
+    };
+  }
+
+  return {
+    exerciseId,
+    results,
+    score,
+    timeTaken,
+    completed: true,
+    detailedFeedback,
+    tier: user?.tier
+  };
+};
+
+/**
+ * Get a page of the user's exercise history with a progress summary
+ *
+ * The summary covers every attempt in the requested date range and type, not just the
+ * current page. Tiers with detailed history (premium by default) get per-attempt
+ * performance details and the full summary.
+ */
+export const getExerciseHistory = async (
+  user: AuthenticatedUser | undefined,
+  params: ExerciseHistoryParams = {}
+) => {
+  const { page = 1, limit = 10, from, to, type } = params;
+  const detailed = getTierPolicy(user?.tier).exercise.detailedHistory;
+
+  // Oldest first, so each attempt can be compared with the one before it
+  const allAttempts = user?.id
+    ? (await exerciseAttemptRepository.listByUser(user.id))
+        .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime())
+    : [];
+
+  const attempts = allAttempts.filter(attempt =>
+    (!from || attempt.completedAt >= from) &&
+    (!to || attempt.completedAt <= to) &&
+    (!type || attempt.type === type)
+  );
+
+  const previousAttempts = new Map<string, ExerciseAttempt>();
+  const history = attempts.map(attempt => {
+    const previous = previousAttempts.get(attempt.type);
+    previousAttempts.set(attempt.type, attempt);
+
+    const entry = {
+      id: attempt.exerciseSetId,
+      date: attempt.completedAt.toISOString(),
+      type: attempt.type,
+      score: attempt.score
+    };
+
+    return detailed
+      ? {
+          ...entry,
+          difficultyLevel: attempt.difficultyLevel,
+          focusArea: attempt.focusArea,
+          timeTaken: attempt.timeTaken,
+          performance: describePerformance(attempt, previous)
+        }
+      : entry;
+  });
+
+  // Newest first for display
+  history.reverse();
+
+  const total = history.length;
+  const fullSummary = summarizeExerciseAttempts(attempts, allAttempts);
+
+  const summary = detailed
+    ? fullSummary
+    : {
+        totalExercises: fullSummary.totalExercises,
+        averageScore: fullSummary.averageScore,
+        completedExerciseTypes: fullSummary.completedExerciseTypes
+      };
+
+  return {
+    history: history.slice((page - 1) * limit, page * limit),
+    summary,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit)
+    },
+    tier: user?.tier
+  };
+};
@@ -0,0 +1,138 @@
+/**
+ * Exercise template aggregation
+ *
+ * Exercise templates describe curated exercises from our curriculum. They come from
+ * two places: the templates attached to grammar rules, and a standalone exercise bank
+ * for exercises that don't belong to a single rule. The bank is read from custom data
+ * or Appwrite; the built-in bank below is used when neither provides any.
+ */
+import { ExerciseTemplate, GrammarRule } from './mcp-module.js';
+import { CefrLevel } from './appwrite.js';
+import { matchesCefrLevel } from './cefr.js';
+
+export interface ExerciseTemplateFilters {
+  difficultyLevel?: string;
+  cefrLevel?: CefrLevel;
+  /**
+   * Keep templates in one of these categories (grammar or vocabulary categories)
+   */
+  categories?: string[];
+  /**
+   * Exercise type, e.g. `fill_in_blank`. Templates without a type suit any type.
+   */
+  type?: string;
+  limit?: number;
+}
+
+/**
+ * Collect the templates attached to grammar rules, followed by the exercise bank.
+ * Templates from a rule inherit the rule's category when they don't set one.
+ */
+export const collectExerciseTemplates = (
+  grammarRules: GrammarRule[],
+  exerciseBank: ExerciseTemplate[]
+): ExerciseTemplate[] => {
+  const fromGrammar = grammarRules.flatMap(rule =>
+    (rule.exerciseTemplates || []).map(template => ({
+      ...template,
+      category: template.category || rule.category,
+      grammarRule: template.grammarRule || rule.title
+    }))
+  );
+
+  return [...fromGrammar, ...exerciseBank];
+};
+
+/**
+ * Filter templates by difficulty, CEFR level, category and exercise type, keeping their order
+ */
+export const filterExerciseTemplates = (
+  templates: ExerciseTemplate[],
+  filters: ExerciseTemplateFilters = {}
+): ExerciseTemplate[] => {
+  let result = templates;
+
+  if (filters.difficultyLevel) {
+    result = result.filter(template => template.difficulty === filters.difficultyLevel);
+  }
+
+  if (filters.cefrLevel) {
+    result = result.filter(template => matchesCefrLevel(template, filters.cefrLevel!));
+  }
+
+  if (filters.categories?.length) {
+    result = result.filter(template => template.category && filters.categories!.includes(template.category));
+  }
+
+  if (filters.type) {
+    result = result.filter(template => !template.type || template.type === filters.type);
+  }
+
+  return filters.limit ? result.slice(0, filters.limit) : result;
+};
+
+export const sampleExerciseBank: ExerciseTemplate[] = [
+  {
+    title: "Greetings Match",
+    type: "vocabulary_matching",
+    category: "greeting",
+    difficulty: "beginner",
+    cefrLevel: CefrLevel.A1,
+    instructions: "Match each Spanish greeting or farewell with its English meaning.",
+    examples: ["hola → hello", "adiós → goodbye", "buenas noches → good night"]
+  },
+  {
+    title: "Everyday Verbs Multiple Choice",
+    type: "multiple_choice",
+    category: "verb",
+    difficulty: "beginner",
+    cefrLevel: CefrLevel.A2,
+    instructions: "Choose the correct translation of the verb in the sentence.",
+    examples: ["Yo (hablo) con mi madre. → a) eat b) speak c) live"]
+  },
+  {
+    title: "Ser or Estar",
+    type: "fill_in_blank",
+    category: "verb_conjugation",
+    difficulty: "intermediate",
+    cefrLevel: CefrLevel.B1,
+    instructions: "Complete each sentence with the correct form of ser or estar.",
+    examples: ["Mi hermana ___ médica. → es", "La sopa ___ fría. → está"]
+  },
+  {
+    title: "Build a Question",
+    type: "sentence_construction",
+    category: "questions",
+    difficulty: "intermediate",
+    cefrLevel: CefrLevel.B1,
+    instructions: "Put the words in order to form a correct question.",
+    examples: ["vives / dónde / ¿ / ? → ¿Dónde vives?"]
+  },
+  {
+    title: "Preterite or Imperfect Translation",
+    type: "translation",
+    category: "verb_tense",
+    difficulty: "advanced",
+    cefrLevel: CefrLevel.C1,
+    instructions: "Translate the sentence into Spanish, choosing between the preterite and the imperfect.",
+    examples: ["When I was a child, I lived in Madrid. → Cuando era niño, vivía en Madrid."]
+  },
+  {
+    title: "Spot the Agreement Error",
+    type: "error_correction",
+    category: "adjectives",
+    difficulty: "intermediate",
+    cefrLevel: CefrLevel.B1,
+    instructions: "Find and correct the adjective that doesn't agree with its noun.",
+    examples: ["Las casas blanco son bonitas. → Las casas blancas son bonitas."]
+  },
+  {
+    title: "Subjunctive After Expressions of Doubt",
+    type: "fill_in_blank",
+    category: "verb_tense",
+    difficulty: "advanced",
+    cefrLevel: CefrLevel.C1,
+    instructions: "Complete each sentence with the present subjunctive of the verb in brackets.",
+    examples: ["Dudo que él (venir) ___ mañana. → venga"]
+  }
+];
@@ -0,0 +1,77 @@
+/**
+ * JSON file persistence shared by the file-backed repositories
+ *
+ * Records are kept as a JSON array on disk. Loading happens lazily on first use, and
+ * writes are serialized and go through a temporary file so a crash mid-write never
+ * leaves a truncated store behind.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import pino from 'pino';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'json-file-store'
+});
+
+export class JsonFileStore<T extends { id: string }> {
+  readonly filePath: string;
+  private readonly revive: (raw: any) => T;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - Location of the JSON file
+   * @param revive - Restores a parsed record (e.g. converts ISO strings back to Dates)
+   */
+  constructor(filePath: string, revive: (raw: any) => T) {
+    this.filePath = path.resolve(filePath);
+    this.revive = revive;
+  }
+
+  /**
+   * Read every record from disk. A missing file is treated as an empty store.
+   */
+  async load(): Promise<T[]> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      const records = (Array.isArray(data) ? data : [])
+        .filter((raw: any) => raw && typeof raw.id === 'string')
+        .map((raw: any) => this.revive(raw));
+
+      logger.info(`Loaded ${records.length} records from ${this.filePath}`);
+      return records;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+
+      logger.error({ error, filePath: this.filePath }, 'Error loading records');
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the file contents with the given records
+   */
+  write(records: T[]): Promise<void> {
+    const snapshot = JSON.stringify(records);
+
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, snapshot, 'utf8');
+        await fs.rename(tempPath, this.filePath);
+      });
+
+    return this.writeQueue;
+  }
+
+  /**
+   * Wait for pending writes to finish
+   */
+  async flush(): Promise<void> {
+    await this.writeQueue;
+  }
+}
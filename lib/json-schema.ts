@@ -0,0 +1,139 @@
+/**
+ * Joi to JSON Schema conversion
+ *
+ * Converts the request validation schemas in middleware/validation.ts into JSON Schema
+ * so the MCP protocol server can advertise tool inputs without a second set of definitions.
+ * Only the Joi features used by this project are supported (objects, arrays, strings,
+ * numbers, booleans, alternatives, valid(), min/max, integer, required and defaults).
+ */
+import Joi from 'joi';
+
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  enum?: unknown[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * JSON Schema of an object, the form MCP tools advertise their inputs in
+ */
+export type ObjectJsonSchema = JsonSchema & {
+  type: 'object';
+  properties: Record<string, JsonSchema>;
+};
+
+const applyLimits = (
+  jsonSchema: JsonSchema,
+  rules: any[] = [],
+  minKey: 'minimum' | 'minLength' | 'minItems',
+  maxKey: 'maximum' | 'maxLength' | 'maxItems'
+): void => {
+  rules.forEach(rule => {
+    if (rule.name === 'min') {
+      jsonSchema[minKey] = rule.args.limit;
+    } else if (rule.name === 'max') {
+      jsonSchema[maxKey] = rule.args.limit;
+    } else if (rule.name === 'integer') {
+      jsonSchema.type = 'integer';
+    }
+  });
+};
+
+/**
+ * Convert a Joi schema description (the output of `schema.describe()`) into JSON Schema
+ */
+export const describeToJsonSchema = (description: any): JsonSchema => {
+  const flags = description.flags || {};
+  const jsonSchema: JsonSchema = {};
+
+  switch (description.type) {
+    case 'object': {
+      jsonSchema.type = 'object';
+      jsonSchema.properties = {};
+      const required: string[] = [];
+
+      Object.entries(description.keys || {}).forEach(([key, child]: [string, any]) => {
+        jsonSchema.properties![key] = describeToJsonSchema(child);
+
+        if (child.flags?.presence === 'required') {
+          required.push(key);
+        }
+      });
+
+      if (required.length > 0) {
+        jsonSchema.required = required;
+      }
+
+      jsonSchema.additionalProperties = flags.unknown === true;
+      break;
+    }
+    case 'array':
+      jsonSchema.type = 'array';
+
+      if (description.items?.length === 1) {
+        jsonSchema.items = describeToJsonSchema(description.items[0]);
+      } else if (description.items?.length > 1) {
+        jsonSchema.items = { anyOf: description.items.map(describeToJsonSchema) };
+      }
+
+      applyLimits(jsonSchema, description.rules, 'minItems', 'maxItems');
+      break;
+    case 'alternatives':
+      jsonSchema.anyOf = (description.matches || []).map((match: any) => describeToJsonSchema(match.schema));
+      break;
+    case 'string':
+      jsonSchema.type = 'string';
+      applyLimits(jsonSchema, description.rules, 'minLength', 'maxLength');
+      break;
+    case 'number':
+      jsonSchema.type = 'number';
+      applyLimits(jsonSchema, description.rules, 'minimum', 'maximum');
+      break;
+    case 'boolean':
+      jsonSchema.type = 'boolean';
+      break;
+    default:
+      break;
+  }
+
+  if (flags.only && Array.isArray(description.allow)) {
+    jsonSchema.enum = description.allow;
+  }
+
+  if (flags.default !== undefined) {
+    jsonSchema.default = flags.default;
+  }
+
+  if (flags.description) {
+    jsonSchema.description = flags.description;
+  }
+
+  return jsonSchema;
+};
+
+/**
+ * Convert a Joi schema into JSON Schema
+ */
+export const joiToJsonSchema = (schema: Joi.Schema): JsonSchema => {
+  return describeToJsonSchema(schema.describe());
+};
+
+/**
+ * Convert a Joi object schema into JSON Schema
+ */
+export const joiObjectToJsonSchema = (schema: Joi.ObjectSchema): ObjectJsonSchema => {
+  const { properties = {}, ...jsonSchema } = joiToJsonSchema(schema);
+  return { ...jsonSchema, type: 'object', properties };
+};
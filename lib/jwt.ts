@@ -0,0 +1,209 @@
+/**
+ * JSON Web Token verification for bearer token authentication
+ *
+ * Verifies compact JWS tokens signed with HS256 (a shared secret) or RS256 (public keys
+ * from a local JWKS file, e.g. one exported from the identity provider), and checks the
+ * registered claims: exp (required), nbf, iat, and iss and aud when an issuer or audience
+ * is configured. Each algorithm is only checked against its own kind of key, so an
+ * RS256 public key can never be used as an HS256 secret.
+ *
+ * The JWKS file is read on first use, and read again when a token names a key it doesn't
+ * contain (at most once a minute), so rotated keys are picked up without a restart.
+ */
+import { createHmac, createPublicKey, KeyObject, timingSafeEqual, verify as verifySignature } from 'crypto';
+import { promises as fs } from 'fs';
+import pino from 'pino';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'jwt'
+});
+
+const JWKS_RELOAD_INTERVAL_MS = 60 * 1000;
+
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export interface JwtVerifierOptions {
+  /**
+   * Shared secret for HS256 tokens; HS256 is rejected without one
+   */
+  secret?: string;
+  /**
+   * JWKS file with the RSA public keys for RS256 tokens; RS256 is rejected without one
+   */
+  jwksPath?: string;
+  issuer?: string;
+  /**
+   * Accepted audiences; a token must name at least one of them
+   */
+  audience?: string[];
+  clockToleranceSeconds?: number;
+}
+
+export interface JwtVerifier {
+  readonly algorithms: string[];
+  verify(token: string): Promise<JwtClaims>;
+}
+
+const decodeSegment = (segment: string): any => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Malformed token');
+  }
+};
+
+const loadJwks = async (jwksPath: string): Promise<Map<string, KeyObject>> => {
+  const jwks = JSON.parse(await fs.readFile(jwksPath, 'utf8'));
+  const keys = new Map<string, KeyObject>();
+
+  (Array.isArray(jwks?.keys) ? jwks.keys : [])
+    .filter((jwk: any) => jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig') && (!jwk.alg || jwk.alg === 'RS256'))
+    .forEach((jwk: any, index: number) => {
+      keys.set(jwk.kid ?? `#${index}`, createPublicKey({ key: jwk, format: 'jwk' }));
+    });
+
+  logger.info({ jwksPath, keys: keys.size }, 'Loaded JWKS');
+  return keys;
+};
+
+const checkClaims = (claims: JwtClaims, options: JwtVerifierOptions) => {
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSeconds ?? 30;
+
+  if (typeof claims.exp !== 'number') {
+    throw new Error('Token has no expiry');
+  }
+
+  if (claims.exp + tolerance <= now) {
+    throw new Error('Token has expired');
+  }
+
+  if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+    throw new Error('Token is not valid yet');
+  }
+
+  if (typeof claims.iat === 'number' && claims.iat - tolerance > now) {
+    throw new Error('Token was issued in the future');
+  }
+
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new Error('Token has the wrong issuer');
+  }
+
+  if (options.audience?.length) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+    if (!audiences.some(audience => options.audience!.includes(audience as string))) {
+      throw new Error('Token has the wrong audience');
+    }
+  }
+};
+
+/**
+ * Create a verifier for the configured keys
+ *
+ * verify() resolves with the token's claims, and rejects with an error describing why
+ * the token isn't accepted.
+ */
+export const createJwtVerifier = (options: JwtVerifierOptions): JwtVerifier => {
+  let jwks: Promise<Map<string, KeyObject>> | null = null;
+  let jwksLoadedAt = 0;
+
+  const getJwks = (reload = false): Promise<Map<string, KeyObject>> => {
+    if (!jwks || (reload && Date.now() - jwksLoadedAt >= JWKS_RELOAD_INTERVAL_MS)) {
+      jwksLoadedAt = Date.now();
+      jwks = loadJwks(options.jwksPath!).catch(error => {
+        // Retry on the next token rather than failing until the reload interval has passed
+        logger.error({ error, jwksPath: options.jwksPath }, 'Error loading JWKS');
+        jwks = null;
+        throw new Error('Signing keys are unavailable');
+      });
+    }
+
+    return jwks;
+  };
+
+  const findKey = async (kid?: string): Promise<KeyObject> => {
+    for (const reload of [false, true]) {
+      const keys = await getJwks(reload);
+
+      if (kid !== undefined && keys.has(kid)) {
+        return keys.get(kid)!;
+      }
+
+      if (kid === undefined && keys.size === 1) {
+        return keys.values().next().value!;
+      }
+    }
+
+    throw new Error(kid === undefined ? 'Token does not name its signing key' : `Unknown signing key "${kid}"`);
+  };
+
+  const algorithms = [
+    ...(options.secret ? ['HS256'] : []),
+    ...(options.jwksPath ? ['RS256'] : [])
+  ];
+
+  return {
+    algorithms,
+
+    async verify(token: string): Promise<JwtClaims> {
+      const segments = token.split('.');
+
+      if (segments.length !== 3) {
+        throw new Error('Malformed token');
+      }
+
+      const header = decodeSegment(segments[0]);
+      const claims: JwtClaims = decodeSegment(segments[1]);
+      const signingInput = Buffer.from(`${segments[0]}.${segments[1]}`);
+      const signature = Buffer.from(segments[2], 'base64url');
+
+      if (!algorithms.includes(header?.alg)) {
+        throw new Error(`Tokens signed with ${header?.alg ?? 'no algorithm'} are not accepted`);
+      }
+
+      let valid: boolean;
+
+      if (header.alg === 'HS256') {
+        const expected = createHmac('sha256', options.secret!).update(signingInput).digest();
+        valid = signature.length === expected.length && timingSafeEqual(signature, expected);
+      } else {
+        valid = verifySignature('RSA-SHA256', signingInput, await findKey(header.kid), signature);
+      }
+
+      if (!valid) {
+        throw new Error('Invalid token signature');
+      }
+
+      if (!claims || typeof claims !== 'object' || Array.isArray(claims)) {
+        throw new Error('Malformed token');
+      }
+
+      checkClaims(claims, options);
+      return claims;
+    }
+  };
+};
+
+/**
+ * Verifier options from the JWT_* environment variables
+ */
+export const jwtOptionsFromEnv = (): JwtVerifierOptions => ({
+  secret: process.env.JWT_SECRET || undefined,
+  jwksPath: process.env.JWT_JWKS_PATH || undefined,
+  issuer: process.env.JWT_ISSUER || undefined,
+  audience: process.env.JWT_AUDIENCE
+    ? process.env.JWT_AUDIENCE.split(',').map(audience => audience.trim()).filter(Boolean)
+    : undefined,
+  clockToleranceSeconds: process.env.JWT_CLOCK_TOLERANCE ? Number(process.env.JWT_CLOCK_TOLERANCE) : undefined
+});
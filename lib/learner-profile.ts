@@ -0,0 +1,325 @@
+/**
+ * Learner error profile for the Spanish Learning MCP Server
+ *
+ * Aggregates the categories of a learner's mistakes from graded exercise answers and
+ * conversation corrections. Recent evidence counts more than old evidence: each answer
+ * or correction is weighted by half every HALF_LIFE_DAYS. All functions are pure so they
+ * can be tested against a fixed clock.
+ */
+import { ExerciseAttempt } from './exercise-attempt-repository.js';
+import { Conversation } from './conversation-repository.js';
+import { StoredExercise } from './exercise-repository.js';
+import { CORRECTION_CATEGORIES, CorrectionSeverity } from './conversation-corrections.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Age at which an answer or correction counts half as much as a new one
+ */
+export const HALF_LIFE_DAYS = 14;
+
+/**
+ * Conversation corrections weigh more the more they affect the meaning
+ */
+const SEVERITY_WEIGHTS: Record<CorrectionSeverity, number> = {
+  minor: 0.5,
+  moderate: 1,
+  major: 1.5
+};
+
+/**
+ * Added to the evidence of every category, so a single mistake doesn't make a weakness
+ */
+const PRIOR_WEIGHT = 1;
+
+const WEAKNESS_MIN_MISTAKES = 2;
+const WEAKNESS_MIN_ERROR_RATE = 30;
+const STRENGTH_MIN_CORRECT = 3;
+const STRENGTH_MAX_ERROR_RATE = 20;
+const MAX_LISTED = 5;
+const MAX_RECOMMENDATIONS = 3;
+
+/**
+ * Exercise focus areas that name a correction category in other words
+ */
+const FOCUS_AREA_ALIASES: Record<string, string> = {
+  conjugation: 'verb_conjugation',
+  verb: 'verb_conjugation',
+  verbs: 'verb_conjugation',
+  tenses: 'verb_tense',
+  past_tense: 'preterite_imperfect',
+  preterite: 'preterite_imperfect',
+  imperfect: 'preterite_imperfect',
+  gender: 'gender_agreement',
+  adjectives: 'gender_agreement',
+  agreement: 'gender_agreement',
+  plurals: 'number_agreement',
+  accents: 'spelling_accents',
+  spelling: 'spelling_accents',
+  prepositions: 'prepositions',
+  vocab: 'vocabulary'
+};
+
+/**
+ * Category of exercises whose focus area isn't a known category
+ */
+const EXERCISE_TYPE_CATEGORIES: Record<string, string> = {
+  vocabulary_matching: 'vocabulary',
+  translation: 'vocabulary',
+  sentence_construction: 'word_order',
+  listening_comprehension: 'listening',
+  conversation_practice: 'conversation'
+};
+
+/**
+ * Exercise type that practices each category best
+ */
+const CATEGORY_EXERCISE_TYPES: Record<string, string> = {
+  vocabulary: 'vocabulary_matching',
+  verb_conjugation: 'fill_in_blank',
+  verb_tense: 'fill_in_blank',
+  subjunctive: 'fill_in_blank',
+  preterite_imperfect: 'fill_in_blank',
+  word_order: 'sentence_construction',
+  listening: 'listening_comprehension',
+  conversation: 'conversation_practice'
+};
+
+/**
+ * Used when the best exercise type for a category isn't available, in order of preference
+ */
+const FALLBACK_EXERCISE_TYPES = ['error_correction', 'fill_in_blank', 'multiple_choice'];
+
+export interface CategoryStats {
+  category: string;
+  mistakes: number;
+  correct: number;
+  /**
+   * Recency-weighted share of the evidence that was a mistake, as a percentage
+   */
+  errorRate: number;
+  /**
+   * Mistakes by where they were made
+   */
+  sources: { exercises: number; conversations: number };
+  lastMistakeAt: string | null;
+}
+
+export interface ProfileRecommendation {
+  type: string;
+  focusArea: string;
+  reason: string;
+}
+
+export interface LearnerProfile {
+  weaknesses: string[];
+  strengths: string[];
+  recommendations: ProfileRecommendation[];
+  /**
+   * Every category with evidence, weakest first
+   */
+  categories: CategoryStats[];
+  totals: {
+    exerciseAnswers: number;
+    correctedMessages: number;
+    corrections: number;
+  };
+}
+
+export interface LearnerProfileOptions {
+  /**
+   * Exercise types the learner can generate; recommendations are limited to these
+   */
+  allowedExerciseTypes?: string[];
+  now?: Date;
+}
+
+interface Observation {
+  category: string;
+  correct: boolean;
+  weight: number;
+  at: Date;
+  source: 'exercises' | 'conversations';
+}
+
+const normalizeArea = (area: string): string => area.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * The mistake category practiced by exercises of a type and focus area
+ *
+ * The focus area is used when it names a category, and the exercise type otherwise.
+ */
+export const focusAreaCategory = (type: string, focusArea?: string): string => {
+  if (focusArea) {
+    const area = normalizeArea(focusArea);
+
+    if ((CORRECTION_CATEGORIES as readonly string[]).includes(area)) {
+      return area;
+    }
+
+    if (FOCUS_AREA_ALIASES[area]) {
+      return FOCUS_AREA_ALIASES[area];
+    }
+  }
+
+  return EXERCISE_TYPE_CATEGORIES[type] || 'other';
+};
+
+/**
+ * The mistake category an exercise practices
+ *
+ * Conjugation drills are categorized by their tense, other exercises by their set's
+ * type and focus area (see focusAreaCategory).
+ */
+export const exerciseCategory = (exercise: StoredExercise, type: string, focusArea?: string): string => {
+  const conjugation = exercise.data?.type === 'fill_in_blank' ? exercise.data.conjugation : undefined;
+
+  if (conjugation) {
+    if (conjugation.mood === 'subjunctive') {
+      return 'subjunctive';
+    }
+
+    return conjugation.mood === 'indicative' && ['preterite', 'imperfect'].includes(conjugation.tense)
+      ? 'preterite_imperfect'
+      : 'verb_conjugation';
+  }
+
+  return focusAreaCategory(type, focusArea);
+};
+
+const recencyWeight = (at: Date, now: Date): number => {
+  const ageDays = Math.max(now.getTime() - at.getTime(), 0) / DAY_MS;
+  return Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+};
+
+const collectObservations = (attempts: ExerciseAttempt[], conversations: Conversation[]): Observation[] => {
+  const observations: Observation[] = [];
+
+  attempts.forEach(attempt => {
+    (attempt.results || []).forEach(result => {
+      observations.push({
+        category: result.category,
+        correct: result.isCorrect,
+        weight: 1,
+        at: attempt.completedAt,
+        source: 'exercises'
+      });
+    });
+  });
+
+  conversations.forEach(conversation => {
+    conversation.messages.forEach(message => {
+      (message.corrections || []).forEach(correction => {
+        observations.push({
+          category: correction.category,
+          correct: false,
+          weight: SEVERITY_WEIGHTS[correction.severity] ?? 1,
+          at: new Date(message.timestamp),
+          source: 'conversations'
+        });
+      });
+    });
+  });
+
+  return observations;
+};
+
+const recommendFor = (stats: CategoryStats, allowedTypes?: string[]): ProfileRecommendation | null => {
+  const preferred = CATEGORY_EXERCISE_TYPES[stats.category];
+  const candidates = [preferred, ...FALLBACK_EXERCISE_TYPES].filter(Boolean);
+  const type = allowedTypes ? candidates.find(candidate => allowedTypes.includes(candidate)) : candidates[0];
+
+  if (!type) {
+    return null;
+  }
+
+  return {
+    type,
+    focusArea: stats.category,
+    reason: `${stats.mistakes} mistakes (${stats.sources.exercises} in exercises, ${stats.sources.conversations} in conversations), ${stats.errorRate}% weighted error rate`
+  };
+};
+
+/**
+ * Build a learner's error profile from their exercise attempts and conversations
+ */
+export const buildLearnerProfile = (
+  attempts: ExerciseAttempt[],
+  conversations: Conversation[],
+  options: LearnerProfileOptions = {}
+): LearnerProfile => {
+  const { allowedExerciseTypes, now = new Date() } = options;
+  const observations = collectObservations(attempts, conversations);
+
+  const byCategory = new Map<string, { stats: CategoryStats; errorWeight: number; correctWeight: number }>();
+
+  observations.forEach(observation => {
+    const entry = byCategory.get(observation.category) || {
+      stats: {
+        category: observation.category,
+        mistakes: 0,
+        correct: 0,
+        errorRate: 0,
+        sources: { exercises: 0, conversations: 0 },
+        lastMistakeAt: null
+      },
+      errorWeight: 0,
+      correctWeight: 0
+    };
+
+    const weight = observation.weight * recencyWeight(observation.at, now);
+
+    if (observation.correct) {
+      entry.stats.correct++;
+      entry.correctWeight += weight;
+    } else {
+      entry.stats.mistakes++;
+      entry.stats.sources[observation.source]++;
+      entry.errorWeight += weight;
+
+      const at = observation.at.toISOString();
+      if (!entry.stats.lastMistakeAt || at > entry.stats.lastMistakeAt) {
+        entry.stats.lastMistakeAt = at;
+      }
+    }
+
+    byCategory.set(observation.category, entry);
+  });
+
+  const categories = Array.from(byCategory.values())
+    .map(({ stats, errorWeight, correctWeight }) => ({
+      ...stats,
+      errorRate: Math.round((errorWeight / (errorWeight + correctWeight + PRIOR_WEIGHT)) * 100)
+    }))
+    .sort((a, b) => b.errorRate - a.errorRate || b.mistakes - a.mistakes);
+
+  const weak = categories
+    .filter(stats => stats.mistakes >= WEAKNESS_MIN_MISTAKES && stats.errorRate >= WEAKNESS_MIN_ERROR_RATE)
+    .slice(0, MAX_LISTED);
+
+  const strengths = categories
+    .filter(stats => stats.correct >= STRENGTH_MIN_CORRECT && stats.errorRate <= STRENGTH_MAX_ERROR_RATE)
+    .reverse()
+    .slice(0, MAX_LISTED)
+    .map(stats => stats.category);
+
+  const recommendations = weak
+    .map(stats => recommendFor(stats, allowedExerciseTypes))
+    .filter(recommendation => recommendation !== null)
+    .slice(0, MAX_RECOMMENDATIONS);
+
+  return {
+    weaknesses: weak.map(stats => stats.category),
+    strengths,
+    recommendations,
+    categories,
+    totals: {
+      exerciseAnswers: observations.filter(observation => observation.source === 'exercises').length,
+      correctedMessages: conversations.reduce(
+        (count, conversation) => count + conversation.messages.filter(message => message.corrections?.length).length,
+        0
+      ),
+      corrections: observations.filter(observation => observation.source === 'conversations').length
+    }
+  };
+};
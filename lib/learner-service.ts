@@ -0,0 +1,77 @@
+/**
+ * Learner profile service for the Spanish Learning MCP Server
+ *
+ * Builds a user's error profile and level estimates from their recorded exercise
+ * attempts and the corrections stored on their conversation messages, and picks the
+ * difficulty for new exercises and conversations when the client doesn't choose one.
+ */
+import { AuthenticatedUser } from './appwrite-auth.js';
+import { LearnerProfile, buildLearnerProfile } from './learner-profile.js';
+import {
+  DifficultyChoice,
+  DifficultyChoiceOptions,
+  LearnerLevels,
+  Skill,
+  chooseDifficulty,
+  estimateLearnerLevels
+} from './adaptive-difficulty.js';
+import { ExerciseAttempt } from './exercise-attempt-repository.js';
+import { Conversation } from './conversation-repository.js';
+import { getAvailableExerciseTypes, getExerciseAttemptRepository } from './exercise-service.js';
+import { getConversationRepository } from './conversation-service.js';
+import { AppError } from '../middleware/error.js';
+
+/**
+ * Everything recorded about a user's practice. Anonymous users have no history.
+ */
+const getLearnerHistory = async (
+  user?: AuthenticatedUser
+): Promise<{ attempts: ExerciseAttempt[]; conversations: Conversation[] }> => {
+  if (!user?.id) {
+    return { attempts: [], conversations: [] };
+  }
+
+  const [attempts, conversations] = await Promise.all([
+    getExerciseAttemptRepository().listByUser(user.id),
+    getConversationRepository().listByUser(user.id)
+  ]);
+
+  return { attempts, conversations };
+};
+
+/**
+ * Get the user's error profile, with recommendations limited to the exercise types
+ * their tier can generate
+ *
+ * @throws {AppError} 401 if the request has no user
+ */
+export const getLearnerProfile = async (user?: AuthenticatedUser): Promise<LearnerProfile> => {
+  if (!user?.id) {
+    throw new AppError('A user ID is required for the learner profile', 401);
+  }
+
+  const { attempts, conversations } = await getLearnerHistory(user);
+
+  return buildLearnerProfile(attempts, conversations, {
+    allowedExerciseTypes: getAvailableExerciseTypes(user.tier || 'free')
+  });
+};
+
+/**
+ * Estimate the user's level overall, per skill and per grammar category
+ */
+export const getLearnerLevels = async (user?: AuthenticatedUser): Promise<LearnerLevels> => {
+  const { attempts, conversations } = await getLearnerHistory(user);
+  return estimateLearnerLevels(attempts, conversations);
+};
+
+/**
+ * Pick the difficulty level for practicing a skill from the user's estimated level
+ */
+export const chooseLearnerDifficulty = async (
+  user: AuthenticatedUser | undefined,
+  skill: Skill,
+  options: DifficultyChoiceOptions = {}
+): Promise<DifficultyChoice> => {
+  return chooseDifficulty(await getLearnerLevels(user), skill, { tier: user?.tier || 'free', ...options });
+};
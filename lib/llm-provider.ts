@@ -0,0 +1,123 @@
+/**
+ * Language model provider abstraction for the Spanish Learning MCP Server
+ *
+ * SpanishMcp talks to the model through an LlmProvider, so the backend can be swapped
+ * without touching the context and tier logic. The provider is chosen by configuration:
+ * - anthropic: Claude through the Anthropic API
+ * - mock: scripted, fixture-driven responses for tests and offline development
+ */
+import pino from 'pino';
+import { JsonSchema } from './json-schema.js';
+import { AnthropicProvider } from './anthropic-provider.js';
+import { MockLlmProvider, loadMockLlmFixtures } from './mock-llm-provider.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'llm-provider'
+});
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  model: string;
+  system?: string;
+  messages: LlmMessage[];
+  maxTokens: number;
+  temperature: number;
+  /**
+   * Require the response to be JSON matching this format instead of free text
+   */
+  responseFormat?: LlmResponseFormat;
+}
+
+/**
+ * A JSON response format. When a request sets one, the completion text is the JSON
+ * produced by the model.
+ */
+export interface LlmResponseFormat {
+  name: string;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface LlmTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  usage: LlmTokenUsage;
+  model: string;
+}
+
+/**
+ * Events yielded by LlmProvider.stream: text deltas as they arrive, then a single
+ * final event with the assembled completion
+ */
+export type LlmStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; completion: LlmCompletion };
+
+export interface LlmRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest, options?: LlmRequestOptions): Promise<LlmCompletion>;
+  /**
+   * Stream a completion. When the signal is aborted the stream stops with an error.
+   */
+  stream(request: LlmRequest, options?: LlmRequestOptions): AsyncIterable<LlmStreamEvent>;
+  /**
+   * Count the input tokens the request would use
+   */
+  countTokens(request: LlmRequest): Promise<number>;
+  /**
+   * Release resources held by the provider on shutdown
+   */
+  close(): Promise<void>;
+}
+
+export type LlmProviderType = 'anthropic' | 'mock';
+
+export interface LlmProviderOptions {
+  type?: LlmProviderType;
+  apiKey?: string;
+  connectionPoolSize?: number;
+  /**
+   * JSON fixtures for the mock provider (see loadMockLlmFixtures)
+   */
+  fixturesPath?: string;
+}
+
+/**
+ * Create the LLM provider selected by configuration
+ *
+ * Falls back to the LLM_PROVIDER, ANTHROPIC_API_KEY and LLM_MOCK_FIXTURES environment
+ * variables, and to the Anthropic provider when no type is set.
+ */
+export const createLlmProvider = (options: LlmProviderOptions = {}): LlmProvider => {
+  const type = options.type || (process.env.LLM_PROVIDER as LlmProviderType) || 'anthropic';
+
+  if (type === 'mock') {
+    const fixturesPath = options.fixturesPath || process.env.LLM_MOCK_FIXTURES;
+    logger.info({ fixturesPath }, 'Using mock LLM provider');
+    return new MockLlmProvider({
+      fixtures: fixturesPath ? loadMockLlmFixtures(fixturesPath) : []
+    });
+  }
+
+  if (type !== 'anthropic') {
+    logger.warn(`Unknown LLM provider "${type}", falling back to anthropic`);
+  }
+
+  return new AnthropicProvider(
+    options.apiKey || process.env.ANTHROPIC_API_KEY || '',
+    options.connectionPoolSize
+  );
+};
@@ -1,9 +1,37 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { getVocabularyItems, getGrammarRules } from './appwrite.js';
-
-const NodeCache = require('node-cache');
-const GenericPool = require('generic-pool');
-const pino = require('pino');
+import NodeCache from 'node-cache';
+import pino from 'pino';
+import {
+  getVocabularyItems,
+  getGrammarRules,
+  getConversationTemplates,
+  getExerciseTemplates,
+  listAllGrammarRules,
+  listAllVocabularyItems,
+  saveGrammarRule,
+  saveVocabularyItem,
+  deleteGrammarRule,
+  deleteVocabularyItem,
+  CefrLevel
+} from './appwrite.js';
+import { cefrToDifficulty, matchesCefrLevel } from './cefr.js';
+import { ContentEntry, ContentItem, ContentKind, contentKey } from './content-schemas.js';
+import { LlmMessage, LlmProvider, LlmRequest, LlmResponseFormat, LlmTokenUsage } from './llm-provider.js';
+import { fitHistoryToTokenBudget } from './chat-history.js';
+import { BuiltContext, ContextReport, ContextSources, buildBudgetedContext } from './context-builder.js';
+import { AnthropicProvider } from './anthropic-provider.js';
+import { TierPolicy, TierPolicyRegistry, getTierPolicy, getTierPolicyRegistry } from './tier-policy.js';
+import { AppError } from '../middleware/error.js';
+import {
+  ConversationTemplateFilters,
+  filterConversationTemplates,
+  sampleConversationTemplates
+} from './conversation-templates.js';
+import {
+  ExerciseTemplateFilters,
+  collectExerciseTemplates,
+  filterExerciseTemplates,
+  sampleExerciseBank
+} from './exercise-templates.js';
 
 const logger = pino({
   level: process.env.LOG_LEVEL || 'info',
@@ -18,26 +46,35 @@ export enum ContextType {
   EXERCISE = 'exercise'
 }
 
+// Context types whose cached contexts can include each kind of content; conversations
+// only fall back to vocabulary
+const CONTENT_CONTEXT_TYPES: Record<ContentKind, ContextType[]> = {
+  vocabulary: [ContextType.VOCABULARY, ContextType.MIXED, ContextType.CONVERSATION, ContextType.EXERCISE],
+  grammar: [ContextType.GRAMMAR, ContextType.MIXED, ContextType.EXERCISE]
+};
+
 export enum AccessTier {
   FREE = 'free',
   BASIC = 'basic',
   PREMIUM = 'premium'
 }
 
-export interface RateLimitOptions {
-  maxQueriesPerMinute: number;
-  maxItemsPerRequest: number;
-}
-
-export interface TierRateLimits {
-  free: RateLimitOptions;
-  basic: RateLimitOptions;
-  premium: RateLimitOptions;
-}
+export const toAccessTier = (tier?: string | null): AccessTier => {
+  return tier === 'premium'
+    ? AccessTier.PREMIUM
+    : tier === 'basic'
+      ? AccessTier.BASIC
+      : AccessTier.FREE;
+};
 
 export interface CustomData {
   vocabulary?: VocabularyItem[];
   grammar?: GrammarRule[];
+  conversationTemplates?: ConversationTemplate[];
+  /**
+   * Exercise templates that don't belong to a grammar rule
+   */
+  exerciseBank?: ExerciseTemplate[];
 }
 
 export interface UsageExample {
@@ -51,6 +88,10 @@ export interface VocabularyItem {
   translation: string;
   category: string;
   difficultyLevel: string;
+  /**
+   * CEFR level; items without one count as both levels of their difficulty
+   */
+  cefrLevel?: CefrLevel;
   notes?: string;
   usageExamples: UsageExample[];
 }
@@ -60,10 +101,30 @@ export interface ExerciseTemplate {
   instructions: string;
   examples?: string[];
   difficulty: string;
+  cefrLevel?: CefrLevel;
+  /**
+   * Exercise type, e.g. `fill_in_blank`; templates without one suit any type
+   */
+  type?: string;
+  category?: string;
+  /**
+   * Title of the grammar rule the template belongs to
+   */
+  grammarRule?: string;
 }
 
 export interface ConversationTemplate {
+  /**
+   * Topic identifier, e.g. `ordering_food`
+   */
+  id: string;
   title: string;
+  difficultyLevel: string;
+  cefrLevel?: CefrLevel;
+  /**
+   * Language aspects the dialogue practises, e.g. `greetings` or `questions`
+   */
+  focusAreas?: string[];
   context: string;
   participants: string[];
   turns: ConversationTurn[];
@@ -81,6 +142,7 @@ export interface GrammarRule {
   category: string;
   explanation: string;
   difficultyLevel: string;
+  cefrLevel?: CefrLevel;
   examples: UsageExample[];
   tags: string[];
   relatedVocabulary?: string[];
@@ -99,7 +161,25 @@ export interface McpConfigOptions {
   connectionPoolSize?: number;
   connectionPoolTimeout?: number;
   logLevel?: string;
-  rateLimitOptions?: Partial<TierRateLimits>;
+  /**
+   * Tier policies to follow; defaults to the shared registry (see lib/tier-policy.ts).
+   * Give an instance its own limits with a registry of overrides, e.g.
+   * `new TierPolicyRegistry({ premium: { context: { maxTokens: 800 } } })`.
+   */
+  tierPolicies?: TierPolicyRegistry;
+  /**
+   * Returns the words a user should review next (due or struggling), which are
+   * put first when vocabulary context is built for that user
+   */
+  reviewWordProvider?: (userId: string, limit: number) => Promise<string[]>;
+  /**
+   * Model backend; defaults to Claude through the Anthropic API
+   */
+  llmProvider?: LlmProvider;
+  /**
+   * Model to use per access tier, overriding `model`
+   */
+  tierModels?: Partial<Record<AccessTier, string>>;
 }
 
 export class McpConfig {
@@ -114,7 +194,10 @@ export class McpConfig {
   readonly connectionPoolSize: number;
   readonly connectionPoolTimeout: number;
   readonly logLevel: string;
-  readonly rateLimitOptions: TierRateLimits;
+  readonly tierPolicies: TierPolicyRegistry | null;
+  readonly reviewWordProvider: ((userId: string, limit: number) => Promise<string[]>) | null;
+  readonly llmProvider: LlmProvider | null;
+  readonly tierModels: Partial<Record<AccessTier, string>>;
 
   constructor(options: McpConfigOptions) {
     this.apiKey = options.apiKey;
@@ -128,18 +211,10 @@ export class McpConfig {
     this.connectionPoolSize = options.connectionPoolSize || 10;
     this.connectionPoolTimeout = options.connectionPoolTimeout || 30000;
     this.logLevel = options.logLevel || 'info';
-    
-    const defaultRateLimits: TierRateLimits = {
-      free: { maxQueriesPerMinute: 2, maxItemsPerRequest: 5 },
-      basic: { maxQueriesPerMinute: 5, maxItemsPerRequest: 20 },
-      premium: { maxQueriesPerMinute: 20, maxItemsPerRequest: 50 }
-    };
-    
-    this.rateLimitOptions = {
-      free: { ...defaultRateLimits.free, ...(options.rateLimitOptions?.free || {}) },
-      basic: { ...defaultRateLimits.basic, ...(options.rateLimitOptions?.basic || {}) },
-      premium: { ...defaultRateLimits.premium, ...(options.rateLimitOptions?.premium || {}) }
-    };
+    this.reviewWordProvider = options.reviewWordProvider || null;
+    this.llmProvider = options.llmProvider || null;
+    this.tierModels = options.tierModels || {};
+    this.tierPolicies = options.tierPolicies || null;
     
     if (typeof logger?.level === 'function') {
       logger.level = this.logLevel;
@@ -152,12 +227,24 @@ export class McpConfig {
       connectionPoolSize: this.connectionPoolSize
     });
   }
+  
+  /**
+   * The current policy of a tier. Looked up on every use, so reloaded tier policies
+   * take effect right away.
+   */
+  tierPolicy(tier: AccessTier): TierPolicy {
+    return (this.tierPolicies || getTierPolicyRegistry()).get(tier);
+  }
 }
 
 export interface ContextOptionsParams {
   contextType?: ContextType;
   categories?: string[];
   difficultyLevel?: string;
+  /**
+   * CEFR level of the content; sets the difficulty level when that is omitted
+   */
+  cefrLevel?: CefrLevel;
   searchTerm?: string;
   maxItems?: number;
   includeExamples?: boolean;
@@ -165,12 +252,26 @@ export interface ContextOptionsParams {
   userId?: string;
   disableCache?: boolean;
   includeExercises?: boolean;
+  prioritizeReviews?: boolean;
+  /**
+   * Token budget for the context; can only lower the tier's budget
+   */
+  maxContextTokens?: number;
+  /**
+   * Conversation topic, used to pick conversation templates
+   */
+  topic?: string;
+  /**
+   * Exercise type, used to pick exercise templates
+   */
+  exerciseType?: string;
 }
 
 export class ContextOptions {
   contextType: ContextType;
   categories: string[];
   difficultyLevel: string | null;
+  cefrLevel: CefrLevel | null;
   searchTerm: string | null;
   maxItems: number;
   includeExamples: boolean;
@@ -178,11 +279,17 @@ export class ContextOptions {
   userId: string | null;
   disableCache: boolean;
   includeExercises: boolean;
+  prioritizeReviews: boolean;
+  prioritizeWords: string[];
+  maxContextTokens: number | null;
+  topic: string | null;
+  exerciseType: string | null;
 
   constructor(options: ContextOptionsParams) {
     this.contextType = options.contextType || ContextType.VOCABULARY;
     this.categories = options.categories || [];
-    this.difficultyLevel = options.difficultyLevel || null;
+    this.cefrLevel = options.cefrLevel || null;
+    this.difficultyLevel = options.difficultyLevel || (this.cefrLevel ? cefrToDifficulty(this.cefrLevel) ?? null : null);
     this.searchTerm = options.searchTerm || null;
     this.maxItems = options.maxItems || 10;
     this.includeExamples = options.includeExamples !== undefined ? options.includeExamples : true;
@@ -190,6 +297,11 @@ export class ContextOptions {
     this.userId = options.userId || null;
     this.disableCache = options.disableCache || false;
     this.includeExercises = options.includeExercises || false;
+    this.prioritizeReviews = options.prioritizeReviews !== undefined ? options.prioritizeReviews : true;
+    this.prioritizeWords = [];
+    this.maxContextTokens = options.maxContextTokens || null;
+    this.topic = options.topic || null;
+    this.exerciseType = options.exerciseType || null;
     
     logger.debug('ContextOptions created', {
       contextType: this.contextType,
@@ -200,85 +312,29 @@ export class ContextOptions {
   }
   
   getCacheKey(): string {
-    return `context:${this.contextType}:${this.categories.sort().join(',')}:${this.difficultyLevel || 'all'}:${this.searchTerm || 'all'}:${this.maxItems}:${this.includeExamples ? 1 : 0}:${this.includeExercises ? 1 : 0}`;
+    return `context:${this.contextType}:${this.categories.sort().join(',')}:${this.difficultyLevel || 'all'}:${this.cefrLevel || 'all'}:${this.searchTerm || 'all'}:${this.maxItems}:${this.includeExamples ? 1 : 0}:${this.includeExercises ? 1 : 0}:${this.prioritizeWords.join(',') || 'none'}:${this.maxContextTokens || 'default'}:${this.topic || 'any'}:${this.exerciseType || 'any'}`;
   }
   
-  applyTierRestrictions(): ContextOptions {
-    const tierLimits: Record<AccessTier, number> = {
-      [AccessTier.FREE]: 5,
-      [AccessTier.BASIC]: 20,
-      [AccessTier.PREMIUM]: 50
-    };
-    
-    if (tierLimits[this.accessTier] && this.maxItems > tierLimits[this.accessTier]) {
-      this.maxItems = tierLimits[this.accessTier];
+  /**
+   * Limit the options to what the tier policy allows; SpanishMcp passes the policy with
+   * its own overrides applied
+   */
+  applyTierRestrictions(policy: TierPolicy = getTierPolicy(this.accessTier)): ContextOptions {
+    if (this.maxItems > policy.context.maxItems) {
+      this.maxItems = policy.context.maxItems;
       logger.debug(`Applied tier restriction: maxItems limited to ${this.maxItems} for ${this.accessTier} tier`);
     }
     
-    if (this.accessTier === AccessTier.FREE) {
+    if (!policy.context.includeExercises && this.includeExercises) {
       this.includeExercises = false;
-      logger.debug('Applied tier restriction: exercises disabled for free tier');
+      logger.debug(`Applied tier restriction: exercises disabled for ${this.accessTier} tier`);
     }
     
     return this;
   }
 }
 
-class AnthropicConnectionPool {
-  private pool: any; // Using any for now due to TypeScript compatibility
-  
-  constructor(apiKey: string, poolSize: number = 10) {
-    this.createPool(apiKey, poolSize);
-  }
-  
-  private createPool(apiKey: string, size: number): void {
-    const factory = {
-      create: async (): Promise<Anthropic> => {
-        return new Anthropic({ apiKey });
-      },
-      destroy: async (_client: Anthropic): Promise<void> => {
-        return;
-      }
-    };
-    
-    const opts = {
-      max: size,
-      min: 2,
-      testOnBorrow: true,
-      acquireTimeoutMillis: 30000
-    };
-    
-    this.pool = GenericPool.Pool(factory, opts);
-    logger.info(`Created Anthropic connection pool with size ${size}`);
-  }
-  
-  async acquire(): Promise<Anthropic> {
-    try {
-      return await this.pool.acquire();
-    } catch (error) {
-      logger.error({ error }, 'Error acquiring Anthropic client from pool');
-      throw new Error('Failed to acquire Anthropic client: ' + (error instanceof Error ? error.message : String(error)));
-    }
-  }
-  
-  async release(client: Anthropic): Promise<void> {
-    try {
-      await this.pool.release(client);
-    } catch (error) {
-      logger.warn({ error }, 'Error releasing Anthropic client back to pool');
-    }
-  }
-  
-  async destroy(): Promise<void> {
-    try {
-      await this.pool.drain();
-      await this.pool.clear();
-      logger.info('Anthropic connection pool drained and destroyed');
-    } catch (error) {
-      logger.error({ error }, 'Error destroying Anthropic connection pool');
-    }
-  }
-}
+export type McpTokenUsage = LlmTokenUsage;
 
 export interface McpQueryResponse {
   response: string;
@@ -288,31 +344,81 @@ export interface McpQueryResponse {
     processingTimeMs: number;
     cacheHit?: boolean;
     tier: AccessTier;
+    usage?: McpTokenUsage;
+    /**
+     * What the context included and omitted to fit the token budget
+     */
+    context?: ContextReport;
+    /**
+     * Set on streamed responses that were cut short because the caller aborted
+     */
+    aborted?: boolean;
   };
 }
 
+export interface McpQueryAdvancedOptions {
+  temperature?: number;
+  maxTokens?: number;
+  /**
+   * Require a JSON response matching this format
+   */
+  responseFormat?: LlmResponseFormat;
+}
+
+/**
+ * A turn in a multi-turn exchange with the tutor
+ */
+export type McpChatMessage = LlmMessage;
+
+export interface McpChatOptions extends McpQueryAdvancedOptions {
+  /**
+   * Extra system instructions, e.g. the conversation's topic and level. Kept out of the
+   * message history so stored text is never re-read as instructions.
+   */
+  instructions?: string;
+  /**
+   * Drop the oldest turns once the history exceeds this many (estimated) tokens
+   */
+  maxHistoryTokens?: number;
+  /**
+   * Context already built for these context options (see buildContext), so that several
+   * model calls for one request build it, and count against the rate limit, only once
+   */
+  context?: BuiltContext;
+}
+
+/**
+ * Thrown when a user builds more contexts in a minute than their tier allows
+ */
+export class QueryRateLimitError extends AppError {
+  constructor() {
+    super('Too many queries. Please try again in a minute.', 429);
+  }
+}
+
+/**
+ * Events yielded by streamQueryWithContext: text deltas as they arrive, then a
+ * single final event with the assembled response and its metadata
+ */
+export type McpStreamEvent =
+  | { type: 'delta'; text: string }
+  | ({ type: 'done' } & McpQueryResponse);
+
 export class SpanishMcp {
   private config: McpConfig;
-  private anthropic: Anthropic;
-  private connectionPool?: AnthropicConnectionPool;
+  private llm: LlmProvider;
   private customVocabulary: VocabularyItem[] | null;
   private customGrammar: GrammarRule[] | null;
+  private conversationTemplates: ConversationTemplate[];
+  private exerciseBank: ExerciseTemplate[];
   private requestCounts: Map<string, number>;
-  private cache: any; // Using any for now due to TypeScript compatibility
+  private cache: NodeCache;
   
   constructor(config: McpConfig) {
     this.config = config;
     
-    this.anthropic = new Anthropic({
-      apiKey: config.apiKey
-    });
-    
-    if (config.connectionPoolSize > 1) {
-      this.connectionPool = new AnthropicConnectionPool(
-        config.apiKey,
-        config.connectionPoolSize
-      );
-    }
+    this.llm = config.llmProvider ||
+      new AnthropicProvider(config.apiKey, config.connectionPoolSize);
     
     this.cache = new NodeCache({
       stdTTL: config.cacheTTL,
@@ -322,6 +428,8 @@ export class SpanishMcp {
     
     this.customVocabulary = config.customData?.vocabulary || null;
     this.customGrammar = config.customData?.grammar || null;
+    this.conversationTemplates = config.customData?.conversationTemplates || sampleConversationTemplates;
+    this.exerciseBank = config.customData?.exerciseBank || sampleExerciseBank;
     
     this.requestCounts = new Map<string, number>();
     
@@ -331,6 +439,7 @@ export class SpanishMcp {
     }, 60 * 1000);
     
     logger.info('SpanishMcp initialized with server-side capabilities', {
+      provider: this.llm.name,
       model: config.model,
       poolSize: config.connectionPoolSize,
       caching: config.enableCaching
@@ -342,8 +451,7 @@ export class SpanishMcp {
     
     const key = `${userId}:query`;
     const count = this.requestCounts.get(key) || 0;
-    const limit = this.config.rateLimitOptions[tier]?.maxQueriesPerMinute ||
-                  this.config.rateLimitOptions.free.maxQueriesPerMinute;
+    const limit = this.config.tierPolicy(tier).context.maxQueriesPerMinute;
     
     if (count >= limit) {
       logger.warn({ userId, tier, count, limit }, 'Rate limit exceeded');
@@ -354,20 +462,48 @@ export class SpanishMcp {
     return true;
   }
   
+  /**
+   * Token budget for a request's context: the tier's budget, lowered further when the
+   * request asks for a smaller one
+   */
+  private resolveContextTokenBudget(options: ContextOptions): number {
+    const tierBudget = this.config.tierPolicy(options.accessTier).context.maxTokens;
+    
+    return options.maxContextTokens ? Math.min(options.maxContextTokens, tierBudget) : tierBudget;
+  }
+  
+  /**
+   * The policy this server applies to a tier
+   */
+  tierPolicy(tier: AccessTier): TierPolicy {
+    return this.config.tierPolicy(tier);
+  }
+  
   async getContext(options: ContextOptions): Promise<string> {
+    return (await this.buildContext(options)).context;
+  }
+  
+  /**
+   * Build the context for a request, fitted to the tier's token budget, along with a
+   * report of the items that were included and omitted
+   */
+  async buildContext(options: ContextOptions): Promise<BuiltContext> {
     const startTime = Date.now();
     
     if (options.accessTier) {
-      options.applyTierRestrictions();
+      options.applyTierRestrictions(this.config.tierPolicy(options.accessTier));
     }
     
     if (options.userId && !this.checkRateLimit(options.userId, options.accessTier)) {
-      throw new Error(`Rate limit exceeded for user ${options.userId} with tier ${options.accessTier}`);
+      throw new QueryRateLimitError();
     }
     
+    await this.resolvePriorityWords(options);
+    options.maxContextTokens = this.resolveContextTokenBudget(options);
+    
     if (this.config.enableCaching && !options.disableCache) {
       const cacheKey = options.getCacheKey();
-      const cachedContext = this.cache.get(cacheKey);
+      const cachedContext: BuiltContext | undefined = this.cache.get(cacheKey);
       
       if (cachedContext) {
         logger.debug({ cacheKey }, 'Context cache hit');
@@ -377,59 +513,98 @@ export class SpanishMcp {
       logger.debug({ cacheKey }, 'Context cache miss');
     }
     
-    let contextParts: string[] = [];
+    const sources: ContextSources = {
+      includeExamples: options.includeExamples,
+      includeExercises: options.includeExercises,
+      fixedParts: []
+    };
+    
+    const addVocabulary = async () => {
+      const items = await this.loadVocabulary(options);
+      
+      if (items) {
+        sources.vocabulary = items;
+      } else {
+        sources.fixedParts!.push("No vocabulary data available.");
+      }
+    };
+    
+    const addGrammar = async () => {
+      const items = await this.loadGrammar(options);
+      
+      if (items) {
+        sources.grammar = items;
+      } else {
+        sources.fixedParts!.push("No grammar data available.");
+      }
+    };
     
     try {
       switch (options.contextType) {
         case ContextType.VOCABULARY:
-          contextParts.push(await this.getVocabularyContext(options));
+          await addVocabulary();
           break;
         case ContextType.GRAMMAR:
-          contextParts.push(await this.getGrammarContext(options));
+          await addGrammar();
           break;
         case ContextType.MIXED:
-          contextParts.push(await this.getVocabularyContext(options));
-          contextParts.push(await this.getGrammarContext(options));
+          await addVocabulary();
+          await addGrammar();
           break;
         case ContextType.CONVERSATION:
           // Only available for basic and premium tiers
           if (options.accessTier === AccessTier.FREE) {
             logger.warn('Free tier attempted to access conversation context');
-            contextParts.push(await this.getVocabularyContext(options));
+            await addVocabulary();
           } else {
-            contextParts.push(await this.getConversationContext(options));
+            sources.conversations = await this.findConversationTemplates({
+              topic: options.topic || undefined,
+              difficultyLevel: options.difficultyLevel || undefined,
+              cefrLevel: options.cefrLevel || undefined,
+              focusAreas: options.categories,
+              limit: options.maxItems
+            });
           }
           break;
         case ContextType.EXERCISE:
           // Only available for premium tier
           if (options.accessTier !== AccessTier.PREMIUM) {
             logger.warn(`${options.accessTier} tier attempted to access exercise context`);
-            contextParts.push(await this.getVocabularyContext(options));
+            await addVocabulary();
           } else {
-            contextParts.push(await this.getExerciseContext(options));
+            sources.exercises = await this.findExerciseTemplates({
+              difficultyLevel: options.difficultyLevel || undefined,
+              cefrLevel: options.cefrLevel || undefined,
+              categories: options.categories,
+              type: options.exerciseType || undefined,
+              limit: options.maxItems
+            });
           }
           break;
         default:
-          contextParts.push(await this.getVocabularyContext(options));
+          await addVocabulary();
       }
       
-      const context = contextParts.join('\n\n');
+      const built = buildBudgetedContext(sources, options.maxContextTokens);
       
       // Store in cache if caching is enabled
       if (this.config.enableCaching && !options.disableCache) {
         const cacheKey = options.getCacheKey();
-        this.cache.set(cacheKey, context);
-        logger.debug({ cacheKey, contextLength: context.length }, 'Stored context in cache');
+        this.cache.set(cacheKey, built);
+        logger.debug({ cacheKey, contextLength: built.context.length }, 'Stored context in cache');
       }
       
       const elapsed = Date.now() - startTime;
       logger.debug({ 
         contextType: options.contextType,
         elapsed,
-        contextLength: context.length
+        contextLength: built.context.length,
+        estimatedTokens: built.report.estimatedTokens,
+        tokenBudget: built.report.tokenBudget,
+        omittedItems: Object.values(built.report.omitted).reduce((total, names) => total + names.length, 0)
       }, 'Generated context');
       
-      return context;
+      return built;
     } catch (error) {
       const elapsed = Date.now() - startTime;
       logger.error({ 
@@ -442,7 +617,52 @@ export class SpanishMcp {
     }
   }
   
-  private async getVocabularyContext(options: ContextOptions): Promise<string> {
+  /**
+   * Look up the user's due and struggling review words so vocabulary context can put
+   * them first. Review lookups never fail the context request.
+   */
+  private async resolvePriorityWords(options: ContextOptions): Promise<void> {
+    if (
+      !this.config.reviewWordProvider ||
+      !options.userId ||
+      !options.prioritizeReviews ||
+      options.prioritizeWords.length > 0 ||
+      options.contextType === ContextType.GRAMMAR
+    ) {
+      return;
+    }
+    
+    try {
+      options.prioritizeWords = await this.config.reviewWordProvider(options.userId, options.maxItems);
+    } catch (error) {
+      logger.warn({ error, userId: options.userId }, 'Could not load review words for context');
+    }
+  }
+  
+  /**
+   * Move the prioritized words to the front, keeping the original order otherwise
+   */
+  private prioritizeVocabulary(items: VocabularyItem[], words: string[]): VocabularyItem[] {
+    if (words.length === 0) {
+      return items;
+    }
+    
+    const rank = (item: VocabularyItem) => {
+      const index = words.indexOf(item.word.normalize('NFC').trim().toLowerCase());
+      return index === -1 ? words.length : index;
+    };
+    
+    return items
+      .map((item, index) => ({ item, index }))
+      .sort((a, b) => rank(a.item) - rank(b.item) || a.index - b.index)
+      .map(({ item }) => item);
+  }
+  
+  /**
+   * Vocabulary items for the request in priority order, or null when no vocabulary
+   * source is configured
+   */
+  private async loadVocabulary(options: ContextOptions): Promise<VocabularyItem[] | null> {
     let items: VocabularyItem[] = [];
     
     if (this.config.useAppwrite) {
@@ -460,12 +680,32 @@ export class SpanishMcp {
         filters.searchTerm = options.searchTerm;
       }
       
-      const result = await getVocabularyItems(
-        filters,
-        { limit: options.maxItems || 10 }
-      );
+      const limit = options.maxItems || 10;
+      
+      // Fetch the words due for review first, then fill up with regular items
+      if (options.prioritizeWords.length > 0) {
+        const prioritized = await getVocabularyItems(
+          { ...filters, words: options.prioritizeWords },
+          { limit }
+        );
+        
+        items = this.prioritizeVocabulary(prioritized.items, options.prioritizeWords);
+      }
       
-      items = result.items;
+      if (items.length < limit) {
+        const result = await getVocabularyItems(filters, { limit });
+        const included = new Set(items.map(item => item.word));
+        
+        items = [
+          ...items,
+          ...result.items.filter(item => !included.has(item.word))
+        ].slice(0, limit);
+      }
+      
+      // Appwrite filters by difficulty; narrow that down to the CEFR level
+      if (options.cefrLevel) {
+        items = items.filter(item => matchesCefrLevel(item, options.cefrLevel!));
+      }
     } else if (this.customVocabulary) {
       items = this.customVocabulary;
       if (options.categories?.length) {
@@ -476,6 +716,10 @@ export class SpanishMcp {
         items = items.filter(item => item.difficultyLevel === options.difficultyLevel);
       }
       
+      if (options.cefrLevel) {
+        items = items.filter(item => matchesCefrLevel(item, options.cefrLevel!));
+      }
+      
       if (options.searchTerm) {
         const searchTerm = options.searchTerm.toLowerCase();
         items = items.filter(item => 
@@ -483,15 +727,19 @@ export class SpanishMcp {
           item.translation.toLowerCase().includes(searchTerm)
         );
       }
+      items = this.prioritizeVocabulary(items, options.prioritizeWords);
       items = items.slice(0, options.maxItems || 10);
     } else {
-      return "No vocabulary data available.";
+      return null;
     }
     
-    return this.formatVocabularyForContext(items, options.includeExamples);
+    return items;
   }
   
-  private async getGrammarContext(options: ContextOptions): Promise<string> {
+  /**
+   * Grammar rules for the request, or null when no grammar source is configured
+   */
+  private async loadGrammar(options: ContextOptions): Promise<GrammarRule[] | null> {
     let items: GrammarRule[] = [];
     
     if (this.config.useAppwrite) {
@@ -514,7 +762,9 @@ export class SpanishMcp {
         { limit: options.maxItems || 5 }
       );
       
-      items = result.items;
+      items = options.cefrLevel
+        ? result.items.filter(item => matchesCefrLevel(item, options.cefrLevel!))
+        : result.items;
     } else if (this.customGrammar) {
       items = this.customGrammar;
       if (options.categories?.length) {
@@ -525,6 +775,10 @@ export class SpanishMcp {
         items = items.filter(item => item.difficultyLevel === options.difficultyLevel);
       }
       
+      if (options.cefrLevel) {
+        items = items.filter(item => matchesCefrLevel(item, options.cefrLevel!));
+      }
+      
       if (options.searchTerm) {
         const searchTerm = options.searchTerm.toLowerCase();
         items = items.filter(item => 
@@ -534,220 +788,409 @@ export class SpanishMcp {
       }
       items = items.slice(0, options.maxItems || 5);
     } else {
-      return "No grammar data available.";
+      return null;
     }
     
-    return this.formatGrammarForContext(items, options.includeExamples, options.includeExercises);
+    return items;
   }
   
-  private async getConversationContext(options: ContextOptions): Promise<string> {
-    return "# Spanish Conversation Templates\n\nConversation templates are only available for Basic and Premium tier users.";
-  }
-  
-  private async getExerciseContext(options: ContextOptions): Promise<string> {
-    return "# Spanish Exercise Templates\n\nExercise templates are only available for Premium tier users.";
-  }
-
-  private formatVocabularyForContext(items: VocabularyItem[], includeExamples: boolean = true): string {
-    if (items.length === 0) {
-      return "No vocabulary items found.";
+  /**
+   * Conversation templates matching the filters, from Appwrite when it has any and
+   * otherwise from custom data or the built-in catalog
+   */
+  async findConversationTemplates(filters: ConversationTemplateFilters = {}): Promise<ConversationTemplate[]> {
+    let templates: ConversationTemplate[] = [];
+    
+    if (this.config.useAppwrite) {
+      const result = await getConversationTemplates({}, { limit: 100 });
+      templates = result.items;
     }
     
-    let context = "# Spanish Vocabulary Reference\n\n";
-    const categorizedItems: Record<string, VocabularyItem[]> = {};
+    if (templates.length === 0) {
+      templates = this.conversationTemplates;
+    }
     
-    items.forEach(item => {
-      if (!categorizedItems[item.category]) {
-        categorizedItems[item.category] = [];
-      }
-      categorizedItems[item.category].push(item);
-    });
+    return filterConversationTemplates(templates, filters);
+  }
+  
+  /**
+   * Exercise templates matching the filters: those attached to grammar rules, then the
+   * exercise bank from Appwrite when it has any and otherwise from custom data or the
+   * built-in bank
+   */
+  async findExerciseTemplates(filters: ExerciseTemplateFilters = {}): Promise<ExerciseTemplate[]> {
+    let grammar: GrammarRule[] = this.customGrammar || [];
+    let bank: ExerciseTemplate[] = [];
     
-    Object.entries(categorizedItems).forEach(([category, categoryItems]) => {
-      context += `## ${this.capitalizeFirstLetter(category)}\n\n`;
-      
-      categoryItems.forEach(item => {
-        context += `### ${item.word}\n`;
-        context += `- **Translation:** ${item.translation}\n`;
-        context += `- **Difficulty:** ${item.difficultyLevel}\n`;
-        
-        if (item.notes) {
-          context += `- **Notes:** ${item.notes}\n`;
-        }
-        
-        if (includeExamples && item.usageExamples && item.usageExamples.length > 0) {
-          context += "\n**Examples:**\n";
-          
-          item.usageExamples.forEach(example => {
-            context += `- Spanish: ${example.spanish}\n`;
-            context += `  English: ${example.english}\n`;
-            
-            if (example.explanation) {
-              context += `  Explanation: ${example.explanation}\n`;
-            }
-            
-            context += "\n";
-          });
-        }
-        
-        context += "\n";
-      });
-    });
+    if (this.config.useAppwrite) {
+      grammar = (await getGrammarRules({}, { limit: 100 })).items;
+      bank = (await getExerciseTemplates({}, { limit: 100 })).items;
+    }
+    
+    if (bank.length === 0) {
+      bank = this.exerciseBank;
+    }
     
-    return context;
+    return filterExerciseTemplates(collectExerciseTemplates(grammar, bank), filters);
   }
 
-  private formatGrammarForContext(
-    items: GrammarRule[],
-    includeExamples: boolean = true,
-    includeExercises: boolean = false
-  ): string {
+  /**
+   * Every vocabulary item or grammar rule, from Appwrite or custom data
+   */
+  async listContent(kind: ContentKind): Promise<ContentItem[]> {
+    return (await this.listContentEntries(kind)).map(({ item }) => item);
+  }
+
+  /**
+   * Every vocabulary item or grammar rule with its ID
+   */
+  async listContentEntries(kind: ContentKind): Promise<ContentEntry[]> {
+    if (this.config.useAppwrite) {
+      return this.listAppwriteContent(kind);
+    }
+
+    return this.getCustomContent(kind).map(item => ({ id: contentKey(kind, item), item }));
+  }
+
+  /**
+   * Create or update content, matching existing items by their content key
+   */
+  async saveContent(kind: ContentKind, items: ContentItem[]): Promise<void> {
     if (items.length === 0) {
-      return "No grammar rules found.";
+      return;
     }
-    
-    let context = "# Spanish Grammar Reference\n\n";
-    const categorizedItems: Record<string, GrammarRule[]> = {};
-    
-    items.forEach(item => {
-      if (!categorizedItems[item.category]) {
-        categorizedItems[item.category] = [];
+
+    if (this.config.useAppwrite) {
+      const documentIds = new Map(
+        (await this.listAppwriteContent(kind)).map(({ id, item }) => [contentKey(kind, item), id])
+      );
+
+      for (const item of items) {
+        await this.saveAppwriteContent(kind, item, documentIds.get(contentKey(kind, item)));
       }
-      categorizedItems[item.category].push(item);
-    });
+    } else {
+      const saved = new Map(this.getCustomContent(kind).map(item => [contentKey(kind, item), item]));
 
-    Object.entries(categorizedItems).forEach(([category, categoryItems]) => {
-      context += `## ${this.formatCategory(category)}\n\n`;
-      
-      categoryItems.forEach(item => {
-        context += `### ${item.title}\n`;
-        context += `- **Difficulty:** ${item.difficultyLevel}\n\n`;
-        context += `${item.explanation}\n\n`;
-        
-        if (includeExamples && item.examples && item.examples.length > 0) {
-          context += "**Examples:**\n";
-          item.examples.forEach(example => {
-            context += `- Spanish: ${example.spanish}\n`;
-            context += `  English: ${example.english}\n`;
-            
-            if (example.explanation) {
-              context += `  Explanation: ${example.explanation}\n`;
-            }
-            context += "\n";
-          });
-        }
-        
-        if (includeExercises && item.exerciseTemplates && item.exerciseTemplates.length > 0) {
-          context += "**Exercises:**\n";
-          
-          item.exerciseTemplates.forEach(exercise => {
-            context += `- ${exercise.title}: ${exercise.instructions}\n`;
-          });
-          
-          context += "\n";
-        }
-        
-        if (item.tags && item.tags.length > 0) {
-          context += `**Tags:** ${item.tags.join(', ')}\n\n`;
+      items.forEach(item => saved.set(contentKey(kind, item), item));
+      this.setCustomContent(kind, [...saved.values()]);
+    }
+
+    this.invalidateContentCache(kind);
+    logger.info({ kind, count: items.length }, 'Saved content');
+  }
+
+  /**
+   * Add a vocabulary item or grammar rule
+   */
+  async createContent(kind: ContentKind, item: ContentItem): Promise<ContentEntry> {
+    let id = contentKey(kind, item);
+
+    if (this.config.useAppwrite) {
+      id = (await this.saveAppwriteContent(kind, item)).$id;
+    } else {
+      this.setCustomContent(kind, [...this.getCustomContent(kind), item]);
+    }
+
+    this.invalidateContentCache(kind);
+    logger.info({ kind, id }, 'Created content');
+
+    return { id, item };
+  }
+
+  /**
+   * Replace the vocabulary item or grammar rule with the given ID. Custom data items are
+   * identified by their content key, so their ID changes when the key does.
+   */
+  async updateContent(kind: ContentKind, id: string, item: ContentItem): Promise<ContentEntry> {
+    let updatedId = id;
+
+    if (this.config.useAppwrite) {
+      await this.saveAppwriteContent(kind, item, id);
+    } else {
+      this.setCustomContent(kind, this.getCustomContent(kind).map(existing =>
+        contentKey(kind, existing) === id ? item : existing
+      ));
+      updatedId = contentKey(kind, item);
+    }
+
+    this.invalidateContentCache(kind);
+    logger.info({ kind, id }, 'Updated content');
+
+    return { id: updatedId, item };
+  }
+
+  /**
+   * Remove the vocabulary item or grammar rule with the given ID
+   */
+  async deleteContent(kind: ContentKind, id: string): Promise<void> {
+    if (this.config.useAppwrite) {
+      await (kind === 'vocabulary' ? deleteVocabularyItem(id) : deleteGrammarRule(id));
+    } else {
+      this.setCustomContent(kind, this.getCustomContent(kind).filter(item => contentKey(kind, item) !== id));
+    }
+
+    this.invalidateContentCache(kind);
+    logger.info({ kind, id }, 'Deleted content');
+  }
+
+  /**
+   * Drop the cached contexts that can include vocabulary or grammar, so new requests see
+   * changed content
+   *
+   * @returns The number of cache entries removed
+   */
+  invalidateContentCache(kind: ContentKind): number {
+    const prefixes = CONTENT_CONTEXT_TYPES[kind].map(contextType => `context:${contextType}:`);
+    const keys = (this.cache.keys() as string[]).filter(key => prefixes.some(prefix => key.startsWith(prefix)));
+
+    this.cache.del(keys);
+    logger.debug({ kind, removed: keys.length }, 'Invalidated cached contexts');
+
+    return keys.length;
+  }
+
+  private getCustomContent(kind: ContentKind): ContentItem[] {
+    return (kind === 'vocabulary' ? this.customVocabulary : this.customGrammar) || [];
+  }
+
+  private setCustomContent(kind: ContentKind, items: ContentItem[]): void {
+    if (kind === 'vocabulary') {
+      this.customVocabulary = items as VocabularyItem[];
+    } else {
+      this.customGrammar = items as GrammarRule[];
+    }
+  }
+
+  private async saveAppwriteContent(kind: ContentKind, item: ContentItem, documentId?: string) {
+    return kind === 'vocabulary'
+      ? saveVocabularyItem(item as VocabularyItem, documentId)
+      : saveGrammarRule(item as GrammarRule, documentId);
+  }
+
+  private async listAppwriteContent(kind: ContentKind): Promise<ContentEntry[]> {
+    if (kind === 'vocabulary') {
+      return (await listAllVocabularyItems()).map(doc => ({
+        id: doc.$id,
+        item: {
+          word: doc.word,
+          translation: doc.translation,
+          category: doc.category,
+          difficultyLevel: doc.difficultyLevel,
+          ...(doc.cefrLevel ? { cefrLevel: doc.cefrLevel } : {}),
+          ...(doc.notes ? { notes: doc.notes } : {}),
+          usageExamples: doc.usageExamples
         }
-      });
-    });
-    return context;
+      }));
+    }
+
+    return (await listAllGrammarRules()).map(doc => ({
+      id: doc.$id,
+      item: {
+        title: doc.title,
+        category: doc.category,
+        explanation: doc.explanation,
+        difficultyLevel: doc.difficultyLevel,
+        ...(doc.cefrLevel ? { cefrLevel: doc.cefrLevel } : {}),
+        examples: doc.examples,
+        tags: doc.tags || [],
+        relatedVocabulary: doc.relatedVocabulary || [],
+        exerciseTemplates: doc.exerciseTemplates
+      }
+    }));
   }
-  
-  private formatCategory(category: string): string {
-    return category
-      .split('_')
-      .map(word => this.capitalizeFirstLetter(word))
-      .join(' ');
+
+  private buildLlmRequest(
+    messages: McpChatMessage[],
+    context: string,
+    contextOptions: ContextOptions,
+    chatOptions: McpChatOptions = {}
+  ): LlmRequest {
+    const systemPrompt = [
+      'You are a helpful Spanish language tutor.',
+      chatOptions.instructions,
+      `Use the following Spanish language reference materials to help answer the user's question:\n\n${context}`
+    ].filter(Boolean).join('\n\n');
+    
+    return {
+      model: this.config.tierModels[contextOptions.accessTier] || this.config.model,
+      maxTokens: chatOptions.maxTokens || this.config.maxTokens,
+      temperature: chatOptions.temperature || this.config.temperature,
+      system: systemPrompt,
+      messages: fitHistoryToTokenBudget(messages, chatOptions.maxHistoryTokens),
+      ...(chatOptions.responseFormat ? { responseFormat: chatOptions.responseFormat } : {})
+    };
   }
   
-  private capitalizeFirstLetter(str: string): string {
-    return str.charAt(0).toUpperCase() + str.slice(1);
+  get llmProvider(): LlmProvider {
+    return this.llm;
   }
   
   async queryWithContext(
     userMessage: string,
     contextOptions: ContextOptions,
-    advancedOptions?: {
-      temperature?: number;
-      maxTokens?: number;
-    }
+    advancedOptions?: McpChatOptions
+  ): Promise<McpQueryResponse> {
+    return this.chatWithContext([{ role: 'user', content: userMessage }], contextOptions, advancedOptions);
+  }
+  
+  /**
+   * Send a multi-turn history to the model, with the context as system prompt
+   * 
+   * @param messages - Alternating user and assistant turns, oldest first, ending with a user turn
+   */
+  async chatWithContext(
+    messages: McpChatMessage[],
+    contextOptions: ContextOptions,
+    chatOptions?: McpChatOptions
   ): Promise<McpQueryResponse> {
     const startTime = Date.now();
     
     try {
-      const context = await this.getContext(contextOptions);
+      const { context, report } = chatOptions?.context ?? await this.buildContext(contextOptions);
+      const request = this.buildLlmRequest(messages, context, contextOptions, chatOptions);
       
-      const systemPrompt = `You are a helpful Spanish language tutor. Use the following Spanish language reference materials to help answer the user's question:\n\n${context}`;
+      logger.debug({
+        provider: this.llm.name,
+        model: request.model,
+        maxTokens: request.maxTokens,
+        temperature: request.temperature,
+        turns: request.messages.length,
+        contextLength: context.length
+      }, 'Querying language model');
       
-      let client: Anthropic;
-      let fromPool = false;
+      const completion = await this.llm.complete(request);
       
-      if (this.connectionPool) {
-        client = await this.connectionPool.acquire();
-        fromPool = true;
-      } else {
-        client = this.anthropic;
-      }
+      const elapsed = Date.now() - startTime;
       
-      try {
-        const queryParams = {
-          model: this.config.model,
-          max_tokens: advancedOptions?.maxTokens || this.config.maxTokens,
-          temperature: advancedOptions?.temperature || this.config.temperature,
-          system: systemPrompt,
-          messages: [
-            { role: 'user' as const, content: userMessage }
-          ]
-        };
-        
-        logger.debug({
-          model: queryParams.model,
-          maxTokens: queryParams.max_tokens,
-          temperature: queryParams.temperature,
-          messageLength: userMessage.length,
-          contextLength: context.length
-        }, 'Querying Claude');
-        
-        const response = await client.messages.create(queryParams);
-        
-        let responseText: string;
-        
-        if (response.content[0].type === 'text') {
-          responseText = response.content[0].text;
-        } else {
-          responseText = "No text response received from Claude";
-        }
-        
-        const elapsed = Date.now() - startTime;
-        
-        return {
-          response: responseText,
-          metadata: {
-            contextType: contextOptions.contextType,
-            itemCount: responseText.length,
-            processingTimeMs: elapsed,
-            cacheHit: false,
-            tier: contextOptions.accessTier
-          }
-        };
-      } finally {
-        if (fromPool && this.connectionPool) {
-          await this.connectionPool.release(client);
+      return {
+        response: completion.text,
+        metadata: {
+          contextType: contextOptions.contextType,
+          itemCount: completion.text.length,
+          processingTimeMs: elapsed,
+          cacheHit: false,
+          tier: contextOptions.accessTier,
+          usage: completion.usage,
+          context: report
         }
-      }
+      };
     } catch (error) {
+      if (error instanceof QueryRateLimitError) {
+        throw error;
+      }
+      
       const elapsed = Date.now() - startTime;
       logger.error({ 
         error, 
         elapsed,
-        userMessageLength: userMessage.length
+        turns: messages.length
       }, 'Error querying Claude');
       
       throw new Error('Failed to get response from Claude: ' + (error instanceof Error ? error.message : String(error)));
     }
   }
+  
+  /**
+   * Streaming variant of queryWithContext
+   */
+  streamQueryWithContext(
+    userMessage: string,
+    contextOptions: ContextOptions,
+    advancedOptions?: McpChatOptions,
+    signal?: AbortSignal
+  ): AsyncGenerator<McpStreamEvent> {
+    return this.streamChatWithContext(
+      [{ role: 'user', content: userMessage }],
+      contextOptions,
+      advancedOptions,
+      signal
+    );
+  }
+  
+  /**
+   * Streaming variant of chatWithContext
+   * 
+   * Yields text deltas as the model produces them, followed by a final `done` event with the
+   * assembled response, token usage and processing time. When the signal is aborted the
+   * request is cancelled and the `done` event carries the partial response with
+   * `aborted: true`.
+   */
+  async *streamChatWithContext(
+    messages: McpChatMessage[],
+    contextOptions: ContextOptions,
+    chatOptions?: McpChatOptions,
+    signal?: AbortSignal
+  ): AsyncGenerator<McpStreamEvent> {
+    const startTime = Date.now();
+    let responseText = '';
+    let usage: McpTokenUsage | undefined;
+    let report: ContextReport | undefined;
+    
+    const done = (aborted: boolean): McpStreamEvent => ({
+      type: 'done',
+      response: responseText,
+      metadata: {
+        contextType: contextOptions.contextType,
+        itemCount: responseText.length,
+        processingTimeMs: Date.now() - startTime,
+        cacheHit: false,
+        tier: contextOptions.accessTier,
+        usage,
+        context: report,
+        ...(aborted ? { aborted } : {})
+      }
+    });
+    
+    try {
+      const built = chatOptions?.context ?? await this.buildContext(contextOptions);
+      report = built.report;
+      const request = this.buildLlmRequest(messages, built.context, contextOptions, chatOptions);
+      
+      logger.debug({
+        provider: this.llm.name,
+        model: request.model,
+        maxTokens: request.maxTokens,
+        turns: request.messages.length,
+        contextLength: built.context.length
+      }, 'Streaming query to language model');
+      
+      for await (const event of this.llm.stream(request, { signal })) {
+        if (event.type === 'delta') {
+          responseText += event.text;
+          yield event;
+        } else {
+          usage = event.completion.usage;
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        logger.debug({ responseLength: responseText.length }, 'Streaming query aborted by caller');
+        yield done(true);
+        return;
+      }
+      
+      if (error instanceof QueryRateLimitError) {
+        throw error;
+      }
+      
+      logger.error({ 
+        error, 
+        elapsed: Date.now() - startTime,
+        turns: messages.length
+      }, 'Error streaming query to Claude');
+      
+      throw new Error('Failed to get response from Claude: ' + (error instanceof Error ? error.message : String(error)));
+    }
+    
+    yield done(false);
+  }
+  
+  /**
+   * Release the model provider's resources on shutdown
+   */
+  async close(): Promise<void> {
+    await this.llm.close();
+  }
 }
 
 export function createSpanishMcp(apiKey: string, options: Partial<McpConfigOptions> = {}): SpanishMcp {
@@ -813,7 +1256,16 @@ export const sampleGrammar: GrammarRule[] = [
       { spanish: "Tú hablas muy rápido.", english: "You speak very fast." },
       { spanish: "Ella habla tres idiomas.", english: "She speaks three languages." }
     ],
-    tags: ["verbs", "present tense", "conjugation"]
+    tags: ["verbs", "present tense", "conjugation"],
+    exerciseTemplates: [
+      {
+        title: "Conjugate -ar Verbs",
+        type: "fill_in_blank",
+        difficulty: "beginner",
+        instructions: "Complete each sentence with the present tense form of the verb in brackets.",
+        examples: ["Nosotros (hablar) ___ español. → hablamos", "Tú (cantar) ___ muy bien. → cantas"]
+      }
+    ]
   },
   {
     title: "Gender Agreement",
@@ -825,7 +1277,16 @@ export const sampleGrammar: GrammarRule[] = [
       { spanish: "La casa roja", english: "The red house" },
       { spanish: "Los libros rojos", english: "The red books" }
     ],
-    tags: ["adjectives", "gender", "agreement"]
+    tags: ["adjectives", "gender", "agreement"],
+    exerciseTemplates: [
+      {
+        title: "Make It Agree",
+        type: "multiple_choice",
+        difficulty: "beginner",
+        instructions: "Choose the adjective form that agrees with the noun.",
+        examples: ["La casa es (blanco / blanca / blancos). → blanca"]
+      }
+    ]
   }
 ];
 
@@ -0,0 +1,287 @@
+/**
+ * Model Context Protocol server for the Spanish Learning MCP
+ *
+ * Exposes SpanishMcp over the MCP wire protocol (JSON-RPC) so any MCP-capable client
+ * can use it directly. Vocabulary and grammar context is published as resources, and
+ * querying, conversations and exercises are published as tools whose input schemas are
+ * derived from the REST validation schemas.
+ */
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  Resource
+} from '@modelcontextprotocol/sdk/types.js';
+import Joi from 'joi';
+import pino from 'pino';
+import { SpanishMcp, ContextType, ContextOptions, ContextOptionsParams, toAccessTier } from './mcp-module.js';
+import { WordCategory, GrammarCategory, DifficultyLevel } from './appwrite.js';
+import { AuthenticatedUser } from './appwrite-auth.js';
+import {
+  ContinueConversationParams,
+  StartConversationParams,
+  startConversation,
+  continueConversation
+} from './conversation-service.js';
+import {
+  CheckExercisesParams,
+  GenerateExercisesParams,
+  generateExercises,
+  checkExercises
+} from './exercise-service.js';
+import { joiObjectToJsonSchema } from './json-schema.js';
+import { schemas } from '../middleware/validation.js';
+import { AppError } from '../middleware/error.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'mcp-protocol-server'
+});
+
+export const MCP_SERVER_NAME = 'spanish-learning-mcp';
+export const MCP_SERVER_VERSION = '0.1.0';
+
+const RESOURCE_URI_PATTERN = /^spanish:\/\/(vocabulary|grammar)\/([a-z_]+)\/([a-z]+)$/;
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  schema: Joi.ObjectSchema;
+  /**
+   * Called with the arguments once they have passed the schema
+   */
+  handler: (args: unknown) => Promise<unknown>;
+}
+
+type QueryToolArgs = { query: string } & Pick<
+  ContextOptionsParams,
+  'contextType' | 'categories' | 'difficultyLevel' | 'cefrLevel' | 'maxItems' | 'includeExamples' | 'maxContextTokens'
+>;
+
+/**
+ * Define a tool whose handler takes the arguments in the shape its schema validates
+ */
+const defineTool = <T>(
+  name: string,
+  description: string,
+  schema: Joi.ObjectSchema<T>,
+  handler: (args: T) => Promise<unknown>
+): ToolDefinition => ({
+  name,
+  description,
+  schema,
+  handler: (args) => handler(args as T)
+});
+
+const capitalize = (value: string): string => {
+  return value
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+const buildResourceList = (): Resource[] => {
+  const resources: Resource[] = [];
+  const difficulties = Object.values(DifficultyLevel);
+
+  Object.values(WordCategory).forEach(category => {
+    difficulties.forEach(difficulty => {
+      resources.push({
+        uri: `spanish://vocabulary/${category}/${difficulty}`,
+        name: `${capitalize(difficulty)} ${capitalize(category)} Vocabulary`,
+        description: `Spanish vocabulary reference for ${category} words at ${difficulty} level`,
+        mimeType: 'text/markdown'
+      });
+    });
+  });
+
+  Object.values(GrammarCategory).forEach(category => {
+    difficulties.forEach(difficulty => {
+      resources.push({
+        uri: `spanish://grammar/${category}/${difficulty}`,
+        name: `${capitalize(difficulty)} ${capitalize(category)} Grammar`,
+        description: `Spanish grammar reference for ${category.replace(/_/g, ' ')} at ${difficulty} level`,
+        mimeType: 'text/markdown'
+      });
+    });
+  });
+
+  return resources;
+};
+
+const toToolResult = (result: unknown): CallToolResult => {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: typeof result === 'string' ? result : JSON.stringify(result, null, 2)
+      }
+    ]
+  };
+};
+
+/**
+ * Create an MCP protocol server bound to a user
+ *
+ * The user's tier is applied to every tool call and resource read, exactly as it is
+ * for the REST API.
+ *
+ * @param mcp - The SpanishMcp instance to expose
+ * @param user - The user the session acts on behalf of
+ */
+export const createSpanishMcpServer = (mcp: SpanishMcp, user?: AuthenticatedUser): Server => {
+  const server = new Server(
+    { name: MCP_SERVER_NAME, version: MCP_SERVER_VERSION },
+    { capabilities: { tools: {}, resources: {} } }
+  );
+
+  const accessTier = toAccessTier(user?.tier);
+
+  const tools: ToolDefinition[] = [
+    defineTool<QueryToolArgs>(
+      'query_with_context',
+      'Ask the Spanish tutor a question, answered with vocabulary and/or grammar reference context',
+      schemas.mcpQuery,
+      async ({ query, ...contextArgs }) => {
+        const options = new ContextOptions({
+          ...contextArgs,
+          accessTier,
+          userId: user?.id
+        });
+
+        const result = await mcp.queryWithContext(query, options);
+        return result.response;
+      }
+    ),
+    defineTool<StartConversationParams>(
+      'start_conversation',
+      'Start a Spanish conversation practice session on a topic',
+      schemas.startConversation,
+      (args) => startConversation(mcp, user, args)
+    ),
+    defineTool<ContinueConversationParams>(
+      'continue_conversation',
+      'Reply to an existing conversation practice session',
+      schemas.continueConversation,
+      (args) => continueConversation(mcp, user, args)
+    ),
+    defineTool<GenerateExercisesParams>(
+      'generate_exercises',
+      'Generate a set of Spanish exercises of a given type and difficulty',
+      schemas.generateExercise,
+      (args) => generateExercises(mcp, user, args)
+    ),
+    defineTool<CheckExercisesParams>(
+      'check_exercise',
+      'Check answers to a previously generated exercise set',
+      schemas.checkExercise,
+      (args) => checkExercises(user, args)
+    )
+  ];
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: joiObjectToJsonSchema(tool.schema)
+    }))
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const tool = tools.find(t => t.name === request.params.name);
+
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${request.params.name}`);
+    }
+
+    const { error, value } = tool.schema.validate(request.params.arguments || {}, { abortEarly: false });
+
+    if (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid arguments for ${tool.name}: ${error.details.map((detail: Joi.ValidationErrorItem) => detail.message).join('; ')}`
+      );
+    }
+
+    try {
+      return toToolResult(await tool.handler(value));
+    } catch (err) {
+      // Operational errors (tier restrictions, missing conversations) are reported to the
+      // model as tool errors so it can recover, matching the REST status messages
+      if (err instanceof AppError && err.isOperational) {
+        const details = err.details ? err.details.map(detail => `\n- ${detail}`).join('') : '';
+        return { ...toToolResult(err.message + details), isError: true };
+      }
+
+      logger.error({ error: err, tool: tool.name }, 'Error executing MCP tool');
+      return { ...toToolResult('An unexpected error occurred'), isError: true };
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: buildResourceList()
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: 'spanish://vocabulary/{category}/{difficultyLevel}',
+        name: 'Spanish Vocabulary',
+        description: `Vocabulary reference. category: ${Object.values(WordCategory).join(', ')}`,
+        mimeType: 'text/markdown'
+      },
+      {
+        uriTemplate: 'spanish://grammar/{category}/{difficultyLevel}',
+        name: 'Spanish Grammar',
+        description: `Grammar reference. category: ${Object.values(GrammarCategory).join(', ')}`,
+        mimeType: 'text/markdown'
+      }
+    ]
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const match = uri.match(RESOURCE_URI_PATTERN);
+
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    const [, kind, category, difficultyLevel] = match;
+    const validCategories: string[] = kind === 'vocabulary'
+      ? Object.values(WordCategory)
+      : Object.values(GrammarCategory);
+
+    if (!validCategories.includes(category) || !(Object.values(DifficultyLevel) as string[]).includes(difficultyLevel)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    const options = new ContextOptions({
+      contextType: kind === 'vocabulary' ? ContextType.VOCABULARY : ContextType.GRAMMAR,
+      categories: [category],
+      difficultyLevel,
+      accessTier,
+      userId: user?.id
+    });
+
+    const context = await mcp.getContext(options);
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'text/markdown',
+          text: context
+        }
+      ]
+    };
+  });
+
+  return server;
+};
@@ -0,0 +1,162 @@
+/**
+ * Deterministic offline LLM provider for tests and local development
+ *
+ * Responses are chosen in this order:
+ * 1. scripted responses queued with enqueue(), first in first out
+ * 2. the first fixture whose `match` text appears in the last user message
+ * 3. a default reply that echoes the start of the last user message
+ *
+ * Token counts are estimated from text length, so the same request always produces
+ * the same response and usage.
+ */
+import fs from 'fs';
+import {
+  LlmCompletion,
+  LlmProvider,
+  LlmRequest,
+  LlmRequestOptions,
+  LlmStreamEvent
+} from './llm-provider.js';
+import { estimateTokenCount } from './token-count.js';
+
+export interface MockLlmFixture {
+  /**
+   * Case-insensitive text to look for in the last user message. Fixtures without
+   * a match apply to every request.
+   */
+  match?: string;
+  /**
+   * The reply. Objects and arrays are sent as JSON.
+   */
+  response: string | object;
+}
+
+export interface MockLlmProviderOptions {
+  fixtures?: MockLlmFixture[];
+  /**
+   * Model reported on completions when the request doesn't name one
+   */
+  model?: string;
+}
+
+/**
+ * Read mock fixtures from a JSON file containing an array of fixtures
+ *
+ * @throws {Error} If the file doesn't contain a fixture array
+ */
+export const loadMockLlmFixtures = (filePath: string): MockLlmFixture[] => {
+  const fixtures = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+  if (!Array.isArray(fixtures) || fixtures.some(fixture => fixture?.response === undefined)) {
+    throw new Error(`Mock LLM fixtures in ${filePath} must be an array of { match?, response } objects`);
+  }
+
+  return fixtures;
+};
+
+const toText = (response: string | object): string => {
+  return typeof response === 'string' ? response : JSON.stringify(response);
+};
+
+export class MockLlmProvider implements LlmProvider {
+  readonly name = 'mock';
+  /**
+   * Every request received, oldest first
+   */
+  readonly requests: LlmRequest[] = [];
+  private fixtures: MockLlmFixture[];
+  private script: string[] = [];
+  private readonly model: string;
+
+  constructor(options: MockLlmProviderOptions = {}) {
+    this.fixtures = options.fixtures || [];
+    this.model = options.model || 'mock-model';
+  }
+
+  /**
+   * Queue responses that are returned, in order, before fixtures are consulted
+   */
+  enqueue(...responses: (string | object)[]): this {
+    this.script.push(...responses.map(toText));
+    return this;
+  }
+
+  addFixture(fixture: MockLlmFixture): this {
+    this.fixtures.push(fixture);
+    return this;
+  }
+
+  /**
+   * Forget queued responses and recorded requests (fixtures are kept)
+   */
+  reset(): void {
+    this.script = [];
+    this.requests.length = 0;
+  }
+
+  private respond(request: LlmRequest): string {
+    this.requests.push(request);
+
+    const scripted = this.script.shift();
+    if (scripted !== undefined) {
+      return scripted;
+    }
+
+    const lastUserMessage = [...request.messages]
+      .reverse()
+      .find(message => message.role === 'user')?.content || '';
+
+    const fixture = this.fixtures.find(candidate =>
+      !candidate.match || lastUserMessage.toLowerCase().includes(candidate.match.toLowerCase())
+    );
+
+    if (fixture) {
+      return toText(fixture.response);
+    }
+
+    return `Mock response to: ${lastUserMessage.trim().slice(0, 80)}`;
+  }
+
+  private toCompletion(request: LlmRequest, text: string, inputTokens: number): LlmCompletion {
+    return {
+      text,
+      usage: {
+        inputTokens,
+        outputTokens: estimateTokenCount(text)
+      },
+      model: request.model || this.model
+    };
+  }
+
+  async complete(request: LlmRequest, options: LlmRequestOptions = {}): Promise<LlmCompletion> {
+    options.signal?.throwIfAborted();
+
+    const inputTokens = await this.countTokens(request);
+    return this.toCompletion(request, this.respond(request), inputTokens);
+  }
+
+  /**
+   * Streams the response one word at a time
+   */
+  async *stream(request: LlmRequest, options: LlmRequestOptions = {}): AsyncGenerator<LlmStreamEvent> {
+    const inputTokens = await this.countTokens(request);
+    const text = this.respond(request);
+
+    for (const chunk of text.match(/\S+\s*|\s+/g) || []) {
+      options.signal?.throwIfAborted();
+      yield { type: 'delta', text: chunk };
+    }
+
+    options.signal?.throwIfAborted();
+    yield { type: 'done', completion: this.toCompletion(request, text, inputTokens) };
+  }
+
+  async countTokens(request: LlmRequest): Promise<number> {
+    const text = [request.system || '', ...request.messages.map(message => message.content)].join('\n');
+    return estimateTokenCount(text);
+  }
+
+  async close(): Promise<void> {
+    this.reset();
+  }
+}
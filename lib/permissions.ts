@@ -0,0 +1,60 @@
+/**
+ * Roles and scopes for the Spanish Learning MCP Server
+ *
+ * Tiers decide how much of the learning features a user gets; scopes decide what a user
+ * is allowed to do at all. Routes require scopes (see requireScope in
+ * middleware/auth.ts), and users are given roles, each of which grants a set of scopes:
+ * - learner: use the conversation and exercise features (every user has this role)
+ * - teacher: a learner who can also browse content and look up users
+ * - content-editor: browse, import and edit vocabulary and grammar
+ * - support: look up users and their API keys
+ * - admin: every scope, including managing users; the admin API key acts as an admin
+ */
+
+export const SCOPES = [
+  'conversation:read',
+  'conversation:write',
+  'exercise:generate',
+  'content:read',
+  'content:write',
+  'users:read',
+  'users:admin'
+] as const;
+
+export type Scope = typeof SCOPES[number];
+
+export const ROLES = ['learner', 'teacher', 'content-editor', 'support', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+const LEARNER_SCOPES: Scope[] = ['conversation:read', 'conversation:write', 'exercise:generate'];
+
+export const ROLE_SCOPES: Record<Role, Scope[]> = {
+  learner: LEARNER_SCOPES,
+  teacher: [...LEARNER_SCOPES, 'content:read', 'users:read'],
+  'content-editor': ['content:read', 'content:write'],
+  support: ['users:read'],
+  admin: [...SCOPES]
+};
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const isScope = (value: unknown): value is Scope => SCOPES.includes(value as Scope);
+
+/**
+ * The roles a user has: the given roles plus learner, without duplicates
+ */
+export const normalizeRoles = (roles: Role[] = []): Role[] => {
+  return ROLES.filter(role => role === 'learner' || roles.includes(role));
+};
+
+/**
+ * Every scope granted by the given roles and extra scopes, in SCOPES order
+ */
+export const resolveScopes = (roles: Role[], extraScopes: Scope[] = []): Scope[] => {
+  const granted = new Set<Scope>(extraScopes);
+
+  normalizeRoles(roles).forEach(role => ROLE_SCOPES[role].forEach(scope => granted.add(scope)));
+
+  return SCOPES.filter(scope => granted.has(scope));
+};
@@ -0,0 +1,199 @@
+/**
+ * Generic record repositories for the Spanish Learning MCP Server
+ *
+ * Conversations, exercise sets and attempts, review cards, users and API keys are all
+ * kept the same way, so their repositories share these classes:
+ * - memory: records live in process memory and are lost on restart
+ * - file: records are kept in memory and persisted to a JSON file on every change
+ *
+ * Each repository module only adds its record type, how records are read back from
+ * the file, and the queries it needs (such as listing a user's records).
+ */
+import pino from 'pino';
+import { JsonFileStore } from './json-file-store.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'record-repository'
+});
+
+export interface RecordRepository<T> {
+  get(id: string): Promise<T | null>;
+  save(record: T): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  list(): Promise<T[]>;
+  count(): Promise<number>;
+  clear(): Promise<void>;
+  /**
+   * Release resources held by the repository on shutdown
+   */
+  close(): Promise<void>;
+}
+
+export interface RecordRepositoryOptions<T> {
+  /**
+   * What the records are called in log messages, e.g. "conversations"
+   */
+  name: string;
+  /**
+   * The ID a record is stored under; defaults to its `id`
+   */
+  key?: (record: T) => string;
+}
+
+export class InMemoryRecordRepository<T extends { id: string }> implements RecordRepository<T> {
+  protected records = new Map<string, T>();
+  protected readonly name: string;
+  protected readonly key: (record: T) => string;
+
+  constructor(options: RecordRepositoryOptions<T>) {
+    this.name = options.name;
+    this.key = options.key || (record => record.id);
+  }
+
+  async get(id: string): Promise<T | null> {
+    return this.records.get(id) || null;
+  }
+
+  async save(record: T): Promise<void> {
+    this.records.set(this.key(record), record);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.records.delete(id);
+  }
+
+  async list(): Promise<T[]> {
+    return Array.from(this.records.values());
+  }
+
+  async count(): Promise<number> {
+    return this.records.size;
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+
+  /**
+   * Nothing survives a restart in memory, so closing releases the records
+   */
+  async close(): Promise<void> {
+    const count = this.records.size;
+
+    if (count > 0) {
+      logger.info(`Cleared ${count} ${this.name} from memory`);
+      this.records.clear();
+    }
+  }
+
+  /**
+   * The records matching a predicate, for queries such as listing a user's records
+   */
+  protected async listWhere(predicate: (record: T) => boolean): Promise<T[]> {
+    return (await this.list()).filter(predicate);
+  }
+}
+
+export interface FileRecordRepositoryOptions<T> extends RecordRepositoryOptions<T> {
+  filePath: string;
+  /**
+   * Restores a record parsed from the file (e.g. converts ISO strings back to Dates)
+   */
+  revive: (raw: any) => T;
+}
+
+export class FileRecordRepository<T extends { id: string }> extends InMemoryRecordRepository<T> {
+  private readonly store: JsonFileStore<T>;
+  private loaded: Promise<void> | null = null;
+
+  constructor(options: FileRecordRepositoryOptions<T>) {
+    super(options);
+    this.store = new JsonFileStore(options.filePath, options.revive);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.load().then(records => {
+        records.forEach(record => this.records.set(this.key(record), record));
+      });
+    }
+
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(Array.from(this.records.values()));
+  }
+
+  async get(id: string): Promise<T | null> {
+    await this.load();
+    return super.get(id);
+  }
+
+  async save(record: T): Promise<void> {
+    await this.load();
+    await super.save(record);
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.load();
+    const deleted = await super.delete(id);
+
+    if (deleted) {
+      await this.persist();
+    }
+
+    return deleted;
+  }
+
+  async list(): Promise<T[]> {
+    await this.load();
+    return super.list();
+  }
+
+  async count(): Promise<number> {
+    await this.load();
+    return super.count();
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    await super.clear();
+    await this.persist();
+  }
+
+  /**
+   * Records are already on disk, so closing only waits for pending writes
+   */
+  async close(): Promise<void> {
+    await this.store.flush();
+  }
+}
+
+/**
+ * Create the repository for the configured store type, falling back to memory for
+ * unknown types
+ *
+ * @param store - The store's name in log messages, e.g. "conversation store"
+ * @param type - The configured store type
+ * @param backends - Creates the repository for each store type
+ */
+export const selectRecordRepository = <R>(
+  store: string,
+  type: string,
+  backends: { memory: () => R } & Record<string, () => R>
+): R => {
+  if (type === 'memory') {
+    return backends.memory();
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(backends, type)) {
+    logger.warn(`Unknown ${store} "${type}", falling back to memory`);
+    return backends.memory();
+  }
+
+  logger.info({ type }, `Using ${type} ${store}`);
+  return backends[type]();
+};
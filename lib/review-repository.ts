@@ -0,0 +1,78 @@
+/**
+ * Vocabulary review persistence for the Spanish Learning MCP Server
+ *
+ * Stores one spaced repetition card per user and vocabulary word. The storage
+ * backend is chosen by configuration:
+ * - memory: review cards live in process memory and are lost on restart
+ * - file: review cards are kept in memory and persisted to a JSON file on every change
+ */
+import {
+  FileRecordRepository,
+  InMemoryRecordRepository,
+  RecordRepository,
+  selectRecordRepository
+} from './record-repository.js';
+import { ReviewCard } from './review-scheduler.js';
+
+export interface ReviewRepository extends RecordRepository<ReviewCard> {
+  listByUser(userId: string): Promise<ReviewCard[]>;
+}
+
+export type ReviewStoreType = 'memory' | 'file';
+
+export interface ReviewRepositoryOptions {
+  type?: ReviewStoreType;
+  filePath?: string;
+}
+
+export const DEFAULT_REVIEW_STORE_PATH = './data/reviews.json';
+
+export class InMemoryReviewRepository
+  extends InMemoryRecordRepository<ReviewCard>
+  implements ReviewRepository {
+  constructor() {
+    super({ name: 'review cards' });
+  }
+
+  listByUser(userId: string): Promise<ReviewCard[]> {
+    return this.listWhere(card => card.userId === userId);
+  }
+}
+
+const reviveReviewCard = (raw: any): ReviewCard => ({
+  ...raw,
+  dueAt: new Date(raw.dueAt),
+  createdAt: new Date(raw.createdAt),
+  lastReviewedAt: raw.lastReviewedAt ? new Date(raw.lastReviewedAt) : undefined
+});
+
+export class FileReviewRepository
+  extends FileRecordRepository<ReviewCard>
+  implements ReviewRepository {
+  constructor(filePath: string = DEFAULT_REVIEW_STORE_PATH) {
+    super({ name: 'review cards', filePath, revive: reviveReviewCard });
+  }
+
+  listByUser(userId: string): Promise<ReviewCard[]> {
+    return this.listWhere(card => card.userId === userId);
+  }
+}
+
+/**
+ * Create the review repository selected by configuration
+ *
+ * Falls back to the REVIEW_STORE and REVIEW_STORE_PATH environment variables,
+ * and to the in-memory store when neither is set.
+ */
+export const createReviewRepository = (
+  options: ReviewRepositoryOptions = {}
+): ReviewRepository => selectRecordRepository<ReviewRepository>(
+  'review store',
+  options.type || process.env.REVIEW_STORE || 'memory',
+  {
+    memory: () => new InMemoryReviewRepository(),
+    file: () => new FileReviewRepository(
+      options.filePath || process.env.REVIEW_STORE_PATH || DEFAULT_REVIEW_STORE_PATH
+    )
+  }
+);
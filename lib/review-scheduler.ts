@@ -0,0 +1,132 @@
+/**
+ * Spaced repetition scheduling for vocabulary review
+ *
+ * Implements the SM-2 algorithm: each review is graded from 0 (complete blackout)
+ * to 5 (perfect recall). Grades of 3 or more advance the review interval
+ * (1 day, 6 days, then the previous interval times the ease factor), while lower
+ * grades reset it and count as a lapse. The ease factor adapts to every grade and
+ * never drops below 1.3.
+ */
+
+export const MIN_EASE_FACTOR = 1.3;
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const PASSING_GRADE = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewCard {
+  id: string;
+  userId: string;
+  word: string;
+  easeFactor: number;
+  /**
+   * Days until the next review
+   */
+  interval: number;
+  /**
+   * Consecutive successful reviews
+   */
+  repetitions: number;
+  lapses: number;
+  reviewCount: number;
+  lastGrade?: ReviewGrade;
+  lastReviewedAt?: Date;
+  dueAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * Normalize a vocabulary word so the same word always maps to the same card
+ */
+export const normalizeReviewWord = (word: string): string => {
+  return word.normalize('NFC').trim().toLowerCase();
+};
+
+export const getReviewCardId = (userId: string, word: string): string => {
+  return `${userId}:${normalizeReviewWord(word)}`;
+};
+
+/**
+ * Create a card for a word the user hasn't reviewed yet. New cards are due immediately.
+ */
+export const createReviewCard = (userId: string, word: string, now: Date = new Date()): ReviewCard => ({
+  id: getReviewCardId(userId, word),
+  userId,
+  word: normalizeReviewWord(word),
+  easeFactor: DEFAULT_EASE_FACTOR,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  reviewCount: 0,
+  dueAt: now,
+  createdAt: now
+});
+
+/**
+ * Apply a review grade to a card and compute its next due date
+ *
+ * @param card - The card being reviewed
+ * @param grade - Recall quality from 0 to 5
+ * @param now - Time of the review
+ * @returns The updated card (the input card is not modified)
+ */
+export const scheduleReview = (card: ReviewCard, grade: ReviewGrade, now: Date = new Date()): ReviewCard => {
+  let { repetitions, interval, lapses } = card;
+
+  if (grade >= PASSING_GRADE) {
+    interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * card.easeFactor);
+    repetitions += 1;
+  } else {
+    interval = 1;
+    repetitions = 0;
+    lapses += 1;
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    Math.round((card.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))) * 100) / 100
+  );
+
+  return {
+    ...card,
+    easeFactor,
+    interval,
+    repetitions,
+    lapses,
+    reviewCount: card.reviewCount + 1,
+    lastGrade: grade,
+    lastReviewedAt: now,
+    dueAt: new Date(now.getTime() + interval * DAY_MS)
+  };
+};
+
+export const isReviewDue = (card: ReviewCard, now: Date = new Date()): boolean => {
+  return card.dueAt.getTime() <= now.getTime();
+};
+
+/**
+ * A card is struggling when the learner keeps forgetting it or just failed it
+ */
+export const isStruggling = (card: ReviewCard): boolean => {
+  return card.easeFactor < 2.0 ||
+    card.lapses >= 2 ||
+    (card.lastGrade !== undefined && card.lastGrade < PASSING_GRADE);
+};
+
+/**
+ * Order cards for review: due cards first (most overdue first), then struggling
+ * cards that aren't due yet (hardest first). Other cards are left out.
+ */
+export const prioritizeReviewCards = (cards: ReviewCard[], now: Date = new Date()): ReviewCard[] => {
+  const due = cards
+    .filter(card => isReviewDue(card, now))
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+
+  const struggling = cards
+    .filter(card => !isReviewDue(card, now) && isStruggling(card))
+    .sort((a, b) => a.easeFactor - b.easeFactor || a.dueAt.getTime() - b.dueAt.getTime());
+
+  return [...due, ...struggling];
+};
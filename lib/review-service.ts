@@ -0,0 +1,114 @@
+/**
+ * Vocabulary review service for the Spanish Learning MCP Server
+ *
+ * Records review grades per user and vocabulary word, and decides which words are
+ * due. The priority list is also used to put due and struggling words first when
+ * vocabulary context is built for a user.
+ */
+import { AuthenticatedUser } from './appwrite-auth.js';
+import { ReviewRepository, createReviewRepository } from './review-repository.js';
+import {
+  ReviewCard,
+  ReviewGrade,
+  createReviewCard,
+  getReviewCardId,
+  isReviewDue,
+  isStruggling,
+  prioritizeReviewCards,
+  scheduleReview
+} from './review-scheduler.js';
+import { AppError } from '../middleware/error.js';
+
+export interface DueReviewsParams {
+  limit?: number;
+  includeStruggling?: boolean;
+}
+
+// Storage backend is selected by configuration (see createReviewRepository)
+let reviewRepository: ReviewRepository = createReviewRepository();
+
+export const getReviewRepository = (): ReviewRepository => reviewRepository;
+
+export const setReviewRepository = (repository: ReviewRepository): void => {
+  reviewRepository = repository;
+};
+
+const requireUserId = (user?: AuthenticatedUser): string => {
+  if (!user?.id) {
+    throw new AppError('A user ID is required for vocabulary review', 401);
+  }
+
+  return user.id;
+};
+
+const toReviewSummary = (card: ReviewCard, now: Date) => ({
+  word: card.word,
+  dueAt: card.dueAt.toISOString(),
+  isDue: isReviewDue(card, now),
+  isStruggling: isStruggling(card),
+  interval: card.interval,
+  easeFactor: card.easeFactor,
+  repetitions: card.repetitions,
+  lapses: card.lapses,
+  reviewCount: card.reviewCount,
+  lastGrade: card.lastGrade,
+  lastReviewedAt: card.lastReviewedAt?.toISOString()
+});
+
+/**
+ * Record a review grade for a word and schedule its next review
+ *
+ * @param user - The reviewing user
+ * @param word - The vocabulary word (a card is created on the first review)
+ * @param grade - Recall quality from 0 (forgot) to 5 (perfect)
+ * @throws {AppError} 401 if there is no user to record the review for
+ */
+export const gradeReview = async (
+  user: AuthenticatedUser | undefined,
+  word: string,
+  grade: ReviewGrade,
+  now: Date = new Date()
+) => {
+  const userId = requireUserId(user);
+
+  const card = await reviewRepository.get(getReviewCardId(userId, word)) ||
+    createReviewCard(userId, word, now);
+
+  const updated = scheduleReview(card, grade, now);
+  await reviewRepository.save(updated);
+
+  return toReviewSummary(updated, now);
+};
+
+/**
+ * List the user's words that are due for review, most overdue first
+ *
+ * @throws {AppError} 401 if there is no user to list reviews for
+ */
+export const getDueReviews = async (
+  user: AuthenticatedUser | undefined,
+  params: DueReviewsParams = {},
+  now: Date = new Date()
+) => {
+  const userId = requireUserId(user);
+  const { limit = 20, includeStruggling = false } = params;
+
+  const cards = await reviewRepository.listByUser(userId);
+  const prioritized = prioritizeReviewCards(cards, now)
+    .filter(card => includeStruggling || isReviewDue(card, now));
+
+  return {
+    reviews: prioritized.slice(0, limit).map(card => toReviewSummary(card, now)),
+    dueCount: cards.filter(card => isReviewDue(card, now)).length,
+    totalCards: cards.length
+  };
+};
+
+/**
+ * Words to prioritize when building vocabulary context for a user: due words
+ * first, then struggling words
+ */
+export const getPriorityReviewWords = async (userId: string, limit: number = 10): Promise<string[]> => {
+  const cards = await reviewRepository.listByUser(userId);
+  return prioritizeReviewCards(cards).slice(0, limit).map(card => card.word);
+};
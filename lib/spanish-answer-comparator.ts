@@ -0,0 +1,260 @@
+/**
+ * Spanish-aware answer comparison for the Spanish Learning MCP Server
+ *
+ * Compares a learner's free-text answer with an expected answer the way a teacher
+ * would: case, whitespace and punctuation (including the inverted ¿ and ¡) never
+ * matter, missing accents or ñ are accepted with a warning, and small typos are
+ * reported as near misses. Results include a word-level diff so clients can show
+ * exactly what was wrong.
+ *
+ * The comparator has no dependencies on exercises, so it can also be used to
+ * check learner messages in conversation practice.
+ */
+
+export type AnswerVerdict = 'correct' | 'correct_with_accent_warning' | 'near_miss' | 'wrong';
+
+export type AnswerDiffOperation = 'equal' | 'accent' | 'substitute' | 'insert' | 'delete';
+
+/**
+ * One step of the word-level diff between the expected answer and the learner's answer
+ *
+ * - equal: the word matches
+ * - accent: the word matches except for diacritics
+ * - substitute: the learner wrote a different word
+ * - insert: the learner added a word that isn't expected
+ * - delete: the learner left out an expected word
+ */
+export interface AnswerDiff {
+  op: AnswerDiffOperation;
+  expected?: string;
+  actual?: string;
+}
+
+export interface AnswerComparison {
+  verdict: AnswerVerdict;
+  /**
+   * Whether the answer should be graded as correct (correct or correct_with_accent_warning)
+   */
+  isAcceptable: boolean;
+  /**
+   * Character edit distance once accents, punctuation and (optionally) articles are normalized
+   */
+  distance: number;
+  /**
+   * 1 for identical normalized answers, approaching 0 as they diverge
+   */
+  similarity: number;
+  normalizedAnswer: string;
+  normalizedExpected: string;
+  diff: AnswerDiff[];
+}
+
+export interface CompareOptions {
+  /**
+   * Ignore definite and indefinite articles (el, la, un, una...). Defaults to true.
+   */
+  ignoreArticles?: boolean;
+  /**
+   * Maximum edit distance for a near miss, as a fraction of the expected answer length.
+   * Defaults to 0.2; at least one edit is always allowed.
+   */
+  nearMissRatio?: number;
+}
+
+export interface NormalizeOptions {
+  foldDiacritics?: boolean;
+  stripArticles?: boolean;
+  /**
+   * Articles to keep when stripping articles
+   */
+  keepArticles?: string[];
+}
+
+const SPANISH_ARTICLES = new Set(['el', 'la', 'los', 'las', 'lo', 'un', 'una', 'unos', 'unas']);
+
+const PUNCTUATION_PATTERN = /[¿¡!?.,;:"'«»“”‘’()[\]{}…–—-]/g;
+
+const DEFAULT_NEAR_MISS_RATIO = 0.2;
+
+const foldDiacritics = (value: string): string => {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+};
+
+/**
+ * Normalize Spanish text for comparison
+ *
+ * Always lowercases, removes punctuation and collapses whitespace. Diacritics
+ * (á, é, í, ó, ú, ü, ñ) and articles are only removed when requested. Articles are
+ * removed first, so the pronoun "él" is never taken for the article "el".
+ */
+export const normalizeSpanishText = (value: string, options: NormalizeOptions = {}): string => {
+  let words = value
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(PUNCTUATION_PATTERN, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0);
+
+  if (options.stripArticles) {
+    const keptArticles = new Set(options.keepArticles);
+    words = words.filter(word => !SPANISH_ARTICLES.has(word) || keptArticles.has(word));
+  }
+
+  if (options.foldDiacritics) {
+    words = words.map(foldDiacritics);
+  }
+
+  return words.join(' ');
+};
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export const levenshteinDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Align the expected and actual words with a weighted edit distance and
+ * read the alignment back as a list of diff operations
+ */
+const diffWords = (expectedWords: string[], actualWords: string[]): AnswerDiff[] => {
+  const substitutionCost = (expected: string, actual: string): number => {
+    if (expected === actual) return 0;
+    return foldDiacritics(expected) === foldDiacritics(actual) ? 0.5 : 1;
+  };
+
+  const rows = expectedWords.length + 1;
+  const columns = actualWords.length + 1;
+  const costs: number[][] = Array.from({ length: rows }, () => new Array(columns).fill(0));
+
+  for (let i = 0; i < rows; i++) costs[i][0] = i;
+  for (let j = 0; j < columns; j++) costs[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < columns; j++) {
+      costs[i][j] = Math.min(
+        costs[i - 1][j] + 1,
+        costs[i][j - 1] + 1,
+        costs[i - 1][j - 1] + substitutionCost(expectedWords[i - 1], actualWords[j - 1])
+      );
+    }
+  }
+
+  const diff: AnswerDiff[] = [];
+  let i = expectedWords.length;
+  let j = actualWords.length;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const expected = expectedWords[i - 1];
+      const actual = actualWords[j - 1];
+      const cost = substitutionCost(expected, actual);
+
+      if (costs[i][j] === costs[i - 1][j - 1] + cost) {
+        const op: AnswerDiffOperation = cost === 0 ? 'equal' : cost < 1 ? 'accent' : 'substitute';
+        diff.unshift(op === 'equal' ? { op, expected } : { op, expected, actual });
+        i--;
+        j--;
+        continue;
+      }
+    }
+
+    if (i > 0 && costs[i][j] === costs[i - 1][j] + 1) {
+      diff.unshift({ op: 'delete', expected: expectedWords[i - 1] });
+      i--;
+    } else {
+      diff.unshift({ op: 'insert', actual: actualWords[j - 1] });
+      j--;
+    }
+  }
+
+  return diff;
+};
+
+/**
+ * Compare a learner's answer with the expected answer
+ *
+ * @param answer - What the learner wrote
+ * @param expected - The expected answer
+ * @param options - Comparison options
+ * @returns The verdict, edit distance and a word-level diff
+ */
+export const compareSpanishAnswers = (
+  answer: string,
+  expected: string,
+  options: CompareOptions = {}
+): AnswerComparison => {
+  // An answer that is only an article (e.g. a fill-in-the-blank for "la") keeps its articles
+  const ignoreArticles = options.ignoreArticles !== false &&
+    normalizeSpanishText(expected, { stripArticles: true }).length > 0;
+  const nearMissRatio = options.nearMissRatio ?? DEFAULT_NEAR_MISS_RATIO;
+
+  const literalAnswer = normalizeSpanishText(answer);
+  const literalExpected = normalizeSpanishText(expected);
+
+  // Expected words that read as articles without their accent ("él") may be written
+  // without it, so those articles are kept in the answer and compared
+  const accentedArticles = normalizeSpanishText(expected, { stripArticles: true, foldDiacritics: true })
+    .split(' ')
+    .filter(word => SPANISH_ARTICLES.has(word));
+
+  const normalizedAnswer = normalizeSpanishText(answer, {
+    foldDiacritics: true,
+    stripArticles: ignoreArticles,
+    keepArticles: accentedArticles
+  });
+  const normalizedExpected = normalizeSpanishText(expected, { foldDiacritics: true, stripArticles: ignoreArticles });
+
+  const distance = levenshteinDistance(normalizedAnswer, normalizedExpected);
+  const longest = Math.max(normalizedAnswer.length, normalizedExpected.length);
+  const similarity = longest === 0 ? 1 : Math.round((1 - distance / longest) * 100) / 100;
+
+  const withoutArticles = (value: string) => ignoreArticles
+    ? normalizeSpanishText(value, { stripArticles: true })
+    : normalizeSpanishText(value);
+
+  let verdict: AnswerVerdict;
+
+  if (literalAnswer.length === 0) {
+    verdict = 'wrong';
+  } else if (literalAnswer === literalExpected || withoutArticles(answer) === withoutArticles(expected)) {
+    verdict = 'correct';
+  } else if (distance === 0) {
+    verdict = 'correct_with_accent_warning';
+  } else if (distance <= Math.max(1, Math.floor(normalizedExpected.length * nearMissRatio))) {
+    verdict = 'near_miss';
+  } else {
+    verdict = 'wrong';
+  }
+
+  return {
+    verdict,
+    isAcceptable: verdict === 'correct' || verdict === 'correct_with_accent_warning',
+    distance,
+    similarity,
+    normalizedAnswer,
+    normalizedExpected,
+    diff: diffWords(
+      literalExpected.split(' ').filter(word => word.length > 0),
+      literalAnswer.split(' ').filter(word => word.length > 0)
+    )
+  };
+};
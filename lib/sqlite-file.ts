@@ -0,0 +1,505 @@
+/**
+ * Minimal SQLite database file reading and writing
+ *
+ * Anki packages carry their notes in a SQLite database. This module reads rows from the
+ * tables of such a file and writes small databases made of plain tables (no indexes),
+ * following the documented file format: https://www.sqlite.org/fileformat2.html
+ * It doesn't run SQL; table definitions are only parsed for their column names.
+ */
+
+export type SqliteValue = null | number | string | Buffer;
+
+export type SqliteRow = Record<string, SqliteValue>;
+
+export interface SqliteTableData {
+  name: string;
+  /**
+   * The CREATE TABLE statement stored in the schema
+   */
+  sql: string;
+  /**
+   * Values in column order, sorted by rowid when rowidColumn is set
+   */
+  rows: SqliteValue[][];
+  /**
+   * Index of an INTEGER PRIMARY KEY column, whose values are the rowids. Without one,
+   * rows are numbered from 1.
+   */
+  rowidColumn?: number;
+}
+
+const MAGIC = 'SQLite format 3\0';
+const PAGE_SIZE = 4096;
+const HEADER_SIZE = 100;
+
+const LEAF_TABLE_PAGE = 0x0d;
+const INTERIOR_TABLE_PAGE = 0x05;
+
+const CONSTRAINT_KEYWORDS = ['primary', 'unique', 'check', 'foreign', 'constraint'];
+
+const readVarint = (buffer: Buffer, offset: number): [number, number] => {
+  let value = 0;
+
+  for (let i = 0; i < 8; i++) {
+    const byte = buffer[offset + i];
+    value = value * 128 + (byte & 0x7f);
+
+    if (byte < 0x80) {
+      return [value, i + 1];
+    }
+  }
+
+  // The ninth byte contributes all eight bits
+  return [value * 256 + buffer[offset + 8], 9];
+};
+
+const encodeVarint = (value: number): Buffer => {
+  const bytes: number[] = [];
+  let remaining = value;
+
+  do {
+    bytes.unshift(remaining % 128);
+    remaining = Math.floor(remaining / 128);
+  } while (remaining > 0);
+
+  if (bytes.length > 8) {
+    throw new Error(`Value ${value} is too large for this SQLite writer`);
+  }
+
+  return Buffer.from(bytes.map((byte, index) => (index < bytes.length - 1 ? byte | 0x80 : byte)));
+};
+
+/**
+ * Bytes of a cell's payload stored on the b-tree page itself; the rest goes to overflow pages
+ */
+const localPayloadSize = (payloadSize: number, usableSize: number): number => {
+  const maxLocal = usableSize - 35;
+  const minLocal = Math.floor(((usableSize - 12) * 32) / 255) - 23;
+
+  if (payloadSize <= maxLocal) {
+    return payloadSize;
+  }
+
+  const size = minLocal + ((payloadSize - minLocal) % (usableSize - 4));
+  return size <= maxLocal ? size : minLocal;
+};
+
+const decodeRecord = (payload: Buffer): SqliteValue[] => {
+  const [headerSize, headerSizeLength] = readVarint(payload, 0);
+  const serialTypes: number[] = [];
+
+  for (let offset = headerSizeLength; offset < headerSize;) {
+    const [serialType, length] = readVarint(payload, offset);
+    serialTypes.push(serialType);
+    offset += length;
+  }
+
+  let offset = headerSize;
+
+  return serialTypes.map(serialType => {
+    switch (serialType) {
+      case 0:
+        return null;
+      case 1:
+        offset += 1;
+        return payload.readInt8(offset - 1);
+      case 2:
+        offset += 2;
+        return payload.readInt16BE(offset - 2);
+      case 3:
+        offset += 3;
+        return payload.readIntBE(offset - 3, 3);
+      case 4:
+        offset += 4;
+        return payload.readInt32BE(offset - 4);
+      case 5:
+        offset += 6;
+        return payload.readIntBE(offset - 6, 6);
+      case 6:
+        offset += 8;
+        return Number(payload.readBigInt64BE(offset - 8));
+      case 7:
+        offset += 8;
+        return payload.readDoubleBE(offset - 8);
+      case 8:
+        return 0;
+      case 9:
+        return 1;
+      default: {
+        if (serialType < 12) {
+          throw new Error(`Unsupported SQLite serial type ${serialType}`);
+        }
+
+        const length = Math.floor((serialType - 12) / 2);
+        const bytes = payload.subarray(offset, offset + length);
+        offset += length;
+
+        return serialType % 2 === 0 ? Buffer.from(bytes) : bytes.toString('utf8');
+      }
+    }
+  });
+};
+
+const encodeRecord = (values: SqliteValue[]): Buffer => {
+  const serialTypes: number[] = [];
+  const bodies: Buffer[] = [];
+
+  values.forEach(value => {
+    if (value === null) {
+      serialTypes.push(0);
+    } else if (typeof value === 'string') {
+      const bytes = Buffer.from(value, 'utf8');
+      serialTypes.push(bytes.length * 2 + 13);
+      bodies.push(bytes);
+    } else if (Buffer.isBuffer(value)) {
+      serialTypes.push(value.length * 2 + 12);
+      bodies.push(value);
+    } else if (!Number.isInteger(value)) {
+      const bytes = Buffer.alloc(8);
+      bytes.writeDoubleBE(value);
+      serialTypes.push(7);
+      bodies.push(bytes);
+    } else if (value === 0 || value === 1) {
+      serialTypes.push(value === 0 ? 8 : 9);
+    } else {
+      const sizes: [number, number][] = [[1, 1], [2, 2], [3, 3], [4, 4], [5, 6]];
+      const fit = sizes.find(([, bytes]) => Math.abs(value) < 2 ** (bytes * 8 - 1));
+      const bytes = Buffer.alloc(fit ? fit[1] : 8);
+
+      if (fit) {
+        bytes.writeIntBE(value, 0, fit[1]);
+      } else {
+        bytes.writeBigInt64BE(BigInt(value));
+      }
+
+      serialTypes.push(fit ? fit[0] : 6);
+      bodies.push(bytes);
+    }
+  });
+
+  const typeBytes = Buffer.concat(serialTypes.map(encodeVarint));
+  // The header size includes the length of its own varint
+  let headerSize = typeBytes.length + 1;
+  while (encodeVarint(headerSize).length + typeBytes.length !== headerSize) {
+    headerSize = encodeVarint(headerSize).length + typeBytes.length;
+  }
+
+  return Buffer.concat([encodeVarint(headerSize), typeBytes, ...bodies]);
+};
+
+/**
+ * Column names of a CREATE TABLE statement, and the index of its INTEGER PRIMARY KEY
+ * column if it has one
+ */
+const parseColumns = (sql: string): { names: string[]; rowidColumn: number } => {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of body) {
+    if (char === ',' && depth === 0) {
+      definitions.push(current);
+      current = '';
+      continue;
+    }
+
+    depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+    current += char;
+  }
+  definitions.push(current);
+
+  const names: string[] = [];
+  let rowidColumn = -1;
+
+  definitions.forEach(definition => {
+    const words = definition.trim().split(/\s+/);
+
+    if (!words[0] || CONSTRAINT_KEYWORDS.includes(words[0].toLowerCase())) {
+      return;
+    }
+
+    if (/^\S+\s+integer\s+primary\s+key\b/i.test(definition.trim())) {
+      rowidColumn = names.length;
+    }
+
+    names.push(words[0].replace(/^["`[]|["`\]]$/g, ''));
+  });
+
+  return { names, rowidColumn };
+};
+
+class SqliteReader {
+  private readonly pageSize: number;
+  private readonly usableSize: number;
+
+  constructor(private readonly data: Buffer) {
+    if (data.length < HEADER_SIZE || data.toString('latin1', 0, 16) !== MAGIC) {
+      throw new Error('Not a SQLite database');
+    }
+
+    const pageSize = data.readUInt16BE(16);
+    this.pageSize = pageSize === 1 ? 65536 : pageSize;
+    this.usableSize = this.pageSize - data[20];
+  }
+
+  private pageOffset(page: number): number {
+    return (page - 1) * this.pageSize;
+  }
+
+  private readPayload(offset: number, payloadSize: number): Buffer {
+    const local = localPayloadSize(payloadSize, this.usableSize);
+    const parts = [this.data.subarray(offset, offset + local)];
+    let remaining = payloadSize - local;
+    let overflowPage = remaining > 0 ? this.data.readUInt32BE(offset + local) : 0;
+
+    while (remaining > 0) {
+      if (overflowPage === 0) {
+        throw new Error('Corrupt SQLite overflow chain');
+      }
+
+      const start = this.pageOffset(overflowPage);
+      const size = Math.min(remaining, this.usableSize - 4);
+      parts.push(this.data.subarray(start + 4, start + 4 + size));
+      remaining -= size;
+      overflowPage = this.data.readUInt32BE(start);
+    }
+
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * Every row of a table b-tree in rowid order
+   */
+  readTree(rootPage: number): { rowid: number; values: SqliteValue[] }[] {
+    const rows: { rowid: number; values: SqliteValue[] }[] = [];
+    const pending = [rootPage];
+
+    while (pending.length > 0) {
+      const page = pending.pop()!;
+      const start = this.pageOffset(page);
+      const header = page === 1 ? start + HEADER_SIZE : start;
+      const type = this.data[header];
+      const cellCount = this.data.readUInt16BE(header + 3);
+
+      if (type === INTERIOR_TABLE_PAGE) {
+        const children = [];
+        for (let i = 0; i < cellCount; i++) {
+          children.push(this.data.readUInt32BE(start + this.data.readUInt16BE(header + 12 + i * 2)));
+        }
+        children.push(this.data.readUInt32BE(header + 8));
+
+        // Children are popped from the end, so push them in reverse to keep rowid order
+        pending.push(...children.reverse());
+      } else if (type === LEAF_TABLE_PAGE) {
+        for (let i = 0; i < cellCount; i++) {
+          let offset = start + this.data.readUInt16BE(header + 8 + i * 2);
+          const [payloadSize, payloadSizeLength] = readVarint(this.data, offset);
+          offset += payloadSizeLength;
+          const [rowid, rowidLength] = readVarint(this.data, offset);
+          offset += rowidLength;
+
+          rows.push({ rowid, values: decodeRecord(this.readPayload(offset, payloadSize)) });
+        }
+      } else {
+        throw new Error(`Unexpected SQLite page type ${type} in a table`);
+      }
+    }
+
+    return rows;
+  }
+}
+
+/**
+ * Names of the tables in a SQLite database
+ */
+export const listSqliteTables = (data: Buffer): string[] => {
+  return new SqliteReader(data).readTree(1)
+    .filter(({ values }) => values[0] === 'table')
+    .map(({ values }) => values[1] as string);
+};
+
+/**
+ * Read every row of a table as an object keyed by column name
+ *
+ * @throws {Error} If the data isn't a SQLite database or has no such table
+ */
+export const readSqliteTable = (data: Buffer, table: string): SqliteRow[] => {
+  const reader = new SqliteReader(data);
+  const schema = reader.readTree(1).find(({ values }) => values[0] === 'table' && values[1] === table);
+
+  if (!schema) {
+    throw new Error(`Table "${table}" not found`);
+  }
+
+  const { names, rowidColumn } = parseColumns(schema.values[4] as string);
+
+  return reader.readTree(schema.values[3] as number).map(({ rowid, values }) => {
+    const row: SqliteRow = {};
+
+    names.forEach((name, index) => {
+      // Columns added after a row was written are missing from its record
+      row[name] = index === rowidColumn ? rowid : values[index] ?? null;
+    });
+
+    return row;
+  });
+};
+
+/**
+ * Write a database holding the given tables
+ */
+export const writeSqliteDatabase = (tables: SqliteTableData[]): Buffer => {
+  // Page 1 holds the file header and the schema table, and is filled in last
+  const pages: Buffer[] = [Buffer.alloc(PAGE_SIZE)];
+
+  const addPage = (page: Buffer): number => {
+    pages.push(page);
+    return pages.length;
+  };
+
+  const leafCell = (rowid: number, payload: Buffer): Buffer => {
+    const local = localPayloadSize(payload.length, PAGE_SIZE);
+    const parts = [encodeVarint(payload.length), encodeVarint(rowid), payload.subarray(0, local)];
+
+    if (local < payload.length) {
+      // Overflow pages are chained in order, so each one's number is known in advance
+      const chunks: Buffer[] = [];
+      for (let offset = local; offset < payload.length; offset += PAGE_SIZE - 4) {
+        chunks.push(payload.subarray(offset, offset + PAGE_SIZE - 4));
+      }
+
+      const firstPage = pages.length + 1;
+      chunks.forEach((chunk, index) => {
+        const page = Buffer.alloc(PAGE_SIZE);
+        page.writeUInt32BE(index < chunks.length - 1 ? firstPage + index + 1 : 0, 0);
+        chunk.copy(page, 4);
+        addPage(page);
+      });
+
+      const pointer = Buffer.alloc(4);
+      pointer.writeUInt32BE(firstPage);
+      parts.push(pointer);
+    }
+
+    return Buffer.concat(parts);
+  };
+
+  const buildPage = (page: Buffer, headerOffset: number, type: number, cells: Buffer[], rightChild?: number) => {
+    const headerSize = type === LEAF_TABLE_PAGE ? 8 : 12;
+    let contentStart = PAGE_SIZE;
+
+    cells.forEach((cell, index) => {
+      contentStart -= cell.length;
+      cell.copy(page, contentStart);
+      page.writeUInt16BE(contentStart, headerOffset + headerSize + index * 2);
+    });
+
+    page[headerOffset] = type;
+    page.writeUInt16BE(cells.length, headerOffset + 3);
+    page.writeUInt16BE(contentStart, headerOffset + 5);
+
+    if (rightChild !== undefined) {
+      page.writeUInt32BE(rightChild, headerOffset + 8);
+    }
+
+    return page;
+  };
+
+  const fits = (cells: Buffer[], cell: Buffer, headerSize: number) => {
+    const used = cells.reduce((sum, existing) => sum + existing.length + 2, headerSize);
+    return used + cell.length + 2 <= PAGE_SIZE;
+  };
+
+  const writeTable = (table: SqliteTableData): number => {
+    let level: { page: number; maxRowid: number }[] = [];
+    let cells: Buffer[] = [];
+    let maxRowid = 0;
+
+    const flushLeaf = () => {
+      const page = addPage(buildPage(Buffer.alloc(PAGE_SIZE), 0, LEAF_TABLE_PAGE, cells));
+      level.push({ page, maxRowid });
+      cells = [];
+    };
+
+    table.rows.forEach((row, index) => {
+      const rowid = table.rowidColumn !== undefined ? row[table.rowidColumn] as number : index + 1;
+      const values = table.rowidColumn !== undefined
+        ? row.map((value, column) => (column === table.rowidColumn ? null : value))
+        : row;
+      const cell = leafCell(rowid, encodeRecord(values));
+
+      if (cells.length > 0 && !fits(cells, cell, 8)) {
+        flushLeaf();
+      }
+
+      cells.push(cell);
+      maxRowid = rowid;
+    });
+
+    if (cells.length > 0 || level.length === 0) {
+      flushLeaf();
+    }
+
+    // Interior pages point to each child with the largest rowid it holds
+    while (level.length > 1) {
+      const parents: { page: number; maxRowid: number }[] = [];
+      let children: { page: number; maxRowid: number }[] = [];
+
+      const flushInterior = () => {
+        const last = children[children.length - 1];
+        const interiorCells = children.slice(0, -1).map(child => {
+          const pointer = Buffer.alloc(4);
+          pointer.writeUInt32BE(child.page);
+          return Buffer.concat([pointer, encodeVarint(child.maxRowid)]);
+        });
+
+        const page = addPage(buildPage(Buffer.alloc(PAGE_SIZE), 0, INTERIOR_TABLE_PAGE, interiorCells, last.page));
+        parents.push({ page, maxRowid: last.maxRowid });
+        children = [];
+      };
+
+      level.forEach(child => {
+        // Each child but the last takes a cell of at most 13 bytes plus its pointer
+        if (children.length > 0 && 12 + children.length * 15 > PAGE_SIZE) {
+          flushInterior();
+        }
+        children.push(child);
+      });
+      flushInterior();
+
+      level = parents;
+    }
+
+    return level[0].page;
+  };
+
+  const schemaCells = tables.map((table, index) => {
+    const rootPage = writeTable(table);
+    return leafCell(index + 1, encodeRecord(['table', table.name, table.name, rootPage, table.sql]));
+  });
+
+  if (!schemaCells.every((cell, index) => fits(schemaCells.slice(0, index), cell, HEADER_SIZE + 8))) {
+    throw new Error('Too many tables for this SQLite writer');
+  }
+
+  const firstPage = buildPage(pages[0], HEADER_SIZE, LEAF_TABLE_PAGE, schemaCells);
+
+  firstPage.write(MAGIC, 0, 'latin1');
+  firstPage.writeUInt16BE(PAGE_SIZE, 16);
+  firstPage[18] = 1; // legacy (rollback journal) write version
+  firstPage[19] = 1; // and read version
+  firstPage[20] = 0; // reserved bytes per page
+  firstPage[21] = 64; // maximum embedded payload fraction
+  firstPage[22] = 32; // minimum embedded payload fraction
+  firstPage[23] = 32; // leaf payload fraction
+  firstPage.writeUInt32BE(1, 24); // file change counter
+  firstPage.writeUInt32BE(pages.length, 28); // database size in pages
+  firstPage.writeUInt32BE(1, 40); // schema cookie
+  firstPage.writeUInt32BE(4, 44); // schema format
+  firstPage.writeUInt32BE(1, 56); // text encoding: UTF-8
+  firstPage.writeUInt32BE(1, 92); // version-valid-for, matches the change counter
+  firstPage.writeUInt32BE(3045000, 96); // SQLite version that wrote the file
+
+  return Buffer.concat(pages);
+};
@@ -0,0 +1,82 @@
+/**
+ * Server-Sent Events helpers for streaming endpoints
+ */
+import { Response } from 'express';
+import { AppError } from '../middleware/error.js';
+
+export interface SseStream {
+  /**
+   * Aborted when the client disconnects before the stream is closed
+   */
+  signal: AbortSignal;
+  /**
+   * Send a named event with a JSON payload. Ignored once the client is gone.
+   */
+  send(event: string, data: unknown): void;
+  close(): void;
+}
+
+/**
+ * Switch a response to an SSE stream
+ *
+ * @param res - The Express response to stream on
+ */
+export const openSseStream = (res: Response): SseStream => {
+  const controller = new AbortController();
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop reverse proxies (e.g. nginx) from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  const isOpen = () => !res.writableEnded && !res.destroyed;
+
+  return {
+    signal: controller.signal,
+    send(event: string, data: unknown) {
+      if (isOpen()) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    },
+    close() {
+      if (isOpen()) {
+        res.end();
+      }
+    }
+  };
+};
+
+/**
+ * Forward typed events (`{ type, ...payload }`) to an SSE stream, then close it
+ *
+ * Headers are already sent once streaming starts, so failures are reported as an
+ * `error` event instead of an HTTP status. The events are read to the end even after
+ * the client disconnects, so producers can finish their cleanup.
+ */
+export const pipeSseEvents = async (
+  stream: SseStream,
+  events: AsyncIterable<{ type: string }>
+): Promise<void> => {
+  try {
+    for await (const { type, ...payload } of events) {
+      stream.send(type, payload);
+    }
+  } catch (error) {
+    stream.send('error', {
+      error: error instanceof AppError && error.isOperational
+        ? error.message
+        : 'An unexpected error occurred'
+    });
+  } finally {
+    stream.close();
+  }
+};
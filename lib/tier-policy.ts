@@ -0,0 +1,351 @@
+/**
+ * Tier policies for the Spanish Learning MCP Server
+ *
+ * Everything an access tier is entitled to (context sizes, rate limits, conversation and
+ * exercise limits) is described by one TierPolicy per tier, kept in a registry that the
+ * routes, the rate limiters and SpanishMcp look up on every request.
+ *
+ * The built-in policies can be changed with a JSON or YAML file (TIER_POLICY_PATH) that
+ * overrides any part of them, for example:
+ *
+ *   free:
+ *     context:
+ *       maxItems: 8
+ *     exercise:
+ *       maxCount: 5
+ *
+ * The file is watched, so edits take effect without a restart. A file that fails to
+ * parse or validate stops the server at startup, and is ignored (keeping the previous
+ * policies) when it is reloaded.
+ */
+import { readFileSync, unwatchFile, watchFile } from 'fs';
+import path from 'path';
+import Joi from 'joi';
+import yaml from 'js-yaml';
+import pino from 'pino';
+import { CefrLevel } from './appwrite.js';
+import { UserTier } from './appwrite-auth.js';
+import { EXERCISE_TYPES, ExerciseType } from './exercise-schemas.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'tier-policy'
+});
+
+export const TIERS: UserTier[] = ['free', 'basic', 'premium'];
+
+export type RateLimitName = 'api' | 'conversation' | 'exercise';
+
+/**
+ * Window of each rate limiter; the policies set how many requests fit in it
+ */
+export const RATE_LIMIT_WINDOWS_MS: Record<RateLimitName, number> = {
+  api: 15 * 60 * 1000,
+  conversation: 60 * 1000,
+  exercise: 5 * 60 * 1000
+};
+
+export interface TierPolicy {
+  /**
+   * Shown to users in GET /api/tiers
+   */
+  description: string;
+  context: {
+    /**
+     * Vocabulary items, grammar rules or templates per request
+     */
+    maxItems: number;
+    /**
+     * Estimated tokens of reference material per request
+     */
+    maxTokens: number;
+    includeExercises: boolean;
+    /**
+     * Contexts SpanishMcp builds per user and minute
+     */
+    maxQueriesPerMinute: number;
+  };
+  /**
+   * Requests per user allowed in each window of RATE_LIMIT_WINDOWS_MS
+   */
+  rateLimits: Record<RateLimitName, number>;
+  conversation: {
+    maxParticipants: number;
+    /**
+     * Context items for each reply in a conversation
+     */
+    replyContextItems: number;
+    /**
+     * Estimated tokens of past turns sent with each reply
+     */
+    maxHistoryTokens: number;
+    maxCefrLevel: CefrLevel;
+    slang: boolean;
+    corrections: boolean;
+    minorCorrections: boolean;
+    alternatives: boolean;
+  };
+  exercise: {
+    types: ExerciseType[];
+    maxCount: number;
+    /**
+     * Feedback from the learner's error profile when answers are checked
+     */
+    detailedFeedback: boolean;
+    /**
+     * Per-attempt performance details in the exercise history
+     */
+    detailedHistory: boolean;
+  };
+}
+
+export type TierPolicies = Record<UserTier, TierPolicy>;
+
+type PolicyOverride<T> = { [K in keyof T]?: T[K] extends unknown[] ? T[K] : T[K] extends object ? PolicyOverride<T[K]> : T[K] };
+
+/**
+ * Changes to the built-in policies, as read from a tier policy file
+ */
+export type TierPolicyOverrides = Partial<Record<UserTier, PolicyOverride<TierPolicy>>>;
+
+export const DEFAULT_TIER_POLICIES: TierPolicies = {
+  free: {
+    description: 'Vocabulary and grammar practice with beginner conversations',
+    context: { maxItems: 5, maxTokens: 1000, includeExercises: false, maxQueriesPerMinute: 2 },
+    rateLimits: { api: 20, conversation: 5, exercise: 3 },
+    conversation: {
+      maxParticipants: 1,
+      replyContextItems: 5,
+      maxHistoryTokens: 500,
+      maxCefrLevel: CefrLevel.A2,
+      slang: false,
+      corrections: false,
+      minorCorrections: false,
+      alternatives: false
+    },
+    exercise: {
+      types: ['vocabulary_matching', 'multiple_choice'],
+      maxCount: 3,
+      detailedFeedback: false,
+      detailedHistory: false
+    }
+  },
+  basic: {
+    description: 'Intermediate conversations with corrections and more exercise types',
+    context: { maxItems: 20, maxTokens: 3000, includeExercises: true, maxQueriesPerMinute: 5 },
+    rateLimits: { api: 100, conversation: 10, exercise: 8 },
+    conversation: {
+      maxParticipants: 2,
+      replyContextItems: 10,
+      maxHistoryTokens: 1500,
+      maxCefrLevel: CefrLevel.B2,
+      slang: false,
+      corrections: true,
+      minorCorrections: false,
+      alternatives: false
+    },
+    exercise: {
+      types: ['vocabulary_matching', 'multiple_choice', 'fill_in_blank', 'sentence_construction'],
+      maxCount: 5,
+      detailedFeedback: false,
+      detailedHistory: false
+    }
+  },
+  premium: {
+    description: 'Every level and exercise type, with detailed feedback',
+    context: { maxItems: 50, maxTokens: 6000, includeExercises: true, maxQueriesPerMinute: 20 },
+    rateLimits: { api: 300, conversation: 20, exercise: 15 },
+    conversation: {
+      maxParticipants: 3,
+      replyContextItems: 20,
+      maxHistoryTokens: 4000,
+      maxCefrLevel: CefrLevel.C2,
+      slang: true,
+      corrections: true,
+      minorCorrections: true,
+      alternatives: true
+    },
+    exercise: {
+      types: [...EXERCISE_TYPES],
+      maxCount: 10,
+      detailedFeedback: true,
+      detailedHistory: true
+    }
+  }
+};
+
+const count = Joi.number().integer().min(0);
+const positiveCount = Joi.number().integer().min(1);
+
+const tierPolicySchema = Joi.object({
+  description: Joi.string(),
+  context: Joi.object({
+    maxItems: positiveCount,
+    maxTokens: positiveCount,
+    includeExercises: Joi.boolean(),
+    maxQueriesPerMinute: positiveCount
+  }),
+  rateLimits: Joi.object({
+    api: count,
+    conversation: count,
+    exercise: count
+  }),
+  conversation: Joi.object({
+    maxParticipants: positiveCount,
+    replyContextItems: positiveCount,
+    maxHistoryTokens: positiveCount,
+    maxCefrLevel: Joi.string().valid(...Object.values(CefrLevel)),
+    slang: Joi.boolean(),
+    corrections: Joi.boolean(),
+    minorCorrections: Joi.boolean(),
+    alternatives: Joi.boolean()
+  }),
+  exercise: Joi.object({
+    types: Joi.array().items(Joi.string().valid(...EXERCISE_TYPES)).unique(),
+    maxCount: positiveCount,
+    detailedFeedback: Joi.boolean(),
+    detailedHistory: Joi.boolean()
+  })
+});
+
+const tierPolicyOverridesSchema = Joi.object(
+  Object.fromEntries(TIERS.map(tier => [tier, tierPolicySchema]))
+).required();
+
+const mergePolicy = <T extends object>(base: T, override: PolicyOverride<T> = {}): T => {
+  const merged: any = { ...base };
+
+  Object.entries(override).forEach(([key, value]) => {
+    const current = (base as any)[key];
+    merged[key] = current && typeof current === 'object' && !Array.isArray(current)
+      ? mergePolicy(current, value as any)
+      : value;
+  });
+
+  return merged;
+};
+
+/**
+ * Parse and validate the contents of a tier policy file, as YAML for .yaml and .yml
+ * files and as JSON otherwise
+ *
+ * @throws {Error} if the contents can't be parsed or don't describe valid policies
+ */
+export const parseTierPolicyOverrides = (contents: string, filePath: string): TierPolicyOverrides => {
+  const extension = path.extname(filePath).toLowerCase();
+  const parsed = extension === '.yaml' || extension === '.yml' ? yaml.load(contents) : JSON.parse(contents);
+  const { error, value } = tierPolicyOverridesSchema.validate(parsed, { abortEarly: false });
+
+  if (error) {
+    throw new Error(`Invalid tier policies: ${error.details.map(detail => detail.message).join('; ')}`);
+  }
+
+  return value;
+};
+
+export class TierPolicyRegistry {
+  private policies: TierPolicies;
+  private watchedPath: string | null = null;
+
+  constructor(overrides: TierPolicyOverrides = {}) {
+    this.policies = this.resolve(overrides);
+  }
+
+  private resolve(overrides: TierPolicyOverrides): TierPolicies {
+    return Object.fromEntries(
+      TIERS.map(tier => [tier, mergePolicy(DEFAULT_TIER_POLICIES[tier], overrides[tier])])
+    ) as TierPolicies;
+  }
+
+  /**
+   * The policy of a tier; unknown tiers get the free tier policy
+   */
+  get(tier?: string | null): TierPolicy {
+    return this.policies[tier as UserTier] || this.policies.free;
+  }
+
+  getAll(): TierPolicies {
+    return this.policies;
+  }
+
+  /**
+   * Replace the policies with the built-in ones changed by the given overrides
+   */
+  update(overrides: TierPolicyOverrides): void {
+    this.policies = this.resolve(overrides);
+  }
+
+  /**
+   * Apply a tier policy file
+   *
+   * @throws {Error} if the file can't be read, parsed or validated
+   */
+  load(filePath: string): void {
+    this.update(parseTierPolicyOverrides(readFileSync(filePath, 'utf8'), filePath));
+    logger.info({ filePath }, 'Loaded tier policies');
+  }
+
+  /**
+   * Apply a tier policy file, and apply it again whenever it changes. A change that
+   * can't be applied is logged and the previous policies stay in effect.
+   *
+   * @throws {Error} if the file can't be applied the first time
+   */
+  watch(filePath: string, intervalMs = 2000): void {
+    this.close();
+    this.load(filePath);
+
+    this.watchedPath = filePath;
+    watchFile(filePath, { interval: intervalMs, persistent: false }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) {
+        return;
+      }
+
+      try {
+        this.load(filePath);
+      } catch (error) {
+        logger.error({ error, filePath }, 'Error reloading tier policies; keeping the previous policies');
+      }
+    });
+  }
+
+  /**
+   * Stop watching the tier policy file
+   */
+  close(): void {
+    if (this.watchedPath) {
+      unwatchFile(this.watchedPath);
+      this.watchedPath = null;
+    }
+  }
+}
+
+/**
+ * Create a registry with the policies from TIER_POLICY_PATH, watched for changes unless
+ * TIER_POLICY_WATCH is false, or the built-in policies without a file
+ */
+export const createTierPolicyRegistry = (): TierPolicyRegistry => {
+  const registry = new TierPolicyRegistry();
+  const filePath = process.env.TIER_POLICY_PATH;
+
+  if (filePath && process.env.TIER_POLICY_WATCH === 'false') {
+    registry.load(filePath);
+  } else if (filePath) {
+    registry.watch(filePath);
+  }
+
+  return registry;
+};
+
+let tierPolicyRegistry: TierPolicyRegistry = createTierPolicyRegistry();
+
+export const getTierPolicyRegistry = (): TierPolicyRegistry => tierPolicyRegistry;
+
+export const setTierPolicyRegistry = (registry: TierPolicyRegistry): void => {
+  tierPolicyRegistry = registry;
+};
+
+/**
+ * The current policy of a tier; unknown tiers get the free tier policy
+ */
+export const getTierPolicy = (tier?: string | null): TierPolicy => tierPolicyRegistry.get(tier);
@@ -0,0 +1,10 @@
+/**
+ * Offline token estimates
+ *
+ * Used where calling the provider's token counter for every piece of text would be
+ * too slow, such as trimming message history. Estimates are deliberately rough
+ * (about four characters per token).
+ */
+export const estimateTokenCount = (text: string): number => {
+  return Math.ceil(text.length / 4);
+};
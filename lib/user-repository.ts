@@ -0,0 +1,142 @@
+/**
+ * User and tier persistence for the Spanish Learning MCP Server
+ *
+ * Registered users and their access tiers are accessed through the UserRepository
+ * interface so the storage backend can be chosen by configuration:
+ * - memory: users live in process memory and are lost on restart
+ * - file: users are kept in memory and persisted to a JSON file on every change
+ * - appwrite: users are stored in the Appwrite user_tiers collection, which keeps the
+ *   user ID and tier but not the display name or roles
+ */
+import pino from 'pino';
+import {
+  FileRecordRepository,
+  InMemoryRecordRepository,
+  RecordRepository,
+  selectRecordRepository
+} from './record-repository.js';
+import { Role } from './permissions.js';
+import {
+  UserTier,
+  UserTierModel,
+  deleteUserTierDocument,
+  findUserTierDocument,
+  listUserTierDocuments,
+  saveUserTierDocument
+} from './appwrite-auth.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'user-repository'
+});
+
+export interface UserRecord {
+  id: string;
+  tier: UserTier;
+  name?: string;
+  /**
+   * Roles beyond learner, which every user has (see lib/permissions.ts)
+   */
+  roles?: Role[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type UserRepository = RecordRepository<UserRecord>;
+
+export type UserStoreType = 'memory' | 'file' | 'appwrite';
+
+export interface UserRepositoryOptions {
+  type?: UserStoreType;
+  filePath?: string;
+}
+
+export const DEFAULT_USER_STORE_PATH = './data/users.json';
+
+export class InMemoryUserRepository extends InMemoryRecordRepository<UserRecord> {
+  constructor() {
+    super({ name: 'users' });
+  }
+}
+
+const reviveUser = (raw: any): UserRecord => ({
+  ...raw,
+  createdAt: new Date(raw.createdAt),
+  updatedAt: new Date(raw.updatedAt)
+});
+
+export class FileUserRepository extends FileRecordRepository<UserRecord> {
+  constructor(filePath: string = DEFAULT_USER_STORE_PATH) {
+    super({ name: 'users', filePath, revive: reviveUser });
+  }
+}
+
+const userFromTierDocument = (doc: UserTierModel): UserRecord => ({
+  id: doc.userId,
+  tier: doc.tier,
+  createdAt: new Date(doc.$createdAt),
+  updatedAt: new Date(doc.updatedAt || doc.$updatedAt)
+});
+
+/**
+ * Adapter for the Appwrite user_tiers collection (see lib/appwrite-auth.ts)
+ */
+export class AppwriteUserRepository implements UserRepository {
+  async get(id: string): Promise<UserRecord | null> {
+    const doc = await findUserTierDocument(id);
+    return doc ? userFromTierDocument(doc) : null;
+  }
+
+  async save(user: UserRecord): Promise<void> {
+    if (user.roles?.length) {
+      logger.warn({ userId: user.id }, 'The Appwrite user store does not keep roles');
+    }
+
+    await saveUserTierDocument(user.id, user.tier);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return deleteUserTierDocument(id);
+  }
+
+  async list(): Promise<UserRecord[]> {
+    return (await listUserTierDocuments()).map(userFromTierDocument);
+  }
+
+  async count(): Promise<number> {
+    return (await listUserTierDocuments()).length;
+  }
+
+  async clear(): Promise<void> {
+    const users = await listUserTierDocuments();
+
+    for (const doc of users) {
+      await deleteUserTierDocument(doc.userId);
+    }
+  }
+
+  /**
+   * Appwrite holds no local resources
+   */
+  async close(): Promise<void> {}
+}
+
+/**
+ * Create the user repository selected by configuration
+ *
+ * Falls back to the USER_STORE and USER_STORE_PATH environment variables,
+ * and to the in-memory store when neither is set.
+ */
+export const createUserRepository = (
+  options: UserRepositoryOptions = {}
+): UserRepository => selectRecordRepository<UserRepository>(
+  'user store',
+  options.type || process.env.USER_STORE || 'memory',
+  {
+    memory: () => new InMemoryUserRepository(),
+    file: () => new FileUserRepository(
+      options.filePath || process.env.USER_STORE_PATH || DEFAULT_USER_STORE_PATH
+    ),
+    appwrite: () => new AppwriteUserRepository()
+  }
+);
@@ -0,0 +1,142 @@
+/**
+ * User registry service for the Spanish Learning MCP Server
+ *
+ * Registers users with an access tier and looks the tier up when a request is
+ * authenticated. Users that were never registered are treated as free tier users, so
+ * API key holders can use the server before an admin registers them.
+ *
+ * Users can also be given roles (see lib/permissions.ts) for access beyond learning, such
+ * as editing content or looking up other users.
+ */
+import pino from 'pino';
+import { revokeApiKeys } from './api-key-service.js';
+import { UserTier } from './appwrite-auth.js';
+import { Role, normalizeRoles } from './permissions.js';
+import { UserRecord, UserRepository, createUserRepository } from './user-repository.js';
+
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'user-service'
+});
+
+// Storage backend is selected by configuration (see createUserRepository)
+let userRepository: UserRepository = createUserRepository();
+
+export const getUserRepository = (): UserRepository => userRepository;
+
+export const setUserRepository = (repository: UserRepository): void => {
+  userRepository = repository;
+};
+
+export const getUser = async (userId: string): Promise<UserRecord | null> => {
+  return userRepository.get(userId);
+};
+
+// Learner is implied, so only the other roles are stored
+const storedRoles = (roles: Role[]): Role[] | undefined => {
+  const extra = normalizeRoles(roles).filter(role => role !== 'learner');
+  return extra.length > 0 ? extra : undefined;
+};
+
+/**
+ * Register a user with an access tier and, optionally, roles beyond learner
+ *
+ * @returns The new user, or null when the user is already registered
+ */
+export const registerUser = async (
+  userId: string,
+  tier: UserTier = 'free',
+  name?: string,
+  roles: Role[] = []
+): Promise<UserRecord | null> => {
+  if (await userRepository.get(userId)) {
+    return null;
+  }
+
+  const now = new Date();
+  const user: UserRecord = { id: userId, tier, name, roles: storedRoles(roles), createdAt: now, updatedAt: now };
+
+  await userRepository.save(user);
+  logger.info({ userId, tier, roles: user.roles }, 'Registered user');
+
+  return user;
+};
+
+/**
+ * Change the access tier of a registered user
+ *
+ * @returns The updated user, or null when the user isn't registered
+ */
+export const updateUserTier = async (userId: string, tier: UserTier): Promise<UserRecord | null> => {
+  const user = await userRepository.get(userId);
+
+  if (!user) {
+    return null;
+  }
+
+  const updated: UserRecord = { ...user, tier, updatedAt: new Date() };
+
+  await userRepository.save(updated);
+  logger.info({ userId, from: user.tier, to: tier }, 'Updated user tier');
+
+  return updated;
+};
+
+/**
+ * Replace the roles of a registered user
+ *
+ * @returns The updated user, or null when the user isn't registered
+ */
+export const updateUserRoles = async (userId: string, roles: Role[]): Promise<UserRecord | null> => {
+  const user = await userRepository.get(userId);
+
+  if (!user) {
+    return null;
+  }
+
+  const updated: UserRecord = { ...user, roles: storedRoles(roles), updatedAt: new Date() };
+
+  await userRepository.save(updated);
+  logger.info({ userId, from: user.roles || [], to: updated.roles || [] }, 'Updated user roles');
+
+  return updated;
+};
+
+/**
+ * Remove a registered user and revoke their API keys, which would otherwise keep
+ * authenticating them as a free tier learner
+ *
+ * @returns false when the user isn't registered
+ */
+export const removeUser = async (userId: string): Promise<boolean> => {
+  const removed = await userRepository.delete(userId);
+
+  if (removed) {
+    await revokeApiKeys(userId);
+    logger.info({ userId }, 'Removed user');
+  }
+
+  return removed;
+};
+
+/**
+ * The access of a user: their registered tier and roles, or a free tier learner when they
+ * aren't registered or the store can't be reached
+ */
+export const getUserAccess = async (userId: string): Promise<{ tier: UserTier; roles: Role[] }> => {
+  try {
+    const user = await userRepository.get(userId);
+    return { tier: user?.tier || 'free', roles: normalizeRoles(user?.roles) };
+  } catch (error) {
+    logger.error({ error, userId }, 'Error getting user access');
+    return { tier: 'free', roles: normalizeRoles() };
+  }
+};
+
+/**
+ * The access tier of a user: their registered tier, or free when they aren't registered
+ * or the store can't be reached
+ */
+export const getUserTier = async (userId: string): Promise<UserTier> => {
+  return (await getUserAccess(userId)).tier;
+};
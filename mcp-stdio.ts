@@ -0,0 +1,39 @@
+/**
+ * Stdio entry point for the Spanish Learning MCP protocol server
+ *
+ * Lets desktop MCP clients launch the tutor as a subprocess. The session acts on behalf
+ * of MCP_USER_ID with the MCP_USER_TIER tier (defaults: "stdio-user", "free").
+ */
+import dotenv from 'dotenv';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+
+dotenv.config();
+
+// stdout carries the JSON-RPC stream, so module loggers stay silent unless asked otherwise
+process.env.LOG_LEVEL = process.env.MCP_LOG_LEVEL || 'silent';
+
+const { createSpanishMcp } = await import('./lib/mcp-module.js');
+const { createSpanishMcpServer } = await import('./lib/mcp-server.js');
+const { getPriorityReviewWords } = await import('./lib/review-service.js');
+const { createLlmProvider } = await import('./lib/llm-provider.js');
+
+const apiKey = process.env.ANTHROPIC_API_KEY;
+if (!apiKey && process.env.LLM_PROVIDER !== 'mock') {
+  console.error('ANTHROPIC_API_KEY environment variable is required');
+  process.exit(1);
+}
+
+const tier = process.env.MCP_USER_TIER;
+
+const mcp = createSpanishMcp(apiKey || '', {
+  useAppwrite: true,
+  reviewWordProvider: getPriorityReviewWords,
+  llmProvider: createLlmProvider({ apiKey }),
+});
+
+const server = createSpanishMcpServer(mcp, {
+  id: process.env.MCP_USER_ID || 'stdio-user',
+  tier: tier === 'basic' || tier === 'premium' ? tier : 'free'
+});
+
+await server.connect(new StdioServerTransport());
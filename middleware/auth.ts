@@ -1,11 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import {
   getCurrentUser,
-  getUserTier,
   hasAccess,
   AuthenticatedUser,
   UserTier
 } from '../lib/appwrite-auth.js';
+import { getUser, getUserAccess, registerUser } from '../lib/user-service.js';
+import { ROLES, Role, Scope, isRole, isScope, normalizeRoles, resolveScopes } from '../lib/permissions.js';
+import { authenticateApiKey, issueApiKey, revokeApiKeys } from '../lib/api-key-service.js';
+import { JwtClaims, JwtVerifier, createJwtVerifier, jwtOptionsFromEnv } from '../lib/jwt.js';
 import { asyncHandler } from './async-handler.js';
 
 export interface AuthenticatedRequest extends Request {
@@ -35,9 +38,12 @@ export const appwriteAuth = asyncHandler(async (req: AuthenticatedRequest, res:
   }
 });
 
+/**
+ * Authenticate requests by the per-user API key in the x-api-key header. The user is the
+ * key's owner; an x-user-id header is ignored.
+ */
 export const apiKeyAuth = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const apiKey = req.headers['x-api-key'] as string;
-  const userId = req.headers['x-user-id'] as string;
   
   if (!apiKey) {
     return res.status(401).json({
@@ -46,28 +52,23 @@ export const apiKeyAuth = asyncHandler(async (req: AuthenticatedRequest, res: Re
     });
   }
   
-  if (!userId) {
-    return res.status(401).json({
-      error: 'Authentication required',
-      message: 'Missing user ID'
-    });
-  }
-  
-  const validApiKey = process.env.GLOBAL_API_KEY || 'default-api-key';
-  
-  if (apiKey !== validApiKey) {
-    return res.status(403).json({
-      error: 'Authentication failed',
-      message: 'Invalid API key'
-    });
-  }
-  
   try {
-    const tier = await getUserTier(userId);
+    const key = await authenticateApiKey(apiKey);
+    
+    if (!key) {
+      return res.status(403).json({
+        error: 'Authentication failed',
+        message: 'Invalid API key'
+      });
+    }
+    
+    const { tier, roles } = await getUserAccess(key.userId);
     
     req.user = {
-      id: userId,
-      tier
+      id: key.userId,
+      tier,
+      roles,
+      scopes: resolveScopes(roles)
     };
     
     next();
@@ -80,6 +81,148 @@ export const apiKeyAuth = asyncHandler(async (req: AuthenticatedRequest, res: Re
   }
 });
 
+const USER_TIERS: UserTier[] = ['free', 'basic', 'premium'];
+
+// Created on first use, so the JWT_* environment variables can be set after import
+let jwtVerifier: JwtVerifier | null = null;
+
+const getJwtVerifier = (): JwtVerifier => {
+  if (!jwtVerifier) {
+    jwtVerifier = createJwtVerifier(jwtOptionsFromEnv());
+  }
+  
+  return jwtVerifier;
+};
+
+// Claims holding several values may be arrays or space-separated strings (like `scope`)
+const claimValues = (claim: unknown): unknown[] | undefined => {
+  if (Array.isArray(claim)) {
+    return claim;
+  }
+  
+  return typeof claim === 'string' ? claim.split(' ').filter(Boolean) : undefined;
+};
+
+/**
+ * The user a token was issued to. The tier comes from the claim named by JWT_TIER_CLAIM
+ * (default `tier`) and the roles from the claim named by JWT_ROLES_CLAIM (default
+ * `roles`); either falls back to the user registry when the token doesn't carry it.
+ * A claim always takes precedence over the registry, since the identity provider is
+ * trusted to know the user's current tier and roles. Scopes in the `scope` or `scp`
+ * claim are granted on top of those of the roles.
+ */
+const userFromClaims = async (claims: JwtClaims): Promise<AuthenticatedUser> => {
+  if (!claims.sub) {
+    throw new Error('Token has no subject');
+  }
+  
+  const tierClaim = claims[process.env.JWT_TIER_CLAIM || 'tier'];
+  const claimedTier = USER_TIERS.find(tier => tier === tierClaim);
+  const claimedRoles = claimValues(claims[process.env.JWT_ROLES_CLAIM || 'roles'])?.filter(isRole);
+  const claimedScopes = (claimValues(claims.scope) ?? claimValues(claims.scp) ?? []).filter(isScope);
+  
+  // The registry is only read when the token leaves out the tier or the roles
+  const access = claimedTier && claimedRoles
+    ? { tier: claimedTier, roles: claimedRoles }
+    : await getUserAccess(claims.sub);
+  const roles = normalizeRoles(claimedRoles ?? access.roles);
+  
+  return {
+    id: claims.sub,
+    name: typeof claims.name === 'string' ? claims.name : undefined,
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+    tier: claimedTier ?? access.tier,
+    roles,
+    scopes: resolveScopes(roles, claimedScopes)
+  };
+};
+
+const bearerFailure = (res: Response, message: string) => {
+  res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+  return res.status(401).json({
+    error: 'Authentication failed',
+    message
+  });
+};
+
+/**
+ * Authenticate requests by a signed JWT in the Authorization header
+ * (`Authorization: Bearer <token>`), verified with JWT_SECRET (HS256) or the keys in
+ * JWT_JWKS_PATH (RS256)
+ */
+export const bearerAuth = asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    return res.status(401).json({
+      error: 'Authentication required',
+      message: 'Missing bearer token'
+    });
+  }
+  
+  const verifier = getJwtVerifier();
+  
+  if (verifier.algorithms.length === 0) {
+    return bearerFailure(res, 'Bearer token authentication is not configured');
+  }
+  
+  try {
+    req.user = await userFromClaims(await verifier.verify(token));
+  } catch (error) {
+    return bearerFailure(res, `Invalid bearer token: ${(error as Error).message}`);
+  }
+  
+  next();
+});
+
+/**
+ * The user behind the admin API key, who has every role
+ */
+const ADMIN_USER: AuthenticatedUser = {
+  id: 'admin',
+  tier: 'premium',
+  roles: [...ROLES],
+  scopes: resolveScopes([...ROLES])
+};
+
+/**
+ * Allow only requests with the admin API key in the x-admin-key header, which are
+ * authenticated as an admin with every scope
+ */
+export const adminKeyAuth = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (!req.headers['x-admin-key'] || req.headers['x-admin-key'] !== process.env.ADMIN_API_KEY) {
+    return res.status(403).json({ error: 'Admin API key required' });
+  }
+  
+  req.user = ADMIN_USER;
+  
+  next();
+};
+
+export type AuthMode = 'admin-key' | 'api-key' | 'jwt';
+
+const AUTHENTICATORS: Record<AuthMode, {
+  hasCredentials: (req: Request) => boolean;
+  handler: (req: AuthenticatedRequest, res: Response, next: NextFunction) => unknown;
+}> = {
+  'admin-key': { hasCredentials: req => Boolean(req.headers['x-admin-key']), handler: adminKeyAuth },
+  'api-key': { hasCredentials: req => Boolean(req.headers['x-api-key']), handler: apiKeyAuth },
+  jwt: { hasCredentials: req => /^bearer /i.test(req.headers.authorization || ''), handler: bearerAuth }
+};
+
+/**
+ * Authenticate with any of the given methods, chosen by the credentials the request
+ * carries (the first method the request has credentials for). Requests without
+ * credentials get the error of the first method.
+ */
+export const authenticate = (...modes: AuthMode[]) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const mode = modes.find(mode => AUTHENTICATORS[mode].hasCredentials(req)) ?? modes[0];
+    return AUTHENTICATORS[mode].handler(req, res, next);
+  };
+};
+
 export const requireTier = (requiredTier: 'basic' | 'premium') => {
   return asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
@@ -103,42 +246,60 @@ export const requireTier = (requiredTier: 'basic' | 'premium') => {
   });
 };
 
-export const registerUser = async (
-  userId: string, 
-  tier: UserTier = 'free', 
-  name?: string
-): Promise<boolean> => {
-  try {
-    console.log(`Registered user ${userId} with ${tier} tier`);
-    return true;
-  } catch (error) {
-    console.error('Error registering user:', error);
-    return false;
-  }
+/**
+ * Allow only users with every one of the given scopes (see lib/permissions.ts). Users
+ * authenticated without scopes have those of their roles.
+ */
+export const requireScope = (...requiredScopes: Scope[]) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        message: 'This endpoint requires authentication'
+      });
+    }
+    
+    const scopes = req.user.scopes ?? resolveScopes(req.user.roles ?? []);
+    const missing = requiredScopes.filter(scope => !scopes.includes(scope));
+    
+    if (missing.length > 0) {
+      return res.status(403).json({
+        error: 'Insufficient permissions',
+        message: `This endpoint requires the ${missing.join(', ')} scope${missing.length > 1 ? 's' : ''}`
+      });
+    }
+    
+    next();
+  };
 };
 
-export const updateUserTier = async (
-  userId: string, 
-  tier: UserTier
-): Promise<boolean> => {
-  try {
-    console.log(`Updated user ${userId} to ${tier} tier`);
-    return true;
-  } catch (error) {
-    console.error('Error updating user tier:', error);
-    return false;
-  }
-};
+// Users and tiers are kept in the user registry (see lib/user-service.ts)
+export { registerUser, updateUserTier, updateUserRoles, removeUser } from '../lib/user-service.js';
 
-export const removeUser = async (userId: string): Promise<boolean> => {
-  try {
-    console.log(`Removed user ${userId}`);
-    return true;
-  } catch (error) {
-    console.error('Error removing user:', error);
-    return false;
+/**
+ * Issue an API key for a user, registering the user with the given tier and roles first
+ * if needed
+ *
+ * @returns The API key, which is only shown this once
+ */
+export const registerApiKey = async (
+  userId: string,
+  tier: UserTier = 'free',
+  name?: string,
+  roles: Role[] = []
+): Promise<string> => {
+  if (!(await getUser(userId))) {
+    await registerUser(userId, tier, name, roles);
   }
+  
+  return (await issueApiKey(userId)).apiKey;
 };
 
-export const registerApiKey = registerUser;
-export const revokeApiKey = removeUser;
+/**
+ * Revoke one of a user's API keys by its prefix, or all of them
+ *
+ * @returns false when no active key was revoked
+ */
+export const revokeApiKey = async (userId: string, prefix?: string): Promise<boolean> => {
+  return (await revokeApiKeys(userId, prefix)) > 0;
+};
@@ -4,11 +4,13 @@ import pino from 'pino';
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  details?: string[];
   
-  constructor(message: string, statusCode: number, isOperational = true) {
+  constructor(message: string, statusCode: number, isOperational = true, details?: string[]) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = isOperational;
+    this.details = details;
     
     Error.captureStackTrace(this, this.constructor);
   }
@@ -42,6 +44,7 @@ export const errorHandler = (logger: pino.Logger) => {
     const responseBody = {
       error: {
         message: isOperational ? err.message : 'An unexpected error occurred',
+        ...(isOperational && 'details' in err && err.details ? { details: err.details } : {}),
         
         ...(process.env.NODE_ENV !== 'production' && { 
           stack: err.stack,
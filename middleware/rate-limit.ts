@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { rateLimit, Options, Store } from 'express-rate-limit';
 import { AuthenticatedRequest } from './auth';
+import { RATE_LIMIT_WINDOWS_MS, RateLimitName, getTierPolicy } from '../lib/tier-policy.js';
 
 class EnhancedMemoryStore extends Store {
   private hits: Record<string, { count: number, resetTime: number }> = {};
@@ -52,7 +53,11 @@ class EnhancedMemoryStore extends Store {
   }
 }
 
-export const createTieredRateLimiter = (options: Partial<Options> = {}) => {
+/**
+ * Limit requests per user to the number the user's tier policy allows for the named
+ * limit, within that limit's window (see lib/tier-policy.ts)
+ */
+export const createTieredRateLimiter = (limitName: RateLimitName = 'api', options: Partial<Options> = {}) => {
   const store = new EnhancedMemoryStore();
   
   const defaultOptions: Partial<Options> = {
@@ -61,20 +66,13 @@ export const createTieredRateLimiter = (options: Partial<Options> = {}) => {
     message: { error: 'Too many requests', message: 'Please try again later' }
   };
   
-  const tierLimits = {
-    free: 20,
-    basic: 100,
-    premium: 300
-  };
-  
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    const user = req.user || { tier: 'free' };
-    const limit = tierLimits[user.tier];
+    const limit = getTierPolicy(req.user?.tier).rateLimits[limitName];
     
     const rateLimiter = rateLimit({
       ...defaultOptions,
+      windowMs: RATE_LIMIT_WINDOWS_MS[limitName],
       ...options,
-      windowMs: 15 * 60 * 1000,
       max: limit,
       store,
       keyGenerator: (request) => {
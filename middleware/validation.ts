@@ -1,11 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { MOODS, TENSES, TENSE_IDS } from '../lib/conjugation.js';
+import { CEFR_LEVELS } from '../lib/cefr.js';
+import { CONTENT_KINDS, grammarRuleSchema, vocabularyItemSchema } from '../lib/content-schemas.js';
+import { CONTENT_FORMATS } from '../lib/content-formats.js';
 
+/**
+ * Validate the request body, query or route parameters against a schema, responding
+ * with 400 and the validation errors when they don't match
+ *
+ * Query parameters arrive as strings, so a valid query is replaced with the converted
+ * values (numbers, booleans, dates and defaults) for the handler to use.
+ */
 export const validateRequest = (schema: Joi.ObjectSchema, property: 'body' | 'query' | 'params' = 'body') => {
   return (req: Request, res: Response, next: NextFunction) => {
-    const { error } = schema.validate(req[property], { abortEarly: false });
+    const { error, value } = schema.validate(req[property], { abortEarly: false });
     
     if (!error) {
+      if (property === 'query') {
+        // Express 5 only defines a getter for req.query
+        Object.defineProperty(req, 'query', { value, writable: true, configurable: true, enumerable: true });
+      }
+      
       return next();
     }
     
@@ -27,8 +43,10 @@ export const schemas = {
     contextType: Joi.string().valid('vocabulary', 'grammar', 'mixed').default('vocabulary'),
     categories: Joi.array().items(Joi.string()),
     difficultyLevel: Joi.string().valid('beginner', 'intermediate', 'advanced'),
+    cefrLevel: Joi.string().valid(...CEFR_LEVELS),
     maxItems: Joi.number().integer().min(1).max(50),
-    includeExamples: Joi.boolean()
+    includeExamples: Joi.boolean(),
+    maxContextTokens: Joi.number().integer().min(100).max(100000)
   }),
   
   contextRequest: Joi.object({
@@ -38,6 +56,7 @@ export const schemas = {
       Joi.string()
     ),
     difficultyLevel: Joi.string().valid('beginner', 'intermediate', 'advanced'),
+    cefrLevel: Joi.string().valid(...CEFR_LEVELS),
     maxItems: Joi.number().integer().min(1).max(50),
     includeExamples: Joi.boolean(),
     searchTerm: Joi.string().min(1).max(100)
@@ -47,6 +66,146 @@ export const schemas = {
     userId: Joi.string().required(),
     name: Joi.string(),
     tier: Joi.string().valid('free', 'basic', 'premium').default('free')
-  })
+  }),
+  
+  startConversation: Joi.object({
+    topic: Joi.string().required().min(2).max(100),
+    // Chosen from the learner's estimated level when both are omitted
+    difficultyLevel: Joi.string().valid('beginner', 'intermediate', 'advanced'),
+    cefrLevel: Joi.string().valid(...CEFR_LEVELS),
+    participantCount: Joi.number().integer().min(1).max(3).default(2),
+    includeSlang: Joi.boolean().default(false),
+    focusAreas: Joi.array().items(Joi.string()).max(3),
+    contextSize: Joi.number().integer().min(1).max(50).default(10)
+  }),
+  
+  continueConversation: Joi.object({
+    conversationId: Joi.string().required(),
+    userMessage: Joi.string().required().min(1).max(500),
+    includeCorrections: Joi.boolean().default(true),
+    includeAlternatives: Joi.boolean().default(true)
+  }),
+  
+  getConversationHistory: Joi.object({
+    limit: Joi.number().integer().min(1).max(50).default(10),
+    offset: Joi.number().integer().min(0).default(0),
+    includeContent: Joi.boolean().default(true),
+    filterByTopic: Joi.string()
+  }),
+  
+  generateExercise: Joi.object({
+    type: Joi.string().valid(
+      'vocabulary_matching', 
+      'fill_in_blank', 
+      'multiple_choice',
+      'sentence_construction',
+      'translation',
+      'conversation_practice',
+      'error_correction',
+      'listening_comprehension'
+    ).required(),
+    // Chosen from the learner's estimated level when both are omitted
+    difficultyLevel: Joi.string().valid('beginner', 'intermediate', 'advanced'),
+    cefrLevel: Joi.string().valid(...CEFR_LEVELS),
+    focusArea: Joi.string().max(100),
+    count: Joi.number().integer().min(1).max(10).default(5),
+    specificVocabulary: Joi.array().items(Joi.string()).max(10),
+    specificGrammar: Joi.array().items(Joi.string()).max(5),
+    timeLimit: Joi.number().integer().min(0).max(3600) // in seconds, 0 means no limit
+  }),
+  
+  checkExercise: Joi.object({
+    exerciseId: Joi.string().required(),
+    answers: Joi.array().items(
+      Joi.object({
+        id: Joi.string().required(),
+        answer: Joi.alternatives().try(
+          Joi.string(),
+          Joi.number(),
+          Joi.array().items(Joi.string())
+        ).required()
+      })
+    ).required(),
+    timeTaken: Joi.number().integer().min(0) // in seconds
+  }),
+  
+  exerciseHistory: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(50).default(10),
+    from: Joi.date().iso(),
+    to: Joi.date().iso().when('from', {
+      is: Joi.exist(),
+      then: Joi.date().min(Joi.ref('from'))
+    }),
+    type: Joi.string().valid(
+      'vocabulary_matching', 
+      'fill_in_blank', 
+      'multiple_choice',
+      'sentence_construction',
+      'translation',
+      'conversation_practice',
+      'error_correction',
+      'listening_comprehension'
+    )
+  }),
+  
+  reviewDue: Joi.object({
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    includeStruggling: Joi.boolean().default(false)
+  }),
+  
+  reviewGrade: Joi.object({
+    grade: Joi.number().integer().min(0).max(5).required() // 0 = forgot, 5 = perfect recall
+  }),
+  
+  conjugate: Joi.object({
+    mood: Joi.string().valid(...MOODS),
+    tense: Joi.string().valid(...TENSES)
+  }).with('tense', 'mood'),
+  
+  conjugationExercises: Joi.object({
+    verbs: Joi.array().items(Joi.string().max(50)).max(20),
+    tenses: Joi.array().items(Joi.string().valid(...TENSE_IDS)).max(20),
+    difficultyLevel: Joi.string().valid('beginner', 'intermediate', 'advanced').default('beginner'),
+    count: Joi.number().integer().min(1).max(10).default(5),
+    timeLimit: Joi.number().integer().min(0).max(3600) // in seconds, 0 means no limit
+  }),
+  
+  contentKind: Joi.object({
+    kind: Joi.string().valid(...CONTENT_KINDS).required()
+  }),
+  
+  contentImport: Joi.object({
+    // Detected from the file name or the content when omitted
+    format: Joi.string().valid(...CONTENT_FORMATS),
+    filename: Joi.string().max(255),
+    dryRun: Joi.boolean().default(false),
+    onConflict: Joi.string().valid('update', 'skip').default('update'),
+    // Defaults for rows that leave these fields empty
+    category: Joi.string().max(50),
+    difficultyLevel: Joi.string().valid('beginner', 'intermediate', 'advanced'),
+    cefrLevel: Joi.string().valid(...CEFR_LEVELS)
+  }),
+  
+  contentExport: Joi.object({
+    format: Joi.string().valid(...CONTENT_FORMATS).default('json')
+  }),
+  
+  contentList: Joi.object({
+    category: Joi.string().max(50),
+    difficultyLevel: Joi.string().valid('beginner', 'intermediate', 'advanced'),
+    cefrLevel: Joi.string().valid(...CEFR_LEVELS),
+    search: Joi.string().min(1).max(100),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+    offset: Joi.number().integer().min(0).default(0)
+  }),
+  
+  contentId: Joi.object({
+    id: Joi.string().required().max(255)
+  }),
+  
+  vocabularyItem: vocabularyItemSchema,
+  
+  grammarRule: grammarRuleSchema
 };
 
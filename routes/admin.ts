@@ -0,0 +1,119 @@
+/**
+ * Admin content management routes for the Spanish Learning MCP Server
+ *
+ * These routes list, create, replace and delete single vocabulary items and grammar
+ * rules. Items are validated against the word, grammar and difficulty categories of the
+ * Appwrite collections, and every change clears the cached contexts that could include
+ * the changed content. Listing and reading require the content:read scope, changes the
+ * content:write scope (see lib/permissions.ts).
+ */
+import express, { Request, Response } from 'express';
+import Joi from 'joi';
+import { createSpanishMcp } from '../lib/mcp-module.js';
+import {
+  ContentListFilters,
+  createContentItem,
+  deleteContentItem,
+  getContentItem,
+  listContentItems,
+  updateContentItem
+} from '../lib/content-service.js';
+import { ContentKind } from '../lib/content-schemas.js';
+import { validateRequest, schemas } from '../middleware/validation.js';
+import { requireScope } from '../middleware/auth.js';
+import { catchAsync } from '../middleware/error.js';
+
+const router = express.Router();
+
+let mcpInstance: ReturnType<typeof createSpanishMcp>;
+
+export const initAdminRoutes = (mcp: ReturnType<typeof createSpanishMcp>) => {
+  mcpInstance = mcp;
+  return router;
+};
+
+const ITEM_SCHEMAS: Record<ContentKind, Joi.ObjectSchema> = {
+  vocabulary: schemas.vocabularyItem,
+  grammar: schemas.grammarRule
+};
+
+(Object.keys(ITEM_SCHEMAS) as ContentKind[]).forEach(kind => {
+  /**
+   * List vocabulary or grammar
+   * GET /api/admin/vocabulary, GET /api/admin/grammar
+   *
+   * Query parameters: category, difficultyLevel, cefrLevel, search (matched against the
+   * word and translation, or the title and explanation), limit and offset. Returns the
+   * items with their IDs and the total number of matches.
+   */
+  router.get(
+    `/${kind}`,
+    requireScope('content:read'),
+    validateRequest(schemas.contentList, 'query'),
+    catchAsync(async (req: Request, res: Response) => {
+      res.json(await listContentItems(mcpInstance, kind, req.query as ContentListFilters));
+    })
+  );
+
+  /**
+   * Get a vocabulary item or grammar rule
+   * GET /api/admin/vocabulary/:id, GET /api/admin/grammar/:id
+   */
+  router.get(
+    `/${kind}/:id`,
+    requireScope('content:read'),
+    validateRequest(schemas.contentId, 'params'),
+    catchAsync(async (req: Request, res: Response) => {
+      res.json(await getContentItem(mcpInstance, kind, req.params.id as string));
+    })
+  );
+
+  /**
+   * Create a vocabulary item or grammar rule
+   * POST /api/admin/vocabulary, POST /api/admin/grammar
+   *
+   * Responds with 409 when an item with the same word and category (vocabulary) or
+   * title (grammar) already exists.
+   */
+  router.post(
+    `/${kind}`,
+    requireScope('content:write'),
+    validateRequest(ITEM_SCHEMAS[kind], 'body'),
+    catchAsync(async (req: Request, res: Response) => {
+      res.status(201).json(await createContentItem(mcpInstance, kind, req.body));
+    })
+  );
+
+  /**
+   * Replace a vocabulary item or grammar rule
+   * PUT /api/admin/vocabulary/:id, PUT /api/admin/grammar/:id
+   *
+   * The body is the whole item. Items from custom data are identified by their word and
+   * category or title, so the response carries the new ID when these change.
+   */
+  router.put(
+    `/${kind}/:id`,
+    requireScope('content:write'),
+    validateRequest(schemas.contentId, 'params'),
+    validateRequest(ITEM_SCHEMAS[kind], 'body'),
+    catchAsync(async (req: Request, res: Response) => {
+      res.json(await updateContentItem(mcpInstance, kind, req.params.id as string, req.body));
+    })
+  );
+
+  /**
+   * Delete a vocabulary item or grammar rule
+   * DELETE /api/admin/vocabulary/:id, DELETE /api/admin/grammar/:id
+   */
+  router.delete(
+    `/${kind}/:id`,
+    requireScope('content:write'),
+    validateRequest(schemas.contentId, 'params'),
+    catchAsync(async (req: Request, res: Response) => {
+      await deleteContentItem(mcpInstance, kind, req.params.id as string);
+      res.status(204).send();
+    })
+  );
+});
+
+export default router;
@@ -0,0 +1,88 @@
+/**
+ * Content administration routes for the Spanish Learning MCP Server
+ *
+ * These routes import and export vocabulary and grammar in bulk, as JSON, CSV or Anki
+ * decks (.apkg or tab-separated text). Importing requires the content:write scope,
+ * exporting the content:read scope.
+ */
+import express, { Request, Response } from 'express';
+import { createSpanishMcp } from '../lib/mcp-module.js';
+import { ContentDefaults, ImportOptions, exportContent, importContent } from '../lib/content-service.js';
+import { ContentFormat } from '../lib/content-formats.js';
+import { ContentKind } from '../lib/content-schemas.js';
+import { validateRequest, schemas } from '../middleware/validation.js';
+import { requireScope } from '../middleware/auth.js';
+import { catchAsync } from '../middleware/error.js';
+
+const router = express.Router();
+
+let mcpInstance: ReturnType<typeof createSpanishMcp>;
+
+export const initContentRoutes = (mcp: ReturnType<typeof createSpanishMcp>) => {
+  mcpInstance = mcp;
+  return router;
+};
+
+// Query parameters of an import: the import options, with the defaults given one by one
+type ImportQuery = Omit<ImportOptions, 'defaults'> & ContentDefaults;
+
+// Files are uploaded as the raw request body; the app's JSON and form parsers skip this route
+const rawBody = express.raw({ type: () => true, limit: '20mb' });
+
+const bodyBuffer = (body: unknown): Buffer => {
+  return Buffer.isBuffer(body) ? body : Buffer.alloc(0);
+};
+
+/**
+ * Import vocabulary or grammar
+ * POST /api/admin/content/:kind/import
+ *
+ * Body: the file. Query parameters: format (json, csv, tsv or apkg; detected when
+ * omitted), filename, dryRun (validate without saving), onConflict (update or skip
+ * existing items), and category, difficultyLevel and cefrLevel as defaults for rows
+ * that leave them empty. Returns counts of created, updated, unchanged and skipped
+ * items with the duplicate and invalid rows.
+ */
+router.post(
+  '/:kind/import',
+  requireScope('content:write'),
+  validateRequest(schemas.contentKind, 'params'),
+  validateRequest(schemas.contentImport, 'query'),
+  rawBody,
+  catchAsync(async (req: Request, res: Response) => {
+    const { category, difficultyLevel, cefrLevel, ...options } = req.query as ImportQuery;
+
+    const report = await importContent(mcpInstance, req.params.kind as ContentKind, bodyBuffer(req.body), {
+      ...options,
+      defaults: { category, difficultyLevel, cefrLevel }
+    });
+
+    res.json({ report });
+  })
+);
+
+/**
+ * Export vocabulary or grammar
+ * GET /api/admin/content/:kind/export
+ *
+ * Query parameters: format (json, csv, tsv or apkg; defaults to json). Responds with
+ * the file as an attachment.
+ */
+router.get(
+  '/:kind/export',
+  requireScope('content:read'),
+  validateRequest(schemas.contentKind, 'params'),
+  validateRequest(schemas.contentExport, 'query'),
+  catchAsync(async (req: Request, res: Response) => {
+    const { format } = req.query as { format: ContentFormat };
+    const file = await exportContent(mcpInstance, req.params.kind as ContentKind, format);
+
+    res
+      .status(200)
+      .type(file.contentType)
+      .attachment(file.filename)
+      .send(file.data);
+  })
+);
+
+export default router;
@@ -1,5 +1,7 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { createSpanishMcp, ContextType, ContextOptions } from '../lib/mcp-module.js';
+import { createSpanishMcp, ContextType, ContextOptions, toAccessTier } from '../lib/mcp-module.js';
+import { CefrLevel } from '../lib/appwrite.js';
+import { getTierPolicy } from '../lib/tier-policy.js';
 import { validateRequest, schemas } from '../middleware/validation.js';
 import { requireTier, AuthenticatedRequest } from '../middleware/auth.js';
 import { catchAsync, AppError } from '../middleware/error.js';
@@ -46,17 +48,20 @@ router.get(
           [req.query.categories as string]) :
         undefined,
       difficultyLevel: req.query.difficultyLevel as string || undefined,
-      searchTerm: req.query.searchTerm as string || undefined
+      cefrLevel: req.query.cefrLevel as CefrLevel || undefined,
+      searchTerm: req.query.searchTerm as string || undefined,
+      accessTier: toAccessTier(req.user?.tier)
     });
     
-    const context = await mcpInstance.getContext(options);
+    const { context, report } = await mcpInstance.buildContext(options);
     
     res.json({
       context,
       metadata: {
         length: context.length,
         tier: req.user?.tier,
-        isPremium: true
+        isPremium: true,
+        context: report
       }
     });
   })
@@ -86,12 +91,8 @@ router.get(
   catchAsync(async (req: AuthenticatedRequest, res: Response) => {
     const contextType = req.query.type as string || 'vocabulary';
     
-    let maxItems = Number(req.query.maxItems) || 10;
-    if (req.user?.tier === 'free' && maxItems > 5) {
-      maxItems = 5;
-    } else if (req.user?.tier === 'basic' && maxItems > 20) {
-      maxItems = 20;
-    }
+    const maxAllowed = getTierPolicy(req.user?.tier).context.maxItems;
+    const maxItems = Math.min(Number(req.query.maxItems) || 10, maxAllowed);
     
     const options = new ContextOptions({
       contextType: contextType as ContextType,
@@ -103,17 +104,20 @@ router.get(
           [req.query.categories as string]) : 
         undefined,
       difficultyLevel: req.query.difficultyLevel as string || undefined,
-      searchTerm: req.query.searchTerm as string || undefined
+      cefrLevel: req.query.cefrLevel as CefrLevel || undefined,
+      searchTerm: req.query.searchTerm as string || undefined,
+      accessTier: toAccessTier(req.user?.tier)
     });
     
-    const context = await mcpInstance.getContext(options);
+    const { context, report } = await mcpInstance.buildContext(options);
     
     res.json({ 
       context,
       metadata: {
         length: context.length,
         tier: req.user?.tier,
-        maxAllowed: req.user?.tier === 'premium' ? 50 : (req.user?.tier === 'basic' ? 20 : 5)
+        maxAllowed,
+        context: report
       }
     });
   })
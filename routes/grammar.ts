@@ -0,0 +1,74 @@
+/**
+ * Grammar routes for the Spanish Learning MCP Server
+ *
+ * These routes expose the conjugation engine: verb conjugation tables, and
+ * conjugation drills generated without calling the language model.
+ * Available to all authenticated users; drills follow the fill_in_blank tier rules.
+ */
+import express, { Response } from 'express';
+import { Mood, Tense, conjugate } from '../lib/conjugation.js';
+import { generateConjugationExerciseSet } from '../lib/exercise-service.js';
+import { validateRequest, schemas } from '../middleware/validation.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { AppError, catchAsync } from '../middleware/error.js';
+
+const router = express.Router();
+
+/**
+ * Conjugate a verb
+ * GET /api/grammar/conjugate/:verb
+ *
+ * Query parameters: mood (indicative, subjunctive or imperative), tense (requires mood).
+ * Without them, every tense of every mood is returned.
+ */
+router.get(
+  '/conjugate/:verb',
+  validateRequest(schemas.conjugate, 'query'),
+  catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    const conjugation = conjugate(req.params.verb);
+
+    if (!conjugation) {
+      throw new AppError(`"${req.params.verb}" is not a Spanish infinitive`, 400);
+    }
+
+    const mood = req.query.mood as Mood | undefined;
+    const tense = req.query.tense as Tense | undefined;
+
+    if (!mood) {
+      return res.json({ conjugation });
+    }
+
+    const { indicative, subjunctive, imperative, ...verb } = conjugation;
+    const tables = conjugation[mood] as Record<string, unknown>;
+
+    if (tense && !(tense in tables)) {
+      throw new AppError(`The ${mood} mood has no "${tense}" tense`, 400);
+    }
+
+    res.json({
+      conjugation: {
+        ...verb,
+        [mood]: tense ? { [tense]: tables[tense] } : tables
+      }
+    });
+  })
+);
+
+/**
+ * Generate conjugation exercises without the language model
+ * POST /api/grammar/conjugation-exercises
+ *
+ * Body: { verbs, tenses (as mood.tense), difficultyLevel, count, timeLimit }. The set is
+ * checked with POST /api/exercise/check like any generated exercise set.
+ */
+router.post(
+  '/conjugation-exercises',
+  validateRequest(schemas.conjugationExercises),
+  catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await generateConjugationExerciseSet(req.user, req.body);
+
+    res.json(result);
+  })
+);
+
+export default router;
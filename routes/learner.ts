@@ -0,0 +1,36 @@
+/**
+ * Learner routes for the Spanish Learning MCP Server
+ *
+ * These routes expose what the server has learned about a learner from their graded
+ * exercises and conversation corrections. Available to all authenticated users.
+ */
+import express, { Response } from 'express';
+import { getLearnerLevels, getLearnerProfile } from '../lib/learner-service.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { catchAsync } from '../middleware/error.js';
+
+const router = express.Router();
+
+/**
+ * Get the learner's error profile
+ * GET /api/learner/profile
+ *
+ * Returns weaknesses and strengths by mistake category (weighted towards recent answers
+ * and corrections), recommended exercise types and focus areas for the weaknesses, the
+ * statistics of every category, and the estimated level (A1 to C2) overall, per skill
+ * and per grammar category.
+ */
+router.get(
+  '/profile',
+  catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    const [profile, levels] = await Promise.all([getLearnerProfile(req.user), getLearnerLevels(req.user)]);
+
+    res.json({
+      profile,
+      levels,
+      tier: req.user?.tier
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,123 @@
+/**
+ * Streamable HTTP transport for the Model Context Protocol server
+ *
+ * Runs in stateless mode: every POST gets a fresh server bound to the authenticated user,
+ * so the tier checks from apiKeyAuth apply to MCP clients too. Tool calls count against
+ * the same tiered rate limits as the REST routes that do the same work.
+ */
+import express, { NextFunction, Response } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createSpanishMcp } from '../lib/mcp-module.js';
+import { createSpanishMcpServer } from '../lib/mcp-server.js';
+import { RateLimitName } from '../lib/tier-policy.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { catchAsync } from '../middleware/error.js';
+
+type RateLimiter = (req: AuthenticatedRequest, res: Response, next: NextFunction) => void;
+
+const router = express.Router();
+
+// Initialization happens at the application level so we receive the mcp instance
+let mcpInstance: ReturnType<typeof createSpanishMcp>;
+let toolRateLimiters: Partial<Record<RateLimitName, RateLimiter>> = {};
+
+/**
+ * The limit each tool counts against, besides the api limit applied to every request
+ */
+const TOOL_RATE_LIMITS: Record<string, RateLimitName> = {
+  start_conversation: 'conversation',
+  continue_conversation: 'conversation',
+  generate_exercises: 'exercise',
+  check_exercise: 'exercise'
+};
+
+/**
+ * @param mcp - The SpanishMcp instance to expose
+ * @param rateLimiters - The limiters of the REST routes, shared so that MCP tool calls and
+ * REST requests use up the same allowance
+ */
+export const initMcpProtocolRoutes = (
+  mcp: ReturnType<typeof createSpanishMcp>,
+  rateLimiters: Partial<Record<RateLimitName, RateLimiter>> = {}
+) => {
+  mcpInstance = mcp;
+  toolRateLimiters = rateLimiters;
+  return router;
+};
+
+/**
+ * Apply the limiters of the tools called by a JSON-RPC message or batch, one after another
+ */
+const limitToolCalls = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const messages: unknown[] = Array.isArray(req.body) ? req.body : [req.body];
+  const limitNames = new Set<RateLimitName>();
+
+  messages.forEach(message => {
+    const { method, params } = (message || {}) as { method?: unknown; params?: { name?: unknown } };
+    const limitName = method === 'tools/call' && typeof params?.name === 'string'
+      ? TOOL_RATE_LIMITS[params.name]
+      : undefined;
+
+    if (limitName) {
+      limitNames.add(limitName);
+    }
+  });
+
+  const limiters = [...limitNames]
+    .map(limitName => toolRateLimiters[limitName])
+    .filter((limiter): limiter is RateLimiter => Boolean(limiter));
+
+  const run = (index: number, error?: unknown): void => {
+    if (error || index === limiters.length) {
+      next(error);
+      return;
+    }
+
+    limiters[index](req, res, (err?: unknown) => run(index + 1, err));
+  };
+
+  run(0);
+};
+
+/**
+ * MCP JSON-RPC endpoint
+ * POST /mcp
+ */
+router.post(
+  '/',
+  limitToolCalls,
+  catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    const server = createSpanishMcpServer(mcpInstance, req.user);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined
+    });
+
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  })
+);
+
+/**
+ * Session streams are not supported in stateless mode
+ * GET /mcp, DELETE /mcp
+ */
+const methodNotAllowed = (req: AuthenticatedRequest, res: Response) => {
+  res.status(405).json({
+    jsonrpc: '2.0',
+    error: {
+      code: -32000,
+      message: 'Method not allowed'
+    },
+    id: null
+  });
+};
+
+router.get('/', methodNotAllowed);
+router.delete('/', methodNotAllowed);
+
+export default router;
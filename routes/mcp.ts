@@ -1,63 +1,12 @@
-/**
- * Advanced MCP query endpoint with more capabilities
- * POST /api/mcp/query/advanced
- * 
- * Requires premium tier access
- */
-router.post(
-  '/query/advanced',
-  validateRequest(schemas.mcpQuery),
-  requireTier('premium'),
-  catchAsync(async (req: AuthenticatedRequest, res: Response) => {
-    const { 
-      query, 
-      contextType = ContextType.VOCABULARY, 
-      maxItems = 50, 
-      includeExamples = true,
-      categories,
-      difficultyLevel,
-      // Advanced options
-      temperature = 0.7,
-      maxTokens = 2000
-    } = req.body;
-    
-    const options = new ContextOptions({
-      contextType,
-      maxItems,
-      includeExamples,
-      categories,
-      difficultyLevel
-    });
-    
-    // Advanced options for premium users
-    const advancedOptions = {
-      temperature,
-      maxTokens
-    };
-    
-    // This is a placeholder for a more advanced query method
-    // In a real implementation, we would modify the mcp-module.js to support these parameters
-    const response = await mcpInstance.queryWithContext(query, options);
-    
-    res.json({ 
-      response,
-      user: {
-        tier: req.user?.tier,
-        id: req.user?.id
-      },
-      advanced: advancedOptions
-    });
-  })
-);
-
 /**
  * MCP query routes for the Spanish Learning MCP Server
  */
 import express, { Request, Response, NextFunction } from 'express';
-import { createSpanishMcp, ContextType, ContextOptions } from '../lib/mcp-module.js';
+import { createSpanishMcp, ContextType, ContextOptions, toAccessTier } from '../lib/mcp-module.js';
 import { validateRequest, schemas } from '../middleware/validation.js';
 import { requireTier, AuthenticatedRequest } from '../middleware/auth.js';
 import { catchAsync, AppError } from '../middleware/error.js';
+import { openSseStream, pipeSseEvents } from '../lib/sse.js';
 
 const router = express.Router();
 
@@ -77,7 +26,7 @@ router.post(
   '/query',
   validateRequest(schemas.mcpQuery),
   catchAsync(async (req: AuthenticatedRequest, res: Response) => {
-    const { query, contextType = ContextType.VOCABULARY, maxItems = 10, includeExamples = true, categories, difficultyLevel } = req.body;
+    const { query, contextType = ContextType.VOCABULARY, maxItems = 10, includeExamples = true, categories, difficultyLevel, cefrLevel, maxContextTokens } = req.body;
     
     // Create options object with all parameters
     const options = new ContextOptions({
@@ -85,12 +34,16 @@ router.post(
       maxItems,
       includeExamples,
       categories,
-      difficultyLevel
+      difficultyLevel,
+      cefrLevel,
+      maxContextTokens,
+      accessTier: toAccessTier(req.user?.tier),
+      userId: req.user?.id
     });
     
-    // Premium tier users get priority access to larger contexts
+    // Premium tier users get the largest context their tier policy allows
     if (req.user?.tier === 'premium') {
-      options.maxItems = Math.max(options.maxItems, 50);
+      options.maxItems = Math.max(options.maxItems, mcpInstance.tierPolicy(options.accessTier).context.maxItems);
     }
     
     const response = await mcpInstance.queryWithContext(query, options);
@@ -108,5 +61,101 @@ router.post(
   })
 );
 
+/**
+ * Streaming MCP query endpoint
+ * POST /api/mcp/query/stream
+ * 
+ * Accepts the same body as POST /api/mcp/query and streams the response as
+ * Server-Sent Events: `delta` events with `{ text }`, then a `done` event with
+ * `{ response, metadata }` (processing time and token usage), or an `error` event.
+ * Requests over the tier's query limit get a 429 before the stream opens.
+ */
+router.post(
+  '/query/stream',
+  validateRequest(schemas.mcpQuery),
+  catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    const { query, contextType = ContextType.VOCABULARY, maxItems = 10, includeExamples = true, categories, difficultyLevel, cefrLevel, maxContextTokens } = req.body;
+    
+    const options = new ContextOptions({
+      contextType,
+      maxItems,
+      includeExamples,
+      categories,
+      difficultyLevel,
+      cefrLevel,
+      maxContextTokens,
+      accessTier: toAccessTier(req.user?.tier),
+      userId: req.user?.id
+    });
+    
+    // Premium tier users get the largest context their tier policy allows
+    if (req.user?.tier === 'premium') {
+      options.maxItems = Math.max(options.maxItems, mcpInstance.tierPolicy(options.accessTier).context.maxItems);
+    }
+    
+    // Built before the stream opens, so a rate-limited query is answered with a 429
+    const context = await mcpInstance.buildContext(options);
+    
+    const stream = openSseStream(res);
+    await pipeSseEvents(stream, mcpInstance.streamQueryWithContext(query, options, { context }, stream.signal));
+  })
+);
+
+/**
+ * Advanced MCP query endpoint with more capabilities
+ * POST /api/mcp/query/advanced
+ * 
+ * Requires premium tier access
+ */
+router.post(
+  '/query/advanced',
+  validateRequest(schemas.mcpQuery),
+  requireTier('premium'),
+  catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    const { 
+      query, 
+      contextType = ContextType.VOCABULARY, 
+      maxItems = 50, 
+      includeExamples = true,
+      categories,
+      difficultyLevel,
+      cefrLevel,
+      maxContextTokens,
+      // Advanced options
+      temperature = 0.7,
+      maxTokens = 2000
+    } = req.body;
+    
+    const options = new ContextOptions({
+      contextType,
+      maxItems,
+      includeExamples,
+      categories,
+      difficultyLevel,
+      cefrLevel,
+      maxContextTokens,
+      accessTier: toAccessTier(req.user?.tier),
+      userId: req.user?.id
+    });
+    
+    // Advanced options for premium users
+    const advancedOptions = {
+      temperature,
+      maxTokens
+    };
+    
+    const response = await mcpInstance.queryWithContext(query, options, advancedOptions);
+    
+    res.json({ 
+      response,
+      user: {
+        tier: req.user?.tier,
+        id: req.user?.id
+      },
+      advanced: advancedOptions
+    });
+  })
+);
+
 export default router;
 
@@ -0,0 +1,77 @@
+/**
+ * Vocabulary review routes for the Spanish Learning MCP Server
+ * 
+ * These routes expose the spaced repetition scheduler. Learners grade how well
+ * they remembered a word, and the scheduler decides when it is due again.
+ * Available to all authenticated users.
+ */
+import express, { Response } from 'express';
+import { DueReviewsParams, getDueReviews, gradeReview, getReviewRepository } from '../lib/review-service.js';
+import { ReviewGrade } from '../lib/review-scheduler.js';
+import { validateRequest, schemas } from '../middleware/validation.js';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { catchAsync } from '../middleware/error.js';
+import pino from 'pino';
+
+const router = express.Router();
+
+// Set up logger
+const logger = pino({
+  level: process.env.LOG_LEVEL || 'info',
+  name: 'review-routes'
+});
+
+/**
+ * List words due for review
+ * GET /api/review/due
+ * 
+ * Query parameters: limit, includeStruggling (also list struggling words that aren't due yet)
+ */
+router.get(
+  '/due',
+  validateRequest(schemas.reviewDue, 'query'),
+  catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await getDueReviews(req.user, req.query as DueReviewsParams);
+    
+    res.json({
+      ...result,
+      tier: req.user?.tier
+    });
+  })
+);
+
+/**
+ * Grade a review of a word
+ * POST /api/review/:word/grade
+ * 
+ * Body: { grade } from 0 (forgot) to 5 (perfect recall). Returns the word's new schedule.
+ */
+router.post(
+  '/:word/grade',
+  validateRequest(schemas.reviewGrade),
+  catchAsync(async (req: AuthenticatedRequest, res: Response) => {
+    const review = await gradeReview(req.user, req.params.word, req.body.grade as ReviewGrade);
+    
+    res.json({ review });
+  })
+);
+
+/**
+ * Server shutdown cleanup handler
+ * 
+ * @description Closes the review repository. The in-memory store releases its cards,
+ * while the file store waits for pending writes.
+ * 
+ * @export
+ * @returns {Promise<void>}
+ */
+export async function cleanupReviewResources(): Promise<void> {
+  try {
+    await getReviewRepository().close();
+    logger.info('Review resources cleaned up successfully');
+  } catch (error) {
+    logger.error({ error }, 'Error cleaning up review resources');
+  }
+}
+
+export default router;
@@ -0,0 +1,65 @@
+/**
+ * Tier routes for the Spanish Learning MCP Server
+ *
+ * These routes describe what each access tier is entitled to, as set by the current tier
+ * policies (see lib/tier-policy.ts), so clients can show plans and their limits. Public.
+ */
+import express, { Request, Response } from 'express';
+import { UserTier } from '../lib/appwrite-auth.js';
+import { cefrLevelsForTier, difficultiesForTier } from '../lib/cefr.js';
+import { RATE_LIMIT_WINDOWS_MS, RateLimitName, TIERS, getTierPolicy } from '../lib/tier-policy.js';
+import { catchAsync, AppError } from '../middleware/error.js';
+
+const router = express.Router();
+
+const describeTier = (tier: UserTier) => {
+  const { description, context, rateLimits, conversation, exercise } = getTierPolicy(tier);
+
+  return {
+    tier,
+    description,
+    context,
+    rateLimits: Object.fromEntries(
+      (Object.keys(RATE_LIMIT_WINDOWS_MS) as RateLimitName[]).map(name => [
+        name,
+        { requests: rateLimits[name], windowSeconds: RATE_LIMIT_WINDOWS_MS[name] / 1000 }
+      ])
+    ),
+    conversation: {
+      ...conversation,
+      cefrLevels: cefrLevelsForTier(tier),
+      difficultyLevels: difficultiesForTier(tier)
+    },
+    exercise
+  };
+};
+
+/**
+ * List the entitlements of every tier
+ * GET /api/tiers
+ */
+router.get(
+  '/',
+  catchAsync(async (req: Request, res: Response) => {
+    res.json({ tiers: TIERS.map(describeTier) });
+  })
+);
+
+/**
+ * Get the entitlements of one tier
+ * GET /api/tiers/:tier
+ */
+router.get(
+  '/:tier',
+  catchAsync(async (req: Request, res: Response) => {
+    const tier = req.params.tier as UserTier;
+
+    if (!TIERS.includes(tier)) {
+      throw new AppError(`Unknown tier "${tier}"`, 404);
+    }
+
+    res.json(describeTier(tier));
+  })
+);
+
+export default router;
@@ -26,6 +26,8 @@ const COLLECTIONS = {
   VOCABULARY: process.env.APPWRITE_VOCABULARY_COLLECTION_ID || '681d8c0e003633624604',
   GRAMMAR: process.env.APPWRITE_GRAMMAR_COLLECTION_ID || 'grammar',
   USER_PROGRESS: process.env.APPWRITE_USER_PROGRESS_COLLECTION_ID || 'user_progress',
+  CONVERSATION_TEMPLATES: process.env.APPWRITE_CONVERSATION_TEMPLATES_COLLECTION_ID || 'conversation_templates',
+  EXERCISE_BANK: process.env.APPWRITE_EXERCISE_BANK_COLLECTION_ID || 'exercise_bank',
 };
 
 const client = new Client();
@@ -183,6 +185,23 @@ async function createVocabularyCollection() {
         }
       }
       
+      try {
+        await databases.createEnumAttribute(
+          DATABASE_ID,
+          COLLECTIONS.VOCABULARY,
+          'cefrLevel',
+          ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'],
+          false
+        );
+        console.log('Created cefrLevel attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('cefrLevel attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
       try {
         await databases.createStringAttribute(
           DATABASE_ID,
@@ -375,6 +394,23 @@ async function createGrammarCollection() {
         }
       }
       
+      try {
+        await databases.createEnumAttribute(
+          DATABASE_ID,
+          COLLECTIONS.GRAMMAR,
+          'cefrLevel',
+          ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'],
+          false
+        );
+        console.log('Created cefrLevel attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('cefrLevel attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
       try {
         await databases.createStringAttribute(
           DATABASE_ID,
@@ -592,6 +628,390 @@ async function createUserProgressCollection() {
   }
 }
 
+/**
+ * Create the ConversationTemplates collection if it doesn't exist
+ */
+async function createConversationTemplatesCollection() {
+  try {
+    console.log('Attempting to create ConversationTemplates collection...');
+    
+    try {
+      await databases.createCollection(
+        DATABASE_ID,
+        COLLECTIONS.CONVERSATION_TEMPLATES,
+        'Conversation Templates',
+        [
+          Permission.read(Role.any()),
+          Permission.create(Role.users()),
+          Permission.update(Role.users()),
+          Permission.delete(Role.users()),
+        ]
+      );
+      console.log(`ConversationTemplates collection created with ID: ${COLLECTIONS.CONVERSATION_TEMPLATES}`);
+    } catch (error) {
+      if (error.type === 'collection_already_exists' || error.code === 409) {
+        console.log(`ConversationTemplates collection already exists with ID: ${COLLECTIONS.CONVERSATION_TEMPLATES}`);
+      } else {
+        throw error;
+      }
+    }
+      console.log('Creating attributes for ConversationTemplates collection...');
+      
+      try {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          COLLECTIONS.CONVERSATION_TEMPLATES,
+          'topicId',
+          255,
+          true
+        );
+        console.log('Created topicId attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('topicId attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          COLLECTIONS.CONVERSATION_TEMPLATES,
+          'title',
+          255,
+          true
+        );
+        console.log('Created title attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('title attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          COLLECTIONS.CONVERSATION_TEMPLATES,
+          'context',
+          1000,
+          true
+        );
+        console.log('Created context attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('context attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          COLLECTIONS.CONVERSATION_TEMPLATES,
+          'participants',
+          255,
+          true,
+          undefined,
+          true
+        );
+        console.log('Created participants attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('participants attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          COLLECTIONS.CONVERSATION_TEMPLATES,
+          'turns',
+          2000,
+          true,
+          undefined,
+          true
+        );
+        console.log('Created turns attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('turns attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createEnumAttribute(
+          DATABASE_ID,
+          COLLECTIONS.CONVERSATION_TEMPLATES,
+          'difficultyLevel',
+          ['beginner', 'intermediate', 'advanced'],
+          true
+        );
+        console.log('Created difficultyLevel attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('difficultyLevel attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createEnumAttribute(
+          DATABASE_ID,
+          COLLECTIONS.CONVERSATION_TEMPLATES,
+          'cefrLevel',
+          ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'],
+          false
+        );
+        console.log('Created cefrLevel attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('cefrLevel attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          COLLECTIONS.CONVERSATION_TEMPLATES,
+          'focusAreas',
+          255,
+          false,
+          undefined,
+          true
+        );
+        console.log('Created focusAreas attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('focusAreas attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createIndex(
+          DATABASE_ID,
+          COLLECTIONS.CONVERSATION_TEMPLATES,
+          'topic_difficulty_index',
+          'key',
+          ['topicId', 'difficultyLevel'],
+          ['ASC', 'ASC']
+        );
+        console.log('Created topic_difficulty_index');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('topic_difficulty_index already exists');
+        } else if (error.type === 'index_invalid' || error.code === 400) {
+          console.log('Could not create topic_difficulty_index due to length limitations');
+        } else {
+          throw error;
+        }
+      }
+      
+      console.log('ConversationTemplates collection attributes and indexes created successfully');
+  } catch (error) {
+    console.error('Error creating ConversationTemplates collection:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create the ExerciseBank collection if it doesn't exist
+ */
+async function createExerciseBankCollection() {
+  try {
+    console.log('Attempting to create ExerciseBank collection...');
+    
+    try {
+      await databases.createCollection(
+        DATABASE_ID,
+        COLLECTIONS.EXERCISE_BANK,
+        'Exercise Bank',
+        [
+          Permission.read(Role.any()),
+          Permission.create(Role.users()),
+          Permission.update(Role.users()),
+          Permission.delete(Role.users()),
+        ]
+      );
+      console.log(`ExerciseBank collection created with ID: ${COLLECTIONS.EXERCISE_BANK}`);
+    } catch (error) {
+      if (error.type === 'collection_already_exists' || error.code === 409) {
+        console.log(`ExerciseBank collection already exists with ID: ${COLLECTIONS.EXERCISE_BANK}`);
+      } else {
+        throw error;
+      }
+    }
+      console.log('Creating attributes for ExerciseBank collection...');
+      
+      try {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          COLLECTIONS.EXERCISE_BANK,
+          'title',
+          255,
+          true
+        );
+        console.log('Created title attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('title attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          COLLECTIONS.EXERCISE_BANK,
+          'instructions',
+          1000,
+          true
+        );
+        console.log('Created instructions attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('instructions attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          COLLECTIONS.EXERCISE_BANK,
+          'examples',
+          500,
+          false,
+          undefined,
+          true
+        );
+        console.log('Created examples attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('examples attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createEnumAttribute(
+          DATABASE_ID,
+          COLLECTIONS.EXERCISE_BANK,
+          'difficulty',
+          ['beginner', 'intermediate', 'advanced'],
+          true
+        );
+        console.log('Created difficulty attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('difficulty attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createEnumAttribute(
+          DATABASE_ID,
+          COLLECTIONS.EXERCISE_BANK,
+          'cefrLevel',
+          ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'],
+          false
+        );
+        console.log('Created cefrLevel attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('cefrLevel attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createEnumAttribute(
+          DATABASE_ID,
+          COLLECTIONS.EXERCISE_BANK,
+          'type',
+          [
+            'vocabulary_matching',
+            'multiple_choice',
+            'fill_in_blank',
+            'sentence_construction',
+            'translation',
+            'conversation_practice',
+            'error_correction',
+            'listening_comprehension'
+          ],
+          false
+        );
+        console.log('Created type attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('type attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createStringAttribute(
+          DATABASE_ID,
+          COLLECTIONS.EXERCISE_BANK,
+          'category',
+          255,
+          false
+        );
+        console.log('Created category attribute');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('category attribute already exists');
+        } else {
+          throw error;
+        }
+      }
+      
+      try {
+        await databases.createIndex(
+          DATABASE_ID,
+          COLLECTIONS.EXERCISE_BANK,
+          'type_difficulty_index',
+          'key',
+          ['type', 'difficulty'],
+          ['ASC', 'ASC']
+        );
+        console.log('Created type_difficulty_index');
+      } catch (error) {
+        if (error.code === 409) {
+          console.log('type_difficulty_index already exists');
+        } else if (error.type === 'index_invalid' || error.code === 400) {
+          console.log('Could not create type_difficulty_index due to length limitations');
+        } else {
+          throw error;
+        }
+      }
+      
+      console.log('ExerciseBank collection attributes and indexes created successfully');
+  } catch (error) {
+    console.error('Error creating ExerciseBank collection:', error);
+    throw error;
+  }
+}
+
 /**
  * Main function to run the setup
  */
@@ -607,6 +1027,8 @@ async function main() {
     await createVocabularyCollection();
     await createGrammarCollection();
     await createUserProgressCollection();
+    await createConversationTemplatesCollection();
+    await createExerciseBankCollection();
     
     console.log('Appwrite setup completed successfully!');
   } catch (error) {
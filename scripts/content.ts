@@ -0,0 +1,149 @@
+/**
+ * Content import and export CLI for the Spanish Learning MCP
+ *
+ * Usage: npm run content -- <command> <vocabulary|grammar> <file> [output] [options]
+ *
+ * Commands:
+ *   validate <kind> <file>           Check a file and list its invalid and duplicate rows
+ *   convert <kind> <file> <output>   Convert a file to the format of the output file name
+ *   import <kind> <file>             Import a file into Appwrite
+ *   export <kind> <output>           Export Appwrite content to a file
+ *
+ * Options:
+ *   --format <json|csv|tsv|apkg>     Input format (import, validate, convert) or output
+ *                                    format (export); taken from the file name by default
+ *   --category, --difficulty, --cefr Defaults for rows that leave these fields empty
+ *   --dry-run                        Report what an import would do without saving
+ *   --skip-existing                  Keep existing items instead of updating them
+ *
+ * Exits with status 1 when any row is invalid.
+ */
+import dotenv from 'dotenv';
+import { readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import type { ContentFormat } from '../lib/content-formats.js';
+import type { ContentKind } from '../lib/content-schemas.js';
+
+dotenv.config();
+
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'warn';
+
+const { createSpanishMcp } = await import('../lib/mcp-module.js');
+const { MockLlmProvider } = await import('../lib/mock-llm-provider.js');
+const { CONTENT_FORMATS, detectContentFormat, serializeContent } = await import('../lib/content-formats.js');
+const { contentKey, isContentKind } = await import('../lib/content-schemas.js');
+const { exportContent, importContent, readContentFile, validateContent } = await import('../lib/content-service.js');
+
+const usage = (): never => {
+  console.error('Usage: npm run content -- <validate|convert|import|export> <vocabulary|grammar> <file> [output] [options]');
+  process.exit(2);
+};
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    format: { type: 'string' },
+    category: { type: 'string' },
+    difficulty: { type: 'string' },
+    cefr: { type: 'string' },
+    'dry-run': { type: 'boolean', default: false },
+    'skip-existing': { type: 'boolean', default: false }
+  }
+});
+
+const [command, kindArgument, file, output] = positionals;
+
+if (!command || !kindArgument || !file || !isContentKind(kindArgument)) {
+  usage();
+}
+
+const kind = kindArgument as ContentKind;
+
+if (options.format && !(CONTENT_FORMATS as readonly string[]).includes(options.format)) {
+  console.error(`Unknown format "${options.format}" (expected ${CONTENT_FORMATS.join(', ')})`);
+  process.exit(2);
+}
+
+const format = options.format as ContentFormat | undefined;
+
+const defaults = {
+  category: options.category,
+  difficultyLevel: options.difficulty,
+  cefrLevel: options.cefr
+};
+
+const printRowProblems = (
+  errors: { row: number; field?: string; message: string }[],
+  duplicates: { row: number; duplicateOf: number }[]
+) => {
+  errors.forEach(error => {
+    console.log(`  row ${error.row}${error.field ? ` (${error.field})` : ''}: ${error.message}`);
+  });
+
+  duplicates.forEach(duplicate => {
+    console.log(`  row ${duplicate.row}: duplicate of row ${duplicate.duplicateOf}, skipped`);
+  });
+};
+
+// Content commands never call the model, so the MCP is created with the offline provider
+const createMcp = () => createSpanishMcp('', { useAppwrite: true, llmProvider: new MockLlmProvider() });
+
+const run = async (): Promise<number> => {
+  switch (command) {
+    case 'validate':
+    case 'convert': {
+      const read = readContentFile(kind, readFileSync(file), { format, filename: file });
+      const { items, duplicates, errors } = validateContent(kind, read.records, defaults);
+
+      console.log(`${read.records.length} rows read as ${read.format}: ${items.length} valid, ${errors.length} errors, ${duplicates.length} duplicates`);
+      printRowProblems(errors, duplicates);
+
+      if (command === 'convert') {
+        if (!output) {
+          usage();
+        }
+
+        const outputFormat = detectContentFormat(Buffer.alloc(0), output);
+        const contents = items.map(({ item }) => item);
+
+        writeFileSync(output, serializeContent(kind, outputFormat, contents, item => contentKey(kind, item)));
+        console.log(`Wrote ${contents.length} items to ${output} as ${outputFormat}`);
+      }
+
+      return errors.length > 0 ? 1 : 0;
+    }
+    case 'import': {
+      const report = await importContent(createMcp(), kind, readFileSync(file), {
+        format,
+        filename: file,
+        dryRun: options['dry-run'],
+        onConflict: options['skip-existing'] ? 'skip' : 'update',
+        defaults
+      });
+
+      console.log(`${report.received} rows read as ${report.format}${report.dryRun ? ' (dry run, nothing saved)' : ''}`);
+      console.log(`  created ${report.created}, updated ${report.updated}, unchanged ${report.unchanged}, skipped ${report.skipped}`);
+      printRowProblems(report.errors, report.duplicates);
+
+      return report.errors.length > 0 ? 1 : 0;
+    }
+    case 'export': {
+      const exported = await exportContent(createMcp(), kind, format || detectContentFormat(Buffer.alloc(0), file));
+
+      writeFileSync(file, exported.data);
+      console.log(`Exported ${exported.count} ${kind} items to ${file}`);
+
+      return 0;
+    }
+    default:
+      usage();
+      return 2;
+  }
+};
+
+try {
+  process.exit(await run());
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
@@ -5,16 +5,26 @@ import dotenv from 'dotenv';
 import pino from 'pino';
 import pinoHttp from 'pino-http';
 import { createSpanishMcp, ContextType, ContextOptions } from './lib/mcp-module.js';
+import { createLlmProvider } from './lib/llm-provider.js';
+import { getPriorityReviewWords } from './lib/review-service.js';
 
 import {
   apiKeyAuth,
+  authenticate,
   AuthenticatedRequest,
+  requireScope,
   registerUser,
   updateUserTier,
-  removeUser
+  updateUserRoles,
+  registerApiKey,
+  revokeApiKey
 } from './middleware/auth.js';
 import { createTieredRateLimiter, createStrictRateLimiter } from './middleware/rate-limit.js';
-import { errorHandler, notFoundHandler, AppError } from './middleware/error.js';
+import { errorHandler, notFoundHandler, AppError, catchAsync } from './middleware/error.js';
+import { getUser, getUserRepository } from './lib/user-service.js';
+import { apiKeyPrefix, getApiKeyRepository, listApiKeys } from './lib/api-key-service.js';
+import { ROLES, Role, isRole } from './lib/permissions.js';
+import { getTierPolicyRegistry } from './lib/tier-policy.js';
 
 dotenv.config();
 
@@ -31,78 +41,145 @@ const logger = pino({
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// The mock provider runs offline, so it doesn't need an Anthropic API key
 const apiKey = process.env.ANTHROPIC_API_KEY;
-if (!apiKey) {
+if (!apiKey && process.env.LLM_PROVIDER !== 'mock') {
   logger.fatal('ANTHROPIC_API_KEY environment variable is required');
   process.exit(1);
 }
 
-const mcp = createSpanishMcp(apiKey, {
+const mcp = createSpanishMcp(apiKey || '', {
   useAppwrite: true,
+  reviewWordProvider: getPriorityReviewWords,
+  llmProvider: createLlmProvider({ apiKey }),
 });
 
 app.use(helmet());
 app.use(cors());
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+
+// Content imports read the raw body themselves (see routes/content.ts), with a larger limit
+const CONTENT_IMPORT_PATH = /^\/api\/admin\/content\/[^/]+\/import\/?$/;
+
+const unlessContentImport = (parser: express.RequestHandler): express.RequestHandler => {
+  return (req, res, next) => CONTENT_IMPORT_PATH.test(req.path) ? next() : parser(req, res, next);
+};
+
+app.use(unlessContentImport(express.json()));
+app.use(unlessContentImport(express.urlencoded({ extended: true })));
 
 app.use(pinoHttp({ logger }));
 
-const apiRateLimiter = createTieredRateLimiter();
+// Limits per tier come from the tier policies (see lib/tier-policy.ts)
+const apiRateLimiter = createTieredRateLimiter('api');
 app.use('/api', apiRateLimiter);
 
-const conversationRateLimiter = createTieredRateLimiter({
-  windowMs: 60 * 1000,
-  max: (req) => {
-    const tier = (req as any).user?.tier || 'free';
-    return tier === 'premium' ? 20 : tier === 'basic' ? 10 : 5;
-  }
-});
+const conversationRateLimiter = createTieredRateLimiter('conversation');
 
 logger.info('Initialized conversation rate limiter with tiered limits');
 
-const exerciseRateLimiter = createTieredRateLimiter({
-  windowMs: 5 * 60 * 1000,
-  max: (req) => {
-    const tier = (req as any).user?.tier || 'free';
-    return tier === 'premium' ? 15 : tier === 'basic' ? 8 : 3;
-  }
-});
+const exerciseRateLimiter = createTieredRateLimiter('exercise');
 
 const strictRateLimiter = createStrictRateLimiter(60 * 1000, 5);
 app.use('/api/keys', strictRateLimiter);
 
 import healthRoutes from './routes/health.js';
+import tierRoutes from './routes/tiers.js';
 import mcpRoutes, { initMcpRoutes } from './routes/mcp.js';
 import contextRoutes, { initContextRoutes } from './routes/context.js';
-import exerciseRoutes, { initExerciseRoutes } from './routes/exercise.js';
+import exerciseRoutes, { initExerciseRoutes, cleanupExerciseResources } from './routes/exercise.js';
 import conversationRoutes, { initConversationRoutes, cleanupConversationResources } from './routes/conversation.js';
+import reviewRoutes, { cleanupReviewResources } from './routes/review.js';
+import grammarRoutes from './routes/grammar.js';
+import learnerRoutes from './routes/learner.js';
+import { initMcpProtocolRoutes } from './routes/mcp-protocol.js';
+import { initContentRoutes } from './routes/content.js';
+import { initAdminRoutes } from './routes/admin.js';
 
 app.use('/health', healthRoutes);
 
-app.post('/api/users', strictRateLimiter, (req: Request, res: Response) => {
-  const { userId, name, tier = 'free' } = req.body;
+app.use('/api/tiers', tierRoutes);
+
+// Admin routes accept the admin API key, and the API keys and bearer tokens of users
+// whose roles grant the scope a route requires (see lib/permissions.ts)
+const adminAuth = authenticate('admin-key', 'api-key', 'jwt');
+
+const validRoles = (roles: unknown): roles is Role[] => Array.isArray(roles) && roles.every(isRole);
+
+const INVALID_ROLES_ERROR = `Roles must be a list of: ${ROLES.join(', ')}`;
+
+app.post('/api/users', strictRateLimiter, adminAuth, requireScope('users:admin'), catchAsync(async (req: Request, res: Response) => {
+  const { userId, name, tier = 'free', roles = [] } = req.body;
   
   if (!userId) {
     return res.status(400).json({ error: 'User ID is required' });
   }
   
-  if (!req.headers['x-admin-key'] || req.headers['x-admin-key'] !== process.env.ADMIN_API_KEY) {
-    return res.status(403).json({ error: 'Admin API key required' });
+  if (!['free', 'basic', 'premium'].includes(tier)) {
+    return res.status(400).json({ error: 'Valid tier (free, basic, premium) is required' });
   }
   
-  registerUser(userId, tier as 'free' | 'basic' | 'premium', name);
+  if (!validRoles(roles)) {
+    return res.status(400).json({ error: INVALID_ROLES_ERROR });
+  }
+  
+  const user = await registerUser(userId, tier as 'free' | 'basic' | 'premium', name, roles);
+  
+  if (!user) {
+    return res.status(409).json({ error: 'User already exists' });
+  }
+  
+  const apiKey = await registerApiKey(userId);
   
   res.status(201).json({
     message: 'User registered successfully',
     userId,
     tier,
-    apiKey: process.env.GLOBAL_API_KEY || 'default-api-key',
-    usage: 'Include both x-api-key and x-user-id headers in your requests'
+    roles: user.roles || [],
+    apiKey,
+    keyPrefix: apiKeyPrefix(apiKey),
+    usage: 'Include the x-api-key header in your requests. The API key is only shown once'
   });
-});
+}));
 
-app.put('/api/users/:userId/tier', strictRateLimiter, (req: Request, res: Response) => {
+app.get('/api/users/:userId', strictRateLimiter, adminAuth, requireScope('users:read'), catchAsync(async (req: Request, res: Response) => {
+  const user = await getUser(req.params.userId as string);
+  
+  if (!user) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  
+  res.status(200).json({ user, apiKeys: await listApiKeys(user.id) });
+}));
+
+app.post('/api/users/:userId/keys/rotate', strictRateLimiter, adminAuth, requireScope('users:admin'), catchAsync(async (req: Request, res: Response) => {
+  const userId = req.params.userId as string;
+  
+  if (!(await getUser(userId))) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  
+  await revokeApiKey(userId);
+  const apiKey = await registerApiKey(userId);
+  
+  res.status(201).json({
+    message: 'API key rotated successfully; previous keys are revoked',
+    userId,
+    apiKey,
+    keyPrefix: apiKeyPrefix(apiKey)
+  });
+}));
+
+app.delete('/api/users/:userId/keys/:prefix', strictRateLimiter, adminAuth, requireScope('users:admin'), catchAsync(async (req: Request, res: Response) => {
+  const revoked = await revokeApiKey(req.params.userId as string, req.params.prefix as string);
+  
+  if (!revoked) {
+    return res.status(404).json({ error: 'API key not found' });
+  }
+  
+  res.status(204).send();
+}));
+
+app.put('/api/users/:userId/tier', strictRateLimiter, adminAuth, requireScope('users:admin'), catchAsync(async (req: Request, res: Response) => {
   const { userId } = req.params;
   const { tier } = req.body;
   
@@ -110,27 +187,59 @@ app.put('/api/users/:userId/tier', strictRateLimiter, (req: Request, res: Respon
     return res.status(400).json({ error: 'Valid tier (free, basic, premium) is required' });
   }
   
-  if (!req.headers['x-admin-key'] || req.headers['x-admin-key'] !== process.env.ADMIN_API_KEY) {
-    return res.status(403).json({ error: 'Admin API key required' });
+  const user = await updateUserTier(userId as string, tier as 'free' | 'basic' | 'premium');
+  
+  if (!user) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+  
+  res.status(200).json({ message: 'User tier updated successfully', userId, tier });
+}));
+
+app.put('/api/users/:userId/roles', strictRateLimiter, adminAuth, requireScope('users:admin'), catchAsync(async (req: Request, res: Response) => {
+  const { userId } = req.params;
+  const { roles } = req.body;
+  
+  if (!validRoles(roles)) {
+    return res.status(400).json({ error: INVALID_ROLES_ERROR });
   }
   
-  const success = updateUserTier(userId, tier as 'free' | 'basic' | 'premium');
+  const user = await updateUserRoles(userId as string, roles);
   
-  if (!success) {
+  if (!user) {
     return res.status(404).json({ error: 'User not found' });
   }
   
-  res.status(200).json({ message: 'User tier updated successfully', userId, tier });
-});
+  res.status(200).json({ message: 'User roles updated successfully', userId, roles: user.roles || [] });
+}));
 
-app.use('/api/mcp', apiKeyAuth, initMcpRoutes(mcp));
-app.use('/api/context', apiKeyAuth, initContextRoutes(mcp));
+// Learning routes also accept bearer tokens (JWTs) issued by the identity provider of the
+// mobile app; MCP protocol clients keep using API keys
+const learnerAuth = authenticate('api-key', 'jwt');
+
+app.use('/api/mcp', learnerAuth, initMcpRoutes(mcp));
+app.use('/api/context', learnerAuth, initContextRoutes(mcp));
 
 logger.info('Initializing conversation routes with MCP integration');
-app.use('/api/conversation', apiKeyAuth, conversationRateLimiter, initConversationRoutes(mcp));
+app.use('/api/conversation', learnerAuth, conversationRateLimiter, initConversationRoutes(mcp));
 
 logger.info('Initializing exercise routes with MCP integration');
-app.use('/api/exercise', apiKeyAuth, exerciseRateLimiter, initExerciseRoutes(mcp));
+app.use('/api/exercise', learnerAuth, exerciseRateLimiter, initExerciseRoutes(mcp));
+
+app.use('/api/review', learnerAuth, reviewRoutes);
+
+app.use('/api/grammar', learnerAuth, grammarRoutes);
+
+app.use('/api/learner', learnerAuth, learnerRoutes);
+
+app.use('/api/admin/content', adminAuth, initContentRoutes(mcp));
+app.use('/api/admin', adminAuth, initAdminRoutes(mcp));
+
+logger.info('Initializing Model Context Protocol endpoint');
+app.use('/mcp', apiKeyAuth, apiRateLimiter, initMcpProtocolRoutes(mcp, {
+  conversation: conversationRateLimiter,
+  exercise: exerciseRateLimiter
+}));
 
 app.use(errorHandler(logger));
 
@@ -143,10 +252,14 @@ const startServer = () => {
     
     logger.info('Available API endpoints:');
     logger.info('- /health - Server health check (public)');
+    logger.info('- /api/tiers - Tier entitlements (public)');
     logger.info('- /api/mcp/* - MCP query endpoints (authenticated)');
     logger.info('- /api/context/* - Context retrieval endpoints (authenticated)');
     logger.info('- /api/conversation/* - Conversation endpoints (authenticated, requires basic/premium tier)');
     logger.info('- /api/exercise/* - Exercise endpoints (authenticated, some features require premium tier)');
+    logger.info('- /api/admin/content/* - Content import and export endpoints (content:read/content:write scopes)');
+    logger.info('- /api/admin/vocabulary, /api/admin/grammar - Content management endpoints (content:read/content:write scopes)');
+    logger.info('- /mcp - Model Context Protocol (Streamable HTTP) endpoint (authenticated)');
     
     logger.info(`Server environment: ${process.env.NODE_ENV || 'development'}`);
     logger.info(`MCP model configured: ${mcp.config?.model || 'default'}`);
@@ -159,11 +272,17 @@ const startServer = () => {
   });
 };
 
-const shutdownGracefully = (signal: string, exitCode: number = 0): void => {
+const shutdownGracefully = async (signal: string, exitCode: number = 0): Promise<void> => {
   logger.info(`${signal} received, shutting down gracefully`);
   
   logger.info('Initiating conversation resource cleanup');
-  cleanupConversationResources();
+  await cleanupConversationResources();
+  await cleanupExerciseResources();
+  await cleanupReviewResources();
+  await getUserRepository().close();
+  await getApiKeyRepository().close();
+  getTierPolicyRegistry().close();
+  await mcp.close();
   
   setTimeout(() => {
     logger.info('Shutdown complete');
@@ -0,0 +1,169 @@
+/**
+ * Adaptive difficulty tests for the Spanish Learning MCP Server
+ *
+ * These tests validate that learner levels are estimated from exercise answers and
+ * conversation corrections, and that a difficulty level is chosen when the client
+ * doesn't send one.
+ */
+import request from 'supertest';
+import { app } from '../server.js';
+import { registerApiKey } from '../middleware/auth.js';
+import { chooseDifficulty, estimateLearnerLevels } from '../lib/adaptive-difficulty.js';
+import { ExerciseAttempt } from '../lib/exercise-attempt-repository.js';
+import { Conversation } from '../lib/conversation-repository.js';
+
+// Mock API keys for testing, issued before the tests run
+const mockApiKeys: Record<string, string> = {};
+
+beforeAll(async () => {
+  mockApiKeys.free = await registerApiKey('test-free-user-adaptive', 'free', 'Test Free User');
+  mockApiKeys.basic = await registerApiKey('test-basic-user-adaptive', 'basic', 'Test Basic User');
+});
+
+// Mock the MCP instance to avoid actual API calls during tests
+jest.mock('../lib/mcp-module.js', () => {
+  const original = jest.requireActual('../lib/mcp-module.js');
+
+  return {
+    ...original,
+    createSpanishMcp: () => ({
+      getContext: jest.fn().mockResolvedValue('Mocked context'),
+      buildContext: jest.fn().mockResolvedValue({ context: 'Mocked context', report: {} }),
+      queryWithContext: jest.fn().mockResolvedValue({ response: 'Mocked conversation', metadata: {} }),
+      chatWithContext: jest.fn().mockResolvedValue({
+        response: JSON.stringify({
+          exercises: [{
+            id: 'ex1',
+            instruction: 'Match the greetings',
+            pairs: [{ spanish: 'hola', english: 'hello' }, { spanish: 'adiós', english: 'goodbye' }]
+          }]
+        }),
+        metadata: {}
+      }),
+      config: { model: 'mocked-model' }
+    })
+  };
+});
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+const buildAttempt = (
+  days: number,
+  difficultyLevel: string,
+  results: [string, boolean][]
+): ExerciseAttempt => ({
+  id: `att_${days}_${difficultyLevel}`,
+  userId: 'user-a',
+  exerciseSetId: `ex_${days}`,
+  type: 'fill_in_blank',
+  difficultyLevel,
+  score: { correct: 0, total: results.length, percentage: 0 },
+  completedAt: daysAgo(days),
+  results: results.map(([category, isCorrect], index) => ({ exerciseId: `ex${index + 1}`, category, isCorrect }))
+});
+
+const repeat = <T>(item: T, times: number): T[] => Array.from({ length: times }, () => item);
+
+describe('Adaptive Difficulty Tests', () => {
+  test('Levels should follow accuracy at each difficulty', () => {
+    const levels = estimateLearnerLevels([
+      buildAttempt(1, 'beginner', repeat(['vocabulary', true], 6)),
+      buildAttempt(1, 'intermediate', [...repeat<[string, boolean]>(['ser_estar', false], 5), ['ser_estar', true]])
+    ], [], NOW);
+
+    // Perfect beginner answers move the learner up to B1
+    expect(levels.skills.vocabulary).toMatchObject({ level: 'B1', difficultyLevel: 'intermediate', evidence: 6, accuracy: 100 });
+    // Mostly wrong intermediate answers move them down to A2
+    expect(levels.grammarCategories.ser_estar).toMatchObject({ level: 'A2', difficultyLevel: 'beginner' });
+    expect(levels.skills.conversation).toBeNull();
+    expect(levels.overall).not.toBeNull();
+  });
+
+  test('Conversation levels should come from the corrections of user messages', () => {
+    const conversation = (days: number, severities: string[][]): Conversation => ({
+      id: `conv_${days}`,
+      topic: 'test',
+      difficultyLevel: 'intermediate',
+      participantCount: 1,
+      includeSlang: false,
+      focusAreas: [],
+      createdAt: daysAgo(days),
+      messages: severities.map(messageSeverities => ({
+        role: 'user',
+        content: 'Hola',
+        timestamp: daysAgo(days),
+        corrections: messageSeverities.map(severity => ({
+          original: 'Hola', corrected: 'Hola', category: 'ser_estar', explanation: '', severity, start: 0, end: 4
+        })) as any
+      }))
+    });
+
+    const fluent = estimateLearnerLevels([], [conversation(1, [[], [], [], [], ['minor']])], NOW);
+    expect(fluent.skills.conversation).toMatchObject({ level: 'B2', difficultyLevel: 'intermediate' });
+
+    const struggling = estimateLearnerLevels([], [conversation(1, repeat(['major', 'moderate'], 5))], NOW);
+    expect(struggling.skills.conversation).toMatchObject({ level: 'A2', difficultyLevel: 'beginner' });
+    // Corrections count against their grammar category too
+    expect(struggling.grammarCategories.ser_estar.accuracy).toBe(0);
+  });
+
+  test('The choice should fall back from category to skill to overall to the default', () => {
+    const levels = estimateLearnerLevels([
+      buildAttempt(1, 'advanced', repeat(['subjunctive', true], 5)),
+      buildAttempt(1, 'beginner', repeat(['vocabulary', false], 5))
+    ], [], NOW);
+
+    expect(chooseDifficulty(levels, 'grammar', { category: 'subjunctive' })).toMatchObject({
+      difficultyLevel: 'advanced',
+      level: 'C2',
+      basis: 'category'
+    });
+    expect(chooseDifficulty(levels, 'vocabulary')).toMatchObject({ difficultyLevel: 'beginner', basis: 'skill' });
+    expect(chooseDifficulty(levels, 'conversation').basis).toBe('overall');
+
+    const choice = chooseDifficulty(estimateLearnerLevels([], [], NOW), 'grammar');
+    expect(choice).toMatchObject({ difficultyLevel: 'intermediate', level: null, basis: 'default' });
+    expect(choice.rationale).toContain('Not enough history');
+  });
+
+  test('The choice should be lowered to the highest level of the tier', () => {
+    const levels = estimateLearnerLevels([buildAttempt(1, 'advanced', repeat(['grammar', true], 5))], [], NOW);
+    const choice = chooseDifficulty(levels, 'grammar', { maxDifficulty: 'beginner', tier: 'free' });
+
+    expect(choice).toMatchObject({ difficultyLevel: 'beginner', level: 'C2' });
+    expect(choice.rationale).toContain('the highest level for the free tier');
+  });
+
+  test('Routes should choose and report the level when difficultyLevel is omitted', async () => {
+    const conversationResponse = await request(app)
+      .post('/api/conversation/start')
+      .set('x-api-key', mockApiKeys.free)
+      .send({ topic: 'greetings' });
+
+    expect(conversationResponse.status).toBe(200);
+    expect(conversationResponse.body.conversation.difficultyLevel).toBe('beginner');
+    expect(conversationResponse.body.metadata.adaptiveDifficulty).toMatchObject({
+      difficultyLevel: 'beginner',
+      skill: 'conversation',
+      basis: 'default'
+    });
+
+    const exerciseResponse = await request(app)
+      .post('/api/exercise/generate')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({ type: 'vocabulary_matching', count: 1 });
+
+    expect(exerciseResponse.status).toBe(200);
+    expect(exerciseResponse.body.metadata.difficultyLevel).toBe('intermediate');
+    expect(exerciseResponse.body.metadata.adaptiveDifficulty).toMatchObject({ skill: 'vocabulary', basis: 'default' });
+
+    const explicitResponse = await request(app)
+      .post('/api/exercise/generate')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({ type: 'vocabulary_matching', difficultyLevel: 'beginner', count: 1 });
+
+    expect(explicitResponse.body.metadata.difficultyLevel).toBe('beginner');
+    expect(explicitResponse.body.metadata.adaptiveDifficulty).toBeUndefined();
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Admin content management tests for the Spanish Learning MCP Server
+ *
+ * These tests validate creating, listing, replacing and deleting vocabulary and grammar
+ * through the admin endpoints, and that content changes clear cached contexts.
+ */
+import request from 'supertest';
+import { app } from '../server.js';
+import { ContextOptions, ContextType, McpConfig, SpanishMcp } from '../lib/mcp-module.js';
+import { MockLlmProvider } from '../lib/mock-llm-provider.js';
+
+const ADMIN_KEY = 'test-admin-key';
+
+// Use an MCP backed by custom data, so changes are saved in memory
+jest.mock('../lib/mcp-module.js', () => {
+  const original = jest.requireActual('../lib/mcp-module.js');
+  const { MockLlmProvider } = jest.requireActual('../lib/mock-llm-provider.js');
+
+  return {
+    ...original,
+    createSpanishMcp: () => new original.SpanishMcp(new original.McpConfig({
+      apiKey: 'unused',
+      customData: { vocabulary: [], grammar: [] },
+      llmProvider: new MockLlmProvider()
+    }))
+  };
+});
+
+const admin = (test: request.Test) => test.set('x-admin-key', ADMIN_KEY);
+
+describe('Admin Content Tests', () => {
+  beforeAll(() => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+  });
+
+  test('Content endpoints should require the admin API key', async () => {
+    const response = await request(app).get('/api/admin/vocabulary');
+
+    expect(response.status).toBe(403);
+  });
+
+  test('Vocabulary should be created, listed, replaced and deleted', async () => {
+    const created = await admin(request(app).post('/api/admin/vocabulary')).send({
+      word: 'perro',
+      translation: 'dog',
+      category: 'noun',
+      cefrLevel: 'A1'
+    });
+
+    expect(created.status).toBe(201);
+    expect(created.body).toEqual({
+      id: 'perro:noun',
+      item: {
+        word: 'perro',
+        translation: 'dog',
+        category: 'noun',
+        difficultyLevel: 'beginner',
+        cefrLevel: 'A1',
+        usageExamples: []
+      }
+    });
+
+    await admin(request(app).post('/api/admin/vocabulary')).send({
+      word: 'correr',
+      translation: 'to run',
+      category: 'verb',
+      difficultyLevel: 'beginner'
+    });
+
+    const listed = await admin(request(app).get('/api/admin/vocabulary?category=noun'));
+
+    expect(listed.status).toBe(200);
+    expect(listed.body.items.map(({ id }: { id: string }) => id)).toEqual(['perro:noun']);
+    expect(listed.body.meta).toEqual({ total: 1, limit: 50, offset: 0, hasMoreItems: false });
+
+    const searched = await admin(request(app).get('/api/admin/vocabulary?search=RUN'));
+
+    expect(searched.body.items.map(({ id }: { id: string }) => id)).toEqual(['correr:verb']);
+
+    const replaced = await admin(request(app).put('/api/admin/vocabulary/perro:noun')).send({
+      word: 'perro',
+      translation: 'dog, hound',
+      category: 'noun',
+      difficultyLevel: 'beginner'
+    });
+
+    expect(replaced.status).toBe(200);
+    expect(replaced.body.item.translation).toBe('dog, hound');
+
+    const fetched = await admin(request(app).get('/api/admin/vocabulary/perro:noun'));
+
+    expect(fetched.body.item.translation).toBe('dog, hound');
+
+    const deleted = await admin(request(app).delete('/api/admin/vocabulary/perro:noun'));
+
+    expect(deleted.status).toBe(204);
+
+    const missing = await admin(request(app).get('/api/admin/vocabulary/perro:noun'));
+
+    expect(missing.status).toBe(404);
+  });
+
+  test('Invalid, duplicate and unknown items should be rejected', async () => {
+    const invalid = await admin(request(app).post('/api/admin/grammar')).send({
+      title: 'Ser vs Estar',
+      category: 'verbs',
+      explanation: 'Ser is permanent, estar is temporary.',
+      difficultyLevel: 'beginner'
+    });
+
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.validationErrors[0].field).toBe('category');
+
+    const mismatched = await admin(request(app).post('/api/admin/grammar')).send({
+      title: 'Ser vs Estar',
+      category: 'verb_conjugation',
+      explanation: 'Ser is permanent, estar is temporary.',
+      difficultyLevel: 'beginner',
+      cefrLevel: 'B1'
+    });
+
+    expect(mismatched.status).toBe(400);
+    expect(mismatched.body.error.details).toEqual(['cefrLevel: CEFR level B1 is not a beginner level']);
+
+    const rule = {
+      title: 'Ser vs Estar',
+      category: 'verb_conjugation',
+      explanation: 'Ser is permanent, estar is temporary.',
+      difficultyLevel: 'beginner'
+    };
+
+    expect((await admin(request(app).post('/api/admin/grammar')).send(rule)).status).toBe(201);
+
+    const duplicate = await admin(request(app).post('/api/admin/grammar')).send({ ...rule, title: ' ser  VS estar ' });
+
+    expect(duplicate.status).toBe(409);
+
+    const unknown = await admin(request(app).put('/api/admin/grammar/por-vs-para')).send(rule);
+
+    expect(unknown.status).toBe(404);
+  });
+
+  test('Content changes should clear cached contexts', async () => {
+    const mcp = new SpanishMcp(new McpConfig({
+      apiKey: 'test-key',
+      customData: { vocabulary: [], grammar: [] },
+      connectionPoolSize: 1,
+      llmProvider: new MockLlmProvider()
+    }));
+
+    const options = () => new ContextOptions({ contextType: ContextType.VOCABULARY });
+
+    await mcp.createContent('vocabulary', {
+      word: 'hola',
+      translation: 'hello',
+      category: 'interjection',
+      difficultyLevel: 'beginner',
+      usageExamples: []
+    });
+
+    expect(await mcp.getContext(options())).toContain('hola');
+
+    await mcp.createContent('vocabulary', {
+      word: 'adiós',
+      translation: 'goodbye',
+      category: 'interjection',
+      difficultyLevel: 'beginner',
+      usageExamples: []
+    });
+
+    expect(await mcp.getContext(options())).toContain('adiós');
+    expect(mcp.invalidateContentCache('grammar')).toBe(0);
+    expect(mcp.invalidateContentCache('vocabulary')).toBe(1);
+
+    await mcp.close();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * API key tests for the Spanish Learning MCP Server
+ *
+ * These tests validate that API keys are stored hashed, that requests are authenticated
+ * as the key's owner, and that rotated and revoked keys stop working.
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { app } from '../server.js';
+import { FileApiKeyRepository } from '../lib/api-key-repository.js';
+import { authenticateApiKey, getApiKeyRepository, issueApiKey, setApiKeyRepository } from '../lib/api-key-service.js';
+import { removeUser } from '../lib/user-service.js';
+import { registerApiKey } from '../middleware/auth.js';
+
+const ADMIN_KEY = 'test-admin-key';
+
+const topics = (apiKey: string) => request(app)
+  .get('/api/conversation/topics')
+  .set('x-api-key', apiKey);
+
+describe('API Key Tests', () => {
+  beforeAll(() => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+  });
+
+  test('Keys should be stored hashed and survive a restart', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'api-keys-'));
+    const filePath = path.join(tempDir, 'api-keys.json');
+    const previous = getApiKeyRepository();
+
+    try {
+      setApiKeyRepository(new FileApiKeyRepository(filePath));
+      const { apiKey, key } = await issueApiKey('file-user');
+      await getApiKeyRepository().close();
+
+      expect(apiKey.startsWith(`slm_${key.prefix}_`)).toBe(true);
+      expect(await fs.readFile(filePath, 'utf8')).not.toContain(apiKey);
+
+      // A new instance simulates a server restart
+      setApiKeyRepository(new FileApiKeyRepository(filePath));
+      const authenticated = await authenticateApiKey(apiKey);
+
+      expect(authenticated).toMatchObject({ prefix: key.prefix, userId: 'file-user' });
+      expect(authenticated?.lastUsedAt).toBeInstanceOf(Date);
+      expect(await authenticateApiKey(`${apiKey.slice(0, -1)}${apiKey.endsWith('x') ? 'y' : 'x'}`)).toBeNull();
+    } finally {
+      setApiKeyRepository(previous);
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('Requests should be authenticated as the key owner', async () => {
+    const basicKey = await registerApiKey('key-basic-user', 'basic');
+    await registerApiKey('key-premium-user', 'premium');
+
+    // The user ID header can no longer be used to act as another user
+    const response = await topics(basicKey).set('x-user-id', 'key-premium-user');
+
+    expect(response.status).toBe(200);
+    expect(response.body.tier).toBe('basic');
+
+    expect((await topics('slm_000000000000_' + 'a'.repeat(32))).status).toBe(403);
+  });
+
+  test('Rotated and revoked keys should stop working', async () => {
+    const registered = await request(app)
+      .post('/api/users')
+      .set('x-admin-key', ADMIN_KEY)
+      .send({ userId: 'rotating-user', tier: 'basic' });
+
+    const firstKey = registered.body.apiKey;
+
+    expect(registered.status).toBe(201);
+    expect((await topics(firstKey)).status).toBe(200);
+
+    const rotated = await request(app)
+      .post('/api/users/rotating-user/keys/rotate')
+      .set('x-admin-key', ADMIN_KEY);
+
+    expect(rotated.status).toBe(201);
+    expect((await topics(firstKey)).status).toBe(403);
+    expect((await topics(rotated.body.apiKey)).status).toBe(200);
+
+    const user = await request(app)
+      .get('/api/users/rotating-user')
+      .set('x-admin-key', ADMIN_KEY);
+
+    expect(user.body.apiKeys).toHaveLength(2);
+    expect(user.body.apiKeys[0]).toMatchObject({ prefix: rotated.body.keyPrefix });
+    expect(user.body.apiKeys[0].lastUsedAt).toBeDefined();
+    expect(user.body.apiKeys[1].revokedAt).toBeDefined();
+    expect(JSON.stringify(user.body)).not.toContain('hash');
+
+    const revoked = await request(app)
+      .delete(`/api/users/rotating-user/keys/${rotated.body.keyPrefix}`)
+      .set('x-admin-key', ADMIN_KEY);
+
+    expect(revoked.status).toBe(204);
+    expect((await topics(rotated.body.apiKey)).status).toBe(403);
+
+    const revokedAgain = await request(app)
+      .delete(`/api/users/rotating-user/keys/${rotated.body.keyPrefix}`)
+      .set('x-admin-key', ADMIN_KEY);
+
+    expect(revokedAgain.status).toBe(404);
+  });
+
+  test('Removing a user should revoke their keys', async () => {
+    const apiKey = await registerApiKey('removed-user', 'premium');
+
+    expect((await topics(apiKey)).status).toBe(200);
+    expect(await removeUser('removed-user')).toBe(true);
+    expect((await topics(apiKey)).status).toBe(403);
+  });
+});
@@ -8,15 +8,18 @@ import request from 'supertest';
 import { app } from '../server.js';
 import { registerApiKey } from '../middleware/auth.js';
 
-// Mock API keys for testing
-const mockApiKeys = {
-  free: registerApiKey('test-free-user', 'free', 'Test Free User'),
-  basic: registerApiKey('test-basic-user', 'basic', 'Test Basic User'),
-  premium: registerApiKey('test-premium-user', 'premium', 'Test Premium User'),
+// Mock API keys for testing, issued before the tests run
+const mockApiKeys: Record<string, string> = {
   // Invalid key for testing authentication failures
   invalid: 'invalid-api-key'
 };
 
+beforeAll(async () => {
+  mockApiKeys.free = await registerApiKey('test-free-user', 'free', 'Test Free User');
+  mockApiKeys.basic = await registerApiKey('test-basic-user', 'basic', 'Test Basic User');
+  mockApiKeys.premium = await registerApiKey('test-premium-user', 'premium', 'Test Premium User');
+});
+
 describe('Authentication Tests', () => {
   test('Public endpoints should be accessible without API key', async () => {
     const response = await request(app).get('/health');
@@ -0,0 +1,125 @@
+/**
+ * Bearer token authentication tests for the Spanish Learning MCP Server
+ *
+ * These tests validate HS256 and RS256 (JWKS) token verification, the mapping of token
+ * claims to the authenticated user, and that learning routes accept bearer tokens.
+ */
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { app } from '../server.js';
+import { createJwtVerifier } from '../lib/jwt.js';
+import { registerUser } from '../lib/user-service.js';
+
+const SECRET = 'test-jwt-secret';
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const hs256Token = (claims: object, secret = SECRET) => {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  return `${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+};
+
+describe('Bearer Token Authentication Tests', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = SECRET;
+    process.env.JWT_ISSUER = 'https://id.example.com';
+    process.env.JWT_AUDIENCE = 'spanish-app';
+  });
+
+  test('RS256 tokens should be verified with the keys in a JWKS file', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jwks-'));
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const jwksPath = path.join(tempDir, 'jwks.json');
+
+    try {
+      await fs.writeFile(jwksPath, JSON.stringify({
+        keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig', alg: 'RS256' }]
+      }));
+
+      const rs256Token = (claims: object, kid: string) => {
+        const input = `${encode({ alg: 'RS256', kid })}.${encode(claims)}`;
+        return `${input}.${sign('RSA-SHA256', Buffer.from(input), privateKey).toString('base64url')}`;
+      };
+
+      const verifier = createJwtVerifier({ jwksPath });
+      const claims = { sub: 'mobile-user', exp: now() + 60 };
+
+      expect(await verifier.verify(rs256Token(claims, 'key-1'))).toEqual(claims);
+      await expect(verifier.verify(rs256Token(claims, 'key-2'))).rejects.toThrow('Unknown signing key "key-2"');
+
+      // A verifier without a secret must not accept HS256 tokens, even signed with the public key
+      await expect(verifier.verify(hs256Token(claims))).rejects.toThrow('Tokens signed with HS256 are not accepted');
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('Expired, misaddressed and tampered tokens should be rejected', async () => {
+    const verifier = createJwtVerifier({ secret: SECRET, issuer: 'https://id.example.com', audience: ['spanish-app'] });
+    const claims = { sub: 'mobile-user', iss: 'https://id.example.com', aud: ['spanish-app'], exp: now() + 60 };
+
+    await expect(verifier.verify(hs256Token({ ...claims, exp: now() - 120 }))).rejects.toThrow('Token has expired');
+    await expect(verifier.verify(hs256Token({ ...claims, aud: 'other-app' }))).rejects.toThrow('Token has the wrong audience');
+    await expect(verifier.verify(hs256Token({ ...claims, iss: 'https://evil.example.com' }))).rejects.toThrow('Token has the wrong issuer');
+    await expect(verifier.verify(hs256Token(claims, 'other-secret'))).rejects.toThrow('Invalid token signature');
+    await expect(verifier.verify('not-a-token')).rejects.toThrow('Malformed token');
+  });
+
+  test('Learning routes should authenticate users by their bearer token', async () => {
+    const token = hs256Token({
+      sub: 'mobile-user',
+      iss: 'https://id.example.com',
+      aud: 'spanish-app',
+      exp: now() + 60,
+      tier: 'premium'
+    });
+
+    const response = await request(app)
+      .get('/api/conversation/topics')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.tier).toBe('premium');
+
+    const expired = await request(app)
+      .get('/api/conversation/topics')
+      .set('Authorization', `Bearer ${hs256Token({ sub: 'mobile-user', exp: now() - 120 })}`);
+
+    expect(expired.status).toBe(401);
+    expect(expired.headers['www-authenticate']).toContain('invalid_token');
+    expect(expired.body.message).toBe('Invalid bearer token: Token has expired');
+
+    // The MCP protocol endpoint only accepts API keys
+    const mcp = await request(app)
+      .post('/mcp')
+      .set('Authorization', `Bearer ${token}`);
+
+    expect(mcp.status).toBe(401);
+    expect(mcp.body.message).toBe('Missing API key');
+  });
+
+  test('The user registry should fill in what the token leaves out', async () => {
+    await registerUser('registered-bearer-user', 'basic');
+
+    const topics = (claims: object) => request(app)
+      .get('/api/conversation/topics')
+      .set('Authorization', `Bearer ${hs256Token({
+        sub: 'registered-bearer-user',
+        iss: 'https://id.example.com',
+        aud: 'spanish-app',
+        exp: now() + 60,
+        ...claims
+      })}`);
+
+    expect((await topics({})).body.tier).toBe('basic');
+    expect((await topics({ roles: ['learner'] })).body.tier).toBe('basic');
+
+    // The tier claim takes precedence over the registered tier
+    expect((await topics({ tier: 'premium' })).body.tier).toBe('premium');
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * CEFR level tests for the Spanish Learning MCP Server
+ *
+ * These tests validate the mapping between CEFR levels and difficulty levels, the CEFR
+ * filters on content and templates, and the conversation tier rules expressed in CEFR.
+ */
+import request from 'supertest';
+import { app } from '../server.js';
+import { registerApiKey } from '../middleware/auth.js';
+import {
+  cefrLevelsForTier,
+  cefrToDifficulty,
+  contentCefrLevels,
+  difficultiesForTier,
+  difficultyToCefrLevels
+} from '../lib/cefr.js';
+import { CefrLevel } from '../lib/appwrite.js';
+import { filterConversationTemplates, sampleConversationTemplates } from '../lib/conversation-templates.js';
+import { filterExerciseTemplates, sampleExerciseBank } from '../lib/exercise-templates.js';
+import {
+  AccessTier,
+  ContextOptions,
+  ContextType,
+  McpConfig,
+  SpanishMcp,
+  VocabularyItem
+} from '../lib/mcp-module.js';
+import { MockLlmProvider } from '../lib/mock-llm-provider.js';
+
+// Mock API keys for testing, issued before the tests run
+const mockApiKeys: Record<string, string> = {};
+
+beforeAll(async () => {
+  mockApiKeys.free = await registerApiKey('test-free-user-cefr', 'free', 'Test Free User');
+  mockApiKeys.basic = await registerApiKey('test-basic-user-cefr', 'basic', 'Test Basic User');
+});
+
+// Mock the MCP instance to avoid actual API calls during tests
+jest.mock('../lib/mcp-module.js', () => {
+  const original = jest.requireActual('../lib/mcp-module.js');
+
+  return {
+    ...original,
+    createSpanishMcp: () => ({
+      getContext: jest.fn().mockResolvedValue('Mocked context'),
+      buildContext: jest.fn().mockResolvedValue({ context: 'Mocked context', report: {} }),
+      queryWithContext: jest.fn().mockResolvedValue({ response: 'Mocked conversation', metadata: {} }),
+      config: { model: 'mocked-model' }
+    })
+  };
+});
+
+const word = (text: string, difficultyLevel: string, cefrLevel?: CefrLevel): VocabularyItem => ({
+  word: text,
+  translation: text,
+  category: 'noun',
+  difficultyLevel,
+  ...(cefrLevel ? { cefrLevel } : {}),
+  usageExamples: []
+});
+
+describe('CEFR Level Tests', () => {
+  test('Each difficulty level should span two CEFR levels', () => {
+    expect(difficultyToCefrLevels('beginner')).toEqual(['A1', 'A2']);
+    expect(difficultyToCefrLevels('advanced')).toEqual(['C1', 'C2']);
+    expect(cefrToDifficulty(CefrLevel.B2)).toBe('intermediate');
+
+    // Content without a CEFR level counts as both levels of its difficulty
+    expect(contentCefrLevels({ difficultyLevel: 'intermediate' })).toEqual(['B1', 'B2']);
+    expect(contentCefrLevels({ difficulty: 'intermediate', cefrLevel: CefrLevel.B2 })).toEqual(['B2']);
+  });
+
+  test('Tiers should be limited by their highest CEFR level', () => {
+    expect(cefrLevelsForTier('free')).toEqual(['A1', 'A2']);
+    expect(difficultiesForTier('free')).toEqual(['beginner']);
+    expect(difficultiesForTier('basic')).toEqual(['beginner', 'intermediate']);
+    expect(difficultiesForTier('premium')).toEqual(['beginner', 'intermediate', 'advanced']);
+  });
+
+  test('Templates should be filtered by CEFR level', () => {
+    const conversations = filterConversationTemplates(sampleConversationTemplates, { cefrLevel: CefrLevel.A2 });
+    expect(conversations.map(template => template.id)).toEqual(['basic_directions', 'shopping_basics']);
+
+    const exercises = filterExerciseTemplates(sampleExerciseBank, { cefrLevel: CefrLevel.B1 });
+    expect(exercises.map(template => template.title)).toEqual([
+      'Ser or Estar',
+      'Build a Question',
+      'Spot the Agreement Error'
+    ]);
+  });
+
+  test('Context should only include content at the requested CEFR level', async () => {
+    jest.useFakeTimers();
+
+    try {
+      const mcp = new SpanishMcp(new McpConfig({
+        apiKey: 'unused',
+        customData: {
+          vocabulary: [
+            word('casa', 'beginner', CefrLevel.A1),
+            word('aunque', 'beginner', CefrLevel.A2),
+            word('perro', 'beginner'),
+            word('desarrollo', 'intermediate', CefrLevel.B2)
+          ]
+        },
+        enableCaching: false,
+        llmProvider: new MockLlmProvider()
+      }));
+
+      const options = new ContextOptions({
+        contextType: ContextType.VOCABULARY,
+        accessTier: AccessTier.FREE,
+        cefrLevel: CefrLevel.A2
+      });
+
+      // The CEFR level sets the difficulty level
+      expect(options.difficultyLevel).toBe('beginner');
+
+      const { context, report } = await mcp.buildContext(options);
+      expect(report.included.vocabulary).toEqual(['aunque', 'perro']);
+      expect(context).toContain('- **Difficulty:** beginner (A2)');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('Conversations should apply the tier limits in CEFR levels', async () => {
+    const allowed = await request(app)
+      .post('/api/conversation/start')
+      .set('x-api-key', mockApiKeys.free)
+      .send({ topic: 'greetings', cefrLevel: 'A2' });
+
+    expect(allowed.status).toBe(200);
+    expect(allowed.body.conversation).toMatchObject({ difficultyLevel: 'beginner', cefrLevel: 'A2' });
+    expect(allowed.body.metadata.adaptiveDifficulty).toBeUndefined();
+
+    const tooHigh = await request(app)
+      .post('/api/conversation/start')
+      .set('x-api-key', mockApiKeys.free)
+      .send({ topic: 'greetings', cefrLevel: 'B1' });
+
+    expect(tooHigh.status).toBe(403);
+    expect(tooHigh.body.error.message).toContain('up to CEFR level A2');
+
+    const mismatched = await request(app)
+      .post('/api/conversation/start')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({ topic: 'greetings', difficultyLevel: 'beginner', cefrLevel: 'B1' });
+
+    expect(mismatched.status).toBe(400);
+
+    const invalid = await request(app)
+      .post('/api/conversation/start')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({ topic: 'greetings', cefrLevel: 'D1' });
+
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toBe('Validation Error');
+  });
+});
@@ -8,7 +8,7 @@ import {
   cleanupConversationResources, 
   cleanupOldConversations,
   CONVERSATION_MAX_AGE_MS,
-  getConversationStore,  // Exported for testing
+  getConversationRepository,  // Exported for testing
   setMockDate,           // For testing time-based cleanup
   getCleanupInterval,    // For testing interval functionality
   setCleanupInterval     // For testing interval functionality
@@ -17,21 +17,23 @@ import { registerApiKey } from '../middleware/auth.js';
 import request from 'supertest';
 import { app } from '../server.js';
 
-// Mock API keys for testing
-const mockApiKeys = {
-  basic: registerApiKey('test-basic-user-cleanup', 'basic', 'Test Basic User')
-};
+// Mock API keys for testing, issued before the tests run
+const mockApiKeys: Record<string, string> = {};
+
+beforeAll(async () => {
+  mockApiKeys.basic = await registerApiKey('test-basic-user-cleanup', 'basic', 'Test Basic User');
+});
 
 describe('Conversation Cleanup Tests', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     // Reset the conversation store before each test
-    const store = getConversationStore();
-    store.clear();
+    const store = getConversationRepository();
+    await store.clear();
   });
   
-  afterAll(() => {
+  afterAll(async () => {
     // Clean up resources after all tests
-    cleanupConversationResources();
+    await cleanupConversationResources();
   });
   
   test('Old conversations should be cleaned up after exceeding maximum age', async () => {
@@ -47,21 +49,21 @@ describe('Conversation Cleanup Tests', () => {
     const conversationId = response.body.conversationId;
     
     // Verify the conversation exists
-    const store = getConversationStore();
-    expect(store.has(conversationId)).toBe(true);
+    const store = getConversationRepository();
+    expect(await store.get(conversationId)).not.toBeNull();
     
     // Simulate time passing (more than the max age)
     const oldDate = new Date(Date.now() - (CONVERSATION_MAX_AGE_MS + 60000));
-    const conversation = store.get(conversationId);
+    const conversation = await store.get(conversationId);
     conversation.createdAt = oldDate;
-    store.set(conversationId, conversation);
+    await store.save(conversation);
     
     // Run the cleanup process
-    const cleanupCount = cleanupOldConversations();
+    const cleanupCount = await cleanupOldConversations();
     
     // Verify the conversation was cleaned up
     expect(cleanupCount).toBeGreaterThan(0);
-    expect(store.has(conversationId)).toBe(false);
+    expect(await store.get(conversationId)).toBeNull();
   });
   
   test('Recent conversations should not be cleaned up', async () => {
@@ -77,24 +79,24 @@ describe('Conversation Cleanup Tests', () => {
     const conversationId = response.body.conversationId;
     
     // Verify the conversation exists
-    const store = getConversationStore();
-    expect(store.has(conversationId)).toBe(true);
+    const store = getConversationRepository();
+    expect(await store.get(conversationId)).not.toBeNull();
     
     // Run the cleanup process
-    const cleanupCount = cleanupOldConversations();
+    const cleanupCount = await cleanupOldConversations();
     
     // Verify the conversation was not cleaned up
     expect(cleanupCount).toBe(0);
-    expect(store.has(conversationId)).toBe(true);
+    expect(await store.get(conversationId)).not.toBeNull();
   });
   
-  test('Conversation cleanup should handle empty store', () => {
+  test('Conversation cleanup should handle empty store', async () => {
     // Ensure store is empty
-    const store = getConversationStore();
-    store.clear();
+    const store = getConversationRepository();
+    await store.clear();
     
     // Run the cleanup process
-    const cleanupCount = cleanupOldConversations();
+    const cleanupCount = await cleanupOldConversations();
     
     // Verify no errors and zero count
     expect(cleanupCount).toBe(0);
@@ -113,14 +115,14 @@ describe('Conversation Cleanup Tests', () => {
     }
     
     // Verify conversations exist
-    const store = getConversationStore();
-    expect(store.size).toBe(3);
+    const store = getConversationRepository();
+    expect(await store.count()).toBe(3);
     
     // Run the shutdown cleanup
-    cleanupConversationResources();
+    await cleanupConversationResources();
     
     // Verify all conversations were cleared
-    expect(store.size).toBe(0);
+    expect(await store.count()).toBe(0);
   });
   
   test('Cleanup should handle errors gracefully', async () => {
@@ -136,19 +138,17 @@ describe('Conversation Cleanup Tests', () => {
     const conversationId = response.body.conversationId;
     
     // Corrupt the conversation to cause an error during cleanup
-    const store = getConversationStore();
-    const conversation = store.get(conversationId);
+    const store = getConversationRepository();
+    const conversation = await store.get(conversationId);
     // @ts-ignore - deliberately corrupt the data
     conversation.createdAt = 'invalid-date';
-    store.set(conversationId, conversation);
+    await store.save(conversation);
     
     // Run the cleanup process - should not throw
-    expect(() => {
-      cleanupOldConversations();
-    }).not.toThrow();
+    await expect(cleanupOldConversations()).resolves.toBeGreaterThanOrEqual(0);
     
     // The corrupted conversation should still be there
-    expect(store.has(conversationId)).toBe(true);
+    expect(await store.get(conversationId)).not.toBeNull();
   });
   
   test('Memory usage should remain stable after multiple operations and cleanup', async () => {
@@ -181,7 +181,7 @@ describe('Conversation Cleanup Tests', () => {
     }
     
     // Run cleanup to remove all conversations
-    cleanupConversationResources();
+    await cleanupConversationResources();
     
     // Check memory usage after cleanup
     const finalMemory = process.memoryUsage().heapUsed;
@@ -194,68 +194,62 @@ describe('Conversation Cleanup Tests', () => {
   
   // Additional error test cases
   describe('Error Handling Tests', () => {
-    test('Cleanup should handle invalid date formats', () => {
+    test('Cleanup should handle invalid date formats', async () => {
       // Get store and create a conversation with invalid date
-      const store = getConversationStore();
+      const store = getConversationRepository();
       const conversationId = `conv_${Date.now()}_invalid_date`;
       
-      store.set(conversationId, {
+      await store.save({
         id: conversationId,
         topic: 'Invalid Date Test',
         userId: 'test-user',
         createdAt: 'not-a-date', // Invalid date format
         messages: []
-      });
+      } as any);
       
       // Cleanup should not throw
-      expect(() => {
-        cleanupOldConversations();
-      }).not.toThrow();
+      await expect(cleanupOldConversations()).resolves.toBeGreaterThanOrEqual(0);
       
       // The conversation should still exist since we couldn't process its date
-      expect(store.has(conversationId)).toBe(true);
+      expect(await store.get(conversationId)).not.toBeNull();
     });
     
-    test('Cleanup should handle missing required fields', () => {
+    test('Cleanup should handle missing required fields', async () => {
       // Get store and create a conversation with missing fields
-      const store = getConversationStore();
+      const store = getConversationRepository();
       const conversationId = `conv_${Date.now()}_missing_fields`;
       
-      store.set(conversationId, {
+      await store.save({
         id: conversationId,
         // Missing topic, userId, etc.
         messages: []
-      });
+      } as any);
       
       // Cleanup should not throw
-      expect(() => {
-        cleanupOldConversations();
-      }).not.toThrow();
+      await expect(cleanupOldConversations()).resolves.toBeGreaterThanOrEqual(0);
       
       // The conversation should still exist
-      expect(store.has(conversationId)).toBe(true);
+      expect(await store.get(conversationId)).not.toBeNull();
     });
     
-    test('Cleanup should handle null values', () => {
+    test('Cleanup should handle null values', async () => {
       // Get store and create a conversation with null values
-      const store = getConversationStore();
+      const store = getConversationRepository();
       const conversationId = `conv_${Date.now()}_null_values`;
       
-      store.set(conversationId, {
+      await store.save({
         id: conversationId,
         topic: null,
         userId: 'test-user',
         createdAt: null,
         messages: null
-      });
+      } as any);
       
       // Cleanup should not throw
-      expect(() => {
-        cleanupOldConversations();
-      }).not.toThrow();
+      await expect(cleanupOldConversations()).resolves.toBeGreaterThanOrEqual(0);
       
       // The conversation should still exist
-      expect(store.has(conversationId)).toBe(true);
+      expect(await store.get(conversationId)).not.toBeNull();
     });
   });
   
@@ -279,8 +273,8 @@ describe('Conversation Cleanup Tests', () => {
       const conversationId = response.body.conversationId;
       
       // Get store and add large messages directly
-      const store = getConversationStore();
-      const conversation = store.get(conversationId);
+      const store = getConversationRepository();
+      const conversation = await store.get(conversationId);
       
       // Add 10 large messages
       for (let i = 0; i < 10; i++) {
@@ -291,10 +285,10 @@ describe('Conversation Cleanup Tests', () => {
         });
       }
       
-      store.set(conversationId, conversation);
+      await store.save(conversation);
       
       // Run cleanup
-      cleanupConversationResources();
+      await cleanupConversationResources();
       
       // Check memory usage
       const finalMemory = process.memoryUsage().heapUsed;
@@ -306,7 +300,7 @@ describe('Conversation Cleanup Tests', () => {
     
     test('Memory cleanup with concurrent operations', async () => {
       // Get store and create multiple conversations
-      const store = getConversationStore();
+      const store = getConversationRepository();
       
       // Create 50 conversations concurrently
       const promises = [];
@@ -314,7 +308,7 @@ describe('Conversation Cleanup Tests', () => {
         const conversationId = `conv_${Date.now()}_concurrent_${i}`;
         const isOld = i % 2 === 0; // Make half the conversations old
         
-        store.set(conversationId, {
+        await store.save({
           id: conversationId,
           topic: `Concurrent Test ${i}`,
           userId: 'test-user',
@@ -328,23 +322,23 @@ describe('Conversation Cleanup Tests', () => {
               timestamp: new Date()
             }
           ]
-        });
+        } as any);
         
         // For every 10th conversation, make it invalid to test error handling
         if (i % 10 === 0) {
-          store.set(conversationId, {
+          await store.save({
             id: conversationId,
             createdAt: 'invalid-date'
-          });
+          } as any);
         }
       }
       
       // Run cleanup
-      const cleanupCount = cleanupOldConversations();
+      const cleanupCount = await cleanupOldConversations();
       
       // Should have cleaned up roughly half (minus the invalid ones)
       expect(cleanupCount).toBeGreaterThan(20);
-      expect(store.size).toBeLessThan(30);
+      expect(await store.count()).toBeLessThan(30);
     });
     
     test('No memory leaks during rapid operations', async () => {
@@ -375,7 +369,7 @@ describe('Conversation Cleanup Tests', () => {
       }
       
       // Run cleanup
-      cleanupConversationResources();
+      await cleanupConversationResources();
       
       // Run garbage collection if available
       if (global.gc) {
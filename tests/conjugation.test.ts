@@ -0,0 +1,266 @@
+/**
+ * Conjugation tests for the Spanish Learning MCP Server
+ *
+ * These tests validate the conjugation engine for regular, stem-changing, spelling-change
+ * and irregular verbs, the conjugation drills, and the grammar endpoints.
+ */
+import request from 'supertest';
+import { app } from '../server.js';
+import { registerApiKey } from '../middleware/auth.js';
+import { conjugate, getConjugatedForm } from '../lib/conjugation.js';
+import { generateConjugationExercises } from '../lib/conjugation-exercises.js';
+import { validateGeneratedExercises } from '../lib/exercise-schemas.js';
+
+// Mock API keys for testing, issued before the tests run
+const mockApiKeys: Record<string, string> = {};
+
+beforeAll(async () => {
+  mockApiKeys.free = await registerApiKey('test-free-user-grammar', 'free', 'Test Free User');
+  mockApiKeys.basic = await registerApiKey('test-basic-user-grammar', 'basic', 'Test Basic User');
+});
+
+// Mock the MCP instance to avoid actual API calls during tests
+jest.mock('../lib/mcp-module.js', () => {
+  const original = jest.requireActual('../lib/mcp-module.js');
+
+  return {
+    ...original,
+    createSpanishMcp: () => ({
+      getContext: jest.fn().mockResolvedValue('Mocked context'),
+      queryWithContext: jest.fn().mockResolvedValue({ response: 'Mocked response', metadata: {} }),
+      config: { model: 'mocked-model' }
+    })
+  };
+});
+
+const forms = (table: Record<string, string | null>) => Object.values(table);
+
+describe('Conjugation Tests', () => {
+  test('Regular verbs should be conjugated in every mood', () => {
+    const hablar = conjugate('hablar')!;
+
+    expect(hablar.regular).toBe(true);
+    expect(forms(hablar.indicative.present)).toEqual(['hablo', 'hablas', 'habla', 'hablamos', 'habláis', 'hablan']);
+    expect(forms(hablar.indicative.preterite)).toEqual(['hablé', 'hablaste', 'habló', 'hablamos', 'hablasteis', 'hablaron']);
+    expect(hablar.indicative.conditional.nosotros).toBe('hablaríamos');
+    expect(hablar.indicative.pluperfect.yo).toBe('había hablado');
+    expect(hablar.subjunctive.imperfect.nosotros).toBe('habláramos');
+    expect(hablar.subjunctive.imperfect_se.tu).toBe('hablases');
+    expect(hablar.imperative.affirmative).toEqual({
+      yo: null, tu: 'habla', el: 'hable', nosotros: 'hablemos', vosotros: 'hablad', ellos: 'hablen'
+    });
+    expect(hablar.imperative.negative.tu).toBe('no hables');
+
+    expect(conjugate('vivir')!.indicative.present.vosotros).toBe('vivís');
+    expect(conjugate('comer')!.subjunctive.present.vosotros).toBe('comáis');
+  });
+
+  test('Stem changes should apply to stressed stems, and -ir verbs should take the weak change', () => {
+    const dormir = conjugate('dormir')!;
+
+    expect(dormir.stemChange).toBe('o>ue');
+    expect(dormir.regular).toBe(false);
+    expect(dormir.indicative.present.yo).toBe('duermo');
+    expect(dormir.indicative.present.nosotros).toBe('dormimos');
+    expect(dormir.indicative.preterite.el).toBe('durmió');
+    expect(dormir.subjunctive.present.nosotros).toBe('durmamos');
+    expect(dormir.gerund).toBe('durmiendo');
+
+    expect(conjugate('pensar')!.subjunctive.present.el).toBe('piense');
+    expect(conjugate('pedir')!.indicative.preterite.ellos).toBe('pidieron');
+    expect(conjugate('jugar')!.subjunctive.present.yo).toBe('juegue');
+    expect(forms(conjugate('oler')!.indicative.present)).toEqual(['huelo', 'hueles', 'huele', 'olemos', 'oléis', 'huelen']);
+    expect(conjugate('oler')!.subjunctive.present.ellos).toBe('huelan');
+  });
+
+  test('Stressed i and u in the stem should take a written accent', () => {
+    const enviar = conjugate('enviar')!;
+
+    expect(forms(enviar.indicative.present)).toEqual(['envío', 'envías', 'envía', 'enviamos', 'enviáis', 'envían']);
+    expect(enviar.subjunctive.present.nosotros).toBe('enviemos');
+    expect(enviar.imperative.affirmative.tu).toBe('envía');
+
+    expect(conjugate('continuar')!.indicative.present.yo).toBe('continúo');
+    expect(conjugate('continuar')!.subjunctive.present.ellos).toBe('continúen');
+    expect(conjugate('prohibir')!.indicative.present.yo).toBe('prohíbo');
+    expect(conjugate('prohibir')!.indicative.present.nosotros).toBe('prohibimos');
+    expect(conjugate('reunir')!.indicative.present.el).toBe('reúne');
+    expect(conjugate('cambiar')!.indicative.present.yo).toBe('cambio');
+    expect(conjugate('averiguar')!.indicative.present.yo).toBe('averiguo');
+  });
+
+  test('Reflexive verbs should take their pronouns', () => {
+    const levantarse = conjugate('levantarse')!;
+
+    expect(levantarse.infinitive).toBe('levantarse');
+    expect(levantarse.gerund).toBe('levantándose');
+    expect(forms(levantarse.indicative.present)).toEqual([
+      'me levanto', 'te levantas', 'se levanta', 'nos levantamos', 'os levantáis', 'se levantan'
+    ]);
+    expect(levantarse.indicative.present_perfect.yo).toBe('me he levantado');
+    expect(levantarse.imperative.affirmative).toEqual({
+      yo: null, tu: 'levántate', el: 'levántese', nosotros: 'levantémonos', vosotros: 'levantaos', ellos: 'levántense'
+    });
+    expect(levantarse.imperative.negative.tu).toBe('no te levantes');
+
+    expect(conjugate('ponerse')!.imperative.affirmative.tu).toBe('ponte');
+    expect(conjugate('vestirse')!.imperative.affirmative.vosotros).toBe('vestíos');
+    expect(conjugate('irse')!.imperative.affirmative.nosotros).toBe('vámonos');
+    expect(conjugate('irse')!.imperative.affirmative.vosotros).toBe('idos');
+  });
+
+  test('Spelling changes should keep the sound of the stem', () => {
+    expect(conjugate('buscar')!.indicative.preterite.yo).toBe('busqué');
+    expect(conjugate('empezar')!.subjunctive.present.nosotros).toBe('empecemos');
+    expect(conjugate('conocer')!.indicative.present.yo).toBe('conozco');
+    expect(conjugate('elegir')!.indicative.present.yo).toBe('elijo');
+    expect(conjugate('seguir')!.subjunctive.present.tu).toBe('sigas');
+    expect(forms(conjugate('construir')!.indicative.present)).toEqual([
+      'construyo', 'construyes', 'construye', 'construimos', 'construís', 'construyen'
+    ]);
+
+    const leer = conjugate('leer')!;
+    expect(forms(leer.indicative.preterite)).toEqual(['leí', 'leíste', 'leyó', 'leímos', 'leísteis', 'leyeron']);
+    expect(leer.gerund).toBe('leyendo');
+    expect(leer.pastParticiple).toBe('leído');
+  });
+
+  test('Irregular verbs and their prefixed forms should be conjugated', () => {
+    expect(forms(conjugate('ser')!.indicative.present)).toEqual(['soy', 'eres', 'es', 'somos', 'sois', 'son']);
+    expect(conjugate('ir')!.subjunctive.imperfect.yo).toBe('fuera');
+    expect(conjugate('ir')!.imperative.affirmative.nosotros).toBe('vamos');
+    expect(forms(conjugate('tener')!.indicative.preterite)).toEqual(['tuve', 'tuviste', 'tuvo', 'tuvimos', 'tuvisteis', 'tuvieron']);
+    expect(conjugate('decir')!.indicative.future.yo).toBe('diré');
+    expect(conjugate('decir')!.gerund).toBe('diciendo');
+    expect(conjugate('hacer')!.indicative.present_perfect.ellos).toBe('han hecho');
+    expect(conjugate('saber')!.subjunctive.present.yo).toBe('sepa');
+    expect(conjugate('conducir')!.indicative.preterite.ellos).toBe('condujeron');
+    expect(conjugate('escribir')!.pastParticiple).toBe('escrito');
+
+    const mantener = conjugate('mantener')!;
+    expect(mantener.indicative.present.yo).toBe('mantengo');
+    expect(mantener.indicative.future.tu).toBe('mantendrás');
+    expect(mantener.imperative.affirmative.tu).toBe('mantén');
+    expect(mantener.imperative.negative.tu).toBe('no mantengas');
+    expect(conjugate('componer')!.pastParticiple).toBe('compuesto');
+    expect(conjugate('sonreír')!.indicative.preterite.el).toBe('sonrió');
+  });
+
+  test('Non-infinitives should not be conjugated', () => {
+    expect(conjugate('casa')).toBeNull();
+    expect(conjugate('hablo')).toBeNull();
+    expect(conjugate('xyzar')).toBeNull();
+    expect(conjugate('xyzarse')).toBeNull();
+    expect(getConjugatedForm('hablar', 'imperative', 'affirmative', 'yo')).toBeNull();
+    expect(getConjugatedForm('Hablar', 'indicative', 'future', 'ellos')).toBe('hablarán');
+  });
+
+  test('Drills should be valid fill_in_blank exercises with the engine answers', () => {
+    let seed = 0;
+    const exercises = generateConjugationExercises({
+      verbs: ['tener', 'vivir'],
+      tenses: ['indicative.preterite', 'imperative.negative'],
+      count: 6,
+      random: () => (seed = (seed * 9301 + 49297) % 233280) / 233280
+    });
+
+    expect(exercises).toHaveLength(6);
+    exercises.forEach(exercise => {
+      const { verb, mood, tense, person } = exercise.conjugation!;
+      expect(['tener', 'vivir']).toContain(verb);
+      expect(exercise.sentence).toContain(`___ (${verb})`);
+      expect(getConjugatedForm(verb, mood, tense, person)!.replace(/^no /, '')).toBe(exercise.blanks[0]);
+    });
+
+    const result = validateGeneratedExercises('fill_in_blank', JSON.stringify({ exercises }), 6);
+    expect(result.valid).toBe(true);
+  });
+
+  test('Model-generated conjugation answers should be checked against the engine', () => {
+    const result = validateGeneratedExercises('fill_in_blank', JSON.stringify({
+      exercises: [{
+        instruction: 'Complete with the preterite.',
+        sentence: 'Ayer ellos ___ a la playa.',
+        blanks: ['fueran'],
+        conjugation: { verb: 'ir', mood: 'indicative', tense: 'preterite', person: 'ellos' }
+      }]
+    }), 5);
+
+    expect(!result.valid && result.errors).toEqual([
+      '"exercises[0].blanks[0]" must be "fueron", the preterite of "ir" for ellos'
+    ]);
+  });
+
+  test('The conjugate endpoint should return whole conjugations or one tense', async () => {
+    const response = await request(app)
+      .get('/api/grammar/conjugate/Poner')
+      .set('x-api-key', mockApiKeys.free);
+
+    expect(response.status).toBe(200);
+    expect(response.body.conjugation).toMatchObject({ infinitive: 'poner', regular: false, pastParticiple: 'puesto' });
+    expect(response.body.conjugation.indicative.present.yo).toBe('pongo');
+
+    const tenseResponse = await request(app)
+      .get('/api/grammar/conjugate/poner')
+      .query({ mood: 'subjunctive', tense: 'present' })
+      .set('x-api-key', mockApiKeys.free);
+
+    expect(tenseResponse.status).toBe(200);
+    expect(tenseResponse.body.conjugation.subjunctive).toEqual({
+      present: { yo: 'ponga', tu: 'pongas', el: 'ponga', nosotros: 'pongamos', vosotros: 'pongáis', ellos: 'pongan' }
+    });
+    expect(tenseResponse.body.conjugation.indicative).toBeUndefined();
+
+    const invalidResponse = await request(app)
+      .get('/api/grammar/conjugate/mesa')
+      .set('x-api-key', mockApiKeys.free);
+
+    expect(invalidResponse.status).toBe(400);
+
+    const wrongTenseResponse = await request(app)
+      .get('/api/grammar/conjugate/poner')
+      .query({ mood: 'imperative', tense: 'preterite' })
+      .set('x-api-key', mockApiKeys.free);
+
+    expect(wrongTenseResponse.status).toBe(400);
+  });
+
+  test('Conjugation drills should be generated, stored and checked without the model', async () => {
+    const freeResponse = await request(app)
+      .post('/api/grammar/conjugation-exercises')
+      .set('x-api-key', mockApiKeys.free)
+      .send({ verbs: ['hablar'] });
+
+    expect(freeResponse.status).toBe(403);
+
+    const response = await request(app)
+      .post('/api/grammar/conjugation-exercises')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({ verbs: ['hablar'], tenses: ['indicative.present'], count: 3 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.exercises).toHaveLength(3);
+    expect(response.body.exercises[0].blanks).toBeUndefined();
+
+    const { conjugation } = response.body.exercises[0];
+    const answer = getConjugatedForm(conjugation.verb, conjugation.mood, conjugation.tense, conjugation.person);
+
+    const checkResponse = await request(app)
+      .post('/api/exercise/check')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({
+        exerciseId: response.body.exerciseSetId,
+        answers: [{ id: response.body.exercises[0].id, answer }]
+      });
+
+    expect(checkResponse.status).toBe(200);
+    expect(checkResponse.body.results[0].isCorrect).toBe(true);
+
+    const invalidResponse = await request(app)
+      .post('/api/grammar/conjugation-exercises')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({ verbs: ['mesa'] });
+
+    expect(invalidResponse.status).toBe(400);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Content import and export tests for the Spanish Learning MCP Server
+ *
+ * These tests validate reading and writing vocabulary and grammar as JSON, CSV and Anki
+ * decks, row-level validation and deduplication, and the admin import and export
+ * endpoints.
+ */
+import request from 'supertest';
+import { app } from '../server.js';
+import { ContentFormat, parseContent, serializeContent } from '../lib/content-formats.js';
+import { ContentItem, ContentKind, contentKey } from '../lib/content-schemas.js';
+import { validateContent } from '../lib/content-service.js';
+import { GrammarRule, VocabularyItem } from '../lib/mcp-module.js';
+
+const ADMIN_KEY = 'test-admin-key';
+
+// Use an MCP backed by custom data, so imports are saved in memory
+jest.mock('../lib/mcp-module.js', () => {
+  const original = jest.requireActual('../lib/mcp-module.js');
+  const { MockLlmProvider } = jest.requireActual('../lib/mock-llm-provider.js');
+
+  return {
+    ...original,
+    createSpanishMcp: () => new original.SpanishMcp(new original.McpConfig({
+      apiKey: 'unused',
+      customData: { vocabulary: [], grammar: [] },
+      llmProvider: new MockLlmProvider()
+    }))
+  };
+});
+
+const vocabulary: VocabularyItem[] = [
+  {
+    word: 'casa',
+    translation: 'house',
+    category: 'noun',
+    difficultyLevel: 'beginner',
+    cefrLevel: 'A1' as VocabularyItem['cefrLevel'],
+    usageExamples: [
+      { spanish: 'La casa es grande.', english: 'The house is big.' },
+      { spanish: 'Vivo en una casa.', english: 'I live in a house.', explanation: 'vivir en' }
+    ]
+  },
+  {
+    word: 'correr',
+    translation: 'to run',
+    category: 'verb',
+    difficultyLevel: 'beginner',
+    notes: 'Regular -er verb',
+    usageExamples: []
+  }
+];
+
+const grammar: GrammarRule[] = [
+  {
+    title: 'Ser vs Estar',
+    category: 'verb_conjugation',
+    explanation: 'Ser describes identity & traits.\nEstar describes states and location.',
+    difficultyLevel: 'intermediate',
+    cefrLevel: 'B1' as GrammarRule['cefrLevel'],
+    examples: [{ spanish: 'Soy alto.', english: 'I am tall.' }],
+    tags: ['ser', 'estar']
+  }
+];
+
+const roundTrip = (kind: ContentKind, format: ContentFormat, items: ContentItem[]) => {
+  const data = serializeContent(kind, format, items, item => contentKey(kind, item));
+  return validateContent(kind, parseContent(kind, format, data)).items.map(({ item }) => item);
+};
+
+describe('Content Import Tests', () => {
+  beforeAll(() => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+  });
+
+  test('Spreadsheet CSV should be read with its own column names and delimiter', () => {
+    const csv = '\uFEFFSpanish;English;Part of speech;CEFR;Examples\n' +
+      'casa;house;noun;A1;"La casa es grande. | The house is big.\nMi casa | My house"\n' +
+      'perro;dog;noun;;\n';
+
+    const { items, errors } = validateContent('vocabulary', parseContent('vocabulary', 'csv', Buffer.from(csv)), {
+      difficultyLevel: 'beginner'
+    });
+
+    expect(errors).toEqual([]);
+    expect(items.map(({ row }) => row)).toEqual([2, 4]);
+    expect(items[0].item).toMatchObject({
+      word: 'casa',
+      translation: 'house',
+      difficultyLevel: 'beginner',
+      cefrLevel: 'A1',
+      usageExamples: [
+        { spanish: 'La casa es grande.', english: 'The house is big.' },
+        { spanish: 'Mi casa', english: 'My house' }
+      ]
+    });
+  });
+
+  test('Invalid and duplicate rows should be reported by row number', () => {
+    const csv = 'word,translation,category,difficultyLevel,cefrLevel\n' +
+      'casa,house,noun,beginner,A1\n' +
+      'gato,cat,animal,beginner,\n' +
+      'correr,to run,verb,beginner,B1\n' +
+      ',empty,noun,beginner,\n' +
+      'Casa,home,noun,,A2\n';
+
+    const { items, errors, duplicates } = validateContent('vocabulary', parseContent('vocabulary', 'csv', Buffer.from(csv)));
+
+    expect(items.map(({ item }) => (item as VocabularyItem).word)).toEqual(['casa']);
+    expect(errors.map(({ row, field }) => [row, field])).toEqual([
+      [3, 'category'],
+      [4, 'cefrLevel'],
+      [5, 'word']
+    ]);
+    expect(errors[1].message).toBe('CEFR level B1 is not a beginner level');
+    expect(duplicates).toEqual([{ row: 6, duplicateOf: 2, key: 'casa:noun' }]);
+  });
+
+  test('Content should survive a round trip through every format', () => {
+    expect(roundTrip('vocabulary', 'json', vocabulary)).toEqual(vocabulary);
+
+    (['csv', 'tsv', 'apkg'] as ContentFormat[]).forEach(format => {
+      const items = roundTrip('vocabulary', format, vocabulary);
+      expect(items).toHaveLength(2);
+      vocabulary.forEach((item, index) => expect(items[index]).toEqual(item));
+    });
+
+    // Anki decks carry grammar tags, with spaces replaced, but not related vocabulary
+    expect(roundTrip('grammar', 'csv', grammar)).toEqual(grammar);
+    expect(roundTrip('grammar', 'apkg', grammar)).toEqual(grammar);
+  });
+
+  test('Anki text exports should skip their metadata columns', () => {
+    const tsv = '#separator:tab\n#html:true\n#guid column:1\n#notetype column:2\n#tags column:5\n' +
+      'a1b2c3\tBasic\tel libro\tthe <b>book</b>&nbsp;\tcategory::noun cefr::A2\n';
+
+    const { items, errors } = validateContent('vocabulary', parseContent('vocabulary', 'tsv', Buffer.from(tsv)));
+
+    expect(errors).toEqual([]);
+    expect(items).toEqual([{
+      row: 6,
+      item: {
+        word: 'el libro',
+        translation: 'the book',
+        category: 'noun',
+        difficultyLevel: 'beginner',
+        cefrLevel: 'A2',
+        usageExamples: []
+      }
+    }]);
+  });
+
+  test('Import endpoint should require the admin API key', async () => {
+    const response = await request(app)
+      .post('/api/admin/content/vocabulary/import')
+      .set('Content-Type', 'text/csv')
+      .send('word,translation,category,difficultyLevel\ncasa,house,noun,beginner\n');
+
+    expect(response.status).toBe(403);
+  });
+
+  test('Imported content should be saved, updated and exported', async () => {
+    const csv = 'word,translation,category,difficultyLevel\n' +
+      'casa,house,noun,beginner\n' +
+      'perro,dog,noun,beginner\n' +
+      'gato,cat,animal,beginner\n';
+
+    const dryRun = await request(app)
+      .post('/api/admin/content/vocabulary/import?dryRun=true')
+      .set('x-admin-key', ADMIN_KEY)
+      .set('Content-Type', 'text/csv')
+      .send(csv);
+
+    expect(dryRun.status).toBe(200);
+    expect(dryRun.body.report).toMatchObject({ format: 'csv', dryRun: true, received: 3, valid: 2, created: 2 });
+    expect(dryRun.body.report.errors).toHaveLength(1);
+    expect(dryRun.body.report.errors[0]).toMatchObject({ row: 4, field: 'category' });
+
+    const empty = await request(app)
+      .get('/api/admin/content/vocabulary/export')
+      .set('x-admin-key', ADMIN_KEY);
+
+    expect(JSON.parse(empty.text)).toEqual([]);
+
+    const imported = await request(app)
+      .post('/api/admin/content/vocabulary/import')
+      .set('x-admin-key', ADMIN_KEY)
+      .set('Content-Type', 'text/csv')
+      .send(csv);
+
+    expect(imported.body.report).toMatchObject({ dryRun: false, created: 2, updated: 0 });
+
+    // JSON bodies are imported as they are
+    const updated = await request(app)
+      .post('/api/admin/content/vocabulary/import')
+      .set('x-admin-key', ADMIN_KEY)
+      .send([
+        { word: 'casa', translation: 'home', category: 'noun', difficultyLevel: 'beginner' },
+        { word: 'perro', translation: 'dog', category: 'noun', difficultyLevel: 'beginner' }
+      ]);
+
+    expect(updated.body.report).toMatchObject({ format: 'json', created: 0, updated: 1, unchanged: 1 });
+
+    const exported = await request(app)
+      .get('/api/admin/content/vocabulary/export?format=csv')
+      .set('x-admin-key', ADMIN_KEY);
+
+    expect(exported.status).toBe(200);
+    expect(exported.headers['content-type']).toContain('text/csv');
+    expect(exported.headers['content-disposition']).toContain('vocabulary.csv');
+    expect(exported.text).toContain('casa,home,noun,beginner');
+    expect(exported.text).toContain('perro,dog,noun,beginner');
+  });
+
+  test('JSON files larger than the app body limit should be imported', async () => {
+    const items = Array.from({ length: 1500 }, (_, index) => ({
+      word: `palabra${index}`,
+      translation: `word ${index}`,
+      category: 'noun',
+      difficultyLevel: 'beginner',
+      notes: 'Generated to make the file larger than 100KB'
+    }));
+    const body = JSON.stringify(items);
+
+    expect(Buffer.byteLength(body)).toBeGreaterThan(100 * 1024);
+
+    const response = await request(app)
+      .post('/api/admin/content/vocabulary/import?dryRun=true')
+      .set('x-admin-key', ADMIN_KEY)
+      .set('Content-Type', 'application/json')
+      .send(body);
+
+    expect(response.status).toBe(200);
+    expect(response.body.report).toMatchObject({ format: 'json', received: items.length, created: items.length });
+  });
+
+  test('Unreadable files and unknown content kinds should be rejected', async () => {
+    const unreadable = await request(app)
+      .post('/api/admin/content/grammar/import?format=json')
+      .set('x-admin-key', ADMIN_KEY)
+      .set('Content-Type', 'text/plain')
+      .send('{ not json');
+
+    expect(unreadable.status).toBe(400);
+    expect(unreadable.body.error.message).toContain('Could not read the json file');
+
+    const unknownKind = await request(app)
+      .get('/api/admin/content/phrases/export')
+      .set('x-admin-key', ADMIN_KEY);
+
+    expect(unknownKind.status).toBe(400);
+    expect(unknownKind.body.error).toBe('Validation Error');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Context builder tests for the Spanish Learning MCP Server
+ *
+ * These tests validate that context is fitted to the token budget by dropping
+ * examples before items, and that the result is reported in query metadata.
+ */
+import { buildBudgetedContext } from '../lib/context-builder.js';
+import {
+  AccessTier,
+  ContextOptions,
+  ContextType,
+  McpConfig,
+  SpanishMcp,
+  VocabularyItem,
+  sampleGrammar,
+  sampleVocabulary
+} from '../lib/mcp-module.js';
+import { MockLlmProvider } from '../lib/mock-llm-provider.js';
+import { TierPolicyRegistry } from '../lib/tier-policy.js';
+
+const createVocabulary = (count: number): VocabularyItem[] => Array.from({ length: count }, (_, i) => ({
+  word: `palabra${i}`,
+  translation: `word ${i}`,
+  category: 'noun',
+  difficultyLevel: 'beginner',
+  usageExamples: [
+    { spanish: `Esta es la palabra número ${i} en una frase bastante larga.`, english: `This is word number ${i} in a fairly long sentence.` },
+    { spanish: `Otra frase de ejemplo con la palabra ${i}.`, english: `Another example sentence with word ${i}.` }
+  ]
+}));
+
+describe('Context Builder Tests', () => {
+  test('Context within budget should be left untouched', () => {
+    const { context, report } = buildBudgetedContext(
+      { vocabulary: sampleVocabulary, includeExamples: true, includeExercises: false },
+      10000
+    );
+
+    expect(context).toContain('¡Hola! ¿Cómo estás?');
+    expect(report.included.vocabulary).toEqual(['hola', 'adiós', 'gracias', 'hablar']);
+    expect(report.omitted.vocabulary).toEqual([]);
+    expect(report.examplesOmitted.vocabulary).toEqual([]);
+    expect(report.estimatedTokens).toBeLessThanOrEqual(10000);
+  });
+
+  test('Examples should be dropped from the lowest-priority items first', () => {
+    const vocabulary = createVocabulary(10);
+    const full = buildBudgetedContext({ vocabulary, includeExamples: true, includeExercises: false }, null);
+
+    const { context, report } = buildBudgetedContext(
+      { vocabulary, includeExamples: true, includeExercises: false },
+      full.report.estimatedTokens - 50
+    );
+
+    expect(report.omitted.vocabulary).toEqual([]);
+    expect(report.examplesOmitted.vocabulary).toContain('palabra9');
+    expect(report.examplesOmitted.vocabulary).not.toContain('palabra0');
+    expect(context).toContain('palabra número 0');
+    expect(report.estimatedTokens).toBeLessThanOrEqual(full.report.estimatedTokens - 50);
+  });
+
+  test('Items should be dropped only once no examples are left to drop', () => {
+    const vocabulary = createVocabulary(10);
+    const { context, report } = buildBudgetedContext(
+      { vocabulary, includeExamples: true, includeExercises: false },
+      100
+    );
+
+    expect(report.examplesOmitted.vocabulary).toEqual(report.included.vocabulary);
+    expect(report.omitted.vocabulary.length).toBeGreaterThan(0);
+    expect(report.included.vocabulary[0]).toBe('palabra0');
+    expect(report.omitted.vocabulary[report.omitted.vocabulary.length - 1]).toBe('palabra9');
+    expect(context).not.toContain('**Examples:**');
+    expect(report.estimatedTokens).toBeLessThanOrEqual(100);
+  });
+
+  test('Mixed context should trim vocabulary and grammar by rank', () => {
+    const { report } = buildBudgetedContext(
+      { vocabulary: createVocabulary(4), grammar: sampleGrammar, includeExamples: false, includeExercises: false },
+      120
+    );
+
+    expect(report.included).toEqual({ vocabulary: ['palabra0'], grammar: ['Present Tense Conjugation'], conversations: [], exercises: [] });
+    expect(report.omitted).toEqual({
+      vocabulary: ['palabra1', 'palabra2', 'palabra3'],
+      grammar: ['Gender Agreement'],
+      conversations: [],
+      exercises: []
+    });
+  });
+
+  test('Query metadata should report the fitted context', async () => {
+    jest.useFakeTimers();
+
+    try {
+      const provider = new MockLlmProvider();
+      const mcp = new SpanishMcp(new McpConfig({
+        apiKey: 'unused',
+        customData: { vocabulary: createVocabulary(50) },
+        enableCaching: false,
+        llmProvider: provider,
+        tierPolicies: new TierPolicyRegistry({ premium: { context: { maxTokens: 800 } } })
+      }));
+
+      const result = await mcp.queryWithContext('¿Qué palabras hay?', new ContextOptions({
+        contextType: ContextType.VOCABULARY,
+        maxItems: 50,
+        accessTier: AccessTier.PREMIUM
+      }));
+
+      const report = result.metadata.context!;
+      expect(report.tokenBudget).toBe(800);
+      expect(report.estimatedTokens).toBeLessThanOrEqual(800);
+      expect(report.included.vocabulary.length + report.omitted.vocabulary.length).toBe(50);
+      expect(report.omitted.vocabulary.length).toBeGreaterThan(0);
+
+      // A request can lower the tier's budget but not raise it
+      const lowered = await mcp.buildContext(new ContextOptions({
+        contextType: ContextType.VOCABULARY,
+        maxItems: 50,
+        accessTier: AccessTier.PREMIUM,
+        maxContextTokens: 300
+      }));
+
+      const raised = await mcp.buildContext(new ContextOptions({
+        contextType: ContextType.VOCABULARY,
+        maxItems: 50,
+        accessTier: AccessTier.PREMIUM,
+        maxContextTokens: 5000
+      }));
+
+      expect(lowered.report.tokenBudget).toBe(300);
+      expect(raised.report.tokenBudget).toBe(800);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Conversation repository tests for the Spanish Learning MCP Server
+ *
+ * These tests validate that conversations survive a restart when the
+ * file-backed store is configured.
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  Conversation,
+  FileConversationRepository,
+  InMemoryConversationRepository,
+  createConversationRepository
+} from '../lib/conversation-repository.js';
+
+const buildConversation = (id: string, userId: string): Conversation => ({
+  id,
+  topic: 'ordering_food',
+  difficultyLevel: 'beginner',
+  participantCount: 1,
+  includeSlang: false,
+  focusAreas: [],
+  userId,
+  createdAt: new Date('2026-01-15T10:00:00Z'),
+  messages: [
+    { role: 'system', content: '¡Hola! ¿Qué quieres comer?', timestamp: new Date('2026-01-15T10:00:00Z') },
+    { role: 'user', content: 'Quiero una pizza.', timestamp: new Date('2026-01-15T10:01:00Z') }
+  ]
+});
+
+describe('Conversation Repository Tests', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'conversations-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('File store should keep conversations across restarts', async () => {
+    const filePath = path.join(tempDir, 'conversations.json');
+
+    const repository = new FileConversationRepository(filePath);
+    await repository.save(buildConversation('conv_1', 'user-a'));
+    await repository.save(buildConversation('conv_2', 'user-b'));
+    await repository.close();
+
+    // A new instance simulates a server restart
+    const restarted = new FileConversationRepository(filePath);
+    const conversation = await restarted.get('conv_1');
+
+    expect(conversation).not.toBeNull();
+    expect(conversation?.createdAt).toBeInstanceOf(Date);
+    expect(conversation?.messages[1].timestamp).toBeInstanceOf(Date);
+    expect(conversation?.messages[1].content).toBe('Quiero una pizza.');
+    expect(await restarted.count()).toBe(2);
+  });
+
+  test('Closing the file store should not delete conversations', async () => {
+    const filePath = path.join(tempDir, 'conversations.json');
+
+    const repository = new FileConversationRepository(filePath);
+    await repository.save(buildConversation('conv_1', 'user-a'));
+    await repository.close();
+
+    expect(await repository.count()).toBe(1);
+    expect(await new FileConversationRepository(filePath).count()).toBe(1);
+  });
+
+  test('Deletes should be persisted', async () => {
+    const filePath = path.join(tempDir, 'conversations.json');
+
+    const repository = new FileConversationRepository(filePath);
+    await repository.save(buildConversation('conv_1', 'user-a'));
+    expect(await repository.delete('conv_1')).toBe(true);
+    expect(await repository.delete('conv_1')).toBe(false);
+
+    expect(await new FileConversationRepository(filePath).get('conv_1')).toBeNull();
+  });
+
+  test('Conversations should be listed per user', async () => {
+    const repository = new InMemoryConversationRepository();
+    await repository.save(buildConversation('conv_1', 'user-a'));
+    await repository.save(buildConversation('conv_2', 'user-b'));
+    await repository.save(buildConversation('conv_3', 'user-a'));
+
+    const conversations = await repository.listByUser('user-a');
+    expect(conversations.map(conversation => conversation.id).sort()).toEqual(['conv_1', 'conv_3']);
+  });
+
+  test('Store type should be selected by configuration', () => {
+    expect(createConversationRepository({ type: 'memory' })).toBeInstanceOf(InMemoryConversationRepository);
+    expect(createConversationRepository({
+      type: 'file',
+      filePath: path.join(tempDir, 'conversations.json')
+    })).toBeInstanceOf(FileConversationRepository);
+  });
+});
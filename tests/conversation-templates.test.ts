@@ -0,0 +1,135 @@
+/**
+ * Conversation template tests for the Spanish Learning MCP Server
+ *
+ * These tests validate template filtering, the topic list built from the catalog,
+ * and that conversation context is made of the matching templates.
+ */
+import {
+  filterConversationTemplates,
+  groupConversationTopics,
+  sampleConversationTemplates
+} from '../lib/conversation-templates.js';
+import { buildBudgetedContext } from '../lib/context-builder.js';
+import { getConversationTopics } from '../lib/conversation-service.js';
+import {
+  AccessTier,
+  ContextOptions,
+  ContextType,
+  ConversationTemplate,
+  McpConfig,
+  SpanishMcp
+} from '../lib/mcp-module.js';
+import { MockLlmProvider } from '../lib/mock-llm-provider.js';
+
+const customTemplate: ConversationTemplate = {
+  id: 'at_the_beach',
+  title: 'At the Beach',
+  difficultyLevel: 'beginner',
+  focusAreas: ['weather'],
+  context: 'Two friends spend the day at the beach.',
+  participants: ['Rosa', 'Iván'],
+  turns: [
+    { speaker: 'Rosa', text: '¡Qué calor hace hoy!', translation: 'It is so hot today!' },
+    { speaker: 'Iván', text: 'Sí, vamos al agua.', translation: 'Yes, let us go in the water.', notes: '"Vamos a" can mean "let us".' }
+  ]
+};
+
+const createMcp = (conversationTemplates?: ConversationTemplate[]) => new SpanishMcp(new McpConfig({
+  apiKey: 'unused',
+  customData: { conversationTemplates },
+  enableCaching: false,
+  llmProvider: new MockLlmProvider()
+}));
+
+describe('Conversation Template Tests', () => {
+  test('Templates should be filtered by topic words, difficulty and focus areas', () => {
+    const byTopic = filterConversationTemplates(sampleConversationTemplates, { topic: 'food' });
+    expect(byTopic.map(template => template.id)).toEqual(['ordering_food']);
+
+    const byTitle = filterConversationTemplates(sampleConversationTemplates, { topic: 'At the Doctor' });
+    expect(byTitle.map(template => template.id)).toEqual(['at_the_doctor']);
+
+    expect(filterConversationTemplates(sampleConversationTemplates, {
+      topic: 'food',
+      difficultyLevel: 'advanced'
+    })).toEqual([]);
+
+    const byFocus = filterConversationTemplates(sampleConversationTemplates, {
+      difficultyLevel: 'advanced',
+      focusAreas: ['subjunctive', 'future']
+    });
+    expect(byFocus[0].id).toBe('technology_and_innovation');
+    expect(byFocus.every(template => template.focusAreas!.some(area => ['subjunctive', 'future'].includes(area)))).toBe(true);
+  });
+
+  test('Topics should be grouped by the requested difficulty levels', () => {
+    const topics = groupConversationTopics(sampleConversationTemplates, ['beginner', 'intermediate']);
+
+    expect(Object.keys(topics)).toEqual(['beginner', 'intermediate']);
+    expect(topics.beginner).toContainEqual({
+      id: 'ordering_food',
+      name: 'Ordering Food',
+      example: 'Quisiera un café, por favor.',
+      cefrLevels: ['A1']
+    });
+  });
+
+  test('Topic lists should come from the configured catalog and respect the tier', async () => {
+    jest.useFakeTimers();
+
+    try {
+      const custom = await getConversationTopics(createMcp([customTemplate]), { id: 'u1', tier: 'premium' });
+      expect(custom.topics).toEqual({
+        beginner: [{ id: 'at_the_beach', name: 'At the Beach', example: '¡Qué calor hace hoy!', cefrLevels: ['A1', 'A2'] }],
+        intermediate: [],
+        advanced: []
+      });
+
+      const builtIn = await getConversationTopics(createMcp(), { id: 'u2', tier: 'free' });
+      expect(Object.keys(builtIn.topics)).toEqual(['beginner']);
+      expect(builtIn.topics.beginner).toHaveLength(5);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('Conversation context should contain the matching templates', async () => {
+    jest.useFakeTimers();
+
+    try {
+      const mcp = createMcp([customTemplate, ...sampleConversationTemplates]);
+      const { context, report } = await mcp.buildContext(new ContextOptions({
+        contextType: ContextType.CONVERSATION,
+        accessTier: AccessTier.BASIC,
+        difficultyLevel: 'beginner',
+        topic: 'beach'
+      }));
+
+      expect(report.included.conversations).toEqual(['at_the_beach']);
+      expect(context).toContain('# Spanish Conversation Templates');
+      expect(context).toContain('- Rosa: ¡Qué calor hace hoy!');
+      expect(context).toContain('English: It is so hot today!');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('Turn translations should be dropped before whole templates', () => {
+    const full = buildBudgetedContext({
+      conversations: [customTemplate],
+      includeExamples: true,
+      includeExercises: false
+    }, null);
+
+    const { context, report } = buildBudgetedContext({
+      conversations: [customTemplate],
+      includeExamples: true,
+      includeExercises: false
+    }, full.report.estimatedTokens - 10);
+
+    expect(report.included.conversations).toEqual(['at_the_beach']);
+    expect(report.examplesOmitted.conversations).toEqual(['at_the_beach']);
+    expect(context).toContain('- Iván: Sí, vamos al agua.');
+    expect(context).not.toContain('English:');
+  });
+});
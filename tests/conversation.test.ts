@@ -7,13 +7,18 @@
 import request from 'supertest';
 import { app } from '../server.js';
 import { registerApiKey } from '../middleware/auth.js';
+import { McpConfig, SpanishMcp } from '../lib/mcp-module.js';
+import { MockLlmProvider } from '../lib/mock-llm-provider.js';
+import { continueConversation, getConversationRepository, startConversation } from '../lib/conversation-service.js';
 
-// Mock API keys for testing
-const mockApiKeys = {
-  free: registerApiKey('test-free-user-conv', 'free', 'Test Free User'),
-  basic: registerApiKey('test-basic-user-conv', 'basic', 'Test Basic User'),
-  premium: registerApiKey('test-premium-user-conv', 'premium', 'Test Premium User')
-};
+// Mock API keys for testing, issued before the tests run
+const mockApiKeys: Record<string, string> = {};
+
+beforeAll(async () => {
+  mockApiKeys.free = await registerApiKey('test-free-user-conv', 'free', 'Test Free User');
+  mockApiKeys.basic = await registerApiKey('test-basic-user-conv', 'basic', 'Test Basic User');
+  mockApiKeys.premium = await registerApiKey('test-premium-user-conv', 'premium', 'Test Premium User');
+});
 
 // Mock the MCP instance to avoid actual API calls during tests
 jest.mock('../lib/mcp-module.js', () => {
@@ -23,7 +28,25 @@ jest.mock('../lib/mcp-module.js', () => {
     ...original,
     createSpanishMcp: () => ({
       getContext: jest.fn().mockResolvedValue('Mocked context'),
-      queryWithContext: jest.fn().mockResolvedValue('Mocked conversation response'),
+      buildContext: jest.fn().mockResolvedValue({ context: 'Mocked context', report: {} }),
+      queryWithContext: jest.fn().mockResolvedValue({
+        response: 'Mocked conversation response',
+        metadata: { contextType: 'conversation', itemCount: 0, processingTimeMs: 0, tier: 'basic' }
+      }),
+      chatWithContext: jest.fn().mockImplementation(async (messages, options, chatOptions) => ({
+        // Corrections are requested with a response format, replies without one
+        response: chatOptions?.responseFormat?.name === 'message_corrections'
+          ? JSON.stringify({
+              corrections: [
+                { original: 'es', corrected: 'estoy', category: 'ser_estar', explanation: 'Use estar for states.', severity: 'major' },
+                { original: 'cansado', corrected: 'cansada', category: 'gender_agreement', explanation: 'Agree with the speaker.', severity: 'minor' },
+                { original: 'not in the message', corrected: 'x', category: 'other', explanation: 'x', severity: 'major' }
+              ],
+              alternatives: [{ text: 'Estoy muy cansada.' }]
+            })
+          : 'Mocked conversation response',
+        metadata: { contextType: 'conversation', itemCount: 0, processingTimeMs: 0, tier: 'basic' }
+      })),
       config: { model: 'mocked-model' }
     })
   };
@@ -257,5 +280,94 @@ describe('Conversation Functionality Tests', () => {
     // Basic user should not have includeAlternatives in metadata
     expect(basicResponse.body.metadata.includeAlternatives).toBeFalsy();
   });
-});
 
+  test('Corrections should be returned as structured data and stored on the message', async () => {
+    const continueAs = async (apiKey: typeof mockApiKeys.basic, body: Record<string, unknown> = {}) => {
+      const { conversationId } = (await request(app)
+        .post('/api/conversation/start')
+        .set('x-api-key', apiKey)
+        .send({ topic: 'corrections-test', difficultyLevel: 'beginner' })).body;
+
+      return request(app)
+        .post('/api/conversation/continue')
+        .set('x-api-key', apiKey)
+        .send({ conversationId, userMessage: 'Yo es muy cansado', ...body });
+    };
+
+    const premiumResponse = await continueAs(mockApiKeys.premium);
+
+    expect(premiumResponse.status).toBe(200);
+    expect(premiumResponse.body.message).toBe('Mocked conversation response');
+    expect(premiumResponse.body.corrections).toEqual([
+      { original: 'es', corrected: 'estoy', category: 'ser_estar', explanation: 'Use estar for states.', severity: 'major', start: 3, end: 5 },
+      { original: 'cansado', corrected: 'cansada', category: 'gender_agreement', explanation: 'Agree with the speaker.', severity: 'minor', start: 10, end: 17 }
+    ]);
+    expect(premiumResponse.body.alternatives).toEqual([{ text: 'Estoy muy cansada.' }]);
+
+    const historyResponse = await request(app)
+      .get(`/api/conversation/${premiumResponse.body.conversationId}`)
+      .set('x-api-key', mockApiKeys.premium);
+
+    const userMessage = historyResponse.body.conversation.messages[1];
+    expect(userMessage.role).toBe('user');
+    expect(userMessage.corrections).toHaveLength(2);
+    expect(userMessage.alternatives).toHaveLength(1);
+
+    // Basic users only get the corrections that aren't minor, and no alternatives
+    const basicResponse = await continueAs(mockApiKeys.basic);
+    expect(basicResponse.body.corrections.map(c => c.original)).toEqual(['es']);
+    expect(basicResponse.body.alternatives).toBeUndefined();
+
+    const freeResponse = await continueAs(mockApiKeys.free);
+    expect(freeResponse.body.corrections).toBeUndefined();
+    expect(freeResponse.body.metadata.includeCorrections).toBe(false);
+
+    const optedOutResponse = await continueAs(mockApiKeys.premium, { includeCorrections: false });
+    expect(optedOutResponse.body.corrections).toBeUndefined();
+    expect(optedOutResponse.body.alternatives).toHaveLength(1);
+  });
+
+  describe('With a model behind the MCP', () => {
+    let llm: MockLlmProvider;
+    let mcp: SpanishMcp;
+
+    beforeEach(() => {
+      llm = new MockLlmProvider();
+      mcp = new SpanishMcp(new McpConfig({
+        apiKey: 'unused',
+        customData: { vocabulary: [], grammar: [] },
+        llmProvider: llm
+      }));
+    });
+
+    afterEach(async () => {
+      await mcp.close();
+    });
+
+    test('Each turn should count once against the query rate limit', async () => {
+      const user = { id: 'turn-counting-user', tier: 'basic' as const };
+      const { conversationId } = await startConversation(mcp, user, { topic: 'viajes', difficultyLevel: 'beginner' });
+
+      // The basic tier allows 5 queries per minute: the start and four turns
+      for (let turn = 0; turn < 4; turn++) {
+        await continueConversation(mcp, user, { conversationId, userMessage: 'Me gusta viajar en tren.' });
+      }
+
+      await expect(continueConversation(mcp, user, { conversationId, userMessage: '¿Y tú?' }))
+        .rejects.toMatchObject({ statusCode: 429 });
+    });
+
+    test('A failed reply should not leave the user message in the conversation', async () => {
+      const user = { id: 'failed-reply-user', tier: 'basic' as const };
+      const { conversationId } = await startConversation(mcp, user, { topic: 'comida', difficultyLevel: 'beginner' });
+
+      jest.spyOn(llm, 'complete').mockRejectedValue(new Error('Model unavailable'));
+
+      await expect(continueConversation(mcp, user, { conversationId, userMessage: 'Quiero una paella.' }))
+        .rejects.toMatchObject({ statusCode: 500 });
+
+      const conversation = await getConversationRepository().get(conversationId);
+      expect(conversation?.messages.map(message => message.role)).toEqual(['system']);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Exercise grading tests for the Spanish Learning MCP Server
+ *
+ * These tests validate that answers are graded deterministically with the
+ * matcher selected by the exercise type.
+ */
+import { gradeAnswer, getMatcherForType } from '../lib/exercise-grading.js';
+import { StoredExercise } from '../lib/exercise-repository.js';
+
+const buildExercise = (overrides: Partial<StoredExercise>): StoredExercise => ({
+  id: 'ex1',
+  instruction: 'Answer the question',
+  content: '...',
+  correctAnswer: '',
+  ...overrides
+});
+
+describe('Exercise Grading Tests', () => {
+  test('Exercise types should select their matchers', () => {
+    expect(getMatcherForType('fill_in_blank')).toBe('accent_insensitive');
+    expect(getMatcherForType('translation')).toBe('accent_insensitive');
+    expect(getMatcherForType('sentence_construction')).toBe('ordered_array');
+    expect(getMatcherForType('multiple_choice')).toBe('multiple_choice');
+    expect(getMatcherForType('unknown_type')).toBe('exact');
+  });
+
+  test('Exact matching should ignore case and whitespace but not accents', () => {
+    const exercise = buildExercise({ correctAnswer: 'está' });
+
+    expect(gradeAnswer(exercise, 'unknown_type', '  Está ').isCorrect).toBe(true);
+    expect(gradeAnswer(exercise, 'unknown_type', 'esta').isCorrect).toBe(false);
+  });
+
+  test('Accent-insensitive matching should accept missing accents with a warning', () => {
+    const exercise = buildExercise({ correctAnswer: '¿Cómo estás?' });
+
+    expect(gradeAnswer(exercise, 'translation', '¿cómo estás?')).toMatchObject({ isCorrect: true, verdict: 'correct' });
+    expect(gradeAnswer(exercise, 'translation', 'como estas')).toMatchObject({
+      isCorrect: true,
+      verdict: 'correct_with_accent_warning'
+    });
+    expect(gradeAnswer(exercise, 'fill_in_blank', 'como esta')).toMatchObject({ isCorrect: false, verdict: 'near_miss' });
+  });
+
+  test('Acceptable answers should also be graded as correct', () => {
+    const exercise = buildExercise({
+      correctAnswer: 'What is your name?',
+      acceptableAnswers: ["What's your name?"]
+    });
+
+    expect(gradeAnswer(exercise, 'translation', "what's your name").isCorrect).toBe(true);
+  });
+
+  test('Ordered array matching should require the same order', () => {
+    const exercise = buildExercise({ correctAnswer: ['Yo', 'como', 'pan'] });
+
+    expect(gradeAnswer(exercise, 'sentence_construction', ['yo', 'como', 'pan']).isCorrect).toBe(true);
+    expect(gradeAnswer(exercise, 'sentence_construction', 'Yo como pan').isCorrect).toBe(true);
+    expect(gradeAnswer(exercise, 'sentence_construction', ['como', 'yo', 'pan']).isCorrect).toBe(false);
+    expect(gradeAnswer(exercise, 'sentence_construction', ['yo', 'como']).isCorrect).toBe(false);
+
+    const articleExercise = buildExercise({ correctAnswer: ['El', 'niño', 'va'] });
+    expect(gradeAnswer(articleExercise, 'sentence_construction', ['niño', 'va']).isCorrect).toBe(false);
+  });
+
+  test('Multiple choice matching should accept the option index or text', () => {
+    const exercise = buildExercise({
+      options: ['va', 'vas', 'voy', 'vamos'],
+      correctAnswer: 'va'
+    });
+
+    expect(gradeAnswer(exercise, 'multiple_choice', 0).isCorrect).toBe(true);
+    expect(gradeAnswer(exercise, 'multiple_choice', 'Va').isCorrect).toBe(true);
+    expect(gradeAnswer(exercise, 'multiple_choice', 1).isCorrect).toBe(false);
+    expect(gradeAnswer(exercise, 'multiple_choice', 7).isCorrect).toBe(false);
+
+    const indexedExercise = buildExercise({
+      options: ['va', 'vas', 'voy', 'vamos'],
+      correctAnswer: 2
+    });
+
+    expect(gradeAnswer(indexedExercise, 'multiple_choice', 'voy').isCorrect).toBe(true);
+  });
+});
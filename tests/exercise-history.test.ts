@@ -0,0 +1,88 @@
+/**
+ * Exercise history analytics tests for the Spanish Learning MCP Server
+ *
+ * These tests validate that progress summaries are computed from recorded
+ * exercise attempts.
+ */
+import {
+  calculateStreakDays,
+  calculateWeeklyProgress,
+  describePerformance,
+  summarizeExerciseAttempts
+} from '../lib/exercise-history.js';
+import { ExerciseAttempt } from '../lib/exercise-attempt-repository.js';
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+const buildAttempt = (
+  daysAgo: number,
+  percentage: number,
+  overrides: Partial<ExerciseAttempt> = {}
+): ExerciseAttempt => ({
+  id: `att_${daysAgo}_${percentage}`,
+  userId: 'user-a',
+  exerciseSetId: `ex_${daysAgo}`,
+  type: 'multiple_choice',
+  difficultyLevel: 'beginner',
+  score: { correct: percentage / 10, total: 10, percentage },
+  completedAt: new Date(NOW.getTime() - daysAgo * 24 * 60 * 60 * 1000),
+  ...overrides
+});
+
+describe('Exercise History Tests', () => {
+  test('Streaks should count consecutive days ending today or yesterday', () => {
+    expect(calculateStreakDays([buildAttempt(0, 80), buildAttempt(1, 80), buildAttempt(2, 80)], NOW)).toBe(3);
+    expect(calculateStreakDays([buildAttempt(1, 80), buildAttempt(2, 80)], NOW)).toBe(2);
+    expect(calculateStreakDays([buildAttempt(0, 80), buildAttempt(2, 80)], NOW)).toBe(1);
+    expect(calculateStreakDays([buildAttempt(3, 80)], NOW)).toBe(0);
+  });
+
+  test('Weekly progress should compare the last two weeks', () => {
+    expect(calculateWeeklyProgress([buildAttempt(1, 90), buildAttempt(9, 70)], NOW)).toBe('+20%');
+    expect(calculateWeeklyProgress([buildAttempt(1, 60), buildAttempt(9, 70)], NOW)).toBe('-10%');
+    expect(calculateWeeklyProgress([buildAttempt(1, 90)], NOW)).toBeNull();
+  });
+
+  test('Summaries should report averages, types and areas', () => {
+    const attempts = [
+      buildAttempt(0, 90, { focusArea: 'vocabulary' }),
+      buildAttempt(1, 100, { focusArea: 'vocabulary' }),
+      buildAttempt(2, 40, { type: 'fill_in_blank', focusArea: 'subjunctive' }),
+      buildAttempt(3, 70, { type: 'fill_in_blank' })
+    ];
+
+    const summary = summarizeExerciseAttempts(attempts, attempts, NOW);
+
+    expect(summary.totalExercises).toBe(4);
+    expect(summary.averageScore).toBe(75);
+    expect(summary.completedExerciseTypes).toEqual({ multiple_choice: 2, fill_in_blank: 2 });
+    expect(summary.strongestAreas).toEqual(['vocabulary', 'fill_in_blank']);
+    expect(summary.weakestAreas).toEqual(['subjunctive']);
+    expect(summary.streakDays).toBe(4);
+  });
+
+  test('Empty histories should produce an empty summary', () => {
+    expect(summarizeExerciseAttempts([], [], NOW)).toEqual({
+      totalExercises: 0,
+      averageScore: 0,
+      completedExerciseTypes: {},
+      strongestAreas: [],
+      weakestAreas: [],
+      lastWeekProgress: null,
+      streakDays: 0
+    });
+  });
+
+  test('Performance should be compared with the previous attempt', () => {
+    const performance = describePerformance(
+      buildAttempt(0, 80, { timeTaken: 300 }),
+      buildAttempt(1, 75)
+    );
+
+    expect(performance).toEqual({
+      accuracy: 'good',
+      speed: 'average',
+      improvement: '+5% from last attempt'
+    });
+  });
+});
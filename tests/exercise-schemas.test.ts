@@ -0,0 +1,155 @@
+/**
+ * Structured exercise output tests for the Spanish Learning MCP Server
+ *
+ * These tests validate the per-type exercise schemas, the consistency checks on
+ * validated exercises, and the repair requests sent when the model's output is invalid.
+ */
+import {
+  exerciseResponseFormat,
+  toPublicExercise,
+  toStoredExercise,
+  validateGeneratedExercises
+} from '../lib/exercise-schemas.js';
+import { generateExercises } from '../lib/exercise-service.js';
+import { McpConfig, SpanishMcp } from '../lib/mcp-module.js';
+import { MockLlmProvider } from '../lib/mock-llm-provider.js';
+import { AppError } from '../middleware/error.js';
+
+const validFillInBlank = JSON.stringify({
+  exercises: [{
+    id: 'fib-1',
+    instruction: 'Complete the sentence.',
+    sentence: 'Nosotros ___ español.',
+    blanks: ['hablamos']
+  }]
+});
+
+const createMockMcp = (responses: string[]) => ({
+  buildContext: jest.fn().mockResolvedValue({ context: 'Mocked context', report: {} }),
+  chatWithContext: jest.fn().mockImplementation(async () => ({
+    response: responses.shift(),
+    metadata: {}
+  }))
+});
+
+describe('Exercise Schema Tests', () => {
+  test('The response format should require the fields of the exercise type', () => {
+    const { schema } = exerciseResponseFormat('multiple_choice', 3);
+    const items = (schema.properties as any).exercises.items;
+
+    expect((schema.properties as any).exercises.maxItems).toBe(3);
+    expect(items.required).toEqual(expect.arrayContaining(['instruction', 'question', 'options', 'answerIndex']));
+  });
+
+  test('Schema and consistency errors should be reported for each exercise', () => {
+    const result = validateGeneratedExercises('multiple_choice', JSON.stringify({
+      exercises: [
+        { instruction: 'Choose one.', question: '¿Qué hora es?', options: ['a', 'b'], answerIndex: 2 },
+        { instruction: 'Choose one.', options: ['a'] }
+      ]
+    }), 5);
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.errors).toEqual(expect.arrayContaining([
+      '"exercises[1].question" is required',
+      '"exercises[1].options" must contain at least 2 items'
+    ]));
+
+    const blanks = validateGeneratedExercises('fill_in_blank', JSON.stringify({
+      exercises: [{ instruction: 'Complete.', sentence: 'Yo ___ y tú ___.', blanks: ['como'] }]
+    }), 5);
+
+    expect(!blanks.valid && blanks.errors).toEqual([
+      '"exercises[0].sentence" must contain one ___ per blank (found 2, expected 1)'
+    ]);
+  });
+
+  test('Validated exercises should be stored with their answers and sent without them', () => {
+    const result = validateGeneratedExercises('multiple_choice', '```json\n' + JSON.stringify([
+      { instruction: 'Choose one.', question: '¿Cómo estás?', options: ['Bien', 'Azul'], answerIndex: 0, explanation: 'A greeting reply' }
+    ]) + '\n```', 5);
+
+    if (!result.valid) {
+      throw new Error(result.errors.join(', '));
+    }
+
+    const stored = toStoredExercise(result.exercises[0]);
+    expect(stored).toMatchObject({ id: 'ex1', content: '¿Cómo estás?', correctAnswer: 'Bien' });
+    expect(toPublicExercise(stored)).toEqual({
+      id: 'ex1',
+      type: 'multiple_choice',
+      instruction: 'Choose one.',
+      question: '¿Cómo estás?',
+      options: ['Bien', 'Azul']
+    });
+  });
+
+  test('Invalid output should be sent back to the model for repair', async () => {
+    const mcp = createMockMcp(['not json', validFillInBlank]);
+
+    const result = await generateExercises(mcp as unknown as SpanishMcp, { id: 'schema-user', tier: 'basic' }, {
+      type: 'fill_in_blank',
+      count: 2
+    });
+
+    expect(result.exercises).toEqual([{
+      id: 'fib-1',
+      type: 'fill_in_blank',
+      instruction: 'Complete the sentence.',
+      sentence: 'Nosotros ___ español.',
+      blankCount: 1
+    }]);
+
+    const [messages, , chatOptions] = mcp.chatWithContext.mock.calls[1];
+    expect(chatOptions.responseFormat.name).toBe('exercise_set');
+    expect(messages.map((message: any) => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(messages[2].content).toContain('The response is not valid JSON');
+  });
+
+  test('Output that is still invalid after the repair attempts should be rejected with 422', async () => {
+    const mcp = createMockMcp(['{}', '{}', '{}']);
+
+    const error = await generateExercises(mcp as unknown as SpanishMcp, { id: 'schema-user', tier: 'basic' }, {
+      type: 'fill_in_blank',
+      count: 2
+    }).catch(err => err);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.statusCode).toBe(422);
+    expect(error.details).toEqual(['"exercises" is required']);
+    expect(mcp.chatWithContext).toHaveBeenCalledTimes(3);
+  });
+
+  test('A repaired generation should count once against the query rate limit', async () => {
+    const llm = new MockLlmProvider();
+    const mcp = new SpanishMcp(new McpConfig({
+      apiKey: 'unused',
+      customData: { vocabulary: [], grammar: [] },
+      llmProvider: llm
+    }));
+    const user = { id: 'repaired-generation-user', tier: 'free' as const };
+    const params = { type: 'multiple_choice', difficultyLevel: 'beginner', count: 1 };
+    const validMultipleChoice = JSON.stringify({
+      exercises: [{
+        id: 'mc-1',
+        instruction: 'Choose the translation.',
+        question: 'Hola',
+        options: ['Hello', 'Goodbye'],
+        answerIndex: 0
+      }]
+    });
+
+    try {
+      // The free tier allows 2 queries per minute; each generation needs two repairs
+      for (let generation = 0; generation < 2; generation++) {
+        llm.enqueue('not json', '{}', validMultipleChoice);
+        await expect(generateExercises(mcp, user, params)).resolves.toHaveProperty('exerciseSetId');
+      }
+
+      expect(llm.requests).toHaveLength(6);
+      await expect(generateExercises(mcp, user, params)).rejects.toMatchObject({ statusCode: 429 });
+    } finally {
+      await mcp.close();
+    }
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Exercise template tests for the Spanish Learning MCP Server
+ *
+ * These tests validate that exercise context aggregates the templates attached to
+ * grammar rules with the exercise bank, filtered by difficulty, category and type.
+ */
+import {
+  collectExerciseTemplates,
+  filterExerciseTemplates,
+  sampleExerciseBank
+} from '../lib/exercise-templates.js';
+import {
+  AccessTier,
+  ContextOptions,
+  ContextType,
+  ExerciseTemplate,
+  McpConfig,
+  SpanishMcp,
+  sampleGrammar
+} from '../lib/mcp-module.js';
+import { MockLlmProvider } from '../lib/mock-llm-provider.js';
+
+const exerciseBank: ExerciseTemplate[] = [
+  {
+    title: 'Numbers Dictation',
+    type: 'listening_comprehension',
+    category: 'number',
+    difficulty: 'beginner',
+    instructions: 'Write down the numbers you hear.',
+    examples: ['quince → 15']
+  },
+  {
+    title: 'Open Translation',
+    difficulty: 'beginner',
+    instructions: 'Translate the sentence into Spanish.'
+  }
+];
+
+describe('Exercise Template Tests', () => {
+  test('Templates from grammar rules should inherit the rule category and title', () => {
+    const templates = collectExerciseTemplates(sampleGrammar, exerciseBank);
+
+    expect(templates.map(template => template.title)).toEqual([
+      'Conjugate -ar Verbs',
+      'Make It Agree',
+      'Numbers Dictation',
+      'Open Translation'
+    ]);
+    expect(templates[0]).toMatchObject({ category: 'verb_tense', grammarRule: 'Present Tense Conjugation' });
+    expect(templates[2].grammarRule).toBeUndefined();
+  });
+
+  test('Templates should be filtered by difficulty, category and type', () => {
+    const templates = collectExerciseTemplates(sampleGrammar, sampleExerciseBank);
+
+    const fillInBlank = filterExerciseTemplates(templates, { type: 'fill_in_blank', difficultyLevel: 'advanced' });
+    expect(fillInBlank.map(template => template.title)).toEqual(['Subjunctive After Expressions of Doubt']);
+
+    const adjectives = filterExerciseTemplates(templates, { categories: ['adjectives'] });
+    expect(adjectives.map(template => template.title)).toEqual(['Make It Agree', 'Spot the Agreement Error']);
+
+    // Templates without a type suit any exercise type
+    const untyped = filterExerciseTemplates(exerciseBank, { type: 'translation' });
+    expect(untyped.map(template => template.title)).toEqual(['Open Translation']);
+  });
+
+  test('Premium exercise context should render the matching templates', async () => {
+    jest.useFakeTimers();
+
+    try {
+      const mcp = new SpanishMcp(new McpConfig({
+        apiKey: 'unused',
+        customData: { grammar: sampleGrammar, exerciseBank },
+        enableCaching: false,
+        llmProvider: new MockLlmProvider()
+      }));
+
+      const { context, report } = await mcp.buildContext(new ContextOptions({
+        contextType: ContextType.EXERCISE,
+        accessTier: AccessTier.PREMIUM,
+        difficultyLevel: 'beginner',
+        exerciseType: 'fill_in_blank',
+        includeExercises: true
+      }));
+
+      expect(report.included.exercises).toEqual(['Conjugate -ar Verbs', 'Open Translation']);
+      expect(context).toContain('# Spanish Exercise Templates');
+      expect(context).toContain('- **Grammar Rule:** Present Tense Conjugation');
+      expect(context).toContain('- Nosotros (hablar) ___ español. → hablamos');
+      expect(context).not.toContain('Numbers Dictation');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
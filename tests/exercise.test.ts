@@ -8,12 +8,14 @@ import request from 'supertest';
 import { app } from '../server.js';
 import { registerApiKey } from '../middleware/auth.js';
 
-// Mock API keys for testing
-const mockApiKeys = {
-  free: registerApiKey('test-free-user-ex', 'free', 'Test Free User'),
-  basic: registerApiKey('test-basic-user-ex', 'basic', 'Test Basic User'),
-  premium: registerApiKey('test-premium-user-ex', 'premium', 'Test Premium User')
-};
+// Mock API keys for testing, issued before the tests run
+const mockApiKeys: Record<string, string> = {};
+
+beforeAll(async () => {
+  mockApiKeys.free = await registerApiKey('test-free-user-ex', 'free', 'Test Free User');
+  mockApiKeys.basic = await registerApiKey('test-basic-user-ex', 'basic', 'Test Basic User');
+  mockApiKeys.premium = await registerApiKey('test-premium-user-ex', 'premium', 'Test Premium User');
+});
 
 // Mock the MCP instance to avoid actual API calls during tests
 jest.mock('../lib/mcp-module.js', () => {
@@ -23,25 +25,46 @@ jest.mock('../lib/mcp-module.js', () => {
     ...original,
     createSpanishMcp: () => ({
       getContext: jest.fn().mockResolvedValue('Mocked context'),
-      queryWithContext: jest.fn().mockResolvedValue(JSON.stringify({
-        exercises: [
-          {
-            id: 'ex1',
-            instruction: 'Translate this sentence',
-            content: '¿Cómo te llamas?',
-            correctAnswer: 'What is your name?',
-            explanation: 'Basic greeting question'
-          },
-          {
-            id: 'ex2',
-            instruction: 'Choose the correct word',
-            content: 'El niño ___ a la escuela.',
-            options: ['va', 'vas', 'voy', 'vamos'],
-            correctAnswer: 'va',
-            explanation: 'Third person singular of ir'
-          }
-        ]
-      })),
+      buildContext: jest.fn().mockResolvedValue({ context: 'Mocked context', report: {} }),
+      // Answers the exercise prompt with a valid set of the requested type
+      chatWithContext: jest.fn().mockImplementation(async (messages: { content: string }[]) => {
+        const exercises = messages[0].content.includes('type "vocabulary_matching"')
+          ? [
+              {
+                id: 'ex1',
+                instruction: 'Match the greetings',
+                pairs: [{ spanish: 'hola', english: 'hello' }, { spanish: 'adiós', english: 'goodbye' }]
+              },
+              {
+                id: 'ex2',
+                instruction: 'Match the verbs',
+                pairs: [{ spanish: 'ir', english: 'to go' }, { spanish: 'comer', english: 'to eat' }]
+              }
+            ]
+          : [
+              {
+                id: 'ex1',
+                instruction: 'Choose the translation',
+                question: '¿Cómo te llamas?',
+                options: ['What is your name?', 'How are you?', 'Where are you from?'],
+                answerIndex: 0,
+                explanation: 'Basic greeting question'
+              },
+              {
+                id: 'ex2',
+                instruction: 'Choose the correct word',
+                question: 'El niño ___ a la escuela.',
+                options: ['va', 'vas', 'voy', 'vamos'],
+                answerIndex: 0,
+                explanation: 'Third person singular of ir'
+              }
+            ];
+
+        return {
+          response: JSON.stringify({ exercises }),
+          metadata: { contextType: 'exercise', itemCount: 0, processingTimeMs: 0, tier: 'basic' }
+        };
+      }),
       config: { model: 'mocked-model' }
     })
   };
@@ -114,6 +137,114 @@ describe('Exercise Functionality Tests', () => {
     expect(checkResponse.body.score).toHaveProperty('percentage');
   });
   
+  test('Generated exercises should not reveal their answers', async () => {
+    const response = await request(app)
+      .post('/api/exercise/generate')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({
+        type: 'multiple_choice',
+        difficultyLevel: 'beginner',
+        count: 2
+      });
+    
+    expect(response.status).toBe(200);
+    expect(response.body.exercises[1]).toHaveProperty('options');
+    response.body.exercises.forEach((exercise: any) => {
+      expect(exercise.correctAnswer).toBeUndefined();
+      expect(exercise.explanation).toBeUndefined();
+    });
+  });
+  
+  test('Answers should be graded against the stored exercise set', async () => {
+    const genResponse = await request(app)
+      .post('/api/exercise/generate')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({
+        type: 'multiple_choice',
+        difficultyLevel: 'beginner',
+        count: 2
+      });
+    
+    const exerciseSetId = genResponse.body.exerciseSetId;
+    
+    const correctResponse = await request(app)
+      .post('/api/exercise/check')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({
+        exerciseId: exerciseSetId,
+        answers: [
+          { id: 'ex1', answer: 'what is your name?' },
+          { id: 'ex2', answer: 0 } // Option index of "va"
+        ]
+      });
+    
+    expect(correctResponse.status).toBe(200);
+    expect(correctResponse.body.score).toEqual({ correct: 2, total: 2, percentage: 100 });
+    
+    const wrongResponse = await request(app)
+      .post('/api/exercise/check')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({
+        exerciseId: exerciseSetId,
+        answers: [
+          { id: 'ex2', answer: 'vamos' }
+        ]
+      });
+    
+    expect(wrongResponse.status).toBe(200);
+    expect(wrongResponse.body.results[0].isCorrect).toBe(false);
+    expect(wrongResponse.body.results[0].verdict).toBe('wrong');
+    expect(wrongResponse.body.results[0].correctAnswer).toBe('va');
+    expect(wrongResponse.body.results[0].explanation).toBe('Third person singular of ir');
+    expect(wrongResponse.body.score).toEqual({ correct: 0, total: 2, percentage: 0 });
+    
+    // Repeating a correct answer must not inflate the score
+    const repeatedResponse = await request(app)
+      .post('/api/exercise/check')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({
+        exerciseId: exerciseSetId,
+        answers: [
+          { id: 'ex2', answer: 'va' },
+          { id: 'ex2', answer: 'va' }
+        ]
+      });
+    
+    expect(repeatedResponse.status).toBe(400);
+    expect(repeatedResponse.body.error.message).toBe('Exercise "ex2" is answered more than once');
+  });
+  
+  test('Exercise sets can only be checked by their owner', async () => {
+    const genResponse = await request(app)
+      .post('/api/exercise/generate')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({
+        type: 'multiple_choice',
+        difficultyLevel: 'beginner',
+        count: 2
+      });
+    
+    const otherUserResponse = await request(app)
+      .post('/api/exercise/check')
+      .set('x-api-key', mockApiKeys.premium)
+      .send({
+        exerciseId: genResponse.body.exerciseSetId,
+        answers: [{ id: 'ex2', answer: 'va' }]
+      });
+    
+    expect(otherUserResponse.status).toBe(403);
+    
+    const unknownSetResponse = await request(app)
+      .post('/api/exercise/check')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({
+        exerciseId: 'ex_unknown',
+        answers: [{ id: 'ex2', answer: 'va' }]
+      });
+    
+    expect(unknownSetResponse.status).toBe(404);
+  });
+  
   test('Premium users get more detailed exercise feedback', async () => {
     // Generate and check for premium user
     const genResponse = await request(app)
@@ -204,6 +335,72 @@ describe('Exercise Functionality Tests', () => {
     expect(response.body.summary.strongestAreas).toBeUndefined();
   });
   
+  test('Checked exercises should be recorded in the history', async () => {
+    const apiKey = registerApiKey('test-history-user-ex', 'premium', 'Test History User');
+    
+    const genResponse = await request(app)
+      .post('/api/exercise/generate')
+      .set('x-api-key', apiKey)
+      .send({
+        type: 'multiple_choice',
+        difficultyLevel: 'beginner',
+        focusArea: 'verbs',
+        count: 2
+      });
+    
+    await request(app)
+      .post('/api/exercise/check')
+      .set('x-api-key', apiKey)
+      .send({
+        exerciseId: genResponse.body.exerciseSetId,
+        answers: [
+          { id: 'ex1', answer: 'What is your name?' },
+          { id: 'ex2', answer: 'vas' }
+        ],
+        timeTaken: 30
+      });
+    
+    const response = await request(app)
+      .get('/api/exercise/history')
+      .set('x-api-key', apiKey);
+    
+    expect(response.status).toBe(200);
+    expect(response.body.history).toHaveLength(1);
+    expect(response.body.history[0]).toMatchObject({
+      id: genResponse.body.exerciseSetId,
+      type: 'multiple_choice',
+      focusArea: 'verbs',
+      timeTaken: 30,
+      score: { correct: 1, total: 2, percentage: 50 }
+    });
+    expect(response.body.summary).toMatchObject({
+      totalExercises: 1,
+      averageScore: 50,
+      completedExerciseTypes: { multiple_choice: 1 },
+      streakDays: 1
+    });
+    expect(response.body.pagination).toEqual({ page: 1, limit: 10, total: 1, totalPages: 1 });
+    
+    // Date filters exclude attempts outside the range
+    const filteredResponse = await request(app)
+      .get('/api/exercise/history')
+      .query({ to: '2020-01-01T00:00:00Z' })
+      .set('x-api-key', apiKey);
+    
+    expect(filteredResponse.status).toBe(200);
+    expect(filteredResponse.body.history).toHaveLength(0);
+    expect(filteredResponse.body.summary.totalExercises).toBe(0);
+  });
+  
+  test('Invalid history filters should be rejected', async () => {
+    const response = await request(app)
+      .get('/api/exercise/history')
+      .query({ from: '2026-02-01', to: '2026-01-01' })
+      .set('x-api-key', mockApiKeys.premium);
+    
+    expect(response.status).toBe(400);
+  });
+  
   test('Free tier users have limited exercise count', async () => {
     const freeResponse = await request(app)
       .post('/api/exercise/generate')
@@ -0,0 +1,193 @@
+/**
+ * Learner profile tests for the Spanish Learning MCP Server
+ *
+ * These tests validate that the error profile aggregates mistake categories from
+ * exercise attempts and conversation corrections, weighted by recency.
+ */
+import request from 'supertest';
+import { app } from '../server.js';
+import { registerApiKey } from '../middleware/auth.js';
+import { buildLearnerProfile, exerciseCategory } from '../lib/learner-profile.js';
+import { ExerciseAttempt } from '../lib/exercise-attempt-repository.js';
+import { Conversation } from '../lib/conversation-repository.js';
+import { Correction } from '../lib/conversation-corrections.js';
+import { StoredExercise } from '../lib/exercise-repository.js';
+
+// Mock API keys for testing, issued before the tests run
+const mockApiKeys: Record<string, string> = {};
+
+beforeAll(async () => {
+  mockApiKeys.free = await registerApiKey('test-free-user-learner', 'free', 'Test Free User');
+});
+
+// Mock the MCP instance to avoid actual API calls during tests
+jest.mock('../lib/mcp-module.js', () => {
+  const original = jest.requireActual('../lib/mcp-module.js');
+
+  return {
+    ...original,
+    createSpanishMcp: () => ({
+      getContext: jest.fn().mockResolvedValue('Mocked context'),
+      buildContext: jest.fn().mockResolvedValue({ context: 'Mocked context', report: {} }),
+      chatWithContext: jest.fn().mockResolvedValue({
+        response: JSON.stringify({
+          exercises: [{
+            id: 'ex1',
+            instruction: 'Match the greetings',
+            pairs: [{ spanish: 'hola', english: 'hello' }, { spanish: 'adiós', english: 'goodbye' }]
+          }]
+        }),
+        metadata: {}
+      }),
+      config: { model: 'mocked-model' }
+    })
+  };
+});
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+const buildAttempt = (days: number, results: [string, boolean][]): ExerciseAttempt => ({
+  id: `att_${days}`,
+  userId: 'user-a',
+  exerciseSetId: `ex_${days}`,
+  type: 'fill_in_blank',
+  difficultyLevel: 'beginner',
+  score: { correct: 0, total: results.length, percentage: 0 },
+  completedAt: daysAgo(days),
+  results: results.map(([category, isCorrect], index) => ({ exerciseId: `ex${index + 1}`, category, isCorrect }))
+});
+
+const buildConversation = (days: number, corrections: Partial<Correction>[]): Conversation => ({
+  id: `conv_${days}`,
+  topic: 'test',
+  difficultyLevel: 'beginner',
+  participantCount: 1,
+  includeSlang: false,
+  focusAreas: [],
+  userId: 'user-a',
+  createdAt: daysAgo(days),
+  messages: [{
+    role: 'user',
+    content: 'Yo es cansado',
+    timestamp: daysAgo(days),
+    corrections: corrections.map(correction => ({
+      original: 'es',
+      corrected: 'estoy',
+      category: 'ser_estar',
+      explanation: 'Use estar for states.',
+      severity: 'moderate',
+      start: 3,
+      end: 5,
+      ...correction
+    }))
+  }]
+});
+
+describe('Learner Profile Tests', () => {
+  test('Exercises should be categorized by conjugation, focus area or type', () => {
+    const exercise = (data?: unknown) => ({ id: 'ex1', instruction: '', content: '', correctAnswer: '', data }) as StoredExercise;
+    const drill = (mood: string, tense: string) => exercise({
+      type: 'fill_in_blank', conjugation: { verb: 'ir', mood, tense, person: 'yo' }
+    });
+
+    expect(exerciseCategory(drill('subjunctive', 'present'), 'fill_in_blank', 'conjugation')).toBe('subjunctive');
+    expect(exerciseCategory(drill('indicative', 'preterite'), 'fill_in_blank')).toBe('preterite_imperfect');
+    expect(exerciseCategory(drill('indicative', 'future'), 'fill_in_blank')).toBe('verb_conjugation');
+    expect(exerciseCategory(exercise(), 'multiple_choice', 'Ser Estar')).toBe('ser_estar');
+    expect(exerciseCategory(exercise(), 'multiple_choice', 'past tense')).toBe('preterite_imperfect');
+    expect(exerciseCategory(exercise(), 'vocabulary_matching', 'food')).toBe('vocabulary');
+    expect(exerciseCategory(exercise(), 'multiple_choice')).toBe('other');
+  });
+
+  test('Weaknesses and strengths should come from exercises and conversations', () => {
+    const profile = buildLearnerProfile(
+      [
+        buildAttempt(1, [['vocabulary', true], ['vocabulary', true], ['vocabulary', true]]),
+        buildAttempt(2, [['preterite_imperfect', false], ['preterite_imperfect', false], ['preterite_imperfect', true]])
+      ],
+      [
+        buildConversation(0, [{ severity: 'major' }, { category: 'gender_agreement', severity: 'minor' }]),
+        buildConversation(3, [{}])
+      ],
+      { now: NOW }
+    );
+
+    expect(profile.weaknesses).toEqual(['ser_estar', 'preterite_imperfect']);
+    expect(profile.strengths).toEqual(['vocabulary']);
+    expect(profile.categories.find(stats => stats.category === 'ser_estar')).toMatchObject({
+      mistakes: 2,
+      correct: 0,
+      sources: { exercises: 0, conversations: 2 },
+      lastMistakeAt: NOW.toISOString()
+    });
+    // A single minor mistake isn't a weakness
+    expect(profile.weaknesses).not.toContain('gender_agreement');
+    expect(profile.totals).toEqual({ exerciseAnswers: 6, correctedMessages: 2, corrections: 3 });
+
+    expect(profile.recommendations.map(({ type, focusArea }) => ({ type, focusArea }))).toEqual([
+      { type: 'error_correction', focusArea: 'ser_estar' },
+      { type: 'fill_in_blank', focusArea: 'preterite_imperfect' }
+    ]);
+  });
+
+  test('Old mistakes should count less than recent ones', () => {
+    const attempts = [
+      buildAttempt(60, [['ser_estar', false], ['ser_estar', false], ['ser_estar', false]]),
+      buildAttempt(1, [['ser_estar', true], ['ser_estar', true], ['ser_estar', true]])
+    ];
+
+    const recent = buildLearnerProfile(attempts, [], { now: NOW });
+    const stats = recent.categories[0];
+
+    expect(stats).toMatchObject({ category: 'ser_estar', mistakes: 3, correct: 3 });
+    expect(stats.errorRate).toBeLessThan(10);
+    expect(recent.weaknesses).toEqual([]);
+    expect(recent.strengths).toEqual(['ser_estar']);
+
+    // The same answers in the opposite order make a weakness
+    const reversed = buildLearnerProfile([
+      buildAttempt(60, [['ser_estar', true], ['ser_estar', true], ['ser_estar', true]]),
+      buildAttempt(1, [['ser_estar', false], ['ser_estar', false], ['ser_estar', false]])
+    ], [], { now: NOW });
+
+    expect(reversed.weaknesses).toEqual(['ser_estar']);
+  });
+
+  test('Recommendations should be limited to the exercise types of the tier', () => {
+    const profile = buildLearnerProfile(
+      [buildAttempt(1, [['word_order', false], ['word_order', false]])],
+      [],
+      { now: NOW, allowedExerciseTypes: ['vocabulary_matching', 'multiple_choice'] }
+    );
+
+    expect(profile.recommendations).toEqual([
+      expect.objectContaining({ type: 'multiple_choice', focusArea: 'word_order' })
+    ]);
+  });
+
+  test('The profile endpoint should reflect checked exercises', async () => {
+    const generateResponse = await request(app)
+      .post('/api/exercise/generate')
+      .set('x-api-key', mockApiKeys.free)
+      .send({ type: 'vocabulary_matching', difficultyLevel: 'beginner', count: 1 });
+
+    await request(app)
+      .post('/api/exercise/check')
+      .set('x-api-key', mockApiKeys.free)
+      .send({
+        exerciseId: generateResponse.body.exerciseSetId,
+        answers: [{ id: 'ex1', answer: ['goodbye', 'hello'] }]
+      });
+
+    const response = await request(app)
+      .get('/api/learner/profile')
+      .set('x-api-key', mockApiKeys.free);
+
+    expect(response.status).toBe(200);
+    expect(response.body.profile.totals.exerciseAnswers).toBe(1);
+    expect(response.body.profile.categories).toEqual([
+      expect.objectContaining({ category: 'vocabulary', mistakes: 1 })
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * LLM provider tests for the Spanish Learning MCP Server
+ *
+ * These tests validate the offline mock provider and that SpanishMcp sends its
+ * queries through the configured provider.
+ */
+import {
+  AccessTier,
+  ContextOptions,
+  ContextType,
+  McpConfig,
+  SpanishMcp,
+  sampleVocabulary
+} from '../lib/mcp-module.js';
+import { LlmRequest } from '../lib/llm-provider.js';
+import { MockLlmProvider, loadMockLlmFixtures } from '../lib/mock-llm-provider.js';
+
+const buildRequest = (content: string): LlmRequest => ({
+  model: 'test-model',
+  maxTokens: 100,
+  temperature: 0,
+  messages: [{ role: 'user', content }]
+});
+
+const createMcp = (provider: MockLlmProvider) => new SpanishMcp(new McpConfig({
+  apiKey: 'unused',
+  customData: { vocabulary: sampleVocabulary },
+  enableCaching: false,
+  llmProvider: provider,
+  tierModels: { [AccessTier.PREMIUM]: 'premium-model' }
+}));
+
+describe('LLM Provider Tests', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('Mock provider should prefer scripted responses, then fixtures, then a default', async () => {
+    const provider = new MockLlmProvider({
+      fixtures: [{ match: 'greeting', response: '¡Hola!' }]
+    });
+    provider.enqueue('Scripted reply');
+
+    expect((await provider.complete(buildRequest('A greeting please'))).text).toBe('Scripted reply');
+    expect((await provider.complete(buildRequest('Another GREETING'))).text).toBe('¡Hola!');
+    expect((await provider.complete(buildRequest('Something else'))).text).toBe('Mock response to: Something else');
+    expect(provider.requests).toHaveLength(3);
+  });
+
+  test('Mock provider should be deterministic', async () => {
+    const provider = new MockLlmProvider();
+    const first = await provider.complete(buildRequest('¿Qué hora es?'));
+    const second = await provider.complete(buildRequest('¿Qué hora es?'));
+
+    expect(second).toEqual(first);
+    expect(first.usage.inputTokens).toBe(await provider.countTokens(buildRequest('¿Qué hora es?')));
+  });
+
+  test('Mock provider should stream word deltas and stop when aborted', async () => {
+    const provider = new MockLlmProvider().enqueue('uno dos tres', 'uno dos tres');
+
+    const events = [];
+    for await (const event of provider.stream(buildRequest('Cuenta'))) {
+      events.push(event);
+    }
+
+    expect(events.filter(event => event.type === 'delta')).toHaveLength(3);
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', completion: { text: 'uno dos tres' } });
+
+    const controller = new AbortController();
+    const received: string[] = [];
+
+    await expect((async () => {
+      for await (const event of provider.stream(buildRequest('Cuenta'), { signal: controller.signal })) {
+        if (event.type === 'delta') {
+          received.push(event.text);
+          controller.abort();
+        }
+      }
+    })()).rejects.toThrow();
+
+    expect(received).toEqual(['uno ']);
+  });
+
+  test('Bundled fixtures should produce valid exercise JSON', async () => {
+    const provider = new MockLlmProvider({
+      fixtures: loadMockLlmFixtures('examples/mock-llm-fixtures.json')
+    });
+
+    const completion = await provider.complete(
+      buildRequest('Generate 2 Spanish language exercises of type "multiple_choice" with difficulty "beginner".')
+    );
+
+    const parsed = JSON.parse(completion.text);
+    expect(parsed.exercises.length).toBeGreaterThan(0);
+    expect(parsed.exercises[0]).toHaveProperty('answerIndex');
+  });
+
+  test('SpanishMcp should query through the configured provider', async () => {
+    const provider = new MockLlmProvider().enqueue('Respuesta de prueba');
+    const mcp = createMcp(provider);
+
+    const result = await mcp.queryWithContext('¿Cómo se dice hello?', new ContextOptions({
+      contextType: ContextType.VOCABULARY
+    }));
+
+    expect(result.response).toBe('Respuesta de prueba');
+    expect(result.metadata.usage?.outputTokens).toBeGreaterThan(0);
+    expect(provider.requests[0].system).toContain('hola');
+    expect(provider.requests[0].model).toBe('claude-3-opus-20240229');
+  });
+
+  test('SpanishMcp should use the model configured for the tier', async () => {
+    const provider = new MockLlmProvider();
+    const mcp = createMcp(provider);
+
+    await mcp.queryWithContext('Hola', new ContextOptions({
+      contextType: ContextType.VOCABULARY,
+      accessTier: AccessTier.PREMIUM
+    }));
+
+    expect(provider.requests[0].model).toBe('premium-model');
+  });
+
+  test('SpanishMcp should stream through the configured provider', async () => {
+    const provider = new MockLlmProvider().enqueue('Muy bien, gracias');
+    const mcp = createMcp(provider);
+
+    const deltas: string[] = [];
+    let done;
+
+    for await (const event of mcp.streamQueryWithContext('¿Cómo estás?', new ContextOptions({
+      contextType: ContextType.VOCABULARY
+    }))) {
+      if (event.type === 'delta') {
+        deltas.push(event.text);
+      } else {
+        done = event;
+      }
+    }
+
+    expect(deltas.join('')).toBe('Muy bien, gracias');
+    expect(done).toMatchObject({ response: 'Muy bien, gracias', metadata: { usage: { outputTokens: 5 } } });
+  });
+});
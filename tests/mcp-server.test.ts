@@ -0,0 +1,107 @@
+/**
+ * Model Context Protocol server tests for the Spanish Learning MCP Server
+ *
+ * These tests validate that SpanishMcp is exposed correctly over the MCP
+ * wire protocol, including tool schemas, tier checks and resources.
+ */
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createSpanishMcpServer } from '../lib/mcp-server.js';
+import { SpanishMcp } from '../lib/mcp-module.js';
+import { AuthenticatedUser } from '../lib/appwrite-auth.js';
+
+// Mock MCP instance to avoid actual API calls during tests
+const mockMcp = {
+  getContext: jest.fn().mockResolvedValue('# Spanish Vocabulary Reference'),
+  queryWithContext: jest.fn().mockResolvedValue({
+    response: 'Mocked tutor response',
+    metadata: { contextType: 'vocabulary', itemCount: 0, processingTimeMs: 0, tier: 'free' }
+  })
+} as unknown as SpanishMcp;
+
+const connectClient = async (user: AuthenticatedUser) => {
+  const server = createSpanishMcpServer(mockMcp, user);
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport)
+  ]);
+
+  return client;
+};
+
+describe('MCP Protocol Server Tests', () => {
+  test('Tools should be listed with JSON Schemas derived from the Joi schemas', async () => {
+    const client = await connectClient({ id: 'mcp-free-user', tier: 'free' });
+    const { tools } = await client.listTools();
+
+    const names = tools.map(tool => tool.name);
+    expect(names).toEqual(expect.arrayContaining([
+      'query_with_context',
+      'start_conversation',
+      'continue_conversation',
+      'generate_exercises',
+      'check_exercise'
+    ]));
+
+    const generateTool = tools.find(tool => tool.name === 'generate_exercises');
+    expect(generateTool?.inputSchema.required).toContain('type');
+    expect((generateTool?.inputSchema.properties as any).count).toMatchObject({
+      type: 'integer',
+      minimum: 1,
+      maximum: 10,
+      default: 5
+    });
+  });
+
+  test('query_with_context should return the tutor response', async () => {
+    const client = await connectClient({ id: 'mcp-free-user', tier: 'free' });
+    const result = await client.callTool({
+      name: 'query_with_context',
+      arguments: { query: '¿Cómo se dice hello?' }
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect((result.content as any)[0].text).toBe('Mocked tutor response');
+  });
+
+  test('Tier restrictions should be reported as tool errors', async () => {
+    const client = await connectClient({ id: 'mcp-free-user', tier: 'free' });
+    const result = await client.callTool({
+      name: 'generate_exercises',
+      arguments: { type: 'translation' }
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toContain('not available for your free subscription tier');
+  });
+
+  test('Invalid tool arguments should be rejected', async () => {
+    const client = await connectClient({ id: 'mcp-free-user', tier: 'free' });
+
+    await expect(client.callTool({
+      name: 'start_conversation',
+      arguments: {}
+    })).rejects.toThrow(/topic/);
+  });
+
+  test('Vocabulary and grammar context should be readable as resources', async () => {
+    const client = await connectClient({ id: 'mcp-basic-user', tier: 'basic' });
+    const { resources } = await client.listResources();
+
+    expect(resources.map(resource => resource.uri)).toContain('spanish://vocabulary/verb/beginner');
+    expect(resources.map(resource => resource.uri)).toContain('spanish://grammar/verb_tense/advanced');
+
+    const result = await client.readResource({ uri: 'spanish://vocabulary/verb/beginner' });
+    expect(result.contents[0].text).toBe('# Spanish Vocabulary Reference');
+  });
+
+  test('Unknown resources should be rejected', async () => {
+    const client = await connectClient({ id: 'mcp-basic-user', tier: 'basic' });
+
+    await expect(client.readResource({ uri: 'spanish://vocabulary/unknown/beginner' }))
+      .rejects.toThrow(/Unknown resource/);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Permission tests for the Spanish Learning MCP Server
+ *
+ * These tests validate that roles grant scopes, that admin routes accept users whose
+ * roles grant the scope they require, and that other users are turned away.
+ */
+import { createHmac } from 'crypto';
+import request from 'supertest';
+import { app } from '../server.js';
+import { resolveScopes } from '../lib/permissions.js';
+import { registerApiKey } from '../middleware/auth.js';
+
+const ADMIN_KEY = 'test-admin-key';
+const SECRET = 'test-jwt-secret';
+
+// Use an MCP backed by custom data, so changes are saved in memory
+jest.mock('../lib/mcp-module.js', () => {
+  const original = jest.requireActual('../lib/mcp-module.js');
+  const { MockLlmProvider } = jest.requireActual('../lib/mock-llm-provider.js');
+
+  return {
+    ...original,
+    createSpanishMcp: () => new original.SpanishMcp(new original.McpConfig({
+      apiKey: 'unused',
+      customData: { vocabulary: [], grammar: [] },
+      llmProvider: new MockLlmProvider()
+    }))
+  };
+});
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const hs256Token = (claims: object) => {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  return `${input}.${createHmac('sha256', SECRET).update(input).digest('base64url')}`;
+};
+
+describe('Permission Tests', () => {
+  beforeAll(() => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+    process.env.JWT_SECRET = SECRET;
+  });
+
+  test('Roles should grant their scopes on top of the learner scopes', () => {
+    expect(resolveScopes([])).toEqual(['conversation:read', 'conversation:write', 'exercise:generate']);
+    expect(resolveScopes(['support'])).toContain('users:read');
+    expect(resolveScopes(['support'])).not.toContain('users:admin');
+    expect(resolveScopes(['content-editor'], ['users:read'])).toEqual(expect.arrayContaining(['content:write', 'users:read']));
+  });
+
+  test('Content editors should manage content but not users', async () => {
+    const editorKey = await registerApiKey('content-editor-user', 'free', undefined, ['content-editor']);
+    const learnerKey = await registerApiKey('content-learner-user', 'premium');
+
+    const created = await request(app)
+      .post('/api/admin/vocabulary')
+      .set('x-api-key', editorKey)
+      .send({ word: 'gato', translation: 'cat', category: 'noun' });
+
+    expect(created.status).toBe(201);
+
+    const learner = await request(app)
+      .get('/api/admin/vocabulary')
+      .set('x-api-key', learnerKey);
+
+    expect(learner.status).toBe(403);
+    expect(learner.body.message).toBe('This endpoint requires the content:read scope');
+
+    const users = await request(app)
+      .get('/api/users/content-learner-user')
+      .set('x-api-key', editorKey);
+
+    expect(users.status).toBe(403);
+    expect(users.body.message).toBe('This endpoint requires the users:read scope');
+  });
+
+  test('Admins should assign roles that support staff can use', async () => {
+    const supportKey = await registerApiKey('support-user', 'free');
+
+    const assigned = await request(app)
+      .put('/api/users/support-user/roles')
+      .set('x-admin-key', ADMIN_KEY)
+      .send({ roles: ['support'] });
+
+    expect(assigned.status).toBe(200);
+    expect(assigned.body.roles).toEqual(['support']);
+
+    const invalid = await request(app)
+      .put('/api/users/support-user/roles')
+      .set('x-admin-key', ADMIN_KEY)
+      .send({ roles: ['superuser'] });
+
+    expect(invalid.status).toBe(400);
+
+    const lookup = await request(app)
+      .get('/api/users/support-user')
+      .set('x-api-key', supportKey);
+
+    expect(lookup.status).toBe(200);
+    expect(lookup.body.user.roles).toEqual(['support']);
+
+    const tierChange = await request(app)
+      .put('/api/users/support-user/tier')
+      .set('x-api-key', supportKey)
+      .send({ tier: 'premium' });
+
+    expect(tierChange.status).toBe(403);
+  });
+
+  test('Bearer tokens should carry roles and scopes', async () => {
+    const exp = Math.floor(Date.now() / 1000) + 60;
+
+    const editor = await request(app)
+      .get('/api/admin/grammar')
+      .set('Authorization', `Bearer ${hs256Token({ sub: 'token-editor', exp, roles: ['content-editor'] })}`);
+
+    expect(editor.status).toBe(200);
+
+    const scoped = await request(app)
+      .get('/api/admin/content/vocabulary/export')
+      .set('Authorization', `Bearer ${hs256Token({ sub: 'token-reader', exp, scope: 'content:read' })}`);
+
+    expect(scoped.status).toBe(200);
+
+    const learner = await request(app)
+      .get('/api/admin/grammar')
+      .set('Authorization', `Bearer ${hs256Token({ sub: 'token-learner', exp })}`);
+
+    expect(learner.status).toBe(403);
+  });
+});
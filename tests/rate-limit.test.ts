@@ -8,12 +8,14 @@ import request from 'supertest';
 import { app } from '../server.js';
 import { registerApiKey } from '../middleware/auth.js';
 
-// Mock API keys for testing
-const mockApiKeys = {
-  free: registerApiKey('test-free-user-rate', 'free', 'Test Free User'),
-  basic: registerApiKey('test-basic-user-rate', 'basic', 'Test Basic User'),
-  premium: registerApiKey('test-premium-user-rate', 'premium', 'Test Premium User')
-};
+// Mock API keys for testing, issued before the tests run
+const mockApiKeys: Record<string, string> = {};
+
+beforeAll(async () => {
+  mockApiKeys.free = await registerApiKey('test-free-user-rate', 'free', 'Test Free User');
+  mockApiKeys.basic = await registerApiKey('test-basic-user-rate', 'basic', 'Test Basic User');
+  mockApiKeys.premium = await registerApiKey('test-premium-user-rate', 'premium', 'Test Premium User');
+});
 
 // Helper function to make repeated requests
 const makeRepeatedRequests = async (
@@ -88,6 +90,29 @@ describe('Rate Limiting Tests', () => {
     expect(regularRateLimited).toBe(false);
   });
   
+  test('MCP tool calls should count against the same tiered limits', async () => {
+    const callTool = (id: number) => request(app)
+      .post('/mcp')
+      .set('x-api-key', mockApiKeys.free)
+      .set('Accept', 'application/json, text/event-stream')
+      .send({
+        jsonrpc: '2.0',
+        id,
+        method: 'tools/call',
+        params: { name: 'generate_exercises', arguments: { type: 'translation' } }
+      });
+    
+    const responses = [];
+    
+    // The free tier allows 3 exercise requests per window
+    for (let id = 1; id <= 4; id++) {
+      responses.push(await callTool(id));
+    }
+    
+    expect(responses.slice(0, 3).map(r => r.status)).toEqual([200, 200, 200]);
+    expect(responses[3].status).toBe(429);
+  });
+  
   test('API key generation should have very strict rate limits', async () => {
     // Make multiple requests to the API key endpoint
     // Note: We're using a regular endpoint here as we can't actually test the admin API key
@@ -0,0 +1,187 @@
+/**
+ * Vocabulary review tests for the Spanish Learning MCP Server
+ *
+ * These tests validate the spaced repetition scheduler, the review endpoints,
+ * and that due words are prioritized in vocabulary context.
+ */
+import request from 'supertest';
+import { app } from '../server.js';
+import { registerApiKey } from '../middleware/auth.js';
+import {
+  createReviewCard,
+  prioritizeReviewCards,
+  scheduleReview,
+  MIN_EASE_FACTOR
+} from '../lib/review-scheduler.js';
+import { getPriorityReviewWords, getReviewRepository } from '../lib/review-service.js';
+import {
+  ContextOptions,
+  ContextType,
+  McpConfig,
+  SpanishMcp,
+  sampleVocabulary
+} from '../lib/mcp-module.js';
+
+// Mock API keys for testing, issued before the tests run
+const mockApiKeys: Record<string, string> = {};
+
+beforeAll(async () => {
+  mockApiKeys.free = await registerApiKey('test-free-user-review', 'free', 'Test Free User');
+  mockApiKeys.premium = await registerApiKey('test-premium-user-review', 'premium', 'Test Premium User');
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+// Mock the MCP instance to avoid actual API calls during tests
+jest.mock('../lib/mcp-module.js', () => {
+  const original = jest.requireActual('../lib/mcp-module.js');
+
+  return {
+    ...original,
+    createSpanishMcp: () => ({
+      getContext: jest.fn().mockResolvedValue('Mocked context'),
+      queryWithContext: jest.fn().mockResolvedValue({ response: 'Mocked response', metadata: {} }),
+      config: { model: 'mocked-model' }
+    })
+  };
+});
+
+describe('Vocabulary Review Tests', () => {
+  beforeEach(async () => {
+    await getReviewRepository().clear();
+  });
+
+  test('Successful reviews should grow the interval', () => {
+    let card = createReviewCard('user-a', 'Hablar', NOW);
+    expect(card.word).toBe('hablar');
+
+    card = scheduleReview(card, 4, NOW);
+    expect(card.interval).toBe(1);
+
+    card = scheduleReview(card, 4, NOW);
+    expect(card.interval).toBe(6);
+
+    card = scheduleReview(card, 5, NOW);
+    expect(card.interval).toBe(Math.round(6 * 2.5));
+    expect(card.repetitions).toBe(3);
+    expect(card.easeFactor).toBeCloseTo(2.6);
+    expect(card.dueAt.getTime()).toBe(NOW.getTime() + card.interval * DAY_MS);
+  });
+
+  test('Failed reviews should reset the interval and lower the ease factor', () => {
+    let card = createReviewCard('user-a', 'hablar', NOW);
+    card = scheduleReview(card, 5, NOW);
+    card = scheduleReview(card, 5, NOW);
+    card = scheduleReview(card, 1, NOW);
+
+    expect(card.interval).toBe(1);
+    expect(card.repetitions).toBe(0);
+    expect(card.lapses).toBe(1);
+    expect(card.easeFactor).toBeLessThan(2.5);
+
+    for (let i = 0; i < 10; i++) {
+      card = scheduleReview(card, 0, NOW);
+    }
+
+    expect(card.easeFactor).toBe(MIN_EASE_FACTOR);
+  });
+
+  test('Due cards should come before struggling cards', () => {
+    const due = { ...createReviewCard('user-a', 'hola', NOW), dueAt: new Date(NOW.getTime() - DAY_MS) };
+    const struggling = { ...scheduleReview(createReviewCard('user-a', 'adiós', NOW), 1, NOW) };
+    const learned = scheduleReview(createReviewCard('user-a', 'gracias', NOW), 5, NOW);
+
+    const prioritized = prioritizeReviewCards([learned, struggling, due], NOW);
+    expect(prioritized.map(card => card.word)).toEqual(['hola', 'adiós']);
+  });
+
+  test('Grading a word should schedule its next review', async () => {
+    const response = await request(app)
+      .post('/api/review/hablar/grade')
+      .set('x-api-key', mockApiKeys.free)
+      .send({ grade: 4 });
+
+    expect(response.status).toBe(200);
+    expect(response.body.review).toMatchObject({
+      word: 'hablar',
+      interval: 1,
+      repetitions: 1,
+      reviewCount: 1,
+      lastGrade: 4,
+      isDue: false
+    });
+  });
+
+  test('Invalid grades should be rejected', async () => {
+    const response = await request(app)
+      .post('/api/review/hablar/grade')
+      .set('x-api-key', mockApiKeys.free)
+      .send({ grade: 7 });
+
+    expect(response.status).toBe(400);
+  });
+
+  test('Due words should be listed per user', async () => {
+    await request(app)
+      .post('/api/review/hola/grade')
+      .set('x-api-key', mockApiKeys.premium)
+      .send({ grade: 1 });
+
+    // Not due until tomorrow, but struggling
+    const dueResponse = await request(app)
+      .get('/api/review/due')
+      .set('x-api-key', mockApiKeys.premium);
+
+    expect(dueResponse.status).toBe(200);
+    expect(dueResponse.body.reviews).toHaveLength(0);
+    expect(dueResponse.body.totalCards).toBe(1);
+
+    const strugglingResponse = await request(app)
+      .get('/api/review/due')
+      .query({ includeStruggling: true })
+      .set('x-api-key', mockApiKeys.premium);
+
+    expect(strugglingResponse.body.reviews[0]).toMatchObject({ word: 'hola', isStruggling: true });
+
+    // Other users don't see the card
+    const otherResponse = await request(app)
+      .get('/api/review/due')
+      .query({ includeStruggling: true })
+      .set('x-api-key', mockApiKeys.free);
+
+    expect(otherResponse.body.totalCards).toBe(0);
+  });
+
+  test('Struggling words should be prioritized for context', async () => {
+    const repository = getReviewRepository();
+    await repository.save(scheduleReview(createReviewCard('user-context', 'hablar'), 0));
+
+    expect(await getPriorityReviewWords('user-context')).toEqual(['hablar']);
+  });
+
+  test('Vocabulary context should put review words first', async () => {
+    jest.useFakeTimers();
+
+    try {
+      const mcp = new SpanishMcp(new McpConfig({
+        apiKey: 'test-key',
+        customData: { vocabulary: sampleVocabulary },
+        enableCaching: false,
+        connectionPoolSize: 1,
+        reviewWordProvider: async () => ['hablar']
+      }));
+
+      const context = await mcp.getContext(new ContextOptions({
+        contextType: ContextType.VOCABULARY,
+        maxItems: 1,
+        userId: 'user-context'
+      }));
+
+      expect(context).toContain('hablar');
+      expect(context).not.toContain('hola');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Spanish answer comparator tests for the Spanish Learning MCP Server
+ *
+ * These tests validate that free-text answers are normalized and classified
+ * the way a Spanish teacher would grade them.
+ */
+import {
+  compareSpanishAnswers,
+  levenshteinDistance,
+  normalizeSpanishText
+} from '../lib/spanish-answer-comparator.js';
+
+describe('Spanish Answer Comparator Tests', () => {
+  test('Text should be normalized for case, punctuation and whitespace', () => {
+    expect(normalizeSpanishText('  ¡Hola,   Señor!  ')).toBe('hola señor');
+    expect(normalizeSpanishText('¿Dónde está el baño?', { foldDiacritics: true })).toBe('donde esta el bano');
+    expect(normalizeSpanishText('El perro y la casa', { stripArticles: true })).toBe('perro y casa');
+  });
+
+  test('Edit distance should count character edits', () => {
+    expect(levenshteinDistance('pizza', 'pizza')).toBe(0);
+    expect(levenshteinDistance('piza', 'pizza')).toBe(1);
+    expect(levenshteinDistance('', 'hola')).toBe(4);
+  });
+
+  test('Punctuation and inverted marks should not affect correct answers', () => {
+    const result = compareSpanishAnswers('Cómo estás', '¿Cómo estás?');
+
+    expect(result.verdict).toBe('correct');
+    expect(result.isAcceptable).toBe(true);
+    expect(result.distance).toBe(0);
+  });
+
+  test('Missing accents and ñ should be accepted with a warning', () => {
+    const result = compareSpanishAnswers('manana voy a espana', 'Mañana voy a España');
+
+    expect(result.verdict).toBe('correct_with_accent_warning');
+    expect(result.isAcceptable).toBe(true);
+    expect(result.diff).toEqual([
+      { op: 'accent', expected: 'mañana', actual: 'manana' },
+      { op: 'equal', expected: 'voy' },
+      { op: 'equal', expected: 'a' },
+      { op: 'accent', expected: 'españa', actual: 'espana' }
+    ]);
+  });
+
+  test('Articles should be ignored unless disabled', () => {
+    expect(compareSpanishAnswers('Quiero pizza', 'Quiero una pizza').verdict).toBe('correct');
+    expect(compareSpanishAnswers('Quiero pizza', 'Quiero una pizza', { ignoreArticles: false }).isAcceptable).toBe(false);
+
+    // An answer that is only an article is still graded on the article
+    expect(compareSpanishAnswers('el', 'la').verdict).toBe('wrong');
+  });
+
+  test('The pronoun él should not be taken for the article el', () => {
+    expect(normalizeSpanishText('Él tiene el libro', { stripArticles: true, foldDiacritics: true })).toBe('el tiene libro');
+
+    expect(compareSpanishAnswers('la', 'él').verdict).toBe('wrong');
+    expect(compareSpanishAnswers('los', 'él').verdict).toBe('wrong');
+    expect(compareSpanishAnswers('habla', 'él habla').verdict).toBe('wrong');
+
+    // Without its accent the pronoun is still accepted, with a warning
+    expect(compareSpanishAnswers('el', 'él').verdict).toBe('correct_with_accent_warning');
+    expect(compareSpanishAnswers('el habla', 'él habla').verdict).toBe('correct_with_accent_warning');
+    expect(compareSpanishAnswers('él tiene libro', 'él tiene el libro').verdict).toBe('correct');
+  });
+
+  test('Small typos should be reported as near misses', () => {
+    const result = compareSpanishAnswers('Quiero una piza', 'Quiero una pizza');
+
+    expect(result.verdict).toBe('near_miss');
+    expect(result.isAcceptable).toBe(false);
+    expect(result.diff).toContainEqual({ op: 'substitute', expected: 'pizza', actual: 'piza' });
+  });
+
+  test('Different answers should be wrong with a word-level diff', () => {
+    const result = compareSpanishAnswers('Yo tengo un perro', 'Tengo un gato');
+
+    expect(result.verdict).toBe('wrong');
+    expect(result.diff).toEqual([
+      { op: 'insert', actual: 'yo' },
+      { op: 'equal', expected: 'tengo' },
+      { op: 'equal', expected: 'un' },
+      { op: 'substitute', expected: 'gato', actual: 'perro' }
+    ]);
+    expect(compareSpanishAnswers('', 'hola').verdict).toBe('wrong');
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Streaming response tests for the Spanish Learning MCP Server
+ *
+ * These tests validate the Server-Sent Events endpoints and that streamed
+ * tutor replies are saved to the conversation, including when aborted.
+ */
+import request from 'supertest';
+import { app } from '../server.js';
+import { registerApiKey } from '../middleware/auth.js';
+import { AuthenticatedUser } from '../lib/appwrite-auth.js';
+import {
+  getConversationRepository,
+  startConversation,
+  streamConversationContinuation
+} from '../lib/conversation-service.js';
+import { AccessTier, ContextType, McpStreamEvent, QueryRateLimitError, SpanishMcp } from '../lib/mcp-module.js';
+
+// Mock API keys for testing, issued before the tests run
+const mockApiKeys: Record<string, string> = {};
+
+beforeAll(async () => {
+  mockApiKeys.basic = await registerApiKey('test-basic-user-stream', 'basic', 'Test Basic User');
+  mockApiKeys.premium = await registerApiKey('test-premium-user-stream', 'premium', 'Test Premium User');
+});
+
+const streamedChunks = ['¡Hola! ', '¿Cómo ', 'estás?'];
+
+async function* mockStream(): AsyncGenerator<McpStreamEvent> {
+  for (const text of streamedChunks) {
+    yield { type: 'delta', text };
+  }
+
+  yield {
+    type: 'done',
+    response: streamedChunks.join(''),
+    metadata: {
+      contextType: ContextType.CONVERSATION,
+      itemCount: 0,
+      processingTimeMs: 5,
+      tier: AccessTier.BASIC,
+      usage: { inputTokens: 120, outputTokens: 8 }
+    }
+  };
+}
+
+// Context building for the app's MCP instance, so tests can make it fail
+const mockBuildContext = jest.fn().mockResolvedValue({ context: 'Mocked context', report: {} });
+
+// Mock the MCP instance to avoid actual API calls during tests
+jest.mock('../lib/mcp-module.js', () => {
+  const original = jest.requireActual('../lib/mcp-module.js');
+  const { getTierPolicy } = jest.requireActual('../lib/tier-policy.js');
+
+  return {
+    ...original,
+    createSpanishMcp: () => ({
+      getContext: jest.fn().mockResolvedValue('Mocked context'),
+      buildContext: (...args: unknown[]) => mockBuildContext(...args),
+      queryWithContext: jest.fn().mockResolvedValue({ response: 'Mocked response', metadata: {} }),
+      streamQueryWithContext: jest.fn(() => mockStream()),
+      streamChatWithContext: jest.fn(() => mockStream()),
+      tierPolicy: getTierPolicy,
+      config: { model: 'mocked-model' }
+    })
+  };
+});
+
+/**
+ * Parse an SSE body into its events
+ */
+const parseSseEvents = (body: string) => body
+  .split('\n\n')
+  .filter(block => block.trim().length > 0)
+  .map(block => {
+    const [eventLine, dataLine] = block.split('\n');
+    return {
+      event: eventLine.replace('event: ', ''),
+      data: JSON.parse(dataLine.replace('data: ', ''))
+    };
+  });
+
+describe('Streaming Response Tests', () => {
+  test('Query stream should send deltas and a final metadata event', async () => {
+    const response = await request(app)
+      .post('/api/mcp/query/stream')
+      .set('x-api-key', mockApiKeys.premium)
+      .send({ query: 'How do I greet someone?' })
+      .buffer(true)
+      .parse((res, callback) => {
+        let body = '';
+        res.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+        res.on('end', () => callback(null, body));
+      });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toContain('text/event-stream');
+
+    const events = parseSseEvents(response.body);
+    expect(events.filter(e => e.event === 'delta').map(e => e.data.text)).toEqual(streamedChunks);
+
+    const done = events[events.length - 1];
+    expect(done.event).toBe('done');
+    expect(done.data.response).toBe('¡Hola! ¿Cómo estás?');
+    expect(done.data.metadata.usage).toEqual({ inputTokens: 120, outputTokens: 8 });
+  });
+
+  test('Rate-limited query streams should get a 429 before streaming', async () => {
+    mockBuildContext.mockRejectedValueOnce(new QueryRateLimitError());
+
+    const response = await request(app)
+      .post('/api/mcp/query/stream')
+      .set('x-api-key', mockApiKeys.premium)
+      .send({ query: 'How do I greet someone?' });
+
+    expect(response.status).toBe(429);
+    expect(response.headers['content-type']).toContain('application/json');
+    expect(response.body.error.message).toBe('Too many queries. Please try again in a minute.');
+  });
+
+  test('Conversation stream should save the assembled reply', async () => {
+    const startResponse = await request(app)
+      .post('/api/conversation/start')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({ topic: 'greetings', difficultyLevel: 'beginner' });
+
+    const { conversationId } = startResponse.body;
+
+    const response = await request(app)
+      .post('/api/conversation/continue/stream')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({ conversationId, userMessage: 'Hola' })
+      .buffer(true)
+      .parse((res, callback) => {
+        let body = '';
+        res.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+        res.on('end', () => callback(null, body));
+      });
+
+    expect(response.status).toBe(200);
+
+    const events = parseSseEvents(response.body);
+    const done = events[events.length - 1];
+    expect(done.event).toBe('done');
+    expect(done.data).toMatchObject({ conversationId, message: '¡Hola! ¿Cómo estás?' });
+
+    const conversation = await getConversationRepository().get(conversationId);
+    const lastMessage = conversation!.messages[conversation!.messages.length - 1];
+    expect(lastMessage).toMatchObject({ role: 'system', content: '¡Hola! ¿Cómo estás?' });
+  });
+
+  test('Conversation stream should reject unknown conversations before streaming', async () => {
+    const response = await request(app)
+      .post('/api/conversation/continue/stream')
+      .set('x-api-key', mockApiKeys.basic)
+      .send({ conversationId: 'conv_missing', userMessage: 'Hola' });
+
+    expect(response.status).toBe(404);
+    expect(response.headers['content-type']).toContain('application/json');
+  });
+
+  test('Aborted conversation streams should save the partial reply', async () => {
+    const user: AuthenticatedUser = { id: 'user-stream-abort', tier: 'basic' };
+    const controller = new AbortController();
+
+    const mcp = {
+      queryWithContext: jest.fn().mockResolvedValue({ response: 'Mocked response', metadata: {} }),
+      async *streamChatWithContext(): AsyncGenerator<McpStreamEvent> {
+        yield { type: 'delta', text: '¡Hola! ' };
+        yield { type: 'delta', text: '¿Cómo estás?' };
+        yield {
+          type: 'done',
+          response: '¡Hola! ¿Cómo estás?',
+          metadata: { contextType: ContextType.CONVERSATION, itemCount: 0, processingTimeMs: 1, tier: AccessTier.BASIC }
+        };
+      }
+    } as unknown as SpanishMcp;
+
+    const { conversationId } = await startConversation(mcp, user, {
+      topic: 'greetings',
+      difficultyLevel: 'beginner'
+    });
+
+    const events = await streamConversationContinuation(
+      mcp,
+      user,
+      { conversationId, userMessage: 'Hola' },
+      controller.signal
+    );
+
+    // The client disconnects after the first delta
+    for await (const event of events) {
+      expect(event.type).toBe('delta');
+      controller.abort();
+      break;
+    }
+
+    const conversation = await getConversationRepository().get(conversationId);
+    const lastMessage = conversation!.messages[conversation!.messages.length - 1];
+    expect(lastMessage).toMatchObject({ role: 'system', content: '¡Hola! ' });
+  });
+});
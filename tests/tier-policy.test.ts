@@ -0,0 +1,99 @@
+/**
+ * Tier policy tests for the Spanish Learning MCP Server
+ *
+ * These tests validate that tier policy files override the built-in policies, that
+ * invalid changes are rejected, and that routes follow the current policies.
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { app } from '../server.js';
+import {
+  TierPolicyRegistry,
+  getTierPolicyRegistry,
+  parseTierPolicyOverrides,
+  setTierPolicyRegistry
+} from '../lib/tier-policy.js';
+import { registerApiKey } from '../middleware/auth.js';
+
+describe('Tier Policy Tests', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tier-policy-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('Policy files should override parts of the built-in policies', async () => {
+    const filePath = path.join(tempDir, 'tiers.yaml');
+    await fs.writeFile(filePath, [
+      'free:',
+      '  context:',
+      '    maxItems: 8',
+      '  exercise:',
+      '    types: [multiple_choice]'
+    ].join('\n'));
+
+    const registry = new TierPolicyRegistry();
+    registry.load(filePath);
+
+    expect(registry.get('free').context).toMatchObject({ maxItems: 8, maxTokens: 1000 });
+    expect(registry.get('free').exercise.types).toEqual(['multiple_choice']);
+    expect(registry.get('basic').context.maxItems).toBe(20);
+
+    // A rejected file leaves the previous policies in effect
+    await fs.writeFile(filePath, 'free:\n  context:\n    maxItems: 0\n');
+
+    expect(() => registry.load(filePath)).toThrow('Invalid tier policies');
+    expect(registry.get('free').context.maxItems).toBe(8);
+
+    expect(() => parseTierPolicyOverrides('{"gold": {}}', 'tiers.json')).toThrow('"gold" is not allowed');
+    expect(() => parseTierPolicyOverrides('{"free": {"exercise": {"types": ["essay"]}}}', 'tiers.json'))
+      .toThrow('Invalid tier policies');
+  });
+
+  test('GET /api/tiers should describe every tier', async () => {
+    const response = await request(app).get('/api/tiers');
+
+    expect(response.status).toBe(200);
+    expect(response.body.tiers.map(({ tier }: { tier: string }) => tier)).toEqual(['free', 'basic', 'premium']);
+
+    const [free] = response.body.tiers;
+
+    expect(free.context.maxItems).toBe(5);
+    expect(free.rateLimits.api).toEqual({ requests: 20, windowSeconds: 900 });
+    expect(free.conversation).toMatchObject({ maxCefrLevel: 'A2', cefrLevels: ['A1', 'A2'], difficultyLevels: ['beginner'] });
+    expect(free.exercise.types).toEqual(['vocabulary_matching', 'multiple_choice']);
+
+    expect((await request(app).get('/api/tiers/gold')).status).toBe(404);
+  });
+
+  test('Routes should follow the current policies', async () => {
+    const previous = getTierPolicyRegistry();
+    const apiKey = await registerApiKey('policy-free-user', 'free');
+
+    try {
+      setTierPolicyRegistry(new TierPolicyRegistry({
+        free: { exercise: { types: ['vocabulary_matching', 'multiple_choice', 'fill_in_blank'] } }
+      }));
+
+      const types = await request(app)
+        .get('/api/exercise/types')
+        .set('x-api-key', apiKey);
+
+      expect(types.status).toBe(200);
+      expect(types.body.exerciseTypes.map(({ id }: { id: string }) => id))
+        .toEqual(['vocabulary_matching', 'multiple_choice', 'fill_in_blank']);
+
+      const tier = await request(app).get('/api/tiers/free');
+
+      expect(tier.body.exercise.types).toContain('fill_in_blank');
+    } finally {
+      setTierPolicyRegistry(previous);
+    }
+  });
+});
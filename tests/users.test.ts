@@ -0,0 +1,103 @@
+/**
+ * User registry tests for the Spanish Learning MCP Server
+ *
+ * These tests validate that registered users and tiers are stored, that the file-backed
+ * store survives a restart, and that API key authentication uses the registered tier.
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { app } from '../server.js';
+import { FileUserRepository } from '../lib/user-repository.js';
+import { removeUser, updateUserTier } from '../lib/user-service.js';
+
+const ADMIN_KEY = 'test-admin-key';
+
+describe('User Registry Tests', () => {
+  let tempDir: string;
+  let apiKey: string;
+
+  beforeAll(() => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'users-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('File store should keep users across restarts', async () => {
+    const filePath = path.join(tempDir, 'users.json');
+    const createdAt = new Date('2026-01-15T10:00:00Z');
+
+    const repository = new FileUserRepository(filePath);
+    await repository.save({ id: 'user-a', tier: 'basic', name: 'Ana', createdAt, updatedAt: createdAt });
+    await repository.save({ id: 'user-b', tier: 'free', createdAt, updatedAt: createdAt });
+    expect(await repository.delete('user-b')).toBe(true);
+    await repository.close();
+
+    // A new instance simulates a server restart
+    const restarted = new FileUserRepository(filePath);
+    const user = await restarted.get('user-a');
+
+    expect(user).toEqual({ id: 'user-a', tier: 'basic', name: 'Ana', createdAt, updatedAt: createdAt });
+    expect(user?.createdAt).toBeInstanceOf(Date);
+    expect(await restarted.count()).toBe(1);
+  });
+
+  test('Registered users should be returned and duplicates and unknown users rejected', async () => {
+    const registered = await request(app)
+      .post('/api/users')
+      .set('x-admin-key', ADMIN_KEY)
+      .send({ userId: 'registry-user', name: 'Registry User', tier: 'basic' });
+
+    expect(registered.status).toBe(201);
+    apiKey = registered.body.apiKey;
+
+    const duplicate = await request(app)
+      .post('/api/users')
+      .set('x-admin-key', ADMIN_KEY)
+      .send({ userId: 'registry-user', tier: 'premium' });
+
+    expect(duplicate.status).toBe(409);
+
+    const fetched = await request(app)
+      .get('/api/users/registry-user')
+      .set('x-admin-key', ADMIN_KEY);
+
+    expect(fetched.status).toBe(200);
+    expect(fetched.body.user).toMatchObject({ id: 'registry-user', name: 'Registry User', tier: 'basic' });
+
+    const unknownUser = await request(app)
+      .get('/api/users/nobody')
+      .set('x-admin-key', ADMIN_KEY);
+
+    expect(unknownUser.status).toBe(404);
+
+    const unknownTier = await request(app)
+      .put('/api/users/nobody/tier')
+      .set('x-admin-key', ADMIN_KEY)
+      .send({ tier: 'premium' });
+
+    expect(unknownTier.status).toBe(404);
+  });
+
+  test('API key authentication should use the registered tier', async () => {
+    const topics = () => request(app)
+      .get('/api/conversation/topics')
+      .set('x-api-key', apiKey);
+
+    expect((await topics()).body.tier).toBe('basic');
+
+    expect(await updateUserTier('registry-user', 'premium')).toMatchObject({ tier: 'premium' });
+    expect((await topics()).body.tier).toBe('premium');
+
+    expect(await removeUser('registry-user')).toBe(true);
+    expect(await removeUser('registry-user')).toBe(false);
+    expect((await topics()).body.tier).toBe('free');
+  });
+});